@@ -0,0 +1,60 @@
+// Small in-memory cache shared by the API route handlers. Entries
+// expire after a fixed TTL, concurrent misses for the same key share a single
+// upstream request, and the last good response is served if the refresh fails.
+// Callers whose keys change over time (e.g. per forecast hour) pass a stable
+// stale key so that fallback still finds the previous period's response.
+
+interface CacheEntry<T> {
+  expiresAt: number;
+  data: T;
+}
+
+export interface CacheResult<T> {
+  data: T;
+  cached: boolean;
+  maxAgeSeconds: number; // for the response Cache-Control header
+}
+
+export function createUpstreamCache<T>(ttlMs: number, maxEntries = 200) {
+  const cache = new Map<string, CacheEntry<T>>();
+  const lastGood = new Map<string, T>();
+  const inFlight = new Map<string, Promise<T>>();
+
+  return async function get(key: string, load: () => Promise<T>, staleKey: string = key): Promise<CacheResult<T>> {
+    const now = Date.now();
+    const cached = cache.get(key);
+
+    if (cached && cached.expiresAt > now) {
+      return { data: cached.data, cached: true, maxAgeSeconds: Math.round((cached.expiresAt - now) / 1000) };
+    }
+
+    try {
+      // Collapse concurrent requests for the same key into one upstream call
+      let pending = inFlight.get(key);
+      if (!pending) {
+        pending = load().finally(() => inFlight.delete(key));
+        inFlight.set(key, pending);
+      }
+      const data = await pending;
+
+      if (cache.size >= maxEntries) {
+        const oldestKey = cache.keys().next().value;
+        if (oldestKey) cache.delete(oldestKey);
+      }
+      cache.set(key, { data, expiresAt: Date.now() + ttlMs });
+      lastGood.delete(staleKey);
+      if (lastGood.size >= maxEntries) {
+        const oldestKey = lastGood.keys().next().value;
+        if (oldestKey) lastGood.delete(oldestKey);
+      }
+      lastGood.set(staleKey, data);
+
+      return { data, cached: false, maxAgeSeconds: ttlMs / 1000 };
+    } catch (err) {
+      // Serve the last good response rather than failing outright
+      const stale = lastGood.get(staleKey);
+      if (stale) return { data: stale, cached: true, maxAgeSeconds: 0 };
+      throw err;
+    }
+  };
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ForecastQuery,
+  ForecastResponse,
+  buildForecastUrl,
+  forecastCacheKey,
+  forecastLocationKey,
+  parseForecastQuery,
+} from '../../lib/openMeteo';
+import { createUpstreamCache } from '../cache';
+
+// Keys include the forecast hour, so an entry is never reused once the hour
+// rolls over; if Open-Meteo fails, the location's last forecast is served instead
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+const cache = createUpstreamCache<Omit<ForecastResponse, 'cached'>>(CACHE_TTL_MS);
+
+async function fetchFromOpenMeteo(query: ForecastQuery): Promise<Omit<ForecastResponse, 'cached'>> {
+  const response = await fetch(buildForecastUrl(query), {
+    headers: { 'Accept': 'application/json' },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error(`Open-Meteo responded with ${response.status}`);
+  }
+
+  const json = await response.json();
+  return {
+    latitude: json.latitude,
+    longitude: json.longitude,
+    timezone: json.timezone,
+    current: json.current,
+    hourly: json.hourly,
+    daily: json.daily,
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const query = parseForecastQuery(request.nextUrl.searchParams);
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+
+  try {
+    const { data, cached, maxAgeSeconds } = await cache(
+      forecastCacheKey(query),
+      () => fetchFromOpenMeteo(query),
+      forecastLocationKey(query),
+    );
+    // Browsers shouldn't hold on to a response past the end of its forecast hour
+    const secondsToNextHour = 3600 - (Math.floor(Date.now() / 1000) % 3600);
+    return NextResponse.json(
+      { ...data, cached } satisfies ForecastResponse,
+      { headers: { 'Cache-Control': `public, max-age=${Math.min(maxAgeSeconds, secondsToNextHour)}` } },
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Forecast service unavailable' },
+      { status: 502 },
+    );
+  }
+}
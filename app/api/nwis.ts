@@ -0,0 +1,20 @@
+import { NwisResponse, normalizeNwisResponse } from '../lib/usgs';
+
+// Fetch and normalize an NWIS instantaneous or daily values request for the
+// USGS route handlers; Next's fetch cache is kept for as long as ours
+export async function fetchFromNwis(url: string, siteId: string, revalidateSeconds: number): Promise<Omit<NwisResponse, 'cached'>> {
+  const response = await fetch(url, {
+    headers: { 'Accept': 'application/json' },
+    next: { revalidate: revalidateSeconds },
+  });
+
+  if (!response.ok) {
+    throw new Error(`NWIS responded with ${response.status}`);
+  }
+
+  const json = await response.json();
+  return {
+    ...normalizeNwisResponse(json, siteId),
+    fetchedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  NWIS_DV_URL,
+  NwisResponse,
+  STAT_DAILY_MEAN,
+  buildNwisUrl,
+  parseNwisQuery,
+} from '../../../lib/usgs';
+import { createUpstreamCache } from '../../cache';
+import { fetchFromNwis } from '../../nwis';
+
+// Daily values are computed once a day and multi-decade requests are large,
+// so keep them for several hours
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const cache = createUpstreamCache<Omit<NwisResponse, 'cached'>>(CACHE_TTL_MS, 50);
+
+export async function GET(request: NextRequest) {
+  const query = parseNwisQuery(request.nextUrl.searchParams);
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+
+  const url = buildNwisUrl(NWIS_DV_URL, { ...query, statisticCode: STAT_DAILY_MEAN });
+
+  try {
+    const { data, cached, maxAgeSeconds } = await cache(url, () => fetchFromNwis(url, query.siteId, CACHE_TTL_MS / 1000));
+    return NextResponse.json(
+      { ...data, cached } satisfies NwisResponse,
+      { headers: { 'Cache-Control': `public, max-age=${maxAgeSeconds}` } },
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'USGS service unavailable' },
+      { status: 502 },
+    );
+  }
+}
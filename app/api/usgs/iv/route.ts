@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  NWIS_IV_URL,
+  NwisResponse,
+  buildNwisUrl,
+  parseNwisQuery,
+} from '../../../lib/usgs';
+import { createUpstreamCache } from '../../cache';
+import { fetchFromNwis } from '../../nwis';
+
+// NWIS instantaneous values are published at 15 minute intervals, so there is
+// no benefit in hitting the upstream service more often than that
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+const cache = createUpstreamCache<Omit<NwisResponse, 'cached'>>(CACHE_TTL_MS);
+
+export async function GET(request: NextRequest) {
+  const query = parseNwisQuery(request.nextUrl.searchParams);
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+
+  const url = buildNwisUrl(NWIS_IV_URL, query);
+
+  try {
+    const { data, cached, maxAgeSeconds } = await cache(url, () => fetchFromNwis(url, query.siteId, CACHE_TTL_MS / 1000));
+    return NextResponse.json(
+      { ...data, cached } satisfies NwisResponse,
+      { headers: { 'Cache-Control': `public, max-age=${maxAgeSeconds}` } },
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'USGS service unavailable' },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  NwisStatsResponse,
+  buildNwisStatUrl,
+  normalizeNwisDailyStats,
+  parseNwisQuery,
+} from '../../../lib/usgs';
+import { createUpstreamCache } from '../../cache';
+
+// Day-of-year statistics are recomputed by USGS at most once a year
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const cache = createUpstreamCache<Omit<NwisStatsResponse, 'cached'>>(CACHE_TTL_MS, 50);
+
+async function fetchFromNwis(url: string, siteId: string, parameterCode: string): Promise<Omit<NwisStatsResponse, 'cached'>> {
+  const response = await fetch(url, {
+    headers: { 'Accept': 'text/plain' },
+    next: { revalidate: CACHE_TTL_MS / 1000 },
+  });
+
+  if (!response.ok) {
+    throw new Error(`NWIS responded with ${response.status}`);
+  }
+
+  const rdb = await response.text();
+  return {
+    ...normalizeNwisDailyStats(rdb, siteId, parameterCode),
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const query = parseNwisQuery(request.nextUrl.searchParams);
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+  if (query.parameterCodes.length !== 1) {
+    return NextResponse.json({ error: 'Statistics are available for one parameterCd at a time' }, { status: 400 });
+  }
+
+  const [parameterCode] = query.parameterCodes;
+  const url = buildNwisStatUrl(query.siteId, parameterCode);
+
+  try {
+    const { data, cached, maxAgeSeconds } = await cache(url, () => fetchFromNwis(url, query.siteId, parameterCode));
+    return NextResponse.json(
+      { ...data, cached } satisfies NwisStatsResponse,
+      { headers: { 'Cache-Control': `public, max-age=${maxAgeSeconds}` } },
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'USGS service unavailable' },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { Trash2, Undo2 } from 'lucide-react';
+import {
+  PolygonMeasurement,
+  SQ_METERS_PER_ACRE,
+  SQ_METERS_PER_HECTARE,
+  SQ_METERS_PER_SQ_MILE,
+} from '../lib/areaMeasure';
+import { DistanceUnit, formatDistance } from '../lib/geodesy';
+
+interface AreaMeasurementProps {
+  measurement: PolygonMeasurement | null;
+  vertexCount: number;
+  waterLevel: number;
+  distanceUnit: DistanceUnit;
+  onUndo: () => void;
+  onClear: () => void;
+}
+
+const formatAcres = (squareMeters: number) =>
+  `${(squareMeters / SQ_METERS_PER_ACRE).toLocaleString(undefined, { maximumFractionDigits: 1 })} ac`;
+
+// Area, perimeter and overlap breakdown of the polygon drawn with the Area tool
+export default function AreaMeasurement({ measurement, vertexCount, waterLevel, distanceUnit, onUndo, onClear }: AreaMeasurementProps) {
+  const percent = (squareMeters: number) =>
+    measurement && measurement.squareMeters > 0 ? `${Math.round(squareMeters / measurement.squareMeters * 100)}%` : '';
+
+  return (
+    <div className="mt-3 bg-slate-900/50 rounded-lg p-3 border border-slate-700 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-slate-400">{vertexCount} point{vertexCount === 1 ? '' : 's'}</span>
+        {vertexCount > 0 && (
+          <div className="flex items-center gap-2">
+            <button onClick={onUndo} className="text-slate-400 hover:text-slate-200 transition-colors" title="Remove last point">
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button onClick={onClear} className="text-slate-500 hover:text-red-400 transition-colors" title="Clear polygon">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {measurement ? (
+        <>
+          <div className="grid grid-cols-3 gap-2 mt-2">
+            <div>
+              <div className="text-slate-500">Acres</div>
+              <div className="text-emerald-400 font-mono text-sm">
+                {(measurement.squareMeters / SQ_METERS_PER_ACRE).toLocaleString(undefined, { maximumFractionDigits: 1 })}
+              </div>
+            </div>
+            <div>
+              <div className="text-slate-500">Sq miles</div>
+              <div className="text-slate-200 font-mono text-sm">{(measurement.squareMeters / SQ_METERS_PER_SQ_MILE).toFixed(3)}</div>
+            </div>
+            <div>
+              <div className="text-slate-500">Hectares</div>
+              <div className="text-slate-200 font-mono text-sm">
+                {(measurement.squareMeters / SQ_METERS_PER_HECTARE).toLocaleString(undefined, { maximumFractionDigits: 1 })}
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-between mt-2">
+            <span className="text-slate-400">Perimeter</span>
+            <span className="text-slate-300 font-mono">{formatDistance(measurement.perimeterMeters, distanceUnit)}</span>
+          </div>
+
+          <div className="mt-2 pt-2 border-t border-slate-700 space-y-1">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Within the lake</span>
+              <span className="text-cyan-400 font-mono">
+                {formatAcres(measurement.withinLake)} <span className="text-slate-500">{percent(measurement.withinLake)}</span>
+              </span>
+            </div>
+            {measurement.zones.map(({ zone, squareMeters }) => (
+              <div key={zone.id} className="flex justify-between">
+                <span className="flex items-center gap-2 text-slate-400">
+                  <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: zone.color }} />
+                  {zone.name}
+                </span>
+                <span className="text-slate-300 font-mono">
+                  {formatAcres(squareMeters)} <span className="text-slate-500">{percent(squareMeters)}</span>
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between">
+              <span className="text-slate-400">Below {waterLevel} ft</span>
+              <span className="text-yellow-400 font-mono">
+                {measurement.belowWaterLevel !== null ? (
+                  <>{formatAcres(measurement.belowWaterLevel)} <span className="text-slate-500">{percent(measurement.belowWaterLevel)}</span></>
+                ) : '—'}
+              </span>
+            </div>
+            {measurement.belowWaterLevel === null ? (
+              <div className="text-slate-500">Load a DEM or bathymetric survey to measure ground below the water level.</div>
+            ) : measurement.elevationCoverage < 0.99 && (
+              <div className="text-slate-500">
+                Elevation data covers {Math.round(measurement.elevationCoverage * 100)}% of the polygon.
+              </div>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="mt-2 text-slate-500">Click three or more points on the map to outline an area.</div>
+      )}
+    </div>
+  );
+}
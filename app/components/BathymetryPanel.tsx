@@ -0,0 +1,187 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Layers, Upload, Trash2 } from 'lucide-react';
+import { BathymetrySurvey, DepthContour, SurveyPoint, parseXyz } from '../lib/bathymetry';
+import type { LakeInfo } from '../lib/lakes';
+
+interface BathymetryPanelProps {
+  info: LakeInfo;
+  survey: BathymetrySurvey | null;
+  contours: DepthContour[];
+  interval: number;
+  onIntervalChange: (interval: number) => void;
+  onImport: (points: SurveyPoint[], name: string) => void;
+  onClear: () => void;
+  selectedElevation: number;
+  onSelectElevation: (elevation: number) => void;
+}
+
+const CONTOUR_INTERVALS = [1, 2, 5, 10, 20];
+
+// Coordinate systems offered for XYZ files
+const XYZ_CRS_OPTIONS = [
+  { epsg: 4326, label: 'Lon/lat (WGS84)' },
+  { epsg: 26914, label: 'UTM 14N (NAD83)' },
+  { epsg: 26915, label: 'UTM 15N (NAD83)' },
+  { epsg: 32614, label: 'UTM 14N (WGS84)' },
+  { epsg: 32615, label: 'UTM 15N (WGS84)' },
+  { epsg: 3857, label: 'Web Mercator' },
+];
+
+type ZFormat = 'elevation-ft' | 'elevation-m' | 'depth-ft' | 'depth-m';
+
+const Z_FORMATS: { value: ZFormat; label: string }[] = [
+  { value: 'elevation-ft', label: 'Elevation (ft)' },
+  { value: 'elevation-m', label: 'Elevation (m)' },
+  { value: 'depth-ft', label: 'Depth (ft)' },
+  { value: 'depth-m', label: 'Depth (m)' },
+];
+
+const SELECT_CLASS = 'bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 focus:outline-none focus:border-emerald-500';
+
+export default function BathymetryPanel({
+  info,
+  survey,
+  contours,
+  interval,
+  onIntervalChange,
+  onImport,
+  onClear,
+  selectedElevation,
+  onSelectElevation,
+}: BathymetryPanelProps) {
+  const [epsg, setEpsg] = useState(4326);
+  const [zFormat, setZFormat] = useState<ZFormat>('depth-ft');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const [zKind, zUnit] = zFormat.split('-') as ['elevation' | 'depth', 'ft' | 'm'];
+    const result = parseXyz(await file.text(), {
+      epsg,
+      zUnit,
+      zIsDepth: zKind === 'depth',
+      referenceElevation: info.normalPoolElevation,
+    });
+    if (result.points.length > 0) onImport(result.points, file.name);
+    setImportMessage(
+      `Imported ${result.points.length.toLocaleString()} points` +
+      (result.skipped ? `, skipped ${result.skipped}` : '') +
+      (result.warnings.length ? ` (${result.warnings.join('; ')})` : '')
+    );
+  };
+
+  // Generated contours below the pool, then the reference levels above it
+  const legend = [
+    ...contours.map(contour => ({
+      elevation: contour.elevation,
+      color: contour.color,
+      label: `${contour.depth} ft contour`,
+      detail: `${contour.depth}ft deep`,
+    })),
+    { elevation: info.normalPoolElevation, color: '#90cdf4', label: 'Normal Pool', detail: 'Surface' },
+    { elevation: info.floodStageElevation, color: '#ffc107', label: 'Flood Stage', detail: `+${info.floodStageElevation - info.normalPoolElevation}ft` },
+    { elevation: info.topOfDamElevation, color: '#f44336', label: 'Dam Crest', detail: `+${info.topOfDamElevation - info.normalPoolElevation}ft` },
+  ];
+
+  return (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-emerald-400 font-semibold flex items-center gap-2">
+          <Layers className="w-4 h-4" /> Elevation Contours
+        </h4>
+        <label className="flex items-center gap-1 text-xs text-slate-400">
+          Interval
+          <select value={interval} onChange={(e) => onIntervalChange(Number(e.target.value))} className={SELECT_CLASS}>
+            {CONTOUR_INTERVALS.map(value => (
+              <option key={value} value={value}>{value} ft</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 text-xs mb-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-slate-300 truncate">
+            {survey ? `${survey.name} · ${survey.points.length.toLocaleString()} points` : 'No bathymetric survey'}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors"
+              title="Import sonar or survey points as x y z text"
+            >
+              <Upload className="w-3 h-3" /> XYZ
+            </button>
+            {survey && (
+              <button
+                onClick={() => {
+                  onClear();
+                  setImportMessage(null);
+                }}
+                className="text-slate-500 hover:text-red-400 transition-colors"
+                title="Remove survey"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xyz,.txt,.csv,text/plain,text/csv"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </div>
+        <div className="flex gap-2 mt-2">
+          <select value={epsg} onChange={(e) => setEpsg(Number(e.target.value))} className={SELECT_CLASS} title="x/y coordinate system">
+            {XYZ_CRS_OPTIONS.map(option => (
+              <option key={option.epsg} value={option.epsg}>{option.label}</option>
+            ))}
+          </select>
+          <select value={zFormat} onChange={(e) => setZFormat(e.target.value as ZFormat)} className={SELECT_CLASS} title="Meaning of z; depths are measured from normal pool">
+            {Z_FORMATS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {importMessage && <div className="mt-1 text-slate-500">{importMessage}</div>}
+        {!survey && (
+          <div className="mt-1 text-slate-500">Import a survey to generate depth contours on the map.</div>
+        )}
+      </div>
+
+      <div className="space-y-2 max-h-72 overflow-y-auto">
+        {legend.map((entry) => (
+          <div
+            key={`${entry.label}-${entry.elevation}`}
+            className={`flex items-center gap-3 p-2 rounded cursor-pointer transition-all ${
+              selectedElevation === entry.elevation
+                ? 'bg-slate-700 ring-1 ring-emerald-500'
+                : 'hover:bg-slate-700/50'
+            }`}
+            onClick={() => onSelectElevation(entry.elevation)}
+          >
+            <div
+              className="w-4 h-4 rounded"
+              style={{ backgroundColor: entry.color }}
+            />
+            <div className="flex-1">
+              <div className="text-slate-200 text-sm font-medium">{entry.label}</div>
+              <div className="text-slate-500 text-xs">{entry.elevation} ft elevation</div>
+            </div>
+            <div className="text-right">
+              <div className="text-slate-400 text-sm font-mono">{entry.detail}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -5,126 +5,33 @@ import {
   Anchor, CheckCircle, XCircle, AlertTriangle,
   Car, Navigation, Phone, MapPin
 } from 'lucide-react';
-
-interface BoatRamp {
-  id: string;
-  name: string;
-  location: string;
-  minElevation: number; // Minimum water elevation for ramp access
-  optimalElevation: number; // Optimal water elevation
-  coordinates: { lat: number; lng: number };
-  amenities: string[];
-  parkingSpaces: number;
-  phone?: string;
-}
+import { RampStatus, getRampStatus } from '../lib/boatRamps';
+import type { BoatRamp } from '../lib/lakes';
+import type { Provenance } from '../lib/provenance';
+import ProvenanceBadge from './ProvenanceBadge';
 
 interface BoatRampStatusProps {
+  ramps: BoatRamp[];
   currentElevation: number;
+  elevationProvenance: Provenance;
   normalPoolElevation: number;
 }
 
-// Sardis Lake boat ramps data
-const BOAT_RAMPS: BoatRamp[] = [
-  {
-    id: 'potato-hills',
-    name: 'Potato Hills North',
-    location: 'North Shore',
-    minElevation: 590,
-    optimalElevation: 595,
-    coordinates: { lat: 34.6850, lng: -95.3750 },
-    amenities: ['Parking', 'Restrooms', 'Fish Cleaning Station', 'Camping'],
-    parkingSpaces: 75,
-    phone: '(918) 567-2523',
-  },
-  {
-    id: 'potato-hills-south',
-    name: 'Potato Hills South',
-    location: 'South Shore',
-    minElevation: 588,
-    optimalElevation: 594,
-    coordinates: { lat: 34.6720, lng: -95.3680 },
-    amenities: ['Parking', 'Restrooms', 'Picnic Area'],
-    parkingSpaces: 50,
-  },
-  {
-    id: 'sardis-cove',
-    name: 'Sardis Cove Marina',
-    location: 'East Shore',
-    minElevation: 585,
-    optimalElevation: 592,
-    coordinates: { lat: 34.6550, lng: -95.3550 },
-    amenities: ['Full Service Marina', 'Fuel Dock', 'Boat Rental', 'Store', 'Restaurant'],
-    parkingSpaces: 120,
-    phone: '(918) 567-2323',
-  },
-  {
-    id: 'billy-creek',
-    name: 'Billy Creek',
-    location: 'West Shore',
-    minElevation: 592,
-    optimalElevation: 597,
-    coordinates: { lat: 34.6480, lng: -95.4100 },
-    amenities: ['Parking', 'Restrooms', 'Primitive Camping'],
-    parkingSpaces: 35,
-  },
-  {
-    id: 'jackfork',
-    name: 'Jackfork Creek',
-    location: 'Northwest Arm',
-    minElevation: 594,
-    optimalElevation: 598,
-    coordinates: { lat: 34.6900, lng: -95.4200 },
-    amenities: ['Parking', 'Hiking Trails'],
-    parkingSpaces: 25,
-  },
-];
-
-type RampStatus = 'open' | 'limited' | 'closed';
-
-function getRampStatus(ramp: BoatRamp, currentElevation: number): {
-  status: RampStatus;
-  message: string;
-  launchable: string[];
-} {
-  const diff = currentElevation - ramp.minElevation;
-
-  if (currentElevation >= ramp.optimalElevation) {
-    return {
-      status: 'open',
-      message: 'Fully operational - optimal conditions',
-      launchable: ['All vessels', 'Large boats', 'Pontoons', 'PWC'],
-    };
-  } else if (currentElevation >= ramp.minElevation + 3) {
-    return {
-      status: 'open',
-      message: 'Accessible - good conditions',
-      launchable: ['Most boats', 'Medium vessels', 'PWC'],
-    };
-  } else if (currentElevation >= ramp.minElevation) {
-    return {
-      status: 'limited',
-      message: `Limited access - ${diff.toFixed(1)} ft above minimum`,
-      launchable: ['Small boats', 'Kayaks', 'Canoes', 'PWC'],
-    };
-  } else {
-    return {
-      status: 'closed',
-      message: `Closed - water ${Math.abs(diff).toFixed(1)} ft below minimum`,
-      launchable: [],
-    };
-  }
-}
-
 export default function BoatRampStatus({
+  ramps,
   currentElevation,
+  elevationProvenance,
   normalPoolElevation,
 }: BoatRampStatusProps) {
   const rampStatuses = useMemo(() => {
-    return BOAT_RAMPS.map(ramp => ({
+    return ramps.map(ramp => ({
       ...ramp,
       ...getRampStatus(ramp, currentElevation),
     }));
-  }, [currentElevation]);
+  }, [ramps, currentElevation]);
+
+  // Scale the level bar from the lowest ramp's minimum up to normal pool
+  const lowestRampElevation = Math.min(...ramps.map(r => r.minElevation));
 
   const openCount = rampStatuses.filter(r => r.status === 'open').length;
   const limitedCount = rampStatuses.filter(r => r.status === 'limited').length;
@@ -159,8 +66,9 @@ export default function BoatRampStatus({
           <h4 className="text-emerald-400 font-semibold flex items-center gap-2">
             <Anchor className="w-4 h-4" /> Boat Ramp Status
           </h4>
-          <div className="text-xs text-slate-400">
+          <div className="flex items-center gap-2 text-xs text-slate-400">
             @ {currentElevation.toFixed(1)} ft
+            <ProvenanceBadge provenance={elevationProvenance} />
           </div>
         </div>
 
@@ -281,12 +189,12 @@ export default function BoatRampStatus({
                 'bg-orange-500'
               }`}
               style={{
-                width: `${Math.min(100, Math.max(0, ((currentElevation - 585) / (normalPoolElevation - 585)) * 100))}%`,
+                width: `${Math.min(100, Math.max(0, ((currentElevation - lowestRampElevation) / (normalPoolElevation - lowestRampElevation)) * 100))}%`,
               }}
             />
           </div>
           <div className="flex justify-between text-xs text-slate-600 mt-1">
-            <span>585 ft</span>
+            <span>{lowestRampElevation} ft</span>
             <span>{normalPoolElevation} ft (normal)</span>
           </div>
         </div>
@@ -0,0 +1,127 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, Download, Pencil, Trash2, Upload } from 'lucide-react';
+import { Bookmark, parseBookmarksJson } from '../lib/bookmarks';
+
+interface BookmarkManagerProps {
+  lakeSlug: string;
+  bookmarks: Bookmark[];
+  syncError: string | null;
+  onLoad: (bookmark: Bookmark) => void;
+  onRename: (id: string, name: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onDelete: (id: string) => void;
+  onImport: (bookmarks: Bookmark[]) => void;
+  onExport: () => void;
+}
+
+const ICON_BUTTON = 'text-slate-500 hover:text-slate-200 disabled:opacity-30 disabled:hover:text-slate-500 transition-colors';
+
+// Saved views with rename, reorder, delete and JSON import/export
+export default function BookmarkManager({
+  lakeSlug,
+  bookmarks,
+  syncError,
+  onLoad,
+  onRename,
+  onMove,
+  onDelete,
+  onImport,
+  onExport,
+}: BookmarkManagerProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseBookmarksJson(await file.text(), lakeSlug);
+    if (result.bookmarks.length > 0) onImport(result.bookmarks);
+    setImportMessage(
+      `Imported ${result.bookmarks.length} bookmark${result.bookmarks.length === 1 ? '' : 's'}` +
+      (result.skipped ? `, skipped ${result.skipped}` : '') +
+      (result.warnings.length ? ` (${result.warnings.join('; ')})` : '')
+    );
+  };
+
+  const startRename = (bookmark: Bookmark) => {
+    setEditingId(bookmark.id);
+    setDraftName(bookmark.name);
+  };
+
+  const finishRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-700 text-xs">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="text-slate-400">Saved Bookmarks ({bookmarks.length})</span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className={ICON_BUTTON} title="Import bookmarks (JSON)">
+            <Upload className="w-3 h-3" />
+          </button>
+          <button onClick={onExport} disabled={bookmarks.length === 0} className={ICON_BUTTON} title="Export bookmarks (JSON)">
+            <Download className="w-3 h-3" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+      {importMessage && <div className="mb-2 text-slate-500">{importMessage}</div>}
+      {syncError && <div className="mb-2 text-yellow-400">Not synced with the bookmark server: {syncError}</div>}
+
+      {bookmarks.length > 0 && (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {bookmarks.map((bookmark, i) => (
+            <div key={bookmark.id} className="text-slate-300 p-1 bg-slate-900 rounded flex items-center gap-2">
+              {editingId === bookmark.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-1 text-xs text-slate-200 focus:outline-none focus:border-emerald-500"
+                />
+              ) : (
+                <span className="truncate flex-1" title={`Saved ${new Date(bookmark.createdAt).toLocaleString()}`}>
+                  {bookmark.name}
+                </span>
+              )}
+              <button onClick={() => onMove(bookmark.id, -1)} disabled={i === 0} className={ICON_BUTTON} title="Move up">
+                <ChevronUp className="w-3 h-3" />
+              </button>
+              <button onClick={() => onMove(bookmark.id, 1)} disabled={i === bookmarks.length - 1} className={ICON_BUTTON} title="Move down">
+                <ChevronDown className="w-3 h-3" />
+              </button>
+              <button onClick={() => startRename(bookmark)} className={ICON_BUTTON} title="Rename">
+                <Pencil className="w-3 h-3" />
+              </button>
+              <button onClick={() => onDelete(bookmark.id)} className="text-slate-500 hover:text-red-400 transition-colors" title="Delete">
+                <Trash2 className="w-3 h-3" />
+              </button>
+              <button onClick={() => onLoad(bookmark)} className="text-emerald-400 hover:text-emerald-300">
+                Load
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, PenLine, Trash2, Undo2 } from 'lucide-react';
+import { downloadFile } from '../lib/download';
+import { ProfileSource, ProfileStation, profileToCsv } from '../lib/profile';
+
+interface CrossSectionProfileProps {
+  stations: ProfileStation[];
+  vertexCount: number;
+  currentLevel: number | null;
+  floodLevel: number;
+  drawing: boolean;
+  onToggleDrawing: () => void;
+  onUndo: () => void;
+  onClear: () => void;
+  fileName: string;
+}
+
+const SOURCE_LABELS: Record<ProfileSource, string> = {
+  bathymetry: 'survey',
+  dem: 'DEM',
+  terrain: 'basemap terrain',
+};
+
+// Chart area inside the 400 x 140 view box
+const LEFT = 34;
+const RIGHT = 392;
+const TOP = 8;
+const BOTTOM = 122;
+
+const BUTTON_CLASS = 'flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors';
+
+function formatDistance(feet: number): string {
+  return feet >= 5280 ? `${(feet / 5280).toFixed(2)} mi` : `${Math.round(feet).toLocaleString()} ft`;
+}
+
+// Ground profile along the drawn line with the current and simulated water levels
+export default function CrossSectionProfile({
+  stations,
+  vertexCount,
+  currentLevel,
+  floodLevel,
+  drawing,
+  onToggleDrawing,
+  onUndo,
+  onClear,
+  fileName,
+}: CrossSectionProfileProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const grounds = stations.flatMap(station => station.ground === null ? [] : [station.ground]);
+  const hasProfile = grounds.length > 1;
+  const totalDistance = stations.length ? stations[stations.length - 1].distanceFt : 0;
+
+  const levels = [floodLevel, ...(currentLevel !== null ? [currentLevel] : [])];
+  const minElevation = hasProfile ? Math.floor(Math.min(...grounds) - 2) : 0;
+  const maxElevation = hasProfile ? Math.ceil(Math.max(...grounds, ...levels) + 2) : 1;
+
+  const x = (distance: number) => LEFT + (totalDistance > 0 ? distance / totalDistance : 0) * (RIGHT - LEFT);
+  const y = (elevation: number) => BOTTOM - (elevation - minElevation) / (maxElevation - minElevation) * (BOTTOM - TOP);
+
+  // Closed ground polygons, split where no source covers the line
+  const groundPaths: string[] = [];
+  let run: ProfileStation[] = [];
+  [...stations, null].forEach(station => {
+    if (station && station.ground !== null) {
+      run.push(station);
+      return;
+    }
+    if (run.length > 1) {
+      const top = run.map(s => `${x(s.distanceFt).toFixed(1)},${y(s.ground as number).toFixed(1)}`).join(' L ');
+      groundPaths.push(`M ${x(run[0].distanceFt).toFixed(1)},${BOTTOM} L ${top} L ${x(run[run.length - 1].distanceFt).toFixed(1)},${BOTTOM} Z`);
+    }
+    run = [];
+  });
+
+  const sources = [...new Set(stations.flatMap(station => station.source ? [station.source] : []))];
+  const hovered = hoverIndex !== null ? stations[hoverIndex] : null;
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = ((e.clientX - rect.left) / rect.width * 400 - LEFT) / (RIGHT - LEFT);
+    const index = Math.round(Math.max(0, Math.min(1, fraction)) * (stations.length - 1));
+    setHoverIndex(index);
+  };
+
+  const exportCsv = () => {
+    downloadFile(profileToCsv(stations, currentLevel, floodLevel), 'text/csv', `${fileName}-cross-section.csv`);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-emerald-400 font-semibold">Cross-Section Profile</h4>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onToggleDrawing}
+            className={`${BUTTON_CLASS} ${
+              drawing
+                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500'
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+            title="Click points on the map to draw the section line"
+          >
+            <PenLine className="w-3 h-3" /> {drawing ? 'Done' : 'Draw'}
+          </button>
+          {vertexCount > 0 && (
+            <>
+              <button onClick={onUndo} className={`${BUTTON_CLASS} bg-slate-700 text-slate-300 hover:bg-slate-600`} title="Remove last point">
+                <Undo2 className="w-3 h-3" />
+              </button>
+              <button onClick={onClear} className="text-slate-500 hover:text-red-400 transition-colors" title="Clear line">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {hasProfile ? (
+        <>
+          <div className="h-40 bg-slate-900 rounded relative overflow-hidden">
+            <svg
+              viewBox="0 0 400 140"
+              className="w-full h-full"
+              preserveAspectRatio="none"
+              onMouseMove={handleMouseMove}
+              onMouseLeave={() => setHoverIndex(null)}
+            >
+              {/* Water at the simulated level, then the current level over it */}
+              <rect x={LEFT} y={y(floodLevel)} width={RIGHT - LEFT} height={BOTTOM - y(floodLevel)} fill="#ffc107" opacity="0.2" />
+              {currentLevel !== null && (
+                <rect x={LEFT} y={y(currentLevel)} width={RIGHT - LEFT} height={BOTTOM - y(currentLevel)} fill="#3182ce" opacity="0.6" />
+              )}
+
+              {groundPaths.map(d => <path key={d} d={d} fill="#4a3f35" stroke="#a8a29e" strokeWidth="1" />)}
+
+              <line x1={LEFT} y1={y(floodLevel)} x2={RIGHT} y2={y(floodLevel)} stroke="#ffc107" strokeWidth="1" strokeDasharray="4 2" />
+              {currentLevel !== null && (
+                <line x1={LEFT} y1={y(currentLevel)} x2={RIGHT} y2={y(currentLevel)} stroke="#90cdf4" strokeWidth="1" />
+              )}
+
+              {hovered && (
+                <line x1={x(hovered.distanceFt)} y1={TOP} x2={x(hovered.distanceFt)} y2={BOTTOM} stroke="#e2e8f0" strokeWidth="0.5" />
+              )}
+
+              {/* Axes */}
+              <text x="2" y={TOP + 6} fill="#94a3b8" fontSize="8">{maxElevation}</text>
+              <text x="2" y={BOTTOM} fill="#94a3b8" fontSize="8">{minElevation}</text>
+              <text x={LEFT} y="136" fill="#94a3b8" fontSize="8">0</text>
+              <text x={RIGHT} y="136" fill="#94a3b8" fontSize="8" textAnchor="end">{formatDistance(totalDistance)}</text>
+            </svg>
+          </div>
+
+          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs">
+            {currentLevel !== null && (
+              <span className="flex items-center gap-1 text-slate-400">
+                <span className="w-3 h-0 border-t-2 border-blue-300" /> Current {currentLevel.toFixed(1)} ft
+              </span>
+            )}
+            <span className="flex items-center gap-1 text-slate-400">
+              <span className="w-3 h-0 border-t-2 border-dashed border-yellow-400" /> Simulated {floodLevel} ft
+            </span>
+          </div>
+
+          <div className="mt-2 text-xs text-slate-400 min-h-4">
+            {hovered ? (
+              hovered.ground !== null ? (
+                <>
+                  {formatDistance(hovered.distanceFt)} · ground{' '}
+                  <span className="text-slate-200 font-mono">{hovered.ground.toFixed(1)} ft</span>
+                  {currentLevel !== null && hovered.ground < currentLevel && (
+                    <> · depth <span className="text-cyan-400 font-mono">{(currentLevel - hovered.ground).toFixed(1)} ft</span></>
+                  )}
+                  {hovered.source && <span className="text-slate-500"> ({SOURCE_LABELS[hovered.source]})</span>}
+                </>
+              ) : (
+                <>{formatDistance(hovered.distanceFt)} · no elevation data</>
+              )
+            ) : (
+              <span className="text-slate-500">Ground from {sources.map(source => SOURCE_LABELS[source]).join(', ')}</span>
+            )}
+          </div>
+
+          <button
+            onClick={exportCsv}
+            className="w-full mt-3 p-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors"
+          >
+            <Download className="w-4 h-4" /> Export Stations (CSV)
+          </button>
+        </>
+      ) : (
+        <div className="text-xs text-slate-500">
+          {vertexCount < 2
+            ? 'Draw a line across the lake on the map to sample the bed and terrain along it.'
+            : 'No elevation data along this line. Import a bathymetric survey or load a DEM covering it.'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Mountain, Upload, Trash2 } from 'lucide-react';
+import type { DemGrid, VerticalUnit } from '../lib/dem';
+import { describeCrs } from '../lib/projection';
+
+interface DemLoaderProps {
+  dem: DemGrid | null;
+  verticalUnit: VerticalUnit | null;
+  resampled: boolean;
+  loading: boolean;
+  error: string | null;
+  onLoad: (file: File, verticalUnit: VerticalUnit) => void;
+  onClear: () => void;
+}
+
+// Terrain source picker shared by the DEM-based analyses
+export default function DemLoader({ dem, verticalUnit, resampled, loading, error, onLoad, onClear }: DemLoaderProps) {
+  const [unit, setUnit] = useState<VerticalUnit>('m');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onLoad(file, unit);
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-slate-300">
+          <Mountain className="w-3 h-3 text-slate-500" />
+          {loading ? 'Reading DEM…' : dem ? dem.name : 'No terrain loaded'}
+        </span>
+        <div className="flex items-center gap-2">
+          {!dem && (
+            <select
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as VerticalUnit)}
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300 focus:outline-none focus:border-emerald-500"
+              title="Elevation units, used when the file does not declare them"
+            >
+              <option value="m">meters</option>
+              <option value="ft">feet</option>
+            </select>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={loading}
+            className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-slate-300 transition-colors"
+            title="Load a GeoTIFF DEM covering the lake"
+          >
+            <Upload className="w-3 h-3" /> DEM
+          </button>
+          {dem && (
+            <button
+              onClick={onClear}
+              className="text-slate-500 hover:text-red-400 transition-colors"
+              title="Unload DEM"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".tif,.tiff,image/tiff"
+            onChange={handleFile}
+            className="hidden"
+          />
+        </div>
+      </div>
+      {dem && (
+        <div className="mt-1 text-slate-500">
+          {dem.width} × {dem.height} cells · {describeCrs(dem.crs)} · elevations in {verticalUnit === 'm' ? 'meters' : 'feet'}
+          {resampled && ' · resampled'}
+        </div>
+      )}
+      {error && <div className="mt-1 text-red-400">{error}</div>}
+      {!dem && !error && (
+        <div className="mt-1 text-slate-500">
+          GeoTIFF in WGS84, Web Mercator or UTM; kept for this session only.
+        </div>
+      )}
+    </div>
+  );
+}
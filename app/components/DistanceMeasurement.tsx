@@ -0,0 +1,62 @@
+'use client';
+
+import { Trash2, Undo2 } from 'lucide-react';
+import { DISTANCE_UNITS, DistanceUnit, formatDistance } from '../lib/geodesy';
+
+interface DistanceMeasurementProps {
+  segments: number[]; // meters
+  unit: DistanceUnit;
+  onUnitChange: (unit: DistanceUnit) => void;
+  onUndo: () => void;
+  onClear: () => void;
+}
+
+// Segment and total lengths of the polyline drawn with the Distance tool
+export default function DistanceMeasurement({ segments, unit, onUnitChange, onUndo, onClear }: DistanceMeasurementProps) {
+  const total = segments.reduce((sum, length) => sum + length, 0);
+
+  return (
+    <div className="mt-3 bg-slate-900/50 rounded-lg p-3 border border-slate-700 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <select
+          value={unit}
+          onChange={(e) => onUnitChange(e.target.value as DistanceUnit)}
+          className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 focus:outline-none focus:border-emerald-500"
+        >
+          {(Object.keys(DISTANCE_UNITS) as DistanceUnit[]).map(value => (
+            <option key={value} value={value}>{DISTANCE_UNITS[value].label}</option>
+          ))}
+        </select>
+        {segments.length > 0 && (
+          <div className="flex items-center gap-2">
+            <button onClick={onUndo} className="text-slate-400 hover:text-slate-200 transition-colors" title="Remove last point">
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button onClick={onClear} className="text-slate-500 hover:text-red-400 transition-colors" title="Clear line">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {segments.length > 0 ? (
+        <>
+          <div className="mt-2 max-h-32 overflow-y-auto divide-y divide-slate-800">
+            {segments.map((length, index) => (
+              <div key={index} className="flex justify-between py-1">
+                <span className="text-slate-400">Segment {index + 1}</span>
+                <span className="text-slate-300 font-mono">{formatDistance(length, unit)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-2 pt-2 border-t border-slate-700 text-sm">
+            <span className="text-slate-400">Total</span>
+            <span className="text-emerald-400 font-mono">{formatDistance(total, unit)}</span>
+          </div>
+        </>
+      ) : (
+        <div className="mt-2 text-slate-500">Click two or more points on the map. Lengths are measured on the WGS84 ellipsoid.</div>
+      )}
+    </div>
+  );
+}
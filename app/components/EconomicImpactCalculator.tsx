@@ -0,0 +1,267 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Calculator, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import {
+  IMPACT_EFFECTS,
+  ImpactEffect,
+  ImpactTotals,
+  MULTIPLIER_FIELDS,
+  SPENDING_CATEGORIES,
+  VISITOR_SEGMENTS,
+  computeEconomicImpact,
+  economicSensitivity,
+  spendingPerVisit,
+} from '../lib/economicModel';
+import type { EconomicModelInputs, RegionalMultipliers, SpendingCategory, VisitorSegment } from '../lib/lakes';
+import { Provenance } from '../lib/provenance';
+import ProvenanceBadge from './ProvenanceBadge';
+
+interface EconomicImpactCalculatorProps {
+  inputs: EconomicModelInputs;
+  edited: boolean;
+  provenance: Provenance;
+  onChange: (inputs: EconomicModelInputs) => void;
+  onReset: () => void;
+}
+
+const SEGMENTS = Object.keys(VISITOR_SEGMENTS) as VisitorSegment[];
+const CATEGORIES = Object.keys(SPENDING_CATEGORIES) as SpendingCategory[];
+const EFFECTS = Object.keys(IMPACT_EFFECTS) as ImpactEffect[];
+const MULTIPLIERS = Object.keys(MULTIPLIER_FIELDS) as (keyof RegionalMultipliers)[];
+
+// Change applied to each input for the sensitivity bars
+const SENSITIVITY_STEP = 0.1;
+
+const SENSITIVITY_METRICS: Record<keyof ImpactTotals, string> = {
+  output: 'total output',
+  jobs: 'total jobs',
+  laborIncome: 'total labor income',
+};
+
+const INPUT_CLASS = 'bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 font-mono focus:outline-none focus:border-emerald-500';
+
+function millions(dollars: number): string {
+  return `$${(dollars / 1e6).toFixed(1)}M`;
+}
+
+function formatChange(metric: keyof ImpactTotals, change: number): string {
+  const sign = change >= 0 ? '+' : '-';
+  return metric === 'jobs'
+    ? `${sign}${Math.abs(change).toFixed(1)}`
+    : `${sign}$${(Math.abs(change) / 1e6).toFixed(2)}M`;
+}
+
+// Number field that keeps what the user typed, so it can be cleared or
+// mid-edit without snapping back; only complete numbers reach the model and
+// the field shows the model's value again on blur
+function NumberInput({ value, onChange, step, max = Infinity, className }: {
+  value: number;
+  onChange: (value: number) => void;
+  step: number;
+  max?: number;
+  className: string;
+}) {
+  const [text, setText] = useState(String(value));
+  const [shownValue, setShownValue] = useState(value);
+  if (value !== shownValue) {
+    // Changed elsewhere, e.g. reset to the catalog inputs
+    setShownValue(value);
+    setText(String(value));
+  }
+
+  return (
+    <input
+      type="number"
+      min={0}
+      max={Number.isFinite(max) ? max : undefined}
+      step={step}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(parsed)) onChange(Math.min(max, Math.max(0, parsed)));
+      }}
+      onBlur={() => setText(String(value))}
+      className={className}
+    />
+  );
+}
+
+// Editable visitor spending model with output, jobs and labor income by effect
+export default function EconomicImpactCalculator({ inputs, edited, provenance, onChange, onReset }: EconomicImpactCalculatorProps) {
+  const [showInputs, setShowInputs] = useState(false);
+  const [metric, setMetric] = useState<keyof ImpactTotals>('output');
+  const impact = useMemo(() => computeEconomicImpact(inputs), [inputs]);
+
+  // Inputs ordered by how far they move the chosen total
+  const sensitivity = useMemo(() => {
+    const base = impact.total[metric];
+    return economicSensitivity(inputs, SENSITIVITY_STEP)
+      .map(result => ({ id: result.id, label: result.label, down: result.low[metric] - base, up: result.high[metric] - base }))
+      .sort((a, b) => (b.up - b.down) - (a.up - a.down));
+  }, [inputs, impact, metric]);
+  const maxChange = Math.max(...sensitivity.flatMap(r => [Math.abs(r.down), Math.abs(r.up)])) || 1;
+
+  const setVisits = (segment: VisitorSegment, value: number) =>
+    onChange({ ...inputs, visits: { ...inputs.visits, [segment]: value } });
+
+  const setSpending = (segment: VisitorSegment, category: SpendingCategory, value: number) =>
+    onChange({
+      ...inputs,
+      spending: { ...inputs.spending, [segment]: { ...inputs.spending[segment], [category]: value } },
+    });
+
+  const setMultiplier = (field: keyof RegionalMultipliers, value: number) =>
+    onChange({ ...inputs, multipliers: { ...inputs.multipliers, [field]: value } });
+
+  return (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-emerald-400 font-semibold flex items-center gap-2">
+          <Calculator className="w-4 h-4" /> Regional Impact Model
+        </h4>
+        <div className="flex items-center gap-2">
+          <ProvenanceBadge provenance={provenance} />
+          {edited && (
+            <button onClick={onReset} className="text-slate-400 hover:text-emerald-400 transition-colors" title="Reset to catalog inputs">
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Output, jobs and labor income by effect */}
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-500">
+            <th className="text-left font-normal pb-1">Effect</th>
+            <th className="text-right font-normal pb-1">Output</th>
+            <th className="text-right font-normal pb-1">Jobs</th>
+            <th className="text-right font-normal pb-1">Labor income</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono text-slate-300">
+          {EFFECTS.map(effect => (
+            <tr key={effect}>
+              <td className="font-sans text-slate-400 py-0.5">{IMPACT_EFFECTS[effect]}</td>
+              <td className="text-right">{millions(impact.effects[effect].output)}</td>
+              <td className="text-right">{Math.round(impact.effects[effect].jobs).toLocaleString()}</td>
+              <td className="text-right">{millions(impact.effects[effect].laborIncome)}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-slate-700 text-emerald-400">
+            <td className="font-sans pt-1">Total</td>
+            <td className="text-right pt-1">{millions(impact.total.output)}</td>
+            <td className="text-right pt-1">{Math.round(impact.total.jobs).toLocaleString()}</td>
+            <td className="text-right pt-1">{millions(impact.total.laborIncome)}</td>
+          </tr>
+        </tbody>
+      </table>
+      <div className="text-[10px] text-slate-500 mt-1">
+        {impact.visits.toLocaleString()} visits spending {millions(impact.spending)}, of which {Math.round(inputs.multipliers.captureRate * 100)}% stays in the region
+      </div>
+
+      {/* Inputs */}
+      <button
+        onClick={() => setShowInputs(!showInputs)}
+        className="mt-3 w-full flex items-center justify-between text-xs text-slate-400 hover:text-slate-200 transition-colors"
+      >
+        <span>Model inputs</span>
+        {showInputs ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+      </button>
+      {showInputs && (
+        <div className="mt-2 space-y-3 text-xs">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="text-left font-normal pb-1">Segment</th>
+                  <th className="text-right font-normal pb-1">Visits</th>
+                  {CATEGORIES.map(category => (
+                    <th key={category} className="text-right font-normal pb-1" title="Dollars per visit">{SPENDING_CATEGORIES[category]}</th>
+                  ))}
+                  <th className="text-right font-normal pb-1">$/visit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {SEGMENTS.map(segment => (
+                  <tr key={segment}>
+                    <td className="text-slate-400 pr-1">{VISITOR_SEGMENTS[segment]}</td>
+                    <td className="text-right py-0.5">
+                      <NumberInput
+                        step={1000}
+                        value={inputs.visits[segment]}
+                        onChange={(value) => setVisits(segment, value)}
+                        className={`${INPUT_CLASS} w-20 text-right`}
+                      />
+                    </td>
+                    {CATEGORIES.map(category => (
+                      <td key={category} className="text-right py-0.5 pl-1">
+                        <NumberInput
+                          step={1}
+                          value={inputs.spending[segment][category]}
+                          onChange={(value) => setSpending(segment, category, value)}
+                          className={`${INPUT_CLASS} w-12 text-right`}
+                        />
+                      </td>
+                    ))}
+                    <td className="text-right font-mono text-slate-300 pl-1">{spendingPerVisit(inputs, segment).toFixed(0)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+            {MULTIPLIERS.map(field => (
+              <label key={field} className="flex items-center justify-between gap-2 text-slate-400">
+                {MULTIPLIER_FIELDS[field].label}
+                <NumberInput
+                  max={MULTIPLIER_FIELDS[field].max}
+                  step={MULTIPLIER_FIELDS[field].step}
+                  value={inputs.multipliers[field]}
+                  onChange={(value) => setMultiplier(field, value)}
+                  className={`${INPUT_CLASS} w-16 text-right`}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Sensitivity: each total with one input lowered and raised */}
+      <div className="mt-3 pt-3 border-t border-slate-700">
+        <div className="flex items-center justify-between gap-2 text-xs text-slate-400 mb-2">
+          <span>Effect of a ±{SENSITIVITY_STEP * 100}% change in each input on</span>
+          <select value={metric} onChange={(e) => setMetric(e.target.value as keyof ImpactTotals)} className={INPUT_CLASS}>
+            {(Object.keys(SENSITIVITY_METRICS) as (keyof ImpactTotals)[]).map(value => (
+              <option key={value} value={value}>{SENSITIVITY_METRICS[value]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          {sensitivity.map(result => (
+            <div
+              key={result.id}
+              className="flex items-center gap-2 text-[10px]"
+              title={`-${SENSITIVITY_STEP * 100}%: ${formatChange(metric, result.down)}, +${SENSITIVITY_STEP * 100}%: ${formatChange(metric, result.up)}`}
+            >
+              <span className="w-32 shrink-0 truncate text-slate-400">{result.label}</span>
+              <div className="flex-1 flex h-2">
+                <div className="w-1/2 flex justify-end">
+                  <div className="h-full bg-orange-500/70 rounded-l" style={{ width: `${(Math.abs(result.down) / maxChange) * 100}%` }} />
+                </div>
+                <div className="w-1/2 border-l border-slate-500">
+                  <div className="h-full bg-emerald-500/70 rounded-r" style={{ width: `${(Math.abs(result.up) / maxChange) * 100}%` }} />
+                </div>
+              </div>
+              <span className="w-14 shrink-0 text-right font-mono text-slate-300">
+                {result.up === 0 && result.down === 0 ? 'none' : formatChange(metric, result.up)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
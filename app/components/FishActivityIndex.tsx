@@ -1,10 +1,15 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useMemo } from 'react';
 import {
   Fish, Thermometer, Gauge, Moon, Sun,
-  TrendingUp, TrendingDown, Minus, Wind, RefreshCw, Target
+  TrendingUp, TrendingDown, Minus, Wind, RefreshCw, Target, AlertTriangle
 } from 'lucide-react';
+import type { ForecastResponse } from '../lib/openMeteo';
+import { Provenance, responseProvenance, simulatedProvenance } from '../lib/provenance';
+import { useForecast } from '../lib/useForecast';
+import { useSettings } from '../lib/settings';
+import ProvenanceBadge from './ProvenanceBadge';
 
 interface FishingConditions {
   overallScore: number;
@@ -26,7 +31,9 @@ interface FishingConditions {
 interface FishActivityIndexProps {
   lat: number;
   lng: number;
+  timezone: string;
   waterTemp?: number;
+  waterTempProvenance?: Provenance;
 }
 
 // Moon phase calculation
@@ -115,269 +122,271 @@ function getSolunarPeriods(date: Date, lat: number): { major: string[]; minor: s
   };
 }
 
-export default function FishActivityIndex({ lat, lng, waterTemp = 68 }: FishActivityIndexProps) {
-  const [conditions, setConditions] = useState<FishingConditions | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [moonData, setMoonData] = useState<{ phase: string; illumination: number; icon: string } | null>(null);
-
-  const calculateConditions = useCallback(async () => {
-    setLoading(true);
-
-    try {
-      // Fetch weather data for fishing calculations
-      const response = await fetch(
-        `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lng}` +
-        `&current=temperature_2m,pressure_msl,wind_speed_10m,cloud_cover,precipitation` +
-        `&temperature_unit=fahrenheit&wind_speed_unit=mph` +
-        `&timezone=America/Chicago`
-      );
-
-      const weather = await response.json();
-      const current = weather.current;
-
-      const moonPhase = getMoonPhase(new Date());
-      setMoonData(moonPhase);
-
-      const solunar = getSolunarPeriods(new Date(), lat);
-
-      // Calculate individual factor scores (0-100)
-      const factors: FishingConditions['factors'] = [];
-
-      // Barometric Pressure Score
-      const pressure = current.pressure_msl * 0.02953; // Convert to inHg
-      let pressureScore = 0;
-      let pressureStatus: 'positive' | 'neutral' | 'negative' = 'neutral';
-      let pressureDetail = '';
-
-      if (pressure >= 30.0 && pressure <= 30.2) {
-        pressureScore = 90;
-        pressureStatus = 'positive';
-        pressureDetail = 'Stable high pressure - ideal';
-      } else if (pressure >= 29.8 && pressure < 30.0) {
-        pressureScore = 75;
-        pressureStatus = 'positive';
-        pressureDetail = 'Slightly falling - fish active';
-      } else if (pressure > 30.2 && pressure <= 30.5) {
-        pressureScore = 60;
-        pressureStatus = 'neutral';
-        pressureDetail = 'High pressure - slower fishing';
-      } else if (pressure < 29.8) {
-        pressureScore = 40;
-        pressureStatus = 'negative';
-        pressureDetail = 'Low pressure - fish deep';
-      } else {
-        pressureScore = 50;
-        pressureStatus = 'neutral';
-        pressureDetail = 'Very high - challenging';
-      }
-
-      factors.push({
-        name: 'Barometric Pressure',
-        score: pressureScore,
-        status: pressureStatus,
-        detail: `${pressure.toFixed(2)} inHg - ${pressureDetail}`,
-      });
-
-      // Water Temperature Score
-      let tempScore = 0;
-      let tempStatus: 'positive' | 'neutral' | 'negative' = 'neutral';
-      let tempDetail = '';
-
-      if (waterTemp >= 65 && waterTemp <= 75) {
-        tempScore = 95;
-        tempStatus = 'positive';
-        tempDetail = 'Optimal range for bass';
-      } else if (waterTemp >= 55 && waterTemp < 65) {
-        tempScore = 70;
-        tempStatus = 'neutral';
-        tempDetail = 'Pre-spawn activity increasing';
-      } else if (waterTemp > 75 && waterTemp <= 85) {
-        tempScore = 65;
-        tempStatus = 'neutral';
-        tempDetail = 'Fish seeking cooler depths';
-      } else if (waterTemp < 55) {
-        tempScore = 40;
-        tempStatus = 'negative';
-        tempDetail = 'Cold - slow metabolism';
-      } else {
-        tempScore = 35;
-        tempStatus = 'negative';
-        tempDetail = 'Very warm - fish stressed';
-      }
-
-      factors.push({
-        name: 'Water Temperature',
-        score: tempScore,
-        status: tempStatus,
-        detail: `${waterTemp}°F - ${tempDetail}`,
-      });
-
-      // Wind Score
-      const wind = current.wind_speed_10m;
-      let windScore = 0;
-      let windStatus: 'positive' | 'neutral' | 'negative' = 'neutral';
-      let windDetail = '';
-
-      if (wind >= 5 && wind <= 15) {
-        windScore = 85;
-        windStatus = 'positive';
-        windDetail = 'Light chop - reduces visibility';
-      } else if (wind < 5) {
-        windScore = 60;
-        windStatus = 'neutral';
-        windDetail = 'Calm - fish more cautious';
-      } else if (wind > 15 && wind <= 25) {
-        windScore = 55;
-        windStatus = 'neutral';
-        windDetail = 'Moderate - concentrate on windward';
-      } else {
-        windScore = 30;
-        windStatus = 'negative';
-        windDetail = 'Too windy - difficult conditions';
-      }
-
-      factors.push({
-        name: 'Wind',
-        score: windScore,
-        status: windStatus,
-        detail: `${Math.round(wind)} mph - ${windDetail}`,
-      });
-
-      // Moon Phase Score
-      let moonScore = 0;
-      let moonStatus: 'positive' | 'neutral' | 'negative' = 'neutral';
-
-      if (moonPhase.phase === 'New Moon' || moonPhase.phase === 'Full Moon') {
-        moonScore = 90;
-        moonStatus = 'positive';
-      } else if (moonPhase.phase === 'First Quarter' || moonPhase.phase === 'Last Quarter') {
-        moonScore = 70;
-        moonStatus = 'neutral';
-      } else {
-        moonScore = 55;
-        moonStatus = 'neutral';
-      }
-
-      factors.push({
-        name: 'Moon Phase',
-        score: moonScore,
-        status: moonStatus,
-        detail: `${moonPhase.icon} ${moonPhase.phase}`,
-      });
-
-      // Cloud Cover Score
-      const clouds = current.cloud_cover;
-      let cloudScore = 0;
-      let cloudStatus: 'positive' | 'neutral' | 'negative' = 'neutral';
-
-      if (clouds >= 40 && clouds <= 70) {
-        cloudScore = 85;
-        cloudStatus = 'positive';
-      } else if (clouds > 70) {
-        cloudScore = 70;
-        cloudStatus = 'neutral';
-      } else {
-        cloudScore = 55;
-        cloudStatus = 'neutral';
-      }
-
-      factors.push({
-        name: 'Cloud Cover',
-        score: cloudScore,
-        status: cloudStatus,
-        detail: `${clouds}% - ${clouds >= 40 && clouds <= 70 ? 'Ideal overcast' : clouds > 70 ? 'Heavy clouds' : 'Clear skies'}`,
-      });
-
-      // Calculate overall score
-      const overallScore = Math.round(
-        factors.reduce((sum, f) => sum + f.score, 0) / factors.length
-      );
-
-      // Determine rating
-      let rating: FishingConditions['rating'];
-      if (overallScore >= 80) rating = 'Excellent';
-      else if (overallScore >= 65) rating = 'Good';
-      else if (overallScore >= 50) rating = 'Fair';
-      else rating = 'Poor';
-
-      // Target species activity
-      const targetSpecies: FishingConditions['targetSpecies'] = [
-        {
-          name: 'Largemouth Bass',
-          activity: waterTemp >= 60 && waterTemp <= 80 && overallScore >= 60 ? 'High' :
-                   waterTemp >= 50 && waterTemp <= 85 ? 'Moderate' : 'Low',
-        },
-        {
-          name: 'Crappie',
-          activity: waterTemp >= 55 && waterTemp <= 70 ? 'High' :
-                   waterTemp >= 45 && waterTemp <= 75 ? 'Moderate' : 'Low',
-        },
-        {
-          name: 'Catfish',
-          activity: waterTemp >= 70 && clouds >= 50 ? 'High' :
-                   waterTemp >= 60 ? 'Moderate' : 'Low',
-        },
-        {
-          name: 'Bluegill',
-          activity: waterTemp >= 65 && waterTemp <= 80 ? 'High' :
-                   waterTemp >= 55 ? 'Moderate' : 'Low',
-        },
-      ];
-
-      // Generate tips
-      const tips: string[] = [];
-      if (wind >= 5 && wind <= 15) {
-        tips.push('Fish the windward shoreline where baitfish concentrate');
-      }
-      if (waterTemp >= 65 && waterTemp <= 75) {
-        tips.push('Topwater lures effective in early morning');
-      }
-      if (pressure >= 29.8 && pressure <= 30.0) {
-        tips.push('Falling pressure - fish feeding aggressively');
-      }
-      if (moonPhase.phase === 'Full Moon' || moonPhase.phase === 'New Moon') {
-        tips.push('Major solunar period - extended feeding windows');
-      }
-      if (clouds >= 50) {
-        tips.push('Overcast conditions favor shallow water fishing');
-      }
-      if (tips.length === 0) {
-        tips.push('Fish structure and cover in deeper water');
-      }
-
-      setConditions({
-        overallScore,
-        rating,
-        factors,
-        bestTime: solunar.major[0],
-        targetSpecies,
-        tips,
-      });
-    } catch (err) {
-      console.error('Error calculating fishing conditions:', err);
-      // Set default conditions on error
-      setConditions({
-        overallScore: 60,
-        rating: 'Fair',
-        factors: [],
-        bestTime: '6am-8am',
-        targetSpecies: [
-          { name: 'Largemouth Bass', activity: 'Moderate' },
-          { name: 'Crappie', activity: 'Moderate' },
-        ],
-        tips: ['Check local conditions before heading out'],
-      });
-    } finally {
-      setLoading(false);
-    }
-  }, [lat, lng, waterTemp]);
+// Score fishing conditions from current weather, water temperature and moon phase
+function scoreConditions(forecast: ForecastResponse, waterTemp: number, lat: number): FishingConditions {
+  const { current } = forecast;
+  const moonPhase = getMoonPhase(new Date());
+  const solunar = getSolunarPeriods(new Date(), lat);
+
+  // Calculate individual factor scores (0-100)
+  const factors: FishingConditions['factors'] = [];
+
+  // Barometric Pressure Score
+  const pressure = current.pressure_msl * 0.02953; // Convert to inHg
+  let pressureScore = 0;
+  let pressureStatus: 'positive' | 'neutral' | 'negative' = 'neutral';
+  let pressureDetail = '';
+
+  if (pressure >= 30.0 && pressure <= 30.2) {
+    pressureScore = 90;
+    pressureStatus = 'positive';
+    pressureDetail = 'Stable high pressure - ideal';
+  } else if (pressure >= 29.8 && pressure < 30.0) {
+    pressureScore = 75;
+    pressureStatus = 'positive';
+    pressureDetail = 'Slightly falling - fish active';
+  } else if (pressure > 30.2 && pressure <= 30.5) {
+    pressureScore = 60;
+    pressureStatus = 'neutral';
+    pressureDetail = 'High pressure - slower fishing';
+  } else if (pressure < 29.8) {
+    pressureScore = 40;
+    pressureStatus = 'negative';
+    pressureDetail = 'Low pressure - fish deep';
+  } else {
+    pressureScore = 50;
+    pressureStatus = 'neutral';
+    pressureDetail = 'Very high - challenging';
+  }
+
+  factors.push({
+    name: 'Barometric Pressure',
+    score: pressureScore,
+    status: pressureStatus,
+    detail: `${pressure.toFixed(2)} inHg - ${pressureDetail}`,
+  });
+
+  // Water Temperature Score
+  let tempScore = 0;
+  let tempStatus: 'positive' | 'neutral' | 'negative' = 'neutral';
+  let tempDetail = '';
+
+  if (waterTemp >= 65 && waterTemp <= 75) {
+    tempScore = 95;
+    tempStatus = 'positive';
+    tempDetail = 'Optimal range for bass';
+  } else if (waterTemp >= 55 && waterTemp < 65) {
+    tempScore = 70;
+    tempStatus = 'neutral';
+    tempDetail = 'Pre-spawn activity increasing';
+  } else if (waterTemp > 75 && waterTemp <= 85) {
+    tempScore = 65;
+    tempStatus = 'neutral';
+    tempDetail = 'Fish seeking cooler depths';
+  } else if (waterTemp < 55) {
+    tempScore = 40;
+    tempStatus = 'negative';
+    tempDetail = 'Cold - slow metabolism';
+  } else {
+    tempScore = 35;
+    tempStatus = 'negative';
+    tempDetail = 'Very warm - fish stressed';
+  }
+
+  factors.push({
+    name: 'Water Temperature',
+    score: tempScore,
+    status: tempStatus,
+    detail: `${waterTemp}°F - ${tempDetail}`,
+  });
+
+  // Wind Score
+  const wind = current.wind_speed_10m;
+  let windScore = 0;
+  let windStatus: 'positive' | 'neutral' | 'negative' = 'neutral';
+  let windDetail = '';
+
+  if (wind >= 5 && wind <= 15) {
+    windScore = 85;
+    windStatus = 'positive';
+    windDetail = 'Light chop - reduces visibility';
+  } else if (wind < 5) {
+    windScore = 60;
+    windStatus = 'neutral';
+    windDetail = 'Calm - fish more cautious';
+  } else if (wind > 15 && wind <= 25) {
+    windScore = 55;
+    windStatus = 'neutral';
+    windDetail = 'Moderate - concentrate on windward';
+  } else {
+    windScore = 30;
+    windStatus = 'negative';
+    windDetail = 'Too windy - difficult conditions';
+  }
+
+  factors.push({
+    name: 'Wind',
+    score: windScore,
+    status: windStatus,
+    detail: `${Math.round(wind)} mph - ${windDetail}`,
+  });
+
+  // Moon Phase Score
+  let moonScore = 0;
+  let moonStatus: 'positive' | 'neutral' | 'negative' = 'neutral';
+
+  if (moonPhase.phase === 'New Moon' || moonPhase.phase === 'Full Moon') {
+    moonScore = 90;
+    moonStatus = 'positive';
+  } else if (moonPhase.phase === 'First Quarter' || moonPhase.phase === 'Last Quarter') {
+    moonScore = 70;
+    moonStatus = 'neutral';
+  } else {
+    moonScore = 55;
+    moonStatus = 'neutral';
+  }
+
+  factors.push({
+    name: 'Moon Phase',
+    score: moonScore,
+    status: moonStatus,
+    detail: `${moonPhase.icon} ${moonPhase.phase}`,
+  });
+
+  // Cloud Cover Score
+  const clouds = current.cloud_cover;
+  let cloudScore = 0;
+  let cloudStatus: 'positive' | 'neutral' | 'negative' = 'neutral';
+
+  if (clouds >= 40 && clouds <= 70) {
+    cloudScore = 85;
+    cloudStatus = 'positive';
+  } else if (clouds > 70) {
+    cloudScore = 70;
+    cloudStatus = 'neutral';
+  } else {
+    cloudScore = 55;
+    cloudStatus = 'neutral';
+  }
+
+  factors.push({
+    name: 'Cloud Cover',
+    score: cloudScore,
+    status: cloudStatus,
+    detail: `${clouds}% - ${clouds >= 40 && clouds <= 70 ? 'Ideal overcast' : clouds > 70 ? 'Heavy clouds' : 'Clear skies'}`,
+  });
+
+  // Calculate overall score
+  const overallScore = Math.round(
+    factors.reduce((sum, f) => sum + f.score, 0) / factors.length
+  );
+
+  // Determine rating
+  let rating: FishingConditions['rating'];
+  if (overallScore >= 80) rating = 'Excellent';
+  else if (overallScore >= 65) rating = 'Good';
+  else if (overallScore >= 50) rating = 'Fair';
+  else rating = 'Poor';
+
+  // Target species activity
+  const targetSpecies: FishingConditions['targetSpecies'] = [
+    {
+      name: 'Largemouth Bass',
+      activity: waterTemp >= 60 && waterTemp <= 80 && overallScore >= 60 ? 'High' :
+               waterTemp >= 50 && waterTemp <= 85 ? 'Moderate' : 'Low',
+    },
+    {
+      name: 'Crappie',
+      activity: waterTemp >= 55 && waterTemp <= 70 ? 'High' :
+               waterTemp >= 45 && waterTemp <= 75 ? 'Moderate' : 'Low',
+    },
+    {
+      name: 'Catfish',
+      activity: waterTemp >= 70 && clouds >= 50 ? 'High' :
+               waterTemp >= 60 ? 'Moderate' : 'Low',
+    },
+    {
+      name: 'Bluegill',
+      activity: waterTemp >= 65 && waterTemp <= 80 ? 'High' :
+               waterTemp >= 55 ? 'Moderate' : 'Low',
+    },
+  ];
+
+  // Generate tips
+  const tips: string[] = [];
+  if (wind >= 5 && wind <= 15) {
+    tips.push('Fish the windward shoreline where baitfish concentrate');
+  }
+  if (waterTemp >= 65 && waterTemp <= 75) {
+    tips.push('Topwater lures effective in early morning');
+  }
+  if (pressure >= 29.8 && pressure <= 30.0) {
+    tips.push('Falling pressure - fish feeding aggressively');
+  }
+  if (moonPhase.phase === 'Full Moon' || moonPhase.phase === 'New Moon') {
+    tips.push('Major solunar period - extended feeding windows');
+  }
+  if (clouds >= 50) {
+    tips.push('Overcast conditions favor shallow water fishing');
+  }
+  if (tips.length === 0) {
+    tips.push('Fish structure and cover in deeper water');
+  }
 
-  useEffect(() => {
-    calculateConditions();
-    // Refresh every hour
-    const interval = setInterval(calculateConditions, 60 * 60 * 1000);
-    return () => clearInterval(interval);
-  }, [calculateConditions]);
+  return {
+    overallScore,
+    rating,
+    factors,
+    bestTime: solunar.major[0],
+    targetSpecies,
+    tips,
+  };
+}
+
+// Placeholder shown only when the forecast fails and simulated data is allowed
+const SIMULATED_CONDITIONS: FishingConditions = {
+  overallScore: 60,
+  rating: 'Fair',
+  factors: [],
+  bestTime: '6am-8am',
+  targetSpecies: [
+    { name: 'Largemouth Bass', activity: 'Moderate' },
+    { name: 'Crappie', activity: 'Moderate' },
+  ],
+  tips: ['Check local conditions before heading out'],
+};
+
+export default function FishActivityIndex({
+  lat,
+  lng,
+  timezone,
+  waterTemp = 68,
+  waterTempProvenance = { kind: 'manual', source: 'Default estimate' },
+}: FishActivityIndexProps) {
+  const { forecast, loading, error, refresh: calculateConditions } = useForecast(lat, lng, timezone);
+  const [{ allowSimulatedData }] = useSettings();
+
+  const { conditions, moonData, provenance } = useMemo<{
+    conditions: FishingConditions | null;
+    moonData: { phase: string; illumination: number; icon: string } | null;
+    provenance: Provenance | null;
+  }>(() => {
+    if (forecast) {
+      return {
+        conditions: scoreConditions(forecast, waterTemp, lat),
+        moonData: getMoonPhase(new Date()),
+        provenance: responseProvenance('Open-Meteo', forecast.fetchedAt, forecast.cached),
+      };
+    }
+    if (error && allowSimulatedData) {
+      return {
+        conditions: SIMULATED_CONDITIONS,
+        moonData: null,
+        provenance: simulatedProvenance(`Weather request failed: ${error}`),
+      };
+    }
+    return { conditions: null, moonData: null, provenance: null };
+  }, [forecast, error, allowSimulatedData, waterTemp, lat]);
 
   if (loading && !conditions) {
     return (
@@ -390,6 +399,23 @@ export default function FishActivityIndex({ lat, lng, waterTemp = 68 }: FishActi
     );
   }
 
+  if (error && !conditions) {
+    return (
+      <div className="bg-red-500/10 rounded-lg p-4 border border-red-500/30">
+        <div className="flex items-center gap-2 text-red-400">
+          <AlertTriangle className="w-4 h-4" />
+          <span className="text-sm">Weather data unavailable: {error}</span>
+        </div>
+        <button
+          onClick={calculateConditions}
+          className="mt-2 text-xs text-red-300 hover:text-red-200 underline"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
   if (!conditions) return null;
 
   const scoreColor = conditions.overallScore >= 80 ? 'text-emerald-400' :
@@ -408,12 +434,15 @@ export default function FishActivityIndex({ lat, lng, waterTemp = 68 }: FishActi
           <h4 className="text-emerald-400 font-semibold flex items-center gap-2">
             <Fish className="w-4 h-4" /> Fishing Activity Index
           </h4>
-          <button
-            onClick={calculateConditions}
-            className="text-slate-400 hover:text-emerald-400 transition-colors"
-          >
-            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
-          </button>
+          <div className="flex items-center gap-2">
+            {provenance && <ProvenanceBadge provenance={provenance} />}
+            <button
+              onClick={calculateConditions}
+              className="text-slate-400 hover:text-emerald-400 transition-colors"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
         </div>
 
         {/* Overall Score */}
@@ -498,6 +527,12 @@ export default function FishActivityIndex({ lat, lng, waterTemp = 68 }: FishActi
           </div>
         </div>
 
+        {/* Inputs that didn't come from the weather feed */}
+        <div className="flex items-center justify-between text-xs text-slate-500 mb-3">
+          <span>Water temperature input: {waterTemp}°F</span>
+          <ProvenanceBadge provenance={waterTempProvenance} />
+        </div>
+
         {/* Tips */}
         <div className="border-t border-slate-700 pt-3">
           <div className="text-xs text-slate-400 mb-2">Pro Tips</div>
@@ -0,0 +1,1528 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useDeferredValue, useMemo } from 'react';
+import dynamic from 'next/dynamic';
+import type mapboxgl from 'mapbox-gl';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { MapPin, TrendingUp, Building2, Droplets, Fish, TreePine, Mountain, Info, Download, Settings, BarChart3, Navigation, Ruler, AlertTriangle, Activity, Database, FileText, Share2, Bookmark, Eye, Globe, LayoutGrid, Anchor, Tent } from 'lucide-react';
+import { LAKES, LakeRecord, LngLat } from '../lib/lakes';
+import { SQ_METERS_PER_ACRE, measurePolygon } from '../lib/areaMeasure';
+import { generateDepthContours, interpolateSurface } from '../lib/bathymetry';
+import { useBathymetrySurvey } from '../lib/bathymetryStore';
+import { formatBookmarksJson } from '../lib/bookmarks';
+import { useBookmarks } from '../lib/bookmarkStore';
+import { storageAt, surfaceAreaAt } from '../lib/capacityCurve';
+import { useCapacityCurve } from '../lib/capacityCurveStore';
+import { sampleDem } from '../lib/dem';
+import { useDem } from '../lib/demStore';
+import { downloadFile } from '../lib/download';
+import { computeEconomicImpact } from '../lib/economicModel';
+import { useEconomicModel } from '../lib/economicModelStore';
+import { GazetteerEntry, buildGazetteer } from '../lib/gazetteer';
+import { formatDistance, geodesicDistance } from '../lib/geodesy';
+import { DEPTH_RAMP, computeInundation } from '../lib/inundation';
+import { MapExportOptions, MapExportSize, buildMapLegend, exportPixelSize, renderMapExport } from '../lib/mapExport';
+import { MapDataFormat, renderMapData } from '../lib/mapDataExport';
+import { ExportLayer, collectMapFeatures } from '../lib/mapFeatures';
+import { captureMapImage } from '../lib/mapSnapshot';
+import { TerrainSampler, sampleProfile } from '../lib/profile';
+import { Provenance, describeProvenance } from '../lib/provenance';
+import { buildReportData, reportTemplatesFor } from '../lib/report';
+import { useSettings } from '../lib/settings';
+import { MapStyleName, MeasurementTool, SHARE_TABS, ShareState, encodeShareState, parseShareState } from '../lib/shareState';
+import { assessStructures } from '../lib/structures';
+import { useStructures } from '../lib/structureStore';
+import { useLakeLevel } from '../lib/useLakeLevel';
+import { UserLayer, UserLayerImportResult, isUserLayerFile, parseUserLayerFile } from '../lib/userLayers';
+import { useUserLayers } from '../lib/userLayerStore';
+import { VIEWSHED_COLORS, computeViewshed } from '../lib/viewshed';
+import { latestSeriesByParameter } from '../lib/waterQuality';
+import { useWaterQualitySamples } from '../lib/waterQualityStore';
+import AreaMeasurement from './AreaMeasurement';
+import BathymetryPanel from './BathymetryPanel';
+import BookmarkManager from './BookmarkManager';
+import CrossSectionProfile from './CrossSectionProfile';
+import DemLoader from './DemLoader';
+import DistanceMeasurement from './DistanceMeasurement';
+import EconomicImpactCalculator from './EconomicImpactCalculator';
+import type { DrawMode } from './LakeMapMapbox';
+import LocationSearch from './LocationSearch';
+import MapDataExport from './MapDataExport';
+import MapImageExport from './MapImageExport';
+import StorageStatus from './StorageStatus';
+import StructureInventory from './StructureInventory';
+import UserLayerList from './UserLayerList';
+import ViewshedPanel from './ViewshedPanel';
+import WaterQualityPanel from './WaterQualityPanel';
+
+// Dynamically import the map component to avoid SSR issues with Mapbox
+const LakeMap = dynamic(() => import('./LakeMapMapbox'), {
+  ssr: false,
+  loading: () => (
+    <div className="w-full h-full flex items-center justify-center bg-slate-900">
+      <div className="text-emerald-400 flex items-center gap-2">
+        <div className="w-6 h-6 border-2 border-emerald-400 border-t-transparent rounded-full animate-spin" />
+        Loading interactive map...
+      </div>
+    </div>
+  ),
+});
+
+// Dynamically import USGS data component
+const USGSWaterData = dynamic(() => import('./USGSWaterData'), {
+  ssr: false,
+  loading: () => (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+      <div className="text-slate-400 text-sm animate-pulse">Loading water data...</div>
+    </div>
+  ),
+});
+
+// Dynamically import Weather widget
+const WeatherWidget = dynamic(() => import('./WeatherWidget'), {
+  ssr: false,
+  loading: () => (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+      <div className="text-slate-400 text-sm animate-pulse">Loading weather...</div>
+    </div>
+  ),
+});
+
+// Dynamically import Historical Water Level Chart
+const WaterLevelChart = dynamic(() => import('./WaterLevelChart'), {
+  ssr: false,
+  loading: () => (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+      <div className="text-slate-400 text-sm animate-pulse">Loading chart...</div>
+    </div>
+  ),
+});
+
+// Dynamically import Fish Activity Index
+const FishActivityIndex = dynamic(() => import('./FishActivityIndex'), {
+  ssr: false,
+  loading: () => (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+      <div className="text-slate-400 text-sm animate-pulse">Loading fishing data...</div>
+    </div>
+  ),
+});
+
+// Dynamically import Boat Ramp Status
+const BoatRampStatus = dynamic(() => import('./BoatRampStatus'), {
+  ssr: false,
+  loading: () => (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+      <div className="text-slate-400 text-sm animate-pulse">Loading boat ramps...</div>
+    </div>
+  ),
+});
+
+// Dynamically import Recreation Planner
+const RecreationPlanner = dynamic(() => import('./RecreationPlanner'), {
+  ssr: false,
+  loading: () => (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+      <div className="text-slate-400 text-sm animate-pulse">Loading planner...</div>
+    </div>
+  ),
+});
+
+type AnalysisMode = MeasurementTool;
+
+// Geometry each measurement tool draws on the map
+const DRAW_MODES: Partial<Record<AnalysisMode, DrawMode>> = {
+  distance: 'line',
+  area: 'polygon',
+  elevation: 'line',
+  viewshed: 'point',
+};
+
+const NO_POINTS: LngLat[] = [];
+
+interface LakeAnalysisPlatformProps {
+  lake: LakeRecord;
+}
+
+export default function LakeAnalysisPlatform({ lake }: LakeAnalysisPlatformProps) {
+  const { info, economic, waterQuality } = lake;
+  const router = useRouter();
+  // State from a share link, read once on load
+  const searchParams = useSearchParams();
+  const [shared] = useState(() => parseShareState(new URLSearchParams(searchParams.toString()), lake));
+  const [activeTab, setActiveTab] = useState<string>(shared.tab ?? 'overview');
+  const [selectedElevation, setSelectedElevation] = useState(shared.elevation ?? lake.info.normalPoolElevation);
+  const [showContours, setShowContours] = useState(shared.contours ?? true);
+  const [contourInterval, setContourInterval] = useState(10);
+  const [showZones, setShowZones] = useState(shared.zones ?? false);
+  const [showDepthGrid, setShowDepthGrid] = useState(true);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode | null>(null);
+  // The sketch on the map belongs to the last tool used, and stays after drawing ends
+  const [sketchTool, setSketchTool] = useState<AnalysisMode>(shared.measurement?.tool ?? 'elevation');
+  const [sketches, setSketches] = useState<Partial<Record<AnalysisMode, LngLat[]>>>(
+    () => shared.measurement ? { [shared.measurement.tool]: shared.measurement.points } : {},
+  );
+  const [selectedZone, setSelectedZone] = useState<string | null>(shared.selectedZone ?? null);
+  const [floodLevel, setFloodLevel] = useState(shared.floodLevel ?? lake.info.normalPoolElevation);
+  const [mapStyle, setMapStyle] = useState<MapStyleName>(shared.style ?? 'satellite');
+  const [focusedLocation, setFocusedLocation] = useState<GazetteerEntry | null>(null);
+  const [showHelp, setShowHelp] = useState(false);
+  const [settings, updateSettings] = useSettings();
+  const { level: lakeLevel, error: lakeLevelError } = useLakeLevel(info.usgsSiteId, info.normalPoolElevation);
+  const { curve: capacityCurve, importCurve, clearCurve } = useCapacityCurve(lake);
+  const economicModel = useEconomicModel(lake);
+  const economicImpact = useMemo(() => computeEconomicImpact(economicModel.inputs), [economicModel.inputs]);
+  const { loadDemFile, clearDem, ...demState } = useDem(lake);
+
+  // Inundation follows the slider without blocking it on large DEMs
+  const deferredFloodLevel = useDeferredValue(floodLevel);
+  const inundation = useMemo(
+    () => demState.dem ? computeInundation(demState.dem, deferredFloodLevel, lake.boundary) : null,
+    [demState.dem, deferredFloodLevel, lake.boundary],
+  );
+
+  // Lake-bed surface from an imported survey, contoured at the chosen interval
+  const { survey, importSurvey, clearSurvey } = useBathymetrySurvey(lake.slug);
+  const bathymetry = useMemo(
+    () => survey ? interpolateSurface(survey.points, lake.boundary, info.normalPoolElevation) : null,
+    [survey, lake.boundary, info.normalPoolElevation],
+  );
+  const depthContours = useMemo(
+    () => bathymetry ? generateDepthContours(bathymetry, contourInterval, info.normalPoolElevation) : [],
+    [bathymetry, contourInterval, info.normalPoolElevation],
+  );
+
+  const toggleAnalysisMode = (mode: AnalysisMode) => {
+    setAnalysisMode(analysisMode === mode ? null : mode);
+    if (DRAW_MODES[mode]) setSketchTool(mode);
+  };
+  const updateSketch = useCallback((tool: AnalysisMode, points: LngLat[]) => {
+    setSketches(previous => ({ ...previous, [tool]: points }));
+  }, []);
+  const handleSketchChange = useCallback(
+    (points: LngLat[]) => updateSketch(sketchTool, points),
+    [updateSketch, sketchTool],
+  );
+  const drawMode = analysisMode ? DRAW_MODES[analysisMode] ?? null : null;
+
+  // Cross-section along a line drawn with the Profile tool
+  const profileLine = sketches.elevation ?? NO_POINTS;
+  const [terrain, setTerrain] = useState<TerrainSampler | null>(null);
+  const profile = useMemo(
+    () => sampleProfile(profileLine, { bathymetry, dem: demState.dem, terrain }),
+    [profileLine, bathymetry, demState.dem, terrain],
+  );
+
+  // Geodesic segment lengths of the Distance tool's polyline, labeled on the map
+  const distanceLine = sketches.distance ?? NO_POINTS;
+  const distanceSegments = useMemo(
+    () => distanceLine.slice(1).map((point, i) => geodesicDistance(distanceLine[i], point)),
+    [distanceLine],
+  );
+  // Area, perimeter and overlaps of the Area tool's polygon
+  const areaPolygon = sketches.area ?? NO_POINTS;
+  const areaMeasurement = useMemo(
+    () => measurePolygon(areaPolygon, {
+      lakeBoundary: lake.boundary,
+      zones: lake.landUseZones,
+      dem: demState.dem,
+      bathymetry,
+      waterLevel: deferredFloodLevel,
+    }),
+    [areaPolygon, lake.boundary, lake.landUseZones, demState.dem, bathymetry, deferredFloodLevel],
+  );
+
+  // Line of sight from the Viewshed tool's observer over the loaded DEM where
+  // it has data and the basemap terrain elsewhere
+  const [observerHeight, setObserverHeight] = useState(shared.measurement?.observerHeight ?? 6);
+  const [viewshedRadius, setViewshedRadius] = useState(shared.measurement?.radiusMiles ?? 1);
+  const deferredObserverHeight = useDeferredValue(observerHeight);
+  const observer = sketches.viewshed?.[0] ?? null;
+  const viewshed = useMemo(() => {
+    const dem = demState.dem;
+    if (!observer || (!dem && !terrain)) return null;
+    return computeViewshed(observer, deferredObserverHeight, viewshedRadius * 1609.344, (position) =>
+      (dem ? sampleDem(dem, position) : null) ?? terrain?.elevationAt(position) ?? null
+    );
+  }, [observer, deferredObserverHeight, viewshedRadius, demState.dem, terrain]);
+  const viewshedSource = demState.dem
+    ? terrain ? 'the loaded DEM, then basemap terrain' : 'the loaded DEM'
+    : terrain ? 'basemap terrain' : null;
+
+  const sketchLabels = useMemo(() => {
+    if (sketchTool === 'area' && areaMeasurement) {
+      const center: LngLat = [
+        areaPolygon.reduce((sum, p) => sum + p[0], 0) / areaPolygon.length,
+        areaPolygon.reduce((sum, p) => sum + p[1], 0) / areaPolygon.length,
+      ];
+      return [{ position: center, text: `${(areaMeasurement.squareMeters / SQ_METERS_PER_ACRE).toLocaleString(undefined, { maximumFractionDigits: 1 })} ac` }];
+    }
+    if (sketchTool !== 'distance' || distanceSegments.length === 0) return [];
+    const labels = distanceSegments.map((length, i) => ({
+      position: [
+        (distanceLine[i][0] + distanceLine[i + 1][0]) / 2,
+        (distanceLine[i][1] + distanceLine[i + 1][1]) / 2,
+      ] as LngLat,
+      text: formatDistance(length, settings.distanceUnit),
+    }));
+    if (distanceSegments.length > 1) {
+      const total = distanceSegments.reduce((sum, length) => sum + length, 0);
+      labels.push({ position: distanceLine[distanceLine.length - 1], text: `Total ${formatDistance(total, settings.distanceUnit)}` });
+    }
+    return labels;
+  }, [sketchTool, areaPolygon, areaMeasurement, distanceLine, distanceSegments, settings.distanceUnit]);
+
+  const { structures, replaceStructures, clearStructures } = useStructures(lake.slug);
+  const { userLayers, addUserLayer, removeUserLayer } = useUserLayers(lake.slug);
+  const [userLayerMessage, setUserLayerMessage] = useState<string | null>(null);
+  const structureAssessment = useMemo(
+    () => structures.length ? assessStructures(structures, deferredFloodLevel, demState.dem, inundation) : null,
+    [structures, deferredFloodLevel, demState.dem, inundation],
+  );
+
+  // Live surface area and storage; catalog normal-pool facts until the level or curve loads
+  const liveElevation = lakeLevel?.elevation ?? null;
+  const liveStats = capacityCurve && liveElevation !== null
+    ? {
+        surfaceArea: Math.round(surfaceAreaAt(capacityCurve.points, liveElevation)),
+        volume: Math.round(storageAt(capacityCurve.points, liveElevation)),
+        sub: `@ ${liveElevation.toFixed(1)} ft`,
+      }
+    : { surfaceArea: info.surfaceArea, volume: info.volume, sub: 'at normal pool' };
+
+  // Everything the map can show, for the data exports
+  const mapFeatures = useMemo(() => collectMapFeatures({
+    lake,
+    lakeLevel: liveElevation,
+    depthContours,
+    inundation,
+    structures,
+    floodedStructures: structureAssessment?.inundated ?? null,
+    userLayers,
+  }), [lake, liveElevation, depthContours, inundation, structures, structureAssessment, userLayers]);
+  const mapFeatureCounts = useMemo(
+    () => Object.fromEntries(Object.entries(mapFeatures).map(([layer, features]) => [layer, features.length])) as Record<ExportLayer, number>,
+    [mapFeatures],
+  );
+
+  const { samples: waterQualitySamples } = useWaterQualitySamples(lake.slug);
+
+  // Latest imported surface temperature feeds the fishing index; otherwise the catalog snapshot
+  const waterTemperature = useMemo(() => {
+    const series = latestSeriesByParameter(waterQualitySamples).temperature;
+    if (!series) {
+      return {
+        value: waterQuality.temperature,
+        provenance: { kind: 'manual', source: waterQuality.source, enteredAt: waterQuality.enteredAt } as Provenance,
+      };
+    }
+    const latest = series.samples[series.samples.length - 1];
+    return {
+      value: Math.round(latest.value),
+      provenance: { kind: 'manual', source: `WQX import, ${series.stationName}`, enteredAt: latest.sampledAt } as Provenance,
+    };
+  }, [waterQualitySamples, waterQuality]);
+
+  // Report templates: the lake office's own first, then the standard one
+  const reportTemplates = useMemo(() => reportTemplatesFor(lake), [lake]);
+  const [reportTemplateId, setReportTemplateId] = useState(reportTemplates[0].id);
+  const [generatingReport, setGeneratingReport] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [map, setMap] = useState<mapboxgl.Map | null>(null);
+
+  // Export functions
+  const exportToPDF = async () => {
+    const template = reportTemplates.find(t => t.id === reportTemplateId) ?? reportTemplates[0];
+    setGeneratingReport(true);
+    setReportError(null);
+    try {
+      const mapImage = map ? await captureMapImage(map).catch(() => null) : null;
+      const data = buildReportData({
+        lake,
+        lakeLevel,
+        capacityCurve,
+        liveStats,
+        waterQualitySamples,
+        floodLevel,
+        floodImpact,
+        inundation,
+        structureAssessment,
+        economicImpact,
+        mapImage,
+      });
+      // jsPDF is only loaded when a report is requested
+      const { renderReportPdf } = await import('../lib/report/pdf');
+      const pdf = await renderReportPdf(template, data);
+      downloadFile(pdf, 'application/pdf', `${lake.slug}-report-${new Date().toISOString().split('T')[0]}.pdf`);
+    } catch (err) {
+      setReportError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setGeneratingReport(false);
+    }
+  };
+
+  const exportToCSV = () => {
+    const csvData = [
+      ['Metric', 'Value', 'Unit'],
+      ['Surface Area', info.surfaceArea, 'acres'],
+      ['Shoreline', info.shorelineLength, 'miles'],
+      ['Max Depth', info.maxDepth, 'feet'],
+      ['Volume', info.volume, 'acre-feet'],
+      ['Normal Pool Elevation', info.normalPoolElevation, 'feet'],
+      ['Annual Visitors', economicImpact.visits, 'visitors'],
+      ['Economic Impact', (economicImpact.total.output / 1e6).toFixed(1), 'millions USD'],
+      ['Jobs Supported', Math.round(economicImpact.total.jobs), 'jobs'],
+      ['Labor Income', (economicImpact.total.laborIncome / 1e6).toFixed(1), 'millions USD'],
+    ];
+    
+    const csv = csvData.map(row => row.join(',')).join('\n');
+    downloadFile(csv, 'text/csv', `${lake.slug}-lake-data-${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  // Dropped or picked GeoJSON, KML and GPX files, one layer each
+  const importUserLayerFiles = async (files: File[]) => {
+    const messages = await Promise.all(files.map(async file => {
+      if (!isUserLayerFile(file.name)) return `${file.name}: not a GeoJSON, KML or GPX file`;
+      let result: UserLayerImportResult;
+      try {
+        result = parseUserLayerFile(file.name, await file.text());
+      } catch (err) {
+        return `${file.name}: could not be read (${err instanceof Error ? err.message : 'unknown error'})`;
+      }
+      if (result.features.length > 0) addUserLayer(result);
+      return `${file.name}: ${result.features.length} feature${result.features.length === 1 ? '' : 's'}` +
+        (result.skipped ? `, skipped ${result.skipped}` : '') +
+        (result.warnings.length ? ` (${result.warnings.join('; ')})` : '');
+    }));
+    setUserLayerMessage(messages.join('; '));
+  };
+
+  const zoomToUserLayer = (layer: UserLayer) => {
+    map?.fitBounds(layer.bounds, { padding: 60, maxZoom: 16 });
+  };
+
+  const exportMapData = async (layers: ExportLayer[], format: MapDataFormat) => {
+    const { content, fileName } = await renderMapData(format, info.name, `${lake.slug}-map`, mapFeatures, layers);
+    downloadFile(content, content.type, fileName);
+  };
+
+  // Composed map image with the layers that are switched on
+  const exportMapImage = async (options: MapExportOptions) => {
+    if (!map) return;
+    const rgb = (color: number[]) => `rgb(${color.join(',')})`;
+    const legend = buildMapLegend({
+      floodLevel,
+      normalPoolElevation: info.normalPoolElevation,
+      contourColors: showContours && depthContours.length ? depthContours.map(c => c.color) : null,
+      contourRange: depthContours.length ? `${depthContours[depthContours.length - 1].depth}-${depthContours[0].depth} ft` : null,
+      zones: showZones ? lake.landUseZones.filter(zone => zone.polygon && zone.polygon.length > 2) : [],
+      floodExtentLevel: inundation?.waterLevel ?? null,
+      depthRamp: inundation && showDepthGrid ? DEPTH_RAMP.map(({ color }) => rgb(color)) : null,
+      floodedStructures: structureAssessment?.inundated.length ?? null,
+      viewshedColors: viewshed ? [rgb(VIEWSHED_COLORS.visible), rgb(VIEWSHED_COLORS.hidden)] : null,
+      userLayers,
+    });
+    const image = await renderMapExport(map, options, {
+      subtitle: `${info.name} · ${info.nearestTown}, ${info.county} County, ${info.state}`,
+      legend,
+      dataTimestamp: lakeLevel
+        ? `Lake level ${lakeLevel.elevation.toFixed(2)} ft observed ${new Date(lakeLevel.observedAt).toLocaleString()} (${describeProvenance(lakeLevel.provenance)})`
+        : null,
+      distanceUnit: settings.distanceUnit,
+    });
+    const extension = options.format === 'png' ? 'png' : 'jpg';
+    downloadFile(image, image.type, `${lake.slug}-map-${new Date().toISOString().split('T')[0]}.${extension}`);
+  };
+
+  // Everything a share link or bookmark restores
+  const currentView = (): ShareState => {
+    const sketch = sketches[sketchTool] ?? NO_POINTS;
+    return {
+      tab: SHARE_TABS.find(tab => tab === activeTab) ?? 'overview',
+      elevation: selectedElevation,
+      floodLevel,
+      contours: showContours,
+      zones: showZones,
+      selectedZone,
+      camera: map ? {
+        center: [map.getCenter().lng, map.getCenter().lat],
+        zoom: map.getZoom(),
+        pitch: map.getPitch(),
+        bearing: map.getBearing(),
+      } : null,
+      style: mapStyle,
+      measurement: sketch.length ? { tool: sketchTool, points: sketch, observerHeight, radiusMiles: viewshedRadius } : null,
+    };
+  };
+
+  const applyView = (view: Partial<ShareState>) => {
+    if (view.tab) setActiveTab(view.tab);
+    if (view.elevation !== undefined) setSelectedElevation(view.elevation);
+    if (view.floodLevel !== undefined) setFloodLevel(view.floodLevel);
+    if (view.contours !== undefined) setShowContours(view.contours);
+    if (view.zones !== undefined) setShowZones(view.zones);
+    setSelectedZone(view.selectedZone ?? null);
+    if (view.style) setMapStyle(view.style);
+    if (view.camera) map?.jumpTo(view.camera);
+    if (view.measurement) {
+      const { tool, points, observerHeight: height, radiusMiles } = view.measurement;
+      setAnalysisMode(null);
+      setSketchTool(tool);
+      updateSketch(tool, points);
+      if (height !== undefined) setObserverHeight(height);
+      if (radiusMiles !== undefined) setViewshedRadius(radiusMiles);
+    }
+  };
+
+  const generateShareLink = () => {
+    const params = encodeShareState(currentView());
+    const shareUrl = `${window.location.origin}${window.location.pathname}?${params.toString()}`;
+    navigator.clipboard.writeText(shareUrl);
+    alert(`Share link copied to clipboard!\n\n${shareUrl}`);
+  };
+
+  const { bookmarks, syncError, addBookmark, renameBookmark, moveBookmark, deleteBookmark, importBookmarks } = useBookmarks(lake.slug);
+
+  const saveCurrentView = () => {
+    const viewName = prompt('Enter a name for this bookmark:');
+    if (!viewName?.trim()) return;
+    addBookmark(viewName.trim(), encodeShareState(currentView()).toString());
+  };
+
+  // Keyboard shortcuts
+  useEffect(() => {
+    const handleKeyPress = (e: KeyboardEvent) => {
+      // Don't trigger if user is typing in an input
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+
+      switch(e.key.toLowerCase()) {
+        case '?':
+          e.preventDefault();
+          setShowHelp(!showHelp);
+          break;
+        case '1':
+          e.preventDefault();
+          setActiveTab('overview');
+          break;
+        case '2':
+          e.preventDefault();
+          setActiveTab('elevation');
+          break;
+        case '3':
+          e.preventDefault();
+          setActiveTab('economic');
+          break;
+        case '4':
+          e.preventDefault();
+          setActiveTab('planning');
+          break;
+        case '5':
+          e.preventDefault();
+          setActiveTab('water');
+          break;
+        case '6':
+          e.preventDefault();
+          setActiveTab('analysis');
+          break;
+        case 'e':
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            exportToCSV();
+          }
+          break;
+        case 's':
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            saveCurrentView();
+          }
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyPress);
+    return () => window.removeEventListener('keydown', handleKeyPress);
+  // Re-subscribed when saveCurrentView changes (every render) so Ctrl+S saves the view as it is now
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showHelp, saveCurrentView]);
+
+  // Calculate flood impact relative to the current lake level, with area and
+  // storage from the capacity curve
+  const calculateFloodImpact = useCallback((elevation: number) => {
+    const normalPool = info.normalPoolElevation;
+    const baseline = liveElevation ?? normalPool;
+    const difference = elevation - normalPool;
+    const rise = Math.round((elevation - baseline) * 100) / 100;
+    const additionalAcres = capacityCurve && rise > 0
+      ? Math.round(surfaceAreaAt(capacityCurve.points, elevation) - surfaceAreaAt(capacityCurve.points, baseline))
+      : null;
+    const additionalStorage = capacityCurve && rise > 0
+      ? Math.round(storageAt(capacityCurve.points, elevation) - storageAt(capacityCurve.points, baseline))
+      : null;
+    const evacuationZone = difference > 8 ? Math.round((difference - 8) * 0.5) : 0;
+    return { additionalAcres, additionalStorage, evacuationZone, difference, rise, baseline };
+  }, [info.normalPoolElevation, liveElevation, capacityCurve]);
+
+  const floodImpact = calculateFloodImpact(floodLevel);
+
+  const gazetteer = useMemo(() => buildGazetteer(lake), [lake]);
+
+  const tabs = [
+    { id: 'overview', label: 'Overview', icon: Globe },
+    { id: 'water', label: 'Water Data', icon: Droplets },
+    { id: 'recreation', label: 'Recreation', icon: Tent },
+    { id: 'elevation', label: 'Elevation', icon: Mountain },
+    { id: 'economic', label: 'Economic', icon: TrendingUp },
+    { id: 'planning', label: 'Land Planning', icon: Building2 },
+    { id: 'analysis', label: 'Analysis Tools', icon: BarChart3 },
+  ];
+
+  const renderOverview = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard icon={MapPin} label="Location" value={info.nearestTown} sub={`${info.county} County`} />
+        <StatCard icon={Droplets} label="Surface Area" value={liveStats.surfaceArea.toLocaleString()} sub={`acres ${liveStats.sub}`} />
+        <StatCard icon={Ruler} label="Shoreline" value={info.shorelineLength} sub="miles" />
+        <StatCard icon={Mountain} label="Max Depth" value={info.maxDepth} sub="feet" />
+        <StatCard icon={Activity} label="Volume" value={liveStats.volume.toLocaleString()} sub={`acre-feet ${liveStats.sub}`} />
+        <StatCard icon={Navigation} label="Drainage" value={info.drainageArea} sub="sq miles" />
+      </div>
+      
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <Database className="w-4 h-4" /> Key Elevations
+        </h4>
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Top of Dam</span>
+            <span className="text-slate-200 font-mono">{info.topOfDamElevation} ft</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Flood Stage</span>
+            <span className="text-yellow-400 font-mono">{info.floodStageElevation} ft</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Normal Pool</span>
+            <span className="text-cyan-400 font-mono">{info.normalPoolElevation} ft</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Streambed</span>
+            <span className="text-blue-400 font-mono">{info.streamBedElevation} ft</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <Info className="w-4 h-4" /> Quick Facts
+        </h4>
+        <ul className="space-y-2 text-sm text-slate-300">
+          {lake.facts.map((fact) => (
+            <li key={fact} className="flex items-start gap-2">
+              <span className="text-emerald-500 mt-1">•</span>
+              {fact}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+
+  const renderElevation = () => (
+    <div className="space-y-4">
+      <BathymetryPanel
+        info={info}
+        survey={survey}
+        contours={depthContours}
+        interval={contourInterval}
+        onIntervalChange={setContourInterval}
+        onImport={importSurvey}
+        onClear={clearSurvey}
+        selectedElevation={selectedElevation}
+        onSelectElevation={setSelectedElevation}
+      />
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" /> Flood Simulation
+        </h4>
+        <div className="space-y-3">
+          <div>
+            <label className="text-slate-400 text-sm block mb-2">
+              Water Level: <span className="text-cyan-400 font-mono">{floodLevel} ft</span>
+            </label>
+            <input
+              type="range"
+              min={info.streamBedElevation}
+              max={info.topOfDamElevation}
+              value={floodLevel}
+              onChange={(e) => setFloodLevel(Number(e.target.value))}
+              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+            />
+            <div className="flex justify-between text-xs text-slate-500 mt-1">
+              <span>{info.streamBedElevation} ft (bed)</span>
+              <span>{info.normalPoolElevation} ft (normal)</span>
+              <span>{info.topOfDamElevation} ft (dam)</span>
+            </div>
+          </div>
+
+          {/* Terrain for the mapped inundation extent */}
+          <DemLoader {...demState} onLoad={loadDemFile} onClear={clearDem} />
+          {inundation ? (
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <div className="text-slate-400">Inundated Area (DEM)</div>
+                <div className="text-cyan-400 font-mono">{Math.round(inundation.areaAcres).toLocaleString()} acres</div>
+              </div>
+              <div>
+                <div className="text-slate-400">Max Depth</div>
+                <div className="text-cyan-400 font-mono">{inundation.maxDepthFt.toFixed(1)} ft</div>
+              </div>
+            </div>
+          ) : (
+            <div className="text-xs text-slate-500">Load a DEM to map the inundation extent at this level.</div>
+          )}
+
+          <StructureInventory
+            structures={structures}
+            assessment={structureAssessment}
+            waterLevel={deferredFloodLevel}
+            onImport={replaceStructures}
+            onClear={clearStructures}
+          />
+
+          {floodLevel > floodImpact.baseline && (
+            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 mt-3">
+              <div className="text-yellow-400 text-sm font-semibold mb-2">Flood Impact Analysis</div>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div>
+                  <div className="text-slate-400">Rise Above Current</div>
+                  <div className="text-yellow-400 font-mono">+{floodImpact.rise} ft</div>
+                  <div className="text-slate-500 text-xs">from {floodImpact.baseline.toFixed(2)} ft</div>
+                </div>
+                <div>
+                  <div className="text-slate-400">Additional Flooded Area</div>
+                  <div className="text-yellow-400 font-mono">
+                    {floodImpact.additionalAcres !== null ? `${floodImpact.additionalAcres.toLocaleString()} acres` : '—'}
+                  </div>
+                  {floodImpact.additionalStorage !== null && (
+                    <div className="text-slate-500 text-xs">+{floodImpact.additionalStorage.toLocaleString()} ac-ft stored</div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-slate-400">Structures Flooded</div>
+                  <div className="text-orange-400 font-mono">
+                    {structureAssessment ? structureAssessment.inundated.length : '—'}
+                  </div>
+                  {!structureAssessment && <div className="text-slate-500 text-xs">import an inventory</div>}
+                </div>
+                <div>
+                  <div className="text-slate-400">Evacuation Zone</div>
+                  <div className="text-red-400 font-mono">{floodImpact.evacuationZone} sq mi</div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <CrossSectionProfile
+        stations={profile}
+        vertexCount={profileLine.length}
+        currentLevel={liveElevation}
+        floodLevel={floodLevel}
+        drawing={analysisMode === 'elevation'}
+        onToggleDrawing={() => toggleAnalysisMode('elevation')}
+        onUndo={() => updateSketch('elevation', profileLine.slice(0, -1))}
+        onClear={() => updateSketch('elevation', [])}
+        fileName={lake.slug}
+      />
+    </div>
+  );
+
+  // Revenue bars share one scale; projections are plotted from y=70 (min) to y=30 (max)
+  const revenueMax = Math.max(...economic.revenueBreakdown.map(item => item.value)) * 1.15;
+  const projections = economic.projections;
+  const projectionMin = Math.min(...projections.map(p => p.value));
+  const projectionMax = Math.max(...projections.map(p => p.value));
+  const projectionPoints = projections.map((p, i) => [
+    30 + (i / Math.max(1, projections.length - 1)) * 240,
+    70 - ((p.value - projectionMin) / (projectionMax - projectionMin || 1)) * 40,
+  ]);
+
+  const renderEconomic = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard 
+          icon={TrendingUp} 
+          label="Annual Economic Impact" 
+          value={`$${(economicImpact.total.output / 1e6).toFixed(1)}M`} 
+          sub="regional output" 
+          highlight
+        />
+        <StatCard 
+          icon={Building2} 
+          label="Jobs Supported" 
+          value={Math.round(economicImpact.total.jobs)} 
+          sub={`${Math.round(economicImpact.effects.direct.jobs)} direct`}
+        />
+        <StatCard 
+          icon={Droplets} 
+          label="Water Contract Value" 
+          value={`$${economic.waterContractValue}M`} 
+          sub="per year"
+        />
+        <StatCard 
+          icon={Fish} 
+          label="Annual Visitors" 
+          value={economicImpact.visits.toLocaleString()} 
+          sub="recreational"
+        />
+      </div>
+
+      <EconomicImpactCalculator
+        inputs={economicModel.inputs}
+        edited={economicModel.edited}
+        provenance={economicModel.provenance}
+        onChange={economicModel.setInputs}
+        onReset={economicModel.resetInputs}
+      />
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <BarChart3 className="w-4 h-4" /> Revenue Breakdown
+        </h4>
+        <div className="space-y-3">
+          {economic.revenueBreakdown.map((item) => (
+            <div key={item.label}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="text-slate-300">{item.label}</span>
+                <span className="text-slate-400 font-mono">${item.value}M</span>
+              </div>
+              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div 
+                  className={`h-full ${item.color} rounded-full transition-all duration-500`}
+                  style={{ width: `${(item.value / revenueMax) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <Building2 className="w-4 h-4" /> Property Analysis
+        </h4>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <div className="text-slate-400 text-sm">Avg. Lakefront Property</div>
+            <div className="text-xl text-slate-200 font-semibold">${economic.averagePropertyValue.toLocaleString()}</div>
+          </div>
+          <div>
+            <div className="text-slate-400 text-sm">Annual Growth Rate</div>
+            <div className="text-xl text-emerald-400 font-semibold">+{economic.propertyValueGrowth}%</div>
+          </div>
+        </div>
+        
+        <div className="mt-4 p-3 bg-emerald-500/10 border border-emerald-500/30 rounded-lg">
+          <div className="text-emerald-400 text-sm font-medium">Investment Outlook</div>
+          <div className="text-slate-300 text-sm mt-1">
+            Lakefront properties within 1 mile show consistent appreciation above state average
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3">Economic Projections (5-Year)</h4>
+        <div className="h-32 bg-slate-900 rounded p-2">
+          <svg viewBox="0 0 300 100" className="w-full h-full">
+            {/* Grid lines */}
+            {[0, 25, 50, 75, 100].map((y) => (
+              <line key={y} x1="30" y1={y} x2="290" y2={y} stroke="#334155" strokeWidth="0.5" />
+            ))}
+            
+            {/* Projection line */}
+            <path 
+              d={projectionPoints.map(([x, y], i) => `${i === 0 ? 'M' : 'L'} ${x},${y}`).join(' ')} 
+              fill="none" 
+              stroke="#10b981" 
+              strokeWidth="2"
+            />
+            
+            {/* Data points */}
+            {projectionPoints.map(([x, y], i) => (
+              <circle key={i} cx={x} cy={y} r="4" fill="#10b981" />
+            ))}
+            
+            {/* Labels */}
+            <text x="30" y="95" fill="#94a3b8" fontSize="8">{projections[0].year}</text>
+            <text x="150" y="95" fill="#94a3b8" fontSize="8">{projections[Math.floor(projections.length / 2)].year}</text>
+            <text x="270" y="95" fill="#94a3b8" fontSize="8">{projections[projections.length - 1].year}</text>
+            <text x="5" y="75" fill="#94a3b8" fontSize="7">${Math.floor(projectionMin)}M</text>
+            <text x="5" y="35" fill="#94a3b8" fontSize="7">${Math.round(projectionMax)}M</text>
+          </svg>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderPlanning = () => (
+    <div className="space-y-4">
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <LayoutGrid className="w-4 h-4" /> Land Use Zones
+        </h4>
+        <div className="space-y-2">
+          {lake.landUseZones.map((zone) => (
+            <div 
+              key={zone.id}
+              className={`flex items-center gap-3 p-2 rounded cursor-pointer transition-all ${
+                selectedZone === zone.id 
+                  ? 'bg-slate-700 ring-1 ring-emerald-500' 
+                  : 'hover:bg-slate-700/50'
+              }`}
+              onClick={() => setSelectedZone(selectedZone === zone.id ? null : zone.id)}
+            >
+              <div 
+                className="w-4 h-4 rounded"
+                style={{ backgroundColor: zone.color }}
+              />
+              <div className="flex-1">
+                <div className="text-slate-200 text-sm">{zone.name}</div>
+              </div>
+              <div className="text-slate-400 text-sm font-mono">
+                {zone.acres.toLocaleString()} ac
+              </div>
+            </div>
+          ))}
+        </div>
+        
+        <button
+          onClick={() => setShowZones(!showZones)}
+          className={`w-full mt-3 py-2 rounded text-sm font-medium transition-all ${
+            showZones 
+              ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500' 
+              : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+          }`}
+        >
+          {showZones ? 'Hide' : 'Show'} Zones on Map
+        </button>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <FileText className="w-4 h-4" /> Zoning Regulations
+        </h4>
+        <div className="space-y-3 text-sm">
+          {lake.planning.regulations.map((regulation) => (
+            <div key={regulation.title} className="p-3 bg-slate-900 rounded">
+              <div className={`${regulation.color} font-medium`}>{regulation.title}</div>
+              <div className="text-slate-400 mt-1">{regulation.detail}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3">Development Potential</h4>
+        <div className="space-y-3">
+          {lake.planning.developmentPotential.map((item) => (
+            <div key={item.label} className="flex items-center justify-between p-2 bg-slate-900 rounded">
+              <div>
+                <div className="text-slate-200 text-sm">{item.label}</div>
+                <div className="text-slate-500 text-xs">{item.status}</div>
+              </div>
+              <div className="text-emerald-400 font-mono text-sm">
+                {item.value} {item.unit}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <TreePine className="w-4 h-4" /> Environmental Constraints
+        </h4>
+        <div className="space-y-2 text-sm">
+          {lake.planning.environmentalConstraints.map((constraint) => (
+            <div key={constraint.label} className="flex items-center gap-2 text-slate-300">
+              <div className={`w-2 h-2 rounded-full ${constraint.color}`} />
+              {constraint.label}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderWater = () => (
+    <div className="space-y-4">
+      {/* Real-time Weather */}
+      <WeatherWidget
+        lat={info.coordinates.lat}
+        lng={info.coordinates.lng}
+        timezone={info.timezone}
+        locationName={info.name}
+      />
+
+      {/* Real-time USGS Water Level Data */}
+      <USGSWaterData
+        siteId={info.usgsSiteId}
+        siteName={info.name}
+        normalPoolElevation={info.normalPoolElevation}
+        streamBedElevation={info.streamBedElevation}
+        capacityCurve={capacityCurve?.points ?? null}
+      />
+
+      {/* Historical Water Levels Chart */}
+      <WaterLevelChart
+        siteId={info.usgsSiteId}
+        normalPoolElevation={info.normalPoolElevation}
+        floodStageElevation={info.floodStageElevation}
+      />
+
+      {/* Sampled water quality, with import */}
+      <WaterQualityPanel lakeSlug={lake.slug} snapshot={waterQuality} />
+
+      <StorageStatus
+        curve={capacityCurve}
+        onImport={importCurve}
+        onClear={clearCurve}
+        elevation={liveElevation}
+        elevationProvenance={lakeLevel?.provenance ?? null}
+        normalPoolElevation={info.normalPoolElevation}
+      />
+    </div>
+  );
+
+  const renderRecreation = () => (
+    <div className="space-y-4">
+      {/* Recreation Planner with Sun/Moon Data */}
+      <RecreationPlanner
+        lat={info.coordinates.lat}
+        lng={info.coordinates.lng}
+        timezone={info.timezone}
+      />
+
+      {/* Fishing Activity Index */}
+      <FishActivityIndex
+        lat={info.coordinates.lat}
+        lng={info.coordinates.lng}
+        timezone={info.timezone}
+        waterTemp={waterTemperature.value}
+        waterTempProvenance={waterTemperature.provenance}
+      />
+
+      {/* Boat Ramp Status */}
+      {lakeLevel ? (
+        <>
+          <BoatRampStatus
+            ramps={lake.boatRamps}
+            currentElevation={lakeLevel.elevation}
+            elevationProvenance={lakeLevel.provenance}
+            normalPoolElevation={info.normalPoolElevation}
+          />
+          {lakeLevelError && lakeLevel.provenance.kind === 'cached' && (
+            <div className="bg-yellow-500/10 rounded-lg p-3 border border-yellow-500/30 text-yellow-400 text-xs">
+              Showing the last reading from {new Date(lakeLevel.observedAt).toLocaleString()}; refresh failed: {lakeLevelError}
+            </div>
+          )}
+        </>
+      ) : lakeLevelError && (
+        <div className="bg-red-500/10 rounded-lg p-4 border border-red-500/30 text-red-400 text-sm">
+          Boat ramp status unavailable: {lakeLevelError}
+        </div>
+      )}
+
+      {/* Fish Species */}
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <Fish className="w-4 h-4" /> Fish Species
+        </h4>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          {lake.fishSpecies.map((fish) => (
+            <div key={fish.name} className="flex items-center justify-between p-2 bg-slate-900/50 rounded">
+              <span className="flex items-center gap-2 text-slate-300">
+                <Fish className="w-3 h-3 text-cyan-400" />
+                {fish.name}
+              </span>
+              <span className="text-xs text-slate-500">{fish.season}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Recreation Areas */}
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <Tent className="w-4 h-4" /> Recreation Areas
+        </h4>
+        <div className="space-y-2">
+          {lake.recreationAreas.map((area) => (
+            <div key={area.name} className="flex items-center justify-between p-2 bg-slate-900/50 rounded">
+              <div>
+                <div className="text-slate-200 text-sm">{area.name}</div>
+                <div className="text-slate-500 text-xs">{area.type}</div>
+              </div>
+              <span className="px-2 py-0.5 bg-emerald-500/20 text-emerald-400 text-xs rounded">
+                {area.status}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderAnalysis = () => (
+    <div className="space-y-4">
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <Ruler className="w-4 h-4" /> Measurement Tools
+        </h4>
+        <div className="grid grid-cols-2 gap-2">
+          <button 
+            onClick={() => toggleAnalysisMode('distance')}
+            className={`p-3 rounded text-sm font-medium transition-all flex items-center gap-2 justify-center ${
+              analysisMode === 'distance' 
+                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500' 
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            <Ruler className="w-4 h-4" /> Distance
+          </button>
+          <button 
+            onClick={() => toggleAnalysisMode('area')}
+            className={`p-3 rounded text-sm font-medium transition-all flex items-center gap-2 justify-center ${
+              analysisMode === 'area' 
+                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500' 
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            <LayoutGrid className="w-4 h-4" /> Area
+          </button>
+          <button 
+            onClick={() => toggleAnalysisMode('elevation')}
+            className={`p-3 rounded text-sm font-medium transition-all flex items-center gap-2 justify-center ${
+              analysisMode === 'elevation' 
+                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500' 
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            <Mountain className="w-4 h-4" /> Profile
+          </button>
+          <button 
+            onClick={() => toggleAnalysisMode('viewshed')}
+            className={`p-3 rounded text-sm font-medium transition-all flex items-center gap-2 justify-center ${
+              analysisMode === 'viewshed' 
+                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500' 
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            <Eye className="w-4 h-4" /> Viewshed
+          </button>
+        </div>
+        {(analysisMode === 'distance' || (!analysisMode && distanceLine.length > 0)) && (
+          <DistanceMeasurement
+            segments={distanceSegments}
+            unit={settings.distanceUnit}
+            onUnitChange={(distanceUnit) => updateSettings({ distanceUnit })}
+            onUndo={() => updateSketch('distance', distanceLine.slice(0, -1))}
+            onClear={() => updateSketch('distance', [])}
+          />
+        )}
+        {(analysisMode === 'area' || (!analysisMode && areaPolygon.length > 0)) && (
+          <AreaMeasurement
+            measurement={areaMeasurement}
+            vertexCount={areaPolygon.length}
+            waterLevel={deferredFloodLevel}
+            distanceUnit={settings.distanceUnit}
+            onUndo={() => updateSketch('area', areaPolygon.slice(0, -1))}
+            onClear={() => updateSketch('area', [])}
+          />
+        )}
+        {(analysisMode === 'viewshed' || (!analysisMode && observer)) && (
+          <ViewshedPanel
+            viewshed={viewshed}
+            hasObserver={observer !== null}
+            observerHeight={observerHeight}
+            onObserverHeightChange={setObserverHeight}
+            radiusMiles={viewshedRadius}
+            onRadiusChange={setViewshedRadius}
+            terrainSource={viewshedSource}
+            onClear={() => updateSketch('viewshed', [])}
+          />
+        )}
+        {analysisMode === 'elevation' && (
+          <div className="mt-3 p-3 bg-emerald-500/10 border border-emerald-500/30 rounded text-sm text-emerald-400">
+            Click points on the map to draw the section line; the profile is in the Elevation tab
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <BarChart3 className="w-4 h-4" /> Quick Calculations
+        </h4>
+        <div className="space-y-3">
+          <div className="p-3 bg-slate-900 rounded">
+            <div className="text-slate-400 text-xs mb-1">Shoreline per Acre</div>
+            <div className="text-xl text-slate-200 font-mono">
+              {(info.shorelineLength * 5280 / info.surfaceArea).toFixed(1)} ft/ac
+            </div>
+          </div>
+          <div className="p-3 bg-slate-900 rounded">
+            <div className="text-slate-400 text-xs mb-1">Average Depth</div>
+            <div className="text-xl text-slate-200 font-mono">
+              {(info.volume / info.surfaceArea).toFixed(1)} ft
+            </div>
+          </div>
+          <div className="p-3 bg-slate-900 rounded">
+            <div className="text-slate-400 text-xs mb-1">Runoff to Storage Ratio</div>
+            <div className="text-xl text-slate-200 font-mono">
+              {(info.drainageArea / (info.volume / 1000)).toFixed(2)}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <Download className="w-4 h-4" /> Export Options
+        </h4>
+        <div className="space-y-2">
+          {reportTemplates.length > 1 && (
+            <label className="flex items-center justify-between gap-2 text-xs text-slate-400">
+              Report template
+              <select
+                value={reportTemplateId}
+                onChange={(e) => setReportTemplateId(e.target.value)}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 focus:outline-none focus:border-emerald-500"
+              >
+                {reportTemplates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button
+            onClick={exportToPDF}
+            disabled={generatingReport}
+            className="w-full p-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors"
+          >
+            <FileText className="w-4 h-4" /> {generatingReport ? 'Generating Report...' : 'Export Report (PDF)'}
+          </button>
+          {reportError && <div className="text-xs text-red-400">Report failed: {reportError}</div>}
+          <button onClick={exportToCSV} className="w-full p-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors">
+            <Database className="w-4 h-4" /> Export Data (CSV)
+          </button>
+          <MapDataExport
+            featureCounts={mapFeatureCounts}
+            notes={{
+              boatRamps: lake.boatRamps.length ? undefined : 'none listed',
+              contours: survey ? undefined : 'no survey',
+              floodExtent: demState.dem ? undefined : 'no DEM',
+              structures: structures.length ? undefined : 'no inventory',
+              userLayers: userLayers.length ? undefined : 'none imported',
+            }}
+            onExport={exportMapData}
+          />
+          <MapImageExport
+            defaultTitle={info.name}
+            pixelSize={(size: MapExportSize, dpi: number) => map ? exportPixelSize(map, size, dpi) : null}
+            onExport={exportMapImage}
+          />
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
+          <Share2 className="w-4 h-4" /> Share & Collaborate
+        </h4>
+        <div className="space-y-2">
+          <button onClick={generateShareLink} className="w-full p-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors">
+            <Share2 className="w-4 h-4" /> Generate Share Link
+          </button>
+          <button onClick={saveCurrentView} className="w-full p-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors">
+            <Bookmark className="w-4 h-4" /> Save Current View
+          </button>
+        </div>
+        <BookmarkManager
+          lakeSlug={lake.slug}
+          bookmarks={bookmarks}
+          syncError={syncError}
+          onLoad={(bookmark) => applyView(parseShareState(new URLSearchParams(bookmark.view), lake))}
+          onRename={renameBookmark}
+          onMove={moveBookmark}
+          onDelete={deleteBookmark}
+          onImport={importBookmarks}
+          onExport={() => downloadFile(formatBookmarksJson(lake.slug, bookmarks), 'application/json', `${lake.slug}-bookmarks.json`)}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-[#0a0f14] text-slate-200 font-['JetBrains_Mono',_'SF_Mono',_monospace]">
+      {/* Header */}
+      <header className="bg-gradient-to-r from-slate-900/90 via-slate-800/90 to-slate-900/90 backdrop-blur-md border-b border-emerald-500/20 px-4 py-3 sticky top-0 z-50">
+        <div className="flex items-center justify-between max-w-[1800px] mx-auto">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-emerald-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-emerald-500/20">
+              <Droplets className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-lg font-bold text-emerald-400 tracking-tight">LakeScope</h1>
+              <p className="text-xs text-slate-500">Environmental Analysis Platform</p>
+            </div>
+          </div>
+          
+          <div className="flex items-center gap-2">
+            <LocationSearch
+              entries={gazetteer}
+              // Spread into a new object so re-selecting the same place flies there again
+              onSelect={(entry) => setFocusedLocation({ ...entry })}
+            />
+            <button 
+              onClick={() => setShowHelp(!showHelp)}
+              className="p-2 rounded-lg bg-slate-800/50 border border-slate-700 hover:border-emerald-500/50 transition-colors"
+              title="Settings & Shortcuts (Press ? to toggle)"
+            >
+              <Settings className="w-5 h-5 text-slate-400" />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Help Modal */}
+      {showHelp && (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[100] flex items-center justify-center p-4" onClick={() => setShowHelp(false)}>
+          <div className="bg-slate-900 border border-slate-700 rounded-lg max-w-2xl w-full p-6 max-h-[80vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-emerald-400">Settings & Shortcuts</h2>
+              <button onClick={() => setShowHelp(false)} className="text-slate-400 hover:text-slate-200">✕</button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-sm font-semibold text-emerald-400 mb-2">Data</h3>
+                <label className="flex items-start justify-between gap-4 text-sm cursor-pointer">
+                  <span>
+                    <span className="text-slate-300">Allow simulated data</span>
+                    <span className="block text-xs text-slate-500">
+                      When a live source fails, show clearly badged simulated values instead of an unavailable message.
+                    </span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={settings.allowSimulatedData}
+                    onChange={(e) => updateSettings({ allowSimulatedData: e.target.checked })}
+                    className="mt-1 accent-emerald-500"
+                  />
+                </label>
+              </div>
+              <div>
+                <h3 className="text-sm font-semibold text-emerald-400 mb-2">Map Controls</h3>
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between"><span className="text-slate-300">Mouse wheel</span><span className="text-slate-400">Zoom In/Out</span></div>
+                  <div className="flex justify-between"><span className="text-slate-300">Click + Drag</span><span className="text-slate-400">Pan Map</span></div>
+                  <div className="flex justify-between"><span className="text-slate-300">Double-click</span><span className="text-slate-400">Zoom to Point</span></div>
+                </div>
+              </div>
+              <div>
+                <h3 className="text-sm font-semibold text-emerald-400 mb-2">Navigation</h3>
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">1</kbd><span className="text-slate-400">Overview Tab</span></div>
+                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">2</kbd><span className="text-slate-400">Elevation Tab</span></div>
+                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">3</kbd><span className="text-slate-400">Economic Tab</span></div>
+                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">4</kbd><span className="text-slate-400">Land Planning Tab</span></div>
+                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">5</kbd><span className="text-slate-400">Water Data Tab</span></div>
+                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">6</kbd><span className="text-slate-400">Analysis Tools Tab</span></div>
+                </div>
+              </div>
+              <div>
+                <h3 className="text-sm font-semibold text-emerald-400 mb-2">Actions</h3>
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">Ctrl+E</kbd><span className="text-slate-400">Export CSV</span></div>
+                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">Ctrl+S</kbd><span className="text-slate-400">Save Bookmark</span></div>
+                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">?</kbd><span className="text-slate-400">Toggle Help</span></div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex h-[calc(100vh-64px)]">
+        {/* Left Panel - Controls */}
+        <aside className="w-80 bg-slate-900/50 border-r border-slate-800 overflow-y-auto">
+          <div className="p-4">
+            {/* Lake Selector */}
+            <div className="mb-4 p-3 bg-gradient-to-r from-emerald-500/10 to-cyan-500/10 border border-emerald-500/30 rounded-lg">
+              <div className="flex items-center gap-2 mb-1">
+                <MapPin className="w-4 h-4 text-emerald-400" />
+                {LAKES.length > 1 ? (
+                  <select
+                    value={lake.slug}
+                    onChange={(e) => router.push(`/lakes/${e.target.value}`)}
+                    className="flex-1 bg-transparent text-emerald-400 font-semibold focus:outline-none cursor-pointer"
+                  >
+                    {LAKES.map((option) => (
+                      <option key={option.slug} value={option.slug} className="bg-slate-900">
+                        {option.info.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-emerald-400 font-semibold">{info.name}</span>
+                )}
+              </div>
+              <div className="text-xs text-slate-400">
+                {info.county} County, {info.state}
+              </div>
+            </div>
+
+            {/* Tabs */}
+            <div className="flex flex-wrap gap-1 mb-4">
+              {tabs.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
+                    activeTab === tab.id
+                      ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/50'
+                      : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+                  }`}
+                >
+                  <tab.icon className="w-3.5 h-3.5" />
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            {/* Tab Content */}
+            <div className="space-y-4">
+              {activeTab === 'overview' && renderOverview()}
+              {activeTab === 'water' && renderWater()}
+              {activeTab === 'recreation' && renderRecreation()}
+              {activeTab === 'elevation' && renderElevation()}
+              {activeTab === 'economic' && renderEconomic()}
+              {activeTab === 'planning' && renderPlanning()}
+              {activeTab === 'analysis' && renderAnalysis()}
+            </div>
+          </div>
+        </aside>
+
+        {/* Main Map Area */}
+        <main className="flex-1 relative bg-[#0f1419]">
+          {/* Interactive Leaflet Map */}
+          <LakeMap
+            lake={lake}
+            showContours={showContours}
+            depthContours={depthContours}
+            showZones={showZones}
+            floodLevel={floodLevel}
+            inundation={inundation}
+            showDepthGrid={showDepthGrid}
+            structures={structures}
+            floodedStructures={structureAssessment?.inundated ?? null}
+            viewshed={viewshed}
+            focusLocation={focusedLocation}
+            drawMode={drawMode}
+            sketch={sketches[sketchTool] ?? NO_POINTS}
+            sketchShape={DRAW_MODES[sketchTool]}
+            sketchLabels={sketchLabels}
+            onSketchChange={handleSketchChange}
+            onTerrainReady={setTerrain}
+            onMapReady={setMap}
+            initialCamera={shared.camera}
+            mapStyle={mapStyle}
+            onMapStyleChange={setMapStyle}
+            userLayers={userLayers}
+            onFilesDrop={importUserLayerFiles}
+          />
+
+          {/* Layer Toggle */}
+          <div className="absolute top-4 left-4 z-[1001] bg-slate-900/90 backdrop-blur border border-slate-700 rounded-lg p-3">
+            <div className="text-xs text-slate-400 mb-2 font-medium">Map Layers</div>
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={showContours} 
+                  onChange={() => setShowContours(!showContours)}
+                  className="rounded border-slate-600 text-emerald-500 focus:ring-emerald-500 bg-slate-800"
+                />
+                <span className="text-sm text-slate-300">Depth Contours</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={showZones} 
+                  onChange={() => setShowZones(!showZones)}
+                  className="rounded border-slate-600 text-emerald-500 focus:ring-emerald-500 bg-slate-800"
+                />
+                <span className="text-sm text-slate-300">Land Use Zones</span>
+              </label>
+              {inundation && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showDepthGrid}
+                    onChange={() => setShowDepthGrid(!showDepthGrid)}
+                    className="rounded border-slate-600 text-emerald-500 focus:ring-emerald-500 bg-slate-800"
+                  />
+                  <span className="text-sm text-slate-300">Flood Depth Grid</span>
+                </label>
+              )}
+            </div>
+            <UserLayerList
+              userLayers={userLayers}
+              importMessage={userLayerMessage}
+              onImport={importUserLayerFiles}
+              onZoom={zoomToUserLayer}
+              onRemove={removeUserLayer}
+            />
+          </div>
+
+          {/* Analysis Mode Indicator */}
+          {analysisMode && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none z-[1001]">
+              <div className="bg-emerald-500/20 border border-emerald-500 rounded-lg px-4 py-2 text-emerald-400 text-sm animate-pulse">
+                {analysisMode.charAt(0).toUpperCase() + analysisMode.slice(1)} Mode Active
+              </div>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
+
+// Stat Card Component
+function StatCard({ icon: Icon, label, value, sub, highlight }: {
+  icon: React.ComponentType<{ className?: string }>;
+  label: string;
+  value: string | number;
+  sub?: string;
+  highlight?: boolean;
+}) {
+  return (
+    <div className={`p-3 rounded-lg border transition-all ${
+      highlight 
+        ? 'bg-gradient-to-br from-emerald-500/10 to-cyan-500/10 border-emerald-500/30' 
+        : 'bg-slate-800/50 border-slate-700'
+    }`}>
+      <div className="flex items-center gap-2 mb-1">
+        <Icon className={`w-4 h-4 ${highlight ? 'text-emerald-400' : 'text-slate-500'}`} />
+        <span className="text-slate-400 text-xs">{label}</span>
+      </div>
+      <div className={`text-lg font-semibold ${highlight ? 'text-emerald-400' : 'text-slate-200'}`}>
+        {value}
+      </div>
+      {sub && <div className="text-slate-500 text-xs">{sub}</div>}
+    </div>
+  );
+}
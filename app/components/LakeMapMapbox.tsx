@@ -1,132 +1,158 @@
 'use client';
 
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
+import type { LakeRecord, LngLat } from '../lib/lakes';
+import type { DepthContour } from '../lib/bathymetry';
+import { GAZETTEER_KIND_LABELS, GazetteerEntry } from '../lib/gazetteer';
+import { DEPTH_RAMP, Inundation, renderDepthImage } from '../lib/inundation';
+import type { TerrainSampler } from '../lib/profile';
+import { MAP_STYLE_NAMES, MapCamera, MapStyleName } from '../lib/shareState';
+import type { Structure, StructureExposure } from '../lib/structures';
+import type { UserLayer } from '../lib/userLayers';
+import { VIEWSHED_COLORS, Viewshed, renderViewshedImage } from '../lib/viewshed';
 
 // Mapbox access token from environment variable with fallback
 // In production, set NEXT_PUBLIC_MAPBOX_TOKEN environment variable
 const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || 'pk.eyJ1Ijoic3JtNzQ3MDEiLCJhIjoiY21rNXppNjdkMG42MTNmcHQ5bno4OGVqcSJ9.zBjj1qRNuqARjyRdaTuIOQ';
 mapboxgl.accessToken = MAPBOX_TOKEN;
 
+const FEET_PER_METER = 3.28084;
+
+// Geometry the measurement tools let the user sketch by clicking the map
+export type DrawMode = 'line' | 'polygon' | 'point';
+
 interface LakeMapProps {
-  coordinates: { lat: number; lng: number };
-  lakeName: string;
+  lake: LakeRecord;
   showContours: boolean;
+  depthContours?: DepthContour[]; // generated from the imported bathymetric survey
   showZones: boolean;
   floodLevel: number;
-  normalPoolElevation: number;
-  mapStyle?: 'satellite' | 'terrain' | 'streets';
+  inundation?: Inundation | null; // DEM-derived flood extent and depth grid at floodLevel
+  showDepthGrid?: boolean;
+  structures?: Structure[];
+  floodedStructures?: StructureExposure[] | null; // highlighted at floodLevel
+  viewshed?: Viewshed | null; // visible and hidden ground around the observer
+  focusLocation?: GazetteerEntry | null; // fly here and open its popup when it changes
+  drawMode?: DrawMode | null; // clicks add vertices to the sketch while set
+  sketch?: LngLat[];
+  sketchShape?: DrawMode; // how the sketch is drawn, including after drawing ends
+  sketchLabels?: { position: LngLat; text: string }[]; // measurement readouts drawn beside the sketch
+  onSketchChange?: (sketch: LngLat[]) => void;
+  onTerrainReady?: (terrain: TerrainSampler) => void; // basemap elevations in feet, once the map loads
+  onMapReady?: (map: mapboxgl.Map) => void; // for exports that capture the rendered map
+  initialCamera?: MapCamera | null; // e.g. from a share link; the lake overview otherwise
+  mapStyle?: MapStyleName;
+  onMapStyleChange?: (style: MapStyleName) => void;
+  userLayers?: UserLayer[]; // imported GeoJSON, KML and GPX layers
+  onFilesDrop?: (files: File[]) => void; // files dropped onto the map
+}
+
+// Build popup content using DOM manipulation (not innerHTML) to avoid XSS
+function createPopupContent(title: string, description: string): HTMLDivElement {
+  const popupContent = document.createElement('div');
+  popupContent.style.padding = '8px';
+
+  const titleEl = document.createElement('strong');
+  titleEl.style.fontSize = '14px';
+  titleEl.textContent = title;
+  popupContent.appendChild(titleEl);
+
+  const descEl = document.createElement('p');
+  descEl.style.cssText = 'margin: 4px 0 0 0; font-size: 12px; color: #666;';
+  descEl.textContent = description;
+  popupContent.appendChild(descEl);
+
+  return popupContent;
 }
 
-// Sardis Lake approximate boundary polygon (GeoJSON format - lng, lat order)
-const SARDIS_LAKE_POLYGON: [number, number][] = [
-  [-95.3620, 34.6956],
-  [-95.3502, 34.6912],
-  [-95.3415, 34.6845],
-  [-95.3380, 34.6778],
-  [-95.3395, 34.6695],
-  [-95.3448, 34.6612],
-  [-95.3532, 34.6545],
-  [-95.3648, 34.6495],
-  [-95.3785, 34.6462],
-  [-95.3925, 34.6445],
-  [-95.4068, 34.6462],
-  [-95.4185, 34.6512],
-  [-95.4262, 34.6595],
-  [-95.4295, 34.6695],
-  [-95.4278, 34.6795],
-  [-95.4215, 34.6878],
-  [-95.4112, 34.6945],
-  [-95.3985, 34.6978],
-  [-95.3848, 34.6978],
-  [-95.3720, 34.6956],
-  [-95.3620, 34.6956],
-];
-
-// Points of interest around Sardis Lake
-const POINTS_OF_INTEREST = [
-  { name: 'Sardis Dam', position: [-95.3380, 34.6619] as [number, number], type: 'dam', description: 'Main dam structure, built 1982' },
-  { name: 'Potato Hills Marina', position: [-95.4100, 34.6850] as [number, number], type: 'marina', description: 'Full-service marina with boat rentals' },
-  { name: 'Pine Creek Cove', position: [-95.3950, 34.6450] as [number, number], type: 'campground', description: 'Camping and day-use area' },
-  { name: 'Jackfork Creek Inlet', position: [-95.3600, 34.6970] as [number, number], type: 'inlet', description: 'Primary water source inlet' },
-  { name: 'Wildlife Area', position: [-95.4200, 34.6750] as [number, number], type: 'wildlife', description: 'Protected wildlife observation zone' },
-];
-
-// Land use zones (GeoJSON format)
-const LAND_USE_ZONES = [
-  {
-    id: 'conservation',
-    name: 'Conservation Area',
-    color: '#2d6a4f',
-    polygon: [
-      [-95.4100, 34.6950],
-      [-95.4200, 34.6900],
-      [-95.4250, 34.6800],
-      [-95.4200, 34.6750],
-      [-95.4100, 34.6800],
-      [-95.4050, 34.6900],
-      [-95.4100, 34.6950],
-    ] as [number, number][],
-  },
-  {
-    id: 'recreation',
-    name: 'Recreation Zone',
-    color: '#40916c',
-    polygon: [
-      [-95.3850, 34.6550],
-      [-95.3950, 34.6500],
-      [-95.4000, 34.6450],
-      [-95.3950, 34.6400],
-      [-95.3850, 34.6450],
-      [-95.3800, 34.6500],
-      [-95.3850, 34.6550],
-    ] as [number, number][],
-  },
-  {
-    id: 'wildlife',
-    name: 'Wildlife Habitat',
-    color: '#74c69d',
-    polygon: [
-      [-95.3500, 34.6850],
-      [-95.3550, 34.6800],
-      [-95.3500, 34.6750],
-      [-95.3450, 34.6700],
-      [-95.3400, 34.6750],
-      [-95.3450, 34.6800],
-      [-95.3500, 34.6850],
-    ] as [number, number][],
-  },
-];
-
-// Depth contour rings (simulated bathymetry)
-const DEPTH_CONTOURS = [
-  { depth: 55, color: '#1a365d', scale: 0.3 },
-  { depth: 40, color: '#2c5282', scale: 0.5 },
-  { depth: 25, color: '#3182ce', scale: 0.7 },
-  { depth: 10, color: '#63b3ed', scale: 0.85 },
-];
+// Attribute table for an imported feature, built the same way
+function createAttributesPopup(title: string, attributes: Record<string, unknown>): HTMLDivElement {
+  const popupContent = document.createElement('div');
+  popupContent.style.padding = '8px';
+
+  const titleEl = document.createElement('strong');
+  titleEl.style.fontSize = '14px';
+  titleEl.textContent = title;
+  popupContent.appendChild(titleEl);
+
+  const table = document.createElement('table');
+  table.style.cssText = 'margin-top: 4px; font-size: 12px; color: #444; border-spacing: 8px 0;';
+  Object.entries(attributes)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .slice(0, 20)
+    .forEach(([key, value]) => {
+      const row = table.insertRow();
+      const keyCell = row.insertCell();
+      keyCell.style.cssText = 'color: #888; vertical-align: top;';
+      keyCell.textContent = key;
+      row.insertCell().textContent = String(value);
+    });
+  popupContent.appendChild(table);
+
+  return popupContent;
+}
 
 // Map style URLs (defined outside component to avoid re-creation)
-const MAP_STYLES: Record<string, string> = {
+const MAP_STYLES: Record<MapStyleName, string> = {
   satellite: 'mapbox://styles/mapbox/satellite-streets-v12',
   terrain: 'mapbox://styles/mapbox/outdoors-v12',
   streets: 'mapbox://styles/mapbox/streets-v12',
 };
 
 export default function LakeMap({
-  coordinates,
-  lakeName,
+  lake,
   showContours,
+  depthContours = [],
   showZones,
   floodLevel,
-  normalPoolElevation,
+  inundation = null,
+  showDepthGrid = true,
+  structures = [],
+  floodedStructures = null,
+  viewshed = null,
+  focusLocation,
+  drawMode = null,
+  sketch = [],
+  sketchShape = 'line',
+  sketchLabels = [],
+  onSketchChange,
+  onTerrainReady,
+  onMapReady,
+  initialCamera = null,
   mapStyle = 'satellite',
+  onMapStyleChange,
+  userLayers = [],
+  onFilesDrop,
 }: LakeMapProps) {
+  const { coordinates, name: lakeName, normalPoolElevation } = lake.info;
+  const lakePolygon = lake.boundary;
+  // Only zones with a surveyed boundary can be drawn
+  const mappedZones = useMemo(
+    () => lake.landUseZones.filter(zone => zone.polygon && zone.polygon.length > 2),
+    [lake.landUseZones],
+  );
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
+  const markersRef = useRef<Map<string, mapboxgl.Marker>>(new Map());
+  const searchPopupRef = useRef<mapboxgl.Popup | null>(null);
   const [currentZoom, setCurrentZoom] = useState(12);
-  const [currentStyle, setCurrentStyle] = useState(mapStyle);
+  // Style the map was last set to, so a new mapStyle restyles rather than rebuilds it
+  const appliedStyleRef = useRef(mapStyle);
+  // Imported layers currently on the map, so removed ones can be taken off
+  const userLayerIdsRef = useRef<string[]>([]);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  // Latest flood level for layers added on style load, which must not rebuild the map
+  const floodLevelRef = useRef(floodLevel);
+  useEffect(() => {
+    floodLevelRef.current = floodLevel;
+  }, [floodLevel]);
+  // Whether a measurement tool is taking clicks, so feature popups stay closed
+  const drawModeRef = useRef(drawMode);
+  useEffect(() => {
+    drawModeRef.current = drawMode;
+  }, [drawMode]);
 
   // Function to add data layers - defined with useCallback to avoid re-creation
   const addDataLayers = useCallback((map: mapboxgl.Map) => {
@@ -163,12 +189,14 @@ export default function LakeMap({
           properties: { name: lakeName },
           geometry: {
             type: 'Polygon',
-            coordinates: [SARDIS_LAKE_POLYGON],
+            coordinates: [lakePolygon],
           },
         },
       });
     }
 
+    const flooded = floodLevelRef.current > normalPoolElevation;
+
     // Add lake fill layer
     if (!map.getLayer('lake-fill')) {
       map.addLayer({
@@ -176,8 +204,8 @@ export default function LakeMap({
         type: 'fill',
         source: 'lake-boundary',
         paint: {
-          'fill-color': floodLevel > normalPoolElevation ? '#ffc107' : '#3182ce',
-          'fill-opacity': 0.3,
+          'fill-color': flooded ? '#ffc107' : '#3182ce',
+          'fill-opacity': flooded ? 0.5 : 0.3,
         },
       });
     }
@@ -189,14 +217,16 @@ export default function LakeMap({
         type: 'line',
         source: 'lake-boundary',
         paint: {
-          'line-color': floodLevel > normalPoolElevation ? '#ff9800' : '#1e40af',
-          'line-width': 3,
+          'line-color': flooded ? '#ff9800' : '#1e40af',
+          'line-width': flooded ? 4 : 3,
         },
       });
     }
 
-    // Add points of interest
-    POINTS_OF_INTEREST.forEach((poi) => {
+    // Add points of interest, replacing markers left over from a previous style
+    markersRef.current.forEach(marker => marker.remove());
+    markersRef.current.clear();
+    lake.pointsOfInterest.forEach((poi) => {
       const markerEl = document.createElement('div');
       markerEl.className = 'poi-marker';
       
@@ -234,28 +264,15 @@ export default function LakeMap({
       iconDiv.textContent = icons[poi.type];
       markerEl.appendChild(iconDiv);
 
-      // Create popup content using DOM manipulation to avoid XSS
-      const popupContent = document.createElement('div');
-      popupContent.style.padding = '8px';
-      
-      const titleEl = document.createElement('strong');
-      titleEl.style.fontSize = '14px';
-      titleEl.textContent = poi.name;
-      popupContent.appendChild(titleEl);
-      
-      const descEl = document.createElement('p');
-      descEl.style.cssText = 'margin: 4px 0 0 0; font-size: 12px; color: #666;';
-      descEl.textContent = poi.description;
-      popupContent.appendChild(descEl);
-
-      new mapboxgl.Marker(markerEl)
+      const marker = new mapboxgl.Marker(markerEl)
         .setLngLat(poi.position)
         .setPopup(
-          new mapboxgl.Popup({ offset: 25 }).setDOMContent(popupContent)
+          new mapboxgl.Popup({ offset: 25 }).setDOMContent(createPopupContent(poi.name, poi.description))
         )
         .addTo(map);
+      markersRef.current.set(poi.id, marker);
     });
-  }, [lakeName, floodLevel, normalPoolElevation]);
+  }, [lakeName, lakePolygon, lake.pointsOfInterest, normalPoolElevation]);
 
   // Initialize map
   useEffect(() => {
@@ -263,11 +280,11 @@ export default function LakeMap({
 
     const map = new mapboxgl.Map({
       container: mapContainerRef.current,
-      style: MAP_STYLES[currentStyle],
-      center: [coordinates.lng, coordinates.lat],
-      zoom: 12,
-      pitch: 45,
-      bearing: -17.6,
+      style: MAP_STYLES[appliedStyleRef.current],
+      center: initialCamera?.center ?? [coordinates.lng, coordinates.lat],
+      zoom: initialCamera?.zoom ?? 12,
+      pitch: initialCamera?.pitch ?? 45,
+      bearing: initialCamera?.bearing ?? -17.6,
       antialias: true,
     });
 
@@ -286,6 +303,17 @@ export default function LakeMap({
       addDataLayers(map);
     });
 
+    // Raw (unexaggerated) terrain heights for profiles
+    map.on('load', () => {
+      onTerrainReady?.({
+        elevationAt: (position) => {
+          const meters = map.queryTerrainElevation(position, { exaggerated: false });
+          return meters === null || meters === undefined ? null : meters * FEET_PER_METER;
+        },
+      });
+      onMapReady?.(map);
+    });
+
     mapRef.current = map;
 
     return () => {
@@ -294,7 +322,7 @@ export default function LakeMap({
         mapRef.current = null;
       }
     };
-  }, [coordinates.lat, coordinates.lng, currentStyle, addDataLayers]);
+  }, [coordinates.lat, coordinates.lng, initialCamera, addDataLayers, onTerrainReady, onMapReady]);
 
   // Update layers when props change
   useEffect(() => {
@@ -328,16 +356,8 @@ export default function LakeMap({
       );
     }
 
-    // Handle contours visibility
-    DEPTH_CONTOURS.forEach((contour, index) => {
-      const layerId = `contour-${index}`;
-      if (map.getLayer(layerId)) {
-        map.setLayoutProperty(layerId, 'visibility', showContours ? 'visible' : 'none');
-      }
-    });
-
     // Handle zones visibility
-    LAND_USE_ZONES.forEach((zone) => {
+    mappedZones.forEach((zone) => {
       const fillLayerId = `zone-fill-${zone.id}`;
       const outlineLayerId = `zone-outline-${zone.id}`;
       if (map.getLayer(fillLayerId)) {
@@ -348,7 +368,7 @@ export default function LakeMap({
       }
     });
 
-  }, [floodLevel, normalPoolElevation, showContours, showZones]);
+  }, [floodLevel, normalPoolElevation, showZones, mappedZones]);
 
   // Add contour and zone layers after initial load
   useEffect(() => {
@@ -356,52 +376,8 @@ export default function LakeMap({
     const map = mapRef.current;
 
     const addAdditionalLayers = () => {
-      // Add depth contour layers
-      DEPTH_CONTOURS.forEach((contour, index) => {
-        const sourceId = `contour-source-${index}`;
-        const layerId = `contour-${index}`;
-
-        if (!map.getSource(sourceId)) {
-          // Create scaled polygon for contour
-          const scaledPolygon = SARDIS_LAKE_POLYGON.map(([lng, lat]) => {
-            const centerLng = coordinates.lng;
-            const centerLat = coordinates.lat;
-            return [
-              centerLng + (lng - centerLng) * contour.scale,
-              centerLat + (lat - centerLat) * contour.scale,
-            ] as [number, number];
-          });
-
-          map.addSource(sourceId, {
-            type: 'geojson',
-            data: {
-              type: 'Feature',
-              properties: { depth: contour.depth },
-              geometry: {
-                type: 'Polygon',
-                coordinates: [scaledPolygon],
-              },
-            },
-          });
-
-          map.addLayer({
-            id: layerId,
-            type: 'line',
-            source: sourceId,
-            layout: {
-              visibility: showContours ? 'visible' : 'none',
-            },
-            paint: {
-              'line-color': contour.color,
-              'line-width': 2,
-              'line-dasharray': [2, 2],
-            },
-          });
-        }
-      });
-
       // Add land use zone layers
-      LAND_USE_ZONES.forEach((zone) => {
+      mappedZones.forEach((zone) => {
         const sourceId = `zone-source-${zone.id}`;
         const fillLayerId = `zone-fill-${zone.id}`;
         const outlineLayerId = `zone-outline-${zone.id}`;
@@ -414,7 +390,7 @@ export default function LakeMap({
               properties: { name: zone.name },
               geometry: {
                 type: 'Polygon',
-                coordinates: [zone.polygon],
+                coordinates: [zone.polygon ?? []],
               },
             },
           });
@@ -446,64 +422,469 @@ export default function LakeMap({
           });
         }
       });
+    };
 
-      // Add flood warning layer if above normal
-      if (floodLevel > normalPoolElevation) {
-        const floodSourceId = 'flood-warning-source';
-        const floodLayerId = 'flood-warning';
-
-        if (!map.getSource(floodSourceId)) {
-          // Expand polygon based on flood level
-          const expansionFactor = 1 + ((floodLevel - normalPoolElevation) / 50);
-          const expandedPolygon = SARDIS_LAKE_POLYGON.map(([lng, lat]) => {
-            const centerLng = coordinates.lng;
-            const centerLat = coordinates.lat;
-            return [
-              centerLng + (lng - centerLng) * expansionFactor,
-              centerLat + (lat - centerLat) * expansionFactor,
-            ] as [number, number];
-          });
+    // Add now if the style is ready, and again whenever a basemap switch replaces it
+    if (map.isStyleLoaded()) addAdditionalLayers();
+    map.on('style.load', addAdditionalLayers);
+    return () => {
+      map.off('style.load', addAdditionalLayers);
+    };
+  }, [lakePolygon, mappedZones, showZones]);
 
-          map.addSource(floodSourceId, {
-            type: 'geojson',
-            data: {
-              type: 'Feature',
-              properties: {},
-              geometry: {
-                type: 'Polygon',
-                coordinates: [expandedPolygon],
-              },
-            },
-          });
+  // Depth contours from the bathymetric survey, labeled with their depth
+  const contourData = useMemo<GeoJSON.FeatureCollection>(() => ({
+    type: 'FeatureCollection',
+    features: depthContours.map(contour => ({
+      type: 'Feature',
+      properties: { elevation: contour.elevation, depth: contour.depth, color: contour.color, label: `${contour.depth} ft` },
+      geometry: contour.geometry,
+    })),
+  }), [depthContours]);
 
-          map.addLayer({
-            id: floodLayerId,
-            type: 'line',
-            source: floodSourceId,
-            paint: {
-              'line-color': '#ff9800',
-              'line-width': 3,
-              'line-dasharray': [4, 2],
-            },
-          });
-        }
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const syncContourLayers = () => {
+      const source = map.getSource('depth-contours-source') as mapboxgl.GeoJSONSource | undefined;
+      if (source) {
+        source.setData(contourData);
+      } else {
+        map.addSource('depth-contours-source', { type: 'geojson', data: contourData });
+        map.addLayer({
+          id: 'depth-contours',
+          type: 'line',
+          source: 'depth-contours-source',
+          paint: {
+            'line-color': ['get', 'color'],
+            'line-width': 1.5,
+          },
+        });
+        map.addLayer({
+          id: 'depth-contour-labels',
+          type: 'symbol',
+          source: 'depth-contours-source',
+          layout: {
+            'symbol-placement': 'line',
+            'text-field': ['get', 'label'],
+            'text-size': 10,
+          },
+          paint: {
+            'text-color': '#e2e8f0',
+            'text-halo-color': '#0f172a',
+            'text-halo-width': 1,
+          },
+        });
+      }
+      ['depth-contours', 'depth-contour-labels'].forEach(id => {
+        map.setLayoutProperty(id, 'visibility', showContours ? 'visible' : 'none');
+      });
+    };
+
+    if (map.isStyleLoaded()) syncContourLayers();
+    map.on('style.load', syncContourLayers);
+    return () => {
+      map.off('style.load', syncContourLayers);
+    };
+  }, [contourData, showContours]);
+
+  const depthImageUrl = useMemo(() => inundation ? renderDepthImage(inundation) : null, [inundation]);
+
+  // Flood extent outline and depth grid from the DEM, re-added after style changes
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const syncFloodLayers = () => {
+      const extentSource = map.getSource('flood-extent-source') as mapboxgl.GeoJSONSource | undefined;
+      const depthSource = map.getSource('flood-depth-source') as mapboxgl.ImageSource | undefined;
+
+      if (!inundation || !depthImageUrl) {
+        ['flood-extent-fill', 'flood-extent', 'flood-depth'].forEach(id => {
+          if (map.getLayer(id)) map.removeLayer(id);
+        });
+        if (extentSource) map.removeSource('flood-extent-source');
+        if (depthSource) map.removeSource('flood-depth-source');
+        return;
       }
+
+      const extent: GeoJSON.Feature = {
+        type: 'Feature',
+        properties: { waterLevel: inundation.waterLevel },
+        geometry: inundation.extent,
+      };
+      if (extentSource) {
+        extentSource.setData(extent);
+      } else {
+        map.addSource('flood-extent-source', { type: 'geojson', data: extent });
+        map.addLayer({
+          id: 'flood-extent-fill',
+          type: 'fill',
+          source: 'flood-extent-source',
+          paint: { 'fill-color': '#ff9800', 'fill-opacity': 0.15 },
+        });
+        map.addLayer({
+          id: 'flood-extent',
+          type: 'line',
+          source: 'flood-extent-source',
+          paint: {
+            'line-color': '#ff9800',
+            'line-width': 3,
+            'line-dasharray': [4, 2],
+          },
+        });
+      }
+
+      if (depthSource) {
+        depthSource.updateImage({ url: depthImageUrl, coordinates: inundation.corners });
+      } else {
+        map.addSource('flood-depth-source', {
+          type: 'image',
+          url: depthImageUrl,
+          coordinates: inundation.corners,
+        });
+        map.addLayer({
+          id: 'flood-depth',
+          type: 'raster',
+          source: 'flood-depth-source',
+          paint: { 'raster-opacity': 0.75, 'raster-resampling': 'nearest' },
+        }, map.getLayer('flood-extent-fill') ? 'flood-extent-fill' : undefined);
+      }
+      map.setLayoutProperty('flood-depth', 'visibility', showDepthGrid ? 'visible' : 'none');
     };
 
-    // Wait for style to be loaded
-    if (map.isStyleLoaded()) {
-      addAdditionalLayers();
-    } else {
-      map.on('style.load', addAdditionalLayers);
+    if (map.isStyleLoaded()) syncFloodLayers();
+    map.on('style.load', syncFloodLayers);
+    return () => {
+      map.off('style.load', syncFloodLayers);
+    };
+  }, [inundation, depthImageUrl, showDepthGrid]);
+
+  const viewshedImageUrl = useMemo(() => viewshed ? renderViewshedImage(viewshed) : null, [viewshed]);
+
+  // Viewshed shading, re-added after style changes
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const syncViewshedLayer = () => {
+      const source = map.getSource('viewshed-source') as mapboxgl.ImageSource | undefined;
+      if (!viewshed || !viewshedImageUrl) {
+        if (map.getLayer('viewshed')) map.removeLayer('viewshed');
+        if (source) map.removeSource('viewshed-source');
+        return;
+      }
+      if (source) {
+        source.updateImage({ url: viewshedImageUrl, coordinates: viewshed.corners });
+        return;
+      }
+      map.addSource('viewshed-source', { type: 'image', url: viewshedImageUrl, coordinates: viewshed.corners });
+      map.addLayer({
+        id: 'viewshed',
+        type: 'raster',
+        source: 'viewshed-source',
+        paint: { 'raster-opacity': 0.8, 'raster-resampling': 'nearest' },
+      }, map.getLayer('sketch-fill') ? 'sketch-fill' : undefined);
+    };
+
+    if (map.isStyleLoaded()) syncViewshedLayer();
+    map.on('style.load', syncViewshedLayer);
+    return () => {
+      map.off('style.load', syncViewshedLayer);
+    };
+  }, [viewshed, viewshedImageUrl]);
+
+  // Structure inventory, with flooded structures highlighted
+  const structureData = useMemo<GeoJSON.FeatureCollection>(() => {
+    const flooded = new Map((floodedStructures ?? []).map(exposure => [exposure.structure.id, exposure]));
+    return {
+      type: 'FeatureCollection',
+      features: structures.map(structure => {
+        const exposure = flooded.get(structure.id);
+        return {
+          type: 'Feature',
+          properties: {
+            name: structure.name,
+            flooded: Boolean(exposure),
+            description: exposure
+              ? `${exposure.depthAboveFloor.toFixed(1)} ft over first floor (${exposure.floorElevation.toFixed(1)} ft)`
+              : structure.firstFloorElevation !== null
+                ? `First floor ${structure.firstFloorElevation} ft`
+                : 'Not flooded at this level',
+          },
+          geometry: { type: 'Point', coordinates: structure.position },
+        };
+      }),
+    };
+  }, [structures, floodedStructures]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const syncStructureLayer = () => {
+      const source = map.getSource('structures-source') as mapboxgl.GeoJSONSource | undefined;
+      if (structureData.features.length === 0) {
+        if (map.getLayer('structures')) map.removeLayer('structures');
+        if (source) map.removeSource('structures-source');
+        return;
+      }
+      if (source) {
+        source.setData(structureData);
+        return;
+      }
+      map.addSource('structures-source', { type: 'geojson', data: structureData });
+      map.addLayer({
+        id: 'structures',
+        type: 'circle',
+        source: 'structures-source',
+        paint: {
+          'circle-radius': ['case', ['get', 'flooded'], 6, 3],
+          'circle-color': ['case', ['get', 'flooded'], '#ef4444', '#94a3b8'],
+          'circle-stroke-color': '#0f172a',
+          'circle-stroke-width': 1,
+        },
+      });
+    };
+
+    const showStructurePopup = (e: mapboxgl.MapLayerMouseEvent) => {
+      const feature = e.features?.[0];
+      if (!feature || drawModeRef.current) return;
+      new mapboxgl.Popup({ offset: 8 })
+        .setLngLat(e.lngLat)
+        .setDOMContent(createPopupContent(String(feature.properties?.name ?? ''), String(feature.properties?.description ?? '')))
+        .addTo(map);
+    };
+
+    if (map.isStyleLoaded()) syncStructureLayer();
+    map.on('style.load', syncStructureLayer);
+    map.on('click', 'structures', showStructurePopup);
+    return () => {
+      map.off('style.load', syncStructureLayer);
+      map.off('click', 'structures', showStructurePopup);
+    };
+  }, [structureData]);
+
+  // Imported layers, each styled in its palette colour: polygon fills,
+  // lines and outlines, and points, kept beneath the measurement sketch
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    const layerIds = (id: string) => [`user-layer-${id}-fill`, `user-layer-${id}-line`, `user-layer-${id}-circle`];
+
+    const syncUserLayers = () => {
+      const ids = new Set(userLayers.map(layer => layer.id));
+      userLayerIdsRef.current.filter(id => !ids.has(id)).forEach(id => {
+        layerIds(id).forEach(layerId => {
+          if (map.getLayer(layerId)) map.removeLayer(layerId);
+        });
+        if (map.getSource(`user-layer-${id}`)) map.removeSource(`user-layer-${id}`);
+      });
+      userLayerIdsRef.current = [...ids];
+
+      // Imported layers never change, so an existing source is up to date
+      const beforeId = map.getLayer('sketch-fill') ? 'sketch-fill' : undefined;
+      userLayers.forEach(layer => {
+        const sourceId = `user-layer-${layer.id}`;
+        if (map.getSource(sourceId)) return;
+        map.addSource(sourceId, { type: 'geojson', data: { type: 'FeatureCollection', features: layer.features } });
+        map.addLayer({
+          id: `${sourceId}-fill`,
+          type: 'fill',
+          source: sourceId,
+          filter: ['match', ['geometry-type'], ['Polygon', 'MultiPolygon'], true, false],
+          paint: { 'fill-color': layer.color, 'fill-opacity': 0.25 },
+        }, beforeId);
+        map.addLayer({
+          id: `${sourceId}-line`,
+          type: 'line',
+          source: sourceId,
+          filter: ['match', ['geometry-type'], ['Point', 'MultiPoint'], false, true],
+          paint: { 'line-color': layer.color, 'line-width': 2 },
+        }, beforeId);
+        map.addLayer({
+          id: `${sourceId}-circle`,
+          type: 'circle',
+          source: sourceId,
+          filter: ['match', ['geometry-type'], ['Point', 'MultiPoint'], true, false],
+          paint: {
+            'circle-radius': 5,
+            'circle-color': layer.color,
+            'circle-stroke-color': '#0f172a',
+            'circle-stroke-width': 1,
+          },
+        }, beforeId);
+      });
+    };
+
+    const showUserFeaturePopup = (e: mapboxgl.MapMouseEvent) => {
+      if (drawModeRef.current) return;
+      const layers = userLayers.flatMap(layer => layerIds(layer.id)).filter(id => map.getLayer(id));
+      if (layers.length === 0) return;
+      const feature = map.queryRenderedFeatures(e.point, { layers })[0];
+      if (!feature) return;
+      const userLayer = userLayers.find(layer => feature.source === `user-layer-${layer.id}`);
+      const properties = feature.properties ?? {};
+      new mapboxgl.Popup({ offset: 8 })
+        .setLngLat(e.lngLat)
+        .setDOMContent(createAttributesPopup(String(properties.name ?? userLayer?.name ?? ''), properties))
+        .addTo(map);
+    };
+
+    if (map.isStyleLoaded()) syncUserLayers();
+    map.on('style.load', syncUserLayers);
+    map.on('click', showUserFeaturePopup);
+    return () => {
+      map.off('style.load', syncUserLayers);
+      map.off('click', showUserFeaturePopup);
+    };
+  }, [userLayers]);
+
+  // Sketch drawn with the measurement tools: the path, its vertices and labels
+  const sketchData = useMemo<GeoJSON.FeatureCollection>(() => ({
+    type: 'FeatureCollection',
+    features: [
+      ...(sketchShape === 'polygon' && sketch.length > 2
+        ? [{ type: 'Feature' as const, properties: {}, geometry: { type: 'Polygon' as const, coordinates: [[...sketch, sketch[0]]] } }]
+        : sketch.length > 1
+          ? [{ type: 'Feature' as const, properties: {}, geometry: { type: 'LineString' as const, coordinates: sketch } }]
+          : []),
+      ...sketch.map(position => ({
+        type: 'Feature' as const,
+        properties: {},
+        geometry: { type: 'Point' as const, coordinates: position },
+      })),
+      ...sketchLabels.map(({ position, text }) => ({
+        type: 'Feature' as const,
+        properties: { label: text },
+        geometry: { type: 'Point' as const, coordinates: position },
+      })),
+    ],
+  }), [sketch, sketchShape, sketchLabels]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const syncSketchLayers = () => {
+      const source = map.getSource('sketch-source') as mapboxgl.GeoJSONSource | undefined;
+      if (source) {
+        source.setData(sketchData);
+        return;
+      }
+      map.addSource('sketch-source', { type: 'geojson', data: sketchData });
+      map.addLayer({
+        id: 'sketch-fill',
+        type: 'fill',
+        source: 'sketch-source',
+        filter: ['==', ['geometry-type'], 'Polygon'],
+        paint: { 'fill-color': '#34d399', 'fill-opacity': 0.2 },
+      });
+      map.addLayer({
+        id: 'sketch-line',
+        type: 'line',
+        source: 'sketch-source',
+        filter: ['match', ['geometry-type'], ['LineString', 'Polygon'], true, false],
+        paint: { 'line-color': '#34d399', 'line-width': 3, 'line-dasharray': [2, 1] },
+      });
+      map.addLayer({
+        id: 'sketch-vertices',
+        type: 'circle',
+        source: 'sketch-source',
+        filter: ['all', ['==', ['geometry-type'], 'Point'], ['!', ['has', 'label']]],
+        paint: {
+          'circle-radius': 4,
+          'circle-color': '#ffffff',
+          'circle-stroke-color': '#059669',
+          'circle-stroke-width': 2,
+        },
+      });
+      map.addLayer({
+        id: 'sketch-labels',
+        type: 'symbol',
+        source: 'sketch-source',
+        filter: ['has', 'label'],
+        layout: {
+          'text-field': ['get', 'label'],
+          'text-size': 11,
+          'text-offset': [0, -1.2],
+          'text-allow-overlap': true,
+        },
+        paint: {
+          'text-color': '#ecfdf5',
+          'text-halo-color': '#064e3b',
+          'text-halo-width': 1.5,
+        },
+      });
+    };
+
+    if (map.isStyleLoaded()) syncSketchLayers();
+    map.on('style.load', syncSketchLayers);
+    return () => {
+      map.off('style.load', syncSketchLayers);
+    };
+  }, [sketchData]);
+
+  // While drawing, clicks add vertices (or move the single point), pass
+  // through POI markers rather than opening them, and double-click zoom is
+  // suspended so quick clicks do not move the map
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !drawMode || !onSketchChange) return;
+
+    const addVertex = (e: mapboxgl.MapMouseEvent) => {
+      const position: LngLat = [e.lngLat.lng, e.lngLat.lat];
+      onSketchChange(drawMode === 'point' ? [position] : [...sketch, position]);
+    };
+
+    map.getCanvas().style.cursor = 'crosshair';
+    map.doubleClickZoom.disable();
+    map.on('click', addVertex);
+    const markers = [...markersRef.current.values()];
+    markers.forEach(marker => { marker.getElement().style.pointerEvents = 'none'; });
+    return () => {
+      map.off('click', addVertex);
+      markers.forEach(marker => { marker.getElement().style.pointerEvents = ''; });
+      map.doubleClickZoom.enable();
+      map.getCanvas().style.cursor = '';
+    };
+  }, [drawMode, sketch, onSketchChange]);
+
+  // Fly to a location chosen in the header search and open its popup
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !focusLocation) return;
+
+    searchPopupRef.current?.remove();
+    searchPopupRef.current = null;
+
+    map.flyTo({ center: focusLocation.position, zoom: 14, essential: true });
+
+    // POIs already have a marker popup; everything else gets a standalone one
+    const marker = focusLocation.kind === 'poi' ? markersRef.current.get(focusLocation.sourceId) : undefined;
+    if (marker) {
+      if (!marker.getPopup()?.isOpen()) marker.togglePopup();
+      return;
     }
-  }, [coordinates, showContours, showZones, floodLevel, normalPoolElevation]);
+
+    searchPopupRef.current = new mapboxgl.Popup({ offset: 12 })
+      .setLngLat(focusLocation.position)
+      .setDOMContent(createPopupContent(
+        focusLocation.name,
+        `${GAZETTEER_KIND_LABELS[focusLocation.kind]} - ${focusLocation.detail}`,
+      ))
+      .addTo(map);
+  }, [focusLocation]);
 
   // Change map style
-  const changeMapStyle = (style: 'satellite' | 'terrain' | 'streets') => {
-    if (!mapRef.current) return;
-    setCurrentStyle(style);
-    mapRef.current.setStyle(MAP_STYLES[style]);
-  };
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || appliedStyleRef.current === mapStyle) return;
+    appliedStyleRef.current = mapStyle;
+    // style.load handlers re-add the data layers
+    map.setStyle(MAP_STYLES[mapStyle]);
+  }, [mapStyle]);
 
   // Center on lake
   const centerOnLake = () => {
@@ -517,19 +898,42 @@ export default function LakeMap({
   };
 
   return (
-    <div className="relative w-full h-full">
+    <div
+      className="relative w-full h-full"
+      onDragOver={(e) => {
+        if (!onFilesDrop || !e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDraggingFiles(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDraggingFiles(false);
+      }}
+      onDrop={(e) => {
+        if (!onFilesDrop) return;
+        e.preventDefault();
+        setDraggingFiles(false);
+        onFilesDrop(Array.from(e.dataTransfer.files));
+      }}
+    >
       <div ref={mapContainerRef} className="w-full h-full" style={{ minHeight: '400px' }} />
+
+      {/* Drop target for imported layers */}
+      {draggingFiles && (
+        <div className="absolute inset-0 z-20 pointer-events-none flex items-center justify-center bg-slate-900/60 border-2 border-dashed border-emerald-500 rounded-lg">
+          <div className="text-emerald-400 text-sm font-medium">Drop GeoJSON, KML or GPX files to add them as layers</div>
+        </div>
+      )}
       
       {/* Map style toggle */}
       <div className="absolute top-4 left-4 z-10 bg-slate-900/90 backdrop-blur border border-slate-700 rounded-lg p-2">
         <div className="text-xs text-slate-400 mb-2 font-medium">Map Style</div>
         <div className="flex gap-1">
-          {(['satellite', 'terrain', 'streets'] as const).map((style) => (
+          {MAP_STYLE_NAMES.map((style) => (
             <button
               key={style}
-              onClick={() => changeMapStyle(style)}
+              onClick={() => onMapStyleChange?.(style)}
               className={`px-2 py-1 text-xs rounded transition-colors ${
-                currentStyle === style
+                mapStyle === style
                   ? 'bg-emerald-500/30 text-emerald-400 border border-emerald-500'
                   : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
               }`}
@@ -581,10 +985,25 @@ export default function LakeMap({
             <div className="w-3 h-3 rounded bg-blue-500/50 border border-blue-600"></div>
             <span className="text-slate-300">Lake Surface</span>
           </div>
-          {showContours && (
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-0 border-t-2 border-dashed border-blue-800"></div>
-              <span className="text-slate-300">Depth Contours</span>
+          {showContours && depthContours.length > 0 && (
+            <div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-0 border-t-2 border-blue-800"></div>
+                <span className="text-slate-300">Depth Contours</span>
+              </div>
+              <div className="flex items-center gap-1 pl-5 mt-1">
+                {depthContours.map(contour => (
+                  <div
+                    key={contour.elevation}
+                    className="w-2 h-2 rounded-sm"
+                    style={{ backgroundColor: contour.color }}
+                    title={`${contour.depth} ft deep (${contour.elevation} ft)`}
+                  />
+                ))}
+                <span className="text-slate-400 ml-1">
+                  {depthContours[depthContours.length - 1].depth}-{depthContours[0].depth} ft
+                </span>
+              </div>
             </div>
           )}
           {showZones && (
@@ -593,10 +1012,49 @@ export default function LakeMap({
               <span className="text-slate-300">Land Use Zones</span>
             </div>
           )}
-          {floodLevel > normalPoolElevation && (
+          {inundation && (
             <div className="flex items-center gap-2">
               <div className="w-3 h-0 border-t-2 border-dashed border-orange-500"></div>
-              <span className="text-yellow-400">Flood Zone</span>
+              <span className="text-yellow-400">Flood Extent @ {inundation.waterLevel} ft</span>
+            </div>
+          )}
+          {structures.length > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full bg-slate-400 border border-slate-900"></div>
+              <span className="text-slate-300">Structure</span>
+            </div>
+          )}
+          {floodedStructures && floodedStructures.length > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full bg-red-500 border border-slate-900"></div>
+              <span className="text-slate-300">Flooded Structure</span>
+            </div>
+          )}
+          {viewshed && (
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded" style={{ backgroundColor: `rgb(${VIEWSHED_COLORS.visible.join(',')})` }}></div>
+              <span className="text-slate-300">Visible</span>
+              <div className="w-3 h-3 rounded ml-1" style={{ backgroundColor: `rgb(${VIEWSHED_COLORS.hidden.join(',')})` }}></div>
+              <span className="text-slate-300">Hidden</span>
+            </div>
+          )}
+          {userLayers.map(layer => (
+            <div key={layer.id} className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded" style={{ backgroundColor: layer.color }}></div>
+              <span className="text-slate-300 truncate max-w-[10rem]">{layer.name}</span>
+            </div>
+          ))}
+          {inundation && showDepthGrid && (
+            <div className="flex items-center gap-1 pl-5">
+              {DEPTH_RAMP.map(({ color, label }) => (
+                <div
+                  key={label}
+                  className="w-4 h-2 rounded-sm"
+                  style={{ backgroundColor: `rgb(${color.join(',')})` }}
+                  title={`Flood depth ${label}`}
+                />
+              ))}
+              <span className="text-slate-400 ml-1">depth</span>
             </div>
           )}
         </div>
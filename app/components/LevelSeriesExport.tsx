@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { downloadFile } from '../lib/download';
+import {
+  LevelAggregation,
+  LevelRecord,
+  aggregateDaily,
+  dailyLevelsToCsv,
+  fetchLevelRecords,
+  levelRecordsToCsv,
+} from '../lib/levelSeries';
+import { Provenance } from '../lib/provenance';
+
+interface LevelSeriesExportProps {
+  siteId: string;
+  normalPoolElevation: number;
+  chartStart: string; // YYYY-MM-DD, first day of the charted range
+  chartEnd: string;
+  // The charted series when it is a stand-in; exported as-is instead of fetched
+  simulation: { records: LevelRecord[]; provenance: Provenance } | null;
+}
+
+const INPUT_CLASS = 'bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 focus:outline-none focus:border-emerald-500';
+
+// CSV export of the water level record for the charted or a custom date range
+export default function LevelSeriesExport({ siteId, normalPoolElevation, chartStart, chartEnd, simulation }: LevelSeriesExportProps) {
+  const [custom, setCustom] = useState(false);
+  const [customStart, setCustomStart] = useState(chartStart);
+  const [customEnd, setCustomEnd] = useState(chartEnd);
+  const [aggregation, setAggregation] = useState<LevelAggregation>('none');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const start = custom ? customStart : chartStart;
+  const end = custom ? customEnd : chartEnd;
+  const validRange = Boolean(start && end && start <= end);
+
+  const handleExport = async () => {
+    setProgress('Fetching...');
+    setError(null);
+    try {
+      const { records, provenance } = simulation
+        ? {
+            records: simulation.records.filter(r => r.dateTime.slice(0, 10) >= start && r.dateTime.slice(0, 10) <= end),
+            provenance: simulation.provenance,
+          }
+        : await fetchLevelRecords(siteId, start, end, (done, total) => {
+            if (total > 1) setProgress(`Fetching ${done + 1}/${total}...`);
+          });
+      if (records.length === 0) throw new Error('No records in this range');
+
+      const csv = aggregation === 'daily'
+        ? dailyLevelsToCsv(aggregateDaily(records), normalPoolElevation, provenance)
+        : levelRecordsToCsv(records, normalPoolElevation, provenance);
+      downloadFile(csv, 'text/csv', `${siteId}-levels-${start}-${end}${aggregation === 'daily' ? '-daily' : ''}.csv`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-700 text-xs space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-slate-400">
+        <label className="flex items-center gap-1">
+          <input type="radio" checked={!custom} onChange={() => setCustom(false)} className="accent-emerald-500" />
+          Charted range
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="radio" checked={custom} onChange={() => setCustom(true)} className="accent-emerald-500" />
+          Custom
+        </label>
+        {custom && (
+          <>
+            <input type="date" value={customStart} max={customEnd} onChange={(e) => setCustomStart(e.target.value)} className={INPUT_CLASS} />
+            <span>to</span>
+            <input type="date" value={customEnd} min={customStart} onChange={(e) => setCustomEnd(e.target.value)} className={INPUT_CLASS} />
+          </>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <select value={aggregation} onChange={(e) => setAggregation(e.target.value as LevelAggregation)} className={INPUT_CLASS}>
+          <option value="none">Full resolution</option>
+          <option value="daily">Daily mean/min/max</option>
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={!validRange || progress !== null}
+          className="flex-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-slate-300 flex items-center gap-2 justify-center transition-colors"
+        >
+          <Download className="w-3 h-3" /> {progress ?? 'Export CSV'}
+        </button>
+      </div>
+      <div className="text-[10px] text-slate-500">
+        {simulation
+          ? 'Exports the simulated series shown above, flagged as simulated'
+          : 'Full resolution uses 15-minute values from Oct 2007 and daily means before'}
+      </div>
+      {error && <div className="text-red-400">Export failed: {error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Search, MapPin, Anchor, Tent, LayoutGrid } from 'lucide-react';
+import { GAZETTEER_KIND_LABELS, GazetteerEntry, GazetteerKind, searchGazetteer } from '../lib/gazetteer';
+
+interface LocationSearchProps {
+  entries: GazetteerEntry[];
+  onSelect: (entry: GazetteerEntry) => void;
+}
+
+const KIND_ICONS: Record<GazetteerKind, React.ComponentType<{ className?: string }>> = {
+  poi: MapPin,
+  ramp: Anchor,
+  recreation: Tent,
+  zone: LayoutGrid,
+};
+
+export default function LocationSearch({ entries, onSelect }: LocationSearchProps) {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(() => searchGazetteer(entries, query), [entries, query]);
+
+  const choose = (entry: GazetteerEntry) => {
+    onSelect(entry);
+    setQuery(entry.name);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || results.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex((activeIndex + 1) % results.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex((activeIndex - 1 + results.length) % results.length);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        choose(results[activeIndex]);
+        break;
+      case 'Escape':
+        setOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative hidden md:block">
+      <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+      <input
+        type="text"
+        placeholder="Search locations..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={open && results.length > 0}
+        aria-controls="location-search-results"
+        aria-autocomplete="list"
+        className="bg-slate-800/50 border border-slate-700 rounded-lg pl-10 pr-4 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-emerald-500 w-64"
+      />
+
+      {open && query.trim() && (
+        <div
+          id="location-search-results"
+          role="listbox"
+          className="absolute right-0 top-full mt-1 w-80 bg-slate-900 border border-slate-700 rounded-lg shadow-xl overflow-hidden z-[60]"
+        >
+          {results.length === 0 ? (
+            <div className="px-3 py-2 text-sm text-slate-500">No matching locations</div>
+          ) : (
+            results.map((entry, idx) => {
+              const Icon = KIND_ICONS[entry.kind];
+              return (
+                <button
+                  key={entry.id}
+                  role="option"
+                  aria-selected={idx === activeIndex}
+                  // Keep focus in the input so blur doesn't close the list before the click lands
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setActiveIndex(idx)}
+                  onClick={() => choose(entry)}
+                  className={`w-full flex items-start gap-2 px-3 py-2 text-left transition-colors ${
+                    idx === activeIndex ? 'bg-slate-800' : 'hover:bg-slate-800/50'
+                  }`}
+                >
+                  <Icon className="w-4 h-4 text-emerald-400 mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-sm text-slate-200 truncate">{entry.name}</div>
+                    <div className="text-xs text-slate-500 truncate">
+                      {GAZETTEER_KIND_LABELS[entry.kind]} · {entry.detail}
+                    </div>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
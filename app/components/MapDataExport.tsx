@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { Map } from 'lucide-react';
+import { MAP_DATA_FORMATS, MapDataFormat } from '../lib/mapDataExport';
+import { EXPORT_LAYERS, ExportLayer } from '../lib/mapFeatures';
+
+interface MapDataExportProps {
+  featureCounts: Record<ExportLayer, number>;
+  notes: Partial<Record<ExportLayer, string>>; // why a layer is empty
+  onExport: (layers: ExportLayer[], format: MapDataFormat) => Promise<void>;
+}
+
+const LAYERS = Object.keys(EXPORT_LAYERS) as ExportLayer[];
+
+const INPUT_CLASS = 'bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 focus:outline-none focus:border-emerald-500';
+
+// Layer and format picker for the map data export
+export default function MapDataExport({ featureCounts, notes, onExport }: MapDataExportProps) {
+  const [excluded, setExcluded] = useState<ExportLayer[]>([]);
+  const [format, setFormat] = useState<MapDataFormat>('geojson');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const selected = LAYERS.filter(layer => featureCounts[layer] > 0 && !excluded.includes(layer));
+
+  const toggle = (layer: ExportLayer) => {
+    setExcluded(excluded.includes(layer) ? excluded.filter(l => l !== layer) : [...excluded, layer]);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport(selected, format);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 text-xs space-y-2">
+      <div className="space-y-1">
+        {LAYERS.map(layer => {
+          const count = featureCounts[layer];
+          return (
+            <label key={layer} className={`flex items-center gap-2 ${count ? 'text-slate-300' : 'text-slate-500'}`}>
+              <input
+                type="checkbox"
+                checked={selected.includes(layer)}
+                disabled={count === 0}
+                onChange={() => toggle(layer)}
+                className="accent-emerald-500"
+              />
+              <span className="flex-1">{EXPORT_LAYERS[layer]}</span>
+              <span className="font-mono" title={count === 0 ? notes[layer] : undefined}>
+                {count ? count.toLocaleString() : notes[layer] ?? 'none'}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-2">
+        <select value={format} onChange={(e) => setFormat(e.target.value as MapDataFormat)} className={INPUT_CLASS}>
+          {(Object.keys(MAP_DATA_FORMATS) as MapDataFormat[]).map(value => (
+            <option key={value} value={value}>{MAP_DATA_FORMATS[value]}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={selected.length === 0 || exporting}
+          className="flex-1 p-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors"
+        >
+          <Map className="w-4 h-4" /> {exporting ? 'Exporting...' : 'Export Map Data'}
+        </button>
+      </div>
+      {error && <div className="text-red-400">Export failed: {error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { Camera } from 'lucide-react';
+import {
+  MAP_EXPORT_DPIS,
+  MAP_EXPORT_SIZES,
+  MapExportFormat,
+  MapExportOptions,
+  MapExportSize,
+} from '../lib/mapExport';
+
+interface MapImageExportProps {
+  defaultTitle: string;
+  pixelSize: (size: MapExportSize, dpi: number) => [number, number] | null; // null until the map is ready
+  onExport: (options: MapExportOptions) => Promise<void>;
+}
+
+const INPUT_CLASS = 'bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 focus:outline-none focus:border-emerald-500';
+
+// Title, size, DPI and format for the composed map image export
+export default function MapImageExport({ defaultTitle, pixelSize, onExport }: MapImageExportProps) {
+  const [title, setTitle] = useState(defaultTitle);
+  const [size, setSize] = useState<MapExportSize>('slide');
+  const [dpi, setDpi] = useState(150);
+  const [format, setFormat] = useState<MapExportFormat>('png');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pixels = pixelSize(size, dpi);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport({ title: title.trim() || defaultTitle, size, dpi, format });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 text-xs space-y-2">
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        className={`${INPUT_CLASS} w-full`}
+        placeholder="Map title"
+      />
+      <div className="flex items-center gap-2">
+        <select value={size} onChange={(e) => setSize(e.target.value as MapExportSize)} className={`${INPUT_CLASS} flex-1 min-w-0`}>
+          {(Object.keys(MAP_EXPORT_SIZES) as MapExportSize[]).map(value => (
+            <option key={value} value={value}>{MAP_EXPORT_SIZES[value].label}</option>
+          ))}
+        </select>
+        <select value={dpi} onChange={(e) => setDpi(Number(e.target.value))} className={INPUT_CLASS}>
+          {MAP_EXPORT_DPIS.map(value => (
+            <option key={value} value={value}>{value} DPI</option>
+          ))}
+        </select>
+        <select value={format} onChange={(e) => setFormat(e.target.value as MapExportFormat)} className={INPUT_CLASS}>
+          <option value="png">PNG</option>
+          <option value="jpeg">JPEG</option>
+        </select>
+      </div>
+      <button
+        onClick={handleExport}
+        disabled={!pixels || exporting}
+        className="w-full p-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors"
+      >
+        <Camera className="w-4 h-4" /> {exporting ? 'Rendering Map...' : 'Export Map Image'}
+      </button>
+      <div className="text-slate-500">
+        {pixels ? `${pixels[0].toLocaleString()} x ${pixels[1].toLocaleString()} px` : 'Waiting for the map to load'}
+      </div>
+      {error && <div className="text-red-400">Export failed: {error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { Radio, Clock, FlaskConical, PenLine } from 'lucide-react';
+import { Provenance, ProvenanceKind, describeProvenance, explainProvenance } from '../lib/provenance';
+
+interface ProvenanceBadgeProps {
+  provenance: Provenance;
+}
+
+const BADGE_STYLES: Record<ProvenanceKind, { className: string; icon: React.ComponentType<{ className?: string }> }> = {
+  live: { className: 'bg-emerald-500/20 border-emerald-500/30 text-emerald-400', icon: Radio },
+  cached: { className: 'bg-cyan-500/20 border-cyan-500/30 text-cyan-400', icon: Clock },
+  simulated: { className: 'bg-orange-500/20 border-orange-500/40 text-orange-400', icon: FlaskConical },
+  manual: { className: 'bg-slate-500/20 border-slate-500/40 text-slate-300', icon: PenLine },
+};
+
+export default function ProvenanceBadge({ provenance }: ProvenanceBadgeProps) {
+  const { className, icon: Icon } = BADGE_STYLES[provenance.kind];
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-medium uppercase tracking-wide ${className}`}
+      title={explainProvenance(provenance)}
+    >
+      <Icon className="w-3 h-3" />
+      {describeProvenance(provenance)}
+    </span>
+  );
+}
@@ -1,10 +1,13 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useMemo, useState } from 'react';
 import {
   Sun, Moon, Sunrise, Sunset, Camera, Calendar,
   Clock, Cloud, ThermometerSun, Waves, RefreshCw
 } from 'lucide-react';
+import { responseProvenance } from '../lib/provenance';
+import { useForecast } from '../lib/useForecast';
+import ProvenanceBadge from './ProvenanceBadge';
 
 interface AstronomicalData {
   sunrise: string;
@@ -35,6 +38,7 @@ interface DayForecast {
 interface RecreationPlannerProps {
   lat: number;
   lng: number;
+  timezone: string;
 }
 
 // Weather code to simple description
@@ -135,108 +139,89 @@ function getMoonData(date: Date): { phase: string; illumination: number; icon: s
   return { phase, illumination, icon };
 }
 
-export default function RecreationPlanner({ lat, lng }: RecreationPlannerProps) {
-  const [astroData, setAstroData] = useState<AstronomicalData | null>(null);
-  const [forecast, setForecast] = useState<DayForecast[]>([]);
-  const [loading, setLoading] = useState(true);
+export default function RecreationPlanner({ lat, lng, timezone }: RecreationPlannerProps) {
+  const { forecast: response, loading, error, refresh: fetchData } = useForecast(lat, lng, timezone);
   const [selectedDay, setSelectedDay] = useState(0);
 
-  const fetchData = useCallback(async () => {
-    setLoading(true);
-
-    try {
-      // Fetch weather and astronomical data
-      const response = await fetch(
-        `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lng}` +
-        `&daily=sunrise,sunset,temperature_2m_max,temperature_2m_min,precipitation_probability_max,weather_code,wind_speed_10m_max,uv_index_max` +
-        `&temperature_unit=fahrenheit&wind_speed_unit=mph` +
-        `&timezone=America/Chicago&forecast_days=7`
-      );
-
-      const data = await response.json();
-      const today = new Date();
-      const moonData = getMoonData(today);
-
-      // Parse astronomical data for today
-      const sunrise = new Date(data.daily.sunrise[0]);
-      const sunset = new Date(data.daily.sunset[0]);
-      const dayLengthMs = sunset.getTime() - sunrise.getTime();
-      const dayLengthHours = dayLengthMs / 1000 / 60 / 60;
-
-      // Calculate golden hour (approximately 1 hour after sunrise, 1 hour before sunset)
-      const goldenMorningEnd = new Date(sunrise.getTime() + 60 * 60 * 1000);
-      const goldenEveningStart = new Date(sunset.getTime() - 60 * 60 * 1000);
-
-      // Calculate blue hour (approximately 20-40 min before sunrise, after sunset)
-      const blueMorningStart = new Date(sunrise.getTime() - 40 * 60 * 1000);
-      const blueMorningEnd = new Date(sunrise.getTime() - 20 * 60 * 1000);
-      const blueEveningStart = new Date(sunset.getTime() + 20 * 60 * 1000);
-      const blueEveningEnd = new Date(sunset.getTime() + 40 * 60 * 1000);
-
-      // Solar noon (midpoint)
-      const solarNoon = new Date(sunrise.getTime() + dayLengthMs / 2);
-
-      const formatTime = (d: Date) => d.toLocaleTimeString('en-US', {
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true
-      });
-
-      setAstroData({
-        sunrise: formatTime(sunrise),
-        sunset: formatTime(sunset),
-        solarNoon: formatTime(solarNoon),
-        dayLength: dayLengthHours,
-        goldenHourMorning: {
-          start: formatTime(sunrise),
-          end: formatTime(goldenMorningEnd),
-        },
-        goldenHourEvening: {
-          start: formatTime(goldenEveningStart),
-          end: formatTime(sunset),
-        },
-        blueHourMorning: {
-          start: formatTime(blueMorningStart),
-          end: formatTime(blueMorningEnd),
-        },
-        blueHourEvening: {
-          start: formatTime(blueEveningStart),
-          end: formatTime(blueEveningEnd),
-        },
-        moonPhase: moonData.phase,
-        moonIllumination: moonData.illumination,
-      });
-
-      // Parse 7-day forecast
-      const forecastData: DayForecast[] = data.daily.time.map((time: string, idx: number) => {
-        const tempHigh = Math.round(data.daily.temperature_2m_max[idx]);
-        const precipProbability = data.daily.precipitation_probability_max[idx];
-        const windSpeed = Math.round(data.daily.wind_speed_10m_max[idx]);
-        const weatherCode = data.daily.weather_code[idx];
-
-        return {
-          date: time,
-          tempHigh,
-          tempLow: Math.round(data.daily.temperature_2m_min[idx]),
-          weatherCode,
-          precipProbability,
-          windSpeed,
-          uvIndex: Math.round(data.daily.uv_index_max[idx]),
-          rating: rateDayForRecreation({ tempHigh, precipProbability, windSpeed, weatherCode }),
-        };
-      });
-
-      setForecast(forecastData);
-    } catch (err) {
-      console.error('Error fetching recreation data:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [lat, lng]);
-
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+  const { astroData, forecast } = useMemo<{ astroData: AstronomicalData | null; forecast: DayForecast[] }>(() => {
+    if (!response) return { astroData: null, forecast: [] };
+    const { daily } = response;
+    const today = new Date();
+    const moonData = getMoonData(today);
+
+    // Parse astronomical data for today
+    const sunrise = new Date(daily.sunrise[0]);
+    const sunset = new Date(daily.sunset[0]);
+    const dayLengthMs = sunset.getTime() - sunrise.getTime();
+    const dayLengthHours = dayLengthMs / 1000 / 60 / 60;
+
+    // Calculate golden hour (approximately 1 hour after sunrise, 1 hour before sunset)
+    const goldenMorningEnd = new Date(sunrise.getTime() + 60 * 60 * 1000);
+    const goldenEveningStart = new Date(sunset.getTime() - 60 * 60 * 1000);
+
+    // Calculate blue hour (approximately 20-40 min before sunrise, after sunset)
+    const blueMorningStart = new Date(sunrise.getTime() - 40 * 60 * 1000);
+    const blueMorningEnd = new Date(sunrise.getTime() - 20 * 60 * 1000);
+    const blueEveningStart = new Date(sunset.getTime() + 20 * 60 * 1000);
+    const blueEveningEnd = new Date(sunset.getTime() + 40 * 60 * 1000);
+
+    // Solar noon (midpoint)
+    const solarNoon = new Date(sunrise.getTime() + dayLengthMs / 2);
+
+    const formatTime = (d: Date) => d.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true
+    });
+
+    const astro: AstronomicalData = {
+      sunrise: formatTime(sunrise),
+      sunset: formatTime(sunset),
+      solarNoon: formatTime(solarNoon),
+      dayLength: dayLengthHours,
+      goldenHourMorning: {
+        start: formatTime(sunrise),
+        end: formatTime(goldenMorningEnd),
+      },
+      goldenHourEvening: {
+        start: formatTime(goldenEveningStart),
+        end: formatTime(sunset),
+      },
+      blueHourMorning: {
+        start: formatTime(blueMorningStart),
+        end: formatTime(blueMorningEnd),
+      },
+      blueHourEvening: {
+        start: formatTime(blueEveningStart),
+        end: formatTime(blueEveningEnd),
+      },
+      moonPhase: moonData.phase,
+      moonIllumination: moonData.illumination,
+    };
+
+    // Parse 7-day forecast
+    const forecastData: DayForecast[] = daily.time.map((time: string, idx: number) => {
+      const tempHigh = Math.round(daily.temperature_2m_max[idx]);
+      const precipProbability = daily.precipitation_probability_max[idx];
+      const windSpeed = Math.round(daily.wind_speed_10m_max[idx]);
+      const weatherCode = daily.weather_code[idx];
+
+      return {
+        date: time,
+        tempHigh,
+        tempLow: Math.round(daily.temperature_2m_min[idx]),
+        weatherCode,
+        precipProbability,
+        windSpeed,
+        uvIndex: Math.round(daily.uv_index_max[idx]),
+        rating: rateDayForRecreation({ tempHigh, precipProbability, windSpeed, weatherCode }),
+      };
+    });
+
+    return { astroData: astro, forecast: forecastData };
+  }, [response]);
+
+  const provenance = response ? responseProvenance('Open-Meteo', response.fetchedAt, response.cached) : null;
 
   if (loading && !astroData) {
     return (
@@ -249,6 +234,17 @@ export default function RecreationPlanner({ lat, lng }: RecreationPlannerProps)
     );
   }
 
+  if (error && !astroData) {
+    return (
+      <div className="bg-red-500/10 rounded-lg p-4 border border-red-500/30">
+        <div className="text-red-400 text-sm">Recreation forecast unavailable: {error}</div>
+        <button onClick={fetchData} className="text-xs text-red-300 hover:text-red-200 underline mt-2">
+          Retry
+        </button>
+      </div>
+    );
+  }
+
   const ratingColors = {
     Excellent: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
     Good: 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30',
@@ -267,12 +263,15 @@ export default function RecreationPlanner({ lat, lng }: RecreationPlannerProps)
             <h4 className="text-emerald-400 font-semibold flex items-center gap-2">
               <Calendar className="w-4 h-4" /> Recreation Planner
             </h4>
-            <button
-              onClick={fetchData}
-              className="text-slate-400 hover:text-emerald-400 transition-colors"
-            >
-              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
-            </button>
+            <div className="flex items-center gap-2">
+              {provenance && <ProvenanceBadge provenance={provenance} />}
+              <button
+                onClick={fetchData}
+                className="text-slate-400 hover:text-emerald-400 transition-colors"
+              >
+                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
           </div>
 
           {/* Sun & Moon Times */}
@@ -0,0 +1,39 @@
+'use client';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  color?: string;
+}
+
+// Tiny trend line for a series of values; renders nothing for fewer than two points
+export default function Sparkline({ values, width = 80, height = 20, color = '#06b6d4' }: SparklineProps) {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const pad = 2;
+
+  const points = values.map((value, i) => {
+    const x = pad + (i / (values.length - 1)) * (width - pad * 2);
+    const y = pad + (height - pad * 2) * (1 - (value - min) / range);
+    return [x, y] as const;
+  });
+  const [lastX, lastY] = points[points.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height} className="overflow-visible">
+      <polyline
+        points={points.map(([x, y]) => `${x},${y}`).join(' ')}
+        fill="none"
+        stroke={color}
+        strokeWidth="1.5"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+      <circle cx={lastX} cy={lastY} r="2" fill={color} />
+    </svg>
+  );
+}
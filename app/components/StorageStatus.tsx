@@ -0,0 +1,128 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Database, Upload, Trash2 } from 'lucide-react';
+import { parseCapacityCsv, storageAt, surfaceAreaAt } from '../lib/capacityCurve';
+import type { CapacityCurve } from '../lib/capacityCurveStore';
+import type { CapacityCurvePoint } from '../lib/lakes';
+import { Provenance } from '../lib/provenance';
+import ProvenanceBadge from './ProvenanceBadge';
+
+interface StorageStatusProps {
+  curve: CapacityCurve | null;
+  onImport: (points: CapacityCurvePoint[], fileName: string) => void;
+  onClear: () => void;
+  elevation: number | null;
+  elevationProvenance: Provenance | null;
+  normalPoolElevation: number;
+}
+
+export default function StorageStatus({
+  curve,
+  onImport,
+  onClear,
+  elevation,
+  elevationProvenance,
+  normalPoolElevation,
+}: StorageStatusProps) {
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseCapacityCsv(await file.text());
+    if (result.points.length > 0) onImport(result.points, file.name);
+    setImportMessage(
+      (result.points.length ? `Imported ${result.points.length} rows` : 'Nothing imported') +
+      (result.skipped ? `, skipped ${result.skipped}` : '') +
+      (result.warnings.length ? ` (${[...new Set(result.warnings)].join('; ')})` : '')
+    );
+  };
+
+  const conservationStorage = curve ? storageAt(curve.points, normalPoolElevation) : null;
+  const storage = curve && elevation !== null ? storageAt(curve.points, elevation) : null;
+  const area = curve && elevation !== null ? surfaceAreaAt(curve.points, elevation) : null;
+  const percent = storage !== null && conservationStorage ? (storage / conservationStorage) * 100 : null;
+
+  return (
+    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-emerald-400 font-semibold flex items-center gap-2">
+          <Database className="w-4 h-4" /> Storage Status
+        </h4>
+        <div className="flex items-center gap-2">
+          {curve && <ProvenanceBadge provenance={curve.provenance} />}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-slate-300 transition-colors"
+            title="Import elevation-area-capacity table (CSV)"
+          >
+            <Upload className="w-3 h-3" /> Curve
+          </button>
+          {curve?.imported && (
+            <button
+              onClick={() => {
+                onClear();
+                setImportMessage(null);
+              }}
+              className="text-slate-500 hover:text-red-400 transition-colors"
+              title="Remove imported table"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {!curve ? (
+        <div className="text-sm text-slate-400">
+          Import the Corps elevation-area-capacity table (elevation, area and capacity columns) to compute storage.
+        </div>
+      ) : percent === null || storage === null || conservationStorage === null ? (
+        <div className="text-sm text-slate-400">Waiting for the current lake elevation…</div>
+      ) : (
+        <div className="relative">
+          <div className="h-24 bg-slate-900 rounded-lg overflow-hidden relative">
+            <div
+              className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-cyan-600 to-cyan-400 transition-all duration-500"
+              style={{ height: `${Math.min(100, Math.max(0, percent))}%` }}
+            />
+            <div className="absolute inset-0 flex items-center justify-center">
+              <span className="text-2xl font-bold text-white drop-shadow-lg">{percent.toFixed(2)}%</span>
+            </div>
+          </div>
+          <div className="flex justify-between mt-2 text-xs text-slate-400">
+            <span>Conservation Pool</span>
+            <span className="font-mono">
+              {Math.round(storage).toLocaleString()} / {Math.round(conservationStorage).toLocaleString()} ac-ft
+            </span>
+          </div>
+          <div className="flex justify-between items-center mt-1 text-xs text-slate-500">
+            <span className="flex items-center gap-2">
+              @ {elevation?.toFixed(2)} ft
+              {elevationProvenance && <ProvenanceBadge provenance={elevationProvenance} />}
+            </span>
+            <span className="font-mono">{Math.round(area ?? 0).toLocaleString()} acres</span>
+          </div>
+          {percent > 100 && (
+            <div className="mt-2 text-xs text-yellow-400">
+              {Math.round(storage - conservationStorage).toLocaleString()} ac-ft in the flood pool
+            </div>
+          )}
+        </div>
+      )}
+
+      {importMessage && <div className="mt-2 text-xs text-slate-500">{importMessage}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Home, Upload, Trash2 } from 'lucide-react';
+import {
+  DEFAULT_FOUNDATION_HEIGHT_FT,
+  FloorElevationSource,
+  Structure,
+  StructureAssessment,
+  parseStructureFile,
+} from '../lib/structures';
+
+interface StructureInventoryProps {
+  structures: Structure[];
+  assessment: StructureAssessment | null;
+  waterLevel: number;
+  onImport: (structures: Structure[]) => void;
+  onClear: () => void;
+}
+
+const FLOOR_SOURCE_LABELS: Record<FloorElevationSource, string> = {
+  surveyed: 'surveyed',
+  ground: `grade + ${DEFAULT_FOUNDATION_HEIGHT_FT} ft`,
+  dem: `DEM + ${DEFAULT_FOUNDATION_HEIGHT_FT} ft`,
+};
+
+// Imported buildings and the ones flooded above their first floor
+export default function StructureInventory({ structures, assessment, waterLevel, onImport, onClear }: StructureInventoryProps) {
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseStructureFile(file.name, await file.text());
+    if (result.structures.length > 0) onImport(result.structures);
+    setImportMessage(
+      `Imported ${result.structures.length} structure${result.structures.length === 1 ? '' : 's'}` +
+      (result.skipped ? `, skipped ${result.skipped}` : '') +
+      (result.warnings.length ? ` (${result.warnings.join('; ')})` : '')
+    );
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-slate-300">
+          <Home className="w-3 h-3 text-slate-500" />
+          {structures.length ? `${structures.length.toLocaleString()} structures in inventory` : 'No structure inventory'}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors"
+            title="Import building footprints or address points (GeoJSON or CSV) with first-floor elevations"
+          >
+            <Upload className="w-3 h-3" /> Structures
+          </button>
+          {structures.length > 0 && (
+            <button
+              onClick={() => {
+                onClear();
+                setImportMessage(null);
+              }}
+              className="text-slate-500 hover:text-red-400 transition-colors"
+              title="Remove structure inventory"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".geojson,.json,.csv,application/geo+json,application/json,text/csv"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {importMessage && <div className="mt-1 text-slate-500">{importMessage}</div>}
+
+      {assessment && (
+        <>
+          <div className="mt-2 text-slate-400">
+            <span className={assessment.inundated.length ? 'text-red-400 font-semibold' : 'text-emerald-400'}>
+              {assessment.inundated.length}
+            </span>{' '}
+            of {assessment.assessed.toLocaleString()} flooded above the first floor at {waterLevel} ft
+            {assessment.unknownElevation > 0 && (
+              <span className="text-slate-500"> · {assessment.unknownElevation} without an elevation</span>
+            )}
+          </div>
+          {assessment.inundated.length > 0 && (
+            <div className="mt-2 max-h-40 overflow-y-auto divide-y divide-slate-800">
+              {assessment.inundated.map(({ structure, floorElevation, floorSource, depthAboveFloor }) => (
+                <div key={structure.id} className="flex items-center justify-between py-1 gap-2">
+                  <span className="text-slate-300 truncate" title={structure.name}>{structure.name}</span>
+                  <span className="text-right whitespace-nowrap">
+                    <span className="text-red-400 font-mono">{depthAboveFloor.toFixed(1)} ft</span>
+                    <span className="text-slate-500">
+                      {' '}over {floorElevation.toFixed(1)} ({FLOOR_SOURCE_LABELS[floorSource]})
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
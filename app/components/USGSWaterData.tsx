@@ -2,6 +2,12 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { Activity, AlertTriangle, TrendingUp, TrendingDown, Minus, RefreshCw } from 'lucide-react';
+import { storageAt } from '../lib/capacityCurve';
+import type { CapacityCurvePoint } from '../lib/lakes';
+import { PARAM_GAGE_HEIGHT, PARAM_LAKE_ELEVATION, fetchInstantaneousValues, findSeries } from '../lib/usgs';
+import { Provenance, responseProvenance, simulatedProvenance } from '../lib/provenance';
+import { useSettings } from '../lib/settings';
+import ProvenanceBadge from './ProvenanceBadge';
 
 interface WaterLevelData {
   value: number;
@@ -15,75 +21,68 @@ interface USGSWaterDataProps {
   siteId: string;
   siteName: string;
   normalPoolElevation: number;
+  streamBedElevation: number;
+  capacityCurve: CapacityCurvePoint[] | null; // storage curve for percent of conservation pool
 }
 
 // USGS Site ID for Sardis Lake, OK: 07335700 (Sardis Lake near Clayton, OK)
-// This is a simulated response structure since CORS may prevent direct API calls
-// In production, you would use a backend proxy or USGS API
+// Data is requested through the `/api/usgs/iv` route, which proxies and caches
+// the NWIS instantaneous values service so the browser never hits it directly
 
-export default function USGSWaterData({ siteId, normalPoolElevation }: USGSWaterDataProps) {
+export default function USGSWaterData({ siteId, normalPoolElevation, streamBedElevation, capacityCurve }: USGSWaterDataProps) {
   const [waterData, setWaterData] = useState<WaterLevelData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [provenance, setProvenance] = useState<Provenance | null>(null);
+  const [{ allowSimulatedData }] = useSettings();
 
   const fetchWaterData = useCallback(async () => {
     setLoading(true);
     setError(null);
     
     try {
-      // Try to fetch real USGS data
-      // USGS Water Services API: https://waterservices.usgs.gov/nwis/iv/
-      // Parameter code 62614 = Lake or reservoir water surface elevation above NGVD 1929
-      // Parameter code 00065 = Gage height, feet
-      // Note: CORS may block this request in browser environments.
-      // For production, consider using a backend API proxy or Next.js API routes.
-      const response = await fetch(
-        `https://waterservices.usgs.gov/nwis/iv/?format=json&sites=${siteId}&parameterCd=62614,00065&period=P1D`,
-        { 
-          headers: {
-            'Accept': 'application/json',
-          },
-        }
-      );
-      
-      if (response.ok) {
-        const data = await response.json();
-        
-        // Parse USGS response
-        if (data.value?.timeSeries?.[0]?.values?.[0]?.value) {
-          const values = data.value.timeSeries[0].values[0].value;
-          const latestValue = values[values.length - 1];
-          const previousValue = values.length > 1 ? values[0] : latestValue;
-          
-          const currentLevel = parseFloat(latestValue.value);
-          const previousLevel = parseFloat(previousValue.value);
-          const change = currentLevel - previousLevel;
-          
-          setWaterData({
-            value: currentLevel,
-            dateTime: latestValue.dateTime,
-            status: currentLevel > normalPoolElevation + 5 ? 'elevated' : 
-                    currentLevel < normalPoolElevation - 10 ? 'low' : 'normal',
-            trend: change > 0.1 ? 'rising' : change < -0.1 ? 'falling' : 'stable',
-            change24h: change,
-          });
-          setLastUpdated(new Date());
-          setLoading(false);
-          return;
-        }
+      const response = await fetchInstantaneousValues({
+        siteId,
+        parameterCodes: [PARAM_LAKE_ELEVATION, PARAM_GAGE_HEIGHT],
+        period: 'P1D',
+      });
+
+      const series = findSeries(response, PARAM_LAKE_ELEVATION);
+      if (series) {
+        const values = series.values;
+        const latestValue = values[values.length - 1];
+        const previousValue = values[0];
+
+        const currentLevel = latestValue.value;
+        const change = currentLevel - previousValue.value;
+
+        setWaterData({
+          value: currentLevel,
+          dateTime: latestValue.dateTime,
+          status: currentLevel > normalPoolElevation + 5 ? 'elevated' : 
+                  currentLevel < normalPoolElevation - 10 ? 'low' : 'normal',
+          trend: change > 0.1 ? 'rising' : change < -0.1 ? 'falling' : 'stable',
+          change24h: change,
+        });
+        setLastUpdated(new Date(response.fetchedAt));
+        setProvenance(responseProvenance(`USGS NWIS site ${siteId}`, response.fetchedAt, response.cached));
+        return;
       }
-      
-      // Fallback to simulated data if API call fails
-      throw new Error('Using simulated data');
-      
+
+      throw new Error('No lake elevation series returned for this site');
     } catch (err) {
-      // Log the error for debugging purposes
-      console.debug('USGS API unavailable, using simulated data:', err instanceof Error ? err.message : 'Unknown error');
-      
-      // Use simulated realistic data for Sardis Lake
-      // Actual current pool elevation is typically around 598-599 ft
-      const simulatedLevel = 598.42 + (Math.random() * 0.5 - 0.25);
+      const message = err instanceof Error ? err.message : 'Unknown error';
+
+      if (!allowSimulatedData) {
+        setWaterData(null);
+        setProvenance(null);
+        setError(`USGS data unavailable: ${message}`);
+        return;
+      }
+
+      // Simulated stand-in - pools typically sit just below normal
+      const simulatedLevel = normalPoolElevation - 0.58 + (Math.random() * 0.5 - 0.25);
       const change = (Math.random() * 0.4 - 0.2);
       
       setWaterData({
@@ -95,11 +94,11 @@ export default function USGSWaterData({ siteId, normalPoolElevation }: USGSWater
         change24h: change,
       });
       setLastUpdated(new Date());
-      // Note: In production you might want to show this is simulated data
+      setProvenance(simulatedProvenance(`USGS request failed: ${message}`));
     } finally {
       setLoading(false);
     }
-  }, [siteId, normalPoolElevation]);
+  }, [siteId, normalPoolElevation, allowSimulatedData]);
 
   useEffect(() => {
     fetchWaterData();
@@ -149,7 +148,10 @@ export default function USGSWaterData({ siteId, normalPoolElevation }: USGSWater
                       waterData.status === 'low' ? 'bg-orange-500/20 border-orange-500/30 text-orange-400' :
                       'bg-emerald-500/20 border-emerald-500/30 text-emerald-400';
 
-  const percentCapacity = ((waterData.value - 530) / (normalPoolElevation - 530) * 100).toFixed(1);
+  // Share of conservation-pool storage, not of depth, since the basin widens with elevation
+  const percentCapacity = capacityCurve
+    ? storageAt(capacityCurve, waterData.value) / storageAt(capacityCurve, normalPoolElevation) * 100
+    : null;
 
   return (
     <div className="space-y-3">
@@ -158,14 +160,23 @@ export default function USGSWaterData({ siteId, normalPoolElevation }: USGSWater
           <h4 className="text-emerald-400 font-semibold flex items-center gap-2">
             <Activity className="w-4 h-4" /> Real-Time Water Level
           </h4>
-          <button 
-            onClick={fetchWaterData}
-            className="text-slate-400 hover:text-emerald-400 transition-colors"
-            title="Refresh data"
-          >
-            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
-          </button>
+          <div className="flex items-center gap-2">
+            {provenance && <ProvenanceBadge provenance={provenance} />}
+            <button 
+              onClick={fetchWaterData}
+              className="text-slate-400 hover:text-emerald-400 transition-colors"
+              title="Refresh data"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
         </div>
+
+        {provenance?.kind === 'simulated' && (
+          <div className="mb-3 text-xs text-orange-300/80 bg-orange-500/10 border border-orange-500/30 rounded px-2 py-1">
+            Live readings are unavailable - values below are simulated and must not be used for decisions.
+          </div>
+        )}
         
         <div className="grid grid-cols-2 gap-4">
           <div>
@@ -175,9 +186,9 @@ export default function USGSWaterData({ siteId, normalPoolElevation }: USGSWater
             </div>
           </div>
           <div>
-            <div className="text-slate-400 text-xs mb-1">% of Normal Pool</div>
+            <div className="text-slate-400 text-xs mb-1">% of Conservation Storage</div>
             <div className="text-2xl font-bold text-slate-200 font-mono">
-              {percentCapacity}%
+              {percentCapacity !== null ? `${percentCapacity.toFixed(1)}%` : '—'}
             </div>
           </div>
         </div>
@@ -202,7 +213,7 @@ export default function USGSWaterData({ siteId, normalPoolElevation }: USGSWater
           <div className="h-8 bg-slate-900 rounded-lg overflow-hidden relative">
             <div 
               className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-cyan-600 to-cyan-400 transition-all duration-500"
-              style={{ height: `${Math.min(100, Math.max(0, parseFloat(percentCapacity)))}%` }}
+              style={{ height: `${Math.min(100, Math.max(0, percentCapacity ?? 0))}%` }}
             />
             <div className="absolute inset-0 flex items-center justify-center">
               <span className="text-sm font-bold text-white drop-shadow-lg">
@@ -216,7 +227,7 @@ export default function USGSWaterData({ siteId, normalPoolElevation }: USGSWater
             />
           </div>
           <div className="flex justify-between text-xs text-slate-500 mt-1">
-            <span>530 ft (bed)</span>
+            <span>{streamBedElevation} ft (bed)</span>
             <span>{normalPoolElevation} ft (normal)</span>
           </div>
         </div>
@@ -224,7 +235,7 @@ export default function USGSWaterData({ siteId, normalPoolElevation }: USGSWater
 
       {/* Data source attribution */}
       <div className="text-xs text-slate-500 flex items-center justify-between">
-        <span>Data: USGS Site {siteId}</span>
+        <span>{provenance?.kind === 'simulated' ? 'Simulated data' : `Data: USGS Site ${siteId}`}</span>
         {lastUpdated && (
           <span>Updated: {lastUpdated.toLocaleTimeString()}</span>
         )}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useRef } from 'react';
+import { Maximize2, Trash2, Upload } from 'lucide-react';
+import { USER_LAYER_ACCEPT, UserLayer } from '../lib/userLayers';
+
+interface UserLayerListProps {
+  userLayers: UserLayer[];
+  importMessage: string | null;
+  onImport: (files: File[]) => void;
+  onZoom: (layer: UserLayer) => void;
+  onRemove: (id: string) => void;
+}
+
+// Imported map layers with zoom-to-extent and removal
+export default function UserLayerList({ userLayers, importMessage, onImport, onZoom, onRemove }: UserLayerListProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-700 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-slate-400">Imported Layers</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="text-slate-500 hover:text-slate-200 transition-colors"
+          title="Add GeoJSON, KML or GPX layers (or drop files on the map)"
+        >
+          <Upload className="w-3 h-3" />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={USER_LAYER_ACCEPT}
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            if (files.length) onImport(files);
+          }}
+          className="hidden"
+        />
+      </div>
+      {userLayers.length === 0 && <div className="mt-1 text-slate-500">Drop GeoJSON, KML or GPX files on the map</div>}
+      <div className="mt-1 space-y-1 max-h-32 overflow-y-auto">
+        {userLayers.map(layer => (
+          <div key={layer.id} className="flex items-center gap-2 text-slate-300">
+            <div className="w-3 h-3 rounded shrink-0" style={{ backgroundColor: layer.color }}></div>
+            <span className="truncate flex-1 max-w-[8rem]" title={`${layer.name} (${layer.features.length} features)`}>
+              {layer.name}
+            </span>
+            <button onClick={() => onZoom(layer)} className="text-slate-500 hover:text-slate-200 transition-colors" title="Zoom to layer">
+              <Maximize2 className="w-3 h-3" />
+            </button>
+            <button onClick={() => onRemove(layer.id)} className="text-slate-500 hover:text-red-400 transition-colors" title="Remove layer">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+      {importMessage && <div className="mt-1 text-slate-500 max-w-[12rem]">{importMessage}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { Trash2 } from 'lucide-react';
+import type { Viewshed } from '../lib/viewshed';
+
+interface ViewshedPanelProps {
+  viewshed: Viewshed | null;
+  hasObserver: boolean;
+  observerHeight: number;
+  onObserverHeightChange: (height: number) => void;
+  radiusMiles: number;
+  onRadiusChange: (miles: number) => void;
+  terrainSource: string | null; // name of the elevation source, null when none is available
+  onClear: () => void;
+}
+
+const RADIUS_OPTIONS = [0.5, 1, 2, 5, 10];
+
+const INPUT_CLASS = 'bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 focus:outline-none focus:border-emerald-500';
+
+// Observer settings and visible/hidden totals for the Viewshed tool
+export default function ViewshedPanel({
+  viewshed,
+  hasObserver,
+  observerHeight,
+  onObserverHeightChange,
+  radiusMiles,
+  onRadiusChange,
+  terrainSource,
+  onClear,
+}: ViewshedPanelProps) {
+  const total = viewshed ? viewshed.visibleAcres + viewshed.hiddenAcres : 0;
+
+  return (
+    <div className="mt-3 bg-slate-900/50 rounded-lg p-3 border border-slate-700 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-1 text-slate-400">
+          Height
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={observerHeight}
+            onChange={(e) => onObserverHeightChange(Math.max(0, Number(e.target.value)))}
+            className={`${INPUT_CLASS} w-16`}
+            title="Observer or structure height above ground"
+          />
+          ft
+        </label>
+        <label className="flex items-center gap-1 text-slate-400">
+          Radius
+          <select value={radiusMiles} onChange={(e) => onRadiusChange(Number(e.target.value))} className={INPUT_CLASS}>
+            {RADIUS_OPTIONS.map(miles => (
+              <option key={miles} value={miles}>{miles} mi</option>
+            ))}
+          </select>
+        </label>
+        {hasObserver && (
+          <button onClick={onClear} className="text-slate-500 hover:text-red-400 transition-colors" title="Clear observer">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {viewshed ? (
+        <div className="mt-2 space-y-1">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Observer</span>
+            <span className="text-slate-300 font-mono">
+              {viewshed.groundElevation.toFixed(0)} + {viewshed.observerHeight} ft
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Visible</span>
+            <span className="text-emerald-400 font-mono">
+              {Math.round(viewshed.visibleAcres).toLocaleString()} ac ({total > 0 ? Math.round(viewshed.visibleAcres / total * 100) : 0}%)
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Hidden</span>
+            <span className="text-red-400 font-mono">{Math.round(viewshed.hiddenAcres).toLocaleString()} ac</span>
+          </div>
+          <div className="text-slate-500">
+            From {terrainSource}
+            {viewshed.coverage < 0.99 && `; elevations cover ${Math.round(viewshed.coverage * 100)}% of the radius`}
+          </div>
+        </div>
+      ) : (
+        <div className="mt-2 text-slate-500">
+          {!hasObserver
+            ? 'Click the map to place the observer.'
+            : terrainSource
+              ? 'No elevation at the observer. Zoom the map to the area or load a DEM covering it.'
+              : 'Terrain is not available yet; wait for the map to load or load a DEM.'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,25 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useMemo, useState, useCallback } from 'react';
 import { TrendingUp, TrendingDown, Minus, RefreshCw, Calendar, ChevronDown } from 'lucide-react';
+import {
+  NwisDailyStat,
+  NwisResponse,
+  PARAM_GAGE_HEIGHT,
+  PARAM_LAKE_ELEVATION,
+  fetchDailyStatistics,
+  fetchDailyValues,
+  fetchInstantaneousValues,
+  findSeries,
+  indexStatsByDay,
+  monthDayKey,
+  percentileRank,
+} from '../lib/usgs';
+import { LevelRecord } from '../lib/levelSeries';
+import { Provenance, responseProvenance, simulatedProvenance } from '../lib/provenance';
+import { useSettings } from '../lib/settings';
+import LevelSeriesExport from './LevelSeriesExport';
+import ProvenanceBadge from './ProvenanceBadge';
 
 interface DataPoint {
   date: string;
@@ -14,7 +32,45 @@ interface WaterLevelChartProps {
   floodStageElevation: number;
 }
 
-type TimeRange = '7d' | '30d' | '90d' | '1y';
+type TimeRange = '7d' | '30d' | '90d' | '1y' | '5y' | '10y' | 'por';
+
+// The last week comes from 15-minute instantaneous values; anything longer
+// uses daily means so multi-decade ranges stay a manageable size
+const TIME_RANGE_OPTIONS: { value: TimeRange; label: string; days: number | null; service: 'iv' | 'dv' }[] = [
+  { value: '7d', label: '7 Days', days: 7, service: 'iv' },
+  { value: '30d', label: '30 Days', days: 30, service: 'dv' },
+  { value: '90d', label: '90 Days', days: 90, service: 'dv' },
+  { value: '1y', label: '1 Year', days: 365, service: 'dv' },
+  { value: '5y', label: '5 Years', days: 5 * 365, service: 'dv' },
+  { value: '10y', label: '10 Years', days: 10 * 365, service: 'dv' },
+  { value: 'por', label: 'Period of Record', days: null, service: 'dv' },
+];
+
+// Earliest date requested for the period-of-record view; NWIS clips to the actual record
+const PERIOD_OF_RECORD_START = '1900-01-01';
+
+// Days of simulated history generated for the period-of-record view
+const SIMULATED_RECORD_DAYS = 20 * 365;
+
+// USGS WaterWatch-style classes for a value's percentile on its day of year
+function classifyPercentile(percentile: number): { label: string; color: string } {
+  if (percentile < 10) return { label: 'Much below normal', color: 'text-red-400' };
+  if (percentile < 25) return { label: 'Below normal', color: 'text-orange-400' };
+  if (percentile <= 75) return { label: 'Normal', color: 'text-emerald-400' };
+  if (percentile <= 90) return { label: 'Above normal', color: 'text-cyan-400' };
+  return { label: 'Much above normal', color: 'text-blue-400' };
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// First day a time range covers
+function rangeStart(range: (typeof TIME_RANGE_OPTIONS)[number]): string {
+  return range.days === null
+    ? PERIOD_OF_RECORD_START
+    : isoDate(new Date(Date.now() - range.days * 24 * 60 * 60 * 1000));
+}
 
 export default function WaterLevelChart({
   siteId,
@@ -33,75 +89,70 @@ export default function WaterLevelChart({
     current: number;
     change: number;
   } | null>(null);
-
-  const timeRangeOptions: { value: TimeRange; label: string; period: string }[] = [
-    { value: '7d', label: '7 Days', period: 'P7D' },
-    { value: '30d', label: '30 Days', period: 'P30D' },
-    { value: '90d', label: '90 Days', period: 'P90D' },
-    { value: '1y', label: '1 Year', period: 'P365D' },
-  ];
+  const [provenance, setProvenance] = useState<Provenance | null>(null);
+  const [chartRange, setChartRange] = useState<{ start: string; end: string } | null>(null);
+  const [dailyStats, setDailyStats] = useState<NwisDailyStat[]>([]);
+  const [{ allowSimulatedData }] = useSettings();
 
   const fetchHistoricalData = useCallback(async () => {
     setLoading(true);
     setError(null);
 
+    const range = TIME_RANGE_OPTIONS.find(t => t.value === timeRange) ?? TIME_RANGE_OPTIONS[1];
+    setChartRange({ start: rangeStart(range), end: isoDate(new Date()) });
+
     try {
-      const period = timeRangeOptions.find(t => t.value === timeRange)?.period || 'P30D';
+      let response: NwisResponse;
+      if (range.service === 'iv') {
+        response = await fetchInstantaneousValues({
+          siteId,
+          parameterCodes: [PARAM_LAKE_ELEVATION, PARAM_GAGE_HEIGHT],
+          period: `P${range.days}D`,
+        });
+      } else {
+        response = await fetchDailyValues({ siteId, startDate: rangeStart(range), endDate: isoDate(new Date()) });
+      }
 
-      // USGS Water Services API for historical data
-      const response = await fetch(
-        `https://waterservices.usgs.gov/nwis/iv/?format=json&sites=${siteId}&parameterCd=62614,00065&period=${period}`,
-        {
-          headers: { 'Accept': 'application/json' },
-        }
-      );
-
-      if (response.ok) {
-        const json = await response.json();
-
-        if (json.value?.timeSeries?.[0]?.values?.[0]?.value) {
-          const values = json.value.timeSeries[0].values[0].value;
-
-          // Sample data points to avoid overwhelming the chart (max ~100 points)
-          const sampleRate = Math.max(1, Math.floor(values.length / 100));
-          const sampledData: DataPoint[] = values
-            .filter((_: unknown, idx: number) => idx % sampleRate === 0)
-            .map((v: { dateTime: string; value: string }) => ({
-              date: v.dateTime,
-              value: parseFloat(v.value),
-            }));
-
-          setData(sampledData);
-
-          // Calculate statistics
-          const numericValues = sampledData.map((d: DataPoint) => d.value);
-          const min = Math.min(...numericValues);
-          const max = Math.max(...numericValues);
-          const avg = numericValues.reduce((a: number, b: number) => a + b, 0) / numericValues.length;
-          const current = numericValues[numericValues.length - 1];
-          const first = numericValues[0];
-
-          setStats({
-            min,
-            max,
-            avg,
-            current,
-            change: current - first,
-          });
-
-          setLoading(false);
-          return;
-        }
+      const series = findSeries(response, PARAM_LAKE_ELEVATION);
+      if (series) {
+        const points: DataPoint[] = series.values.map(v => ({
+          date: v.dateTime,
+          value: v.value,
+        }));
+
+        setData(points);
+
+        // Calculate statistics
+        const numericValues = points.map(d => d.value);
+        const current = numericValues[numericValues.length - 1];
+
+        setStats({
+          min: Math.min(...numericValues),
+          max: Math.max(...numericValues),
+          avg: numericValues.reduce((a, b) => a + b, 0) / numericValues.length,
+          current,
+          change: current - numericValues[0],
+        });
+        setProvenance(responseProvenance(`USGS NWIS site ${siteId}`, response.fetchedAt, response.cached));
+        return;
       }
 
-      throw new Error('Data unavailable');
+      throw new Error('No lake elevation series returned for this site');
     } catch (err) {
-      console.debug('USGS historical data unavailable:', err);
+      const message = err instanceof Error ? err.message : 'Unknown error';
+
+      if (!allowSimulatedData) {
+        setData([]);
+        setStats(null);
+        setProvenance(null);
+        setError('Historical data unavailable');
+        return;
+      }
 
-      // Generate simulated historical data
-      const days = timeRange === '7d' ? 7 : timeRange === '30d' ? 30 : timeRange === '90d' ? 90 : 365;
+      // Generate simulated daily history
+      const days = range.days ?? SIMULATED_RECORD_DAYS;
       const simulatedData: DataPoint[] = [];
-      const baseLevel = 598.5;
+      const baseLevel = normalPoolElevation - 0.5;
 
       for (let i = days; i >= 0; i--) {
         const date = new Date();
@@ -128,32 +179,97 @@ export default function WaterLevelChart({
         current: numericValues[numericValues.length - 1],
         change: numericValues[numericValues.length - 1] - numericValues[0],
       });
+      setProvenance(simulatedProvenance(`USGS request failed: ${message}`));
     } finally {
       setLoading(false);
     }
-  }, [siteId, timeRange]);
+  }, [siteId, timeRange, normalPoolElevation, allowSimulatedData]);
 
   useEffect(() => {
     fetchHistoricalData();
   }, [fetchHistoricalData]);
 
+  // Day-of-year statistics only change yearly; bands are simply omitted if unavailable
+  useEffect(() => {
+    let cancelled = false;
+    fetchDailyStatistics(siteId)
+      .then((response) => {
+        if (!cancelled) setDailyStats(response.stats);
+      })
+      .catch(() => {
+        if (!cancelled) setDailyStats([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [siteId]);
+
+  const statsByDay = useMemo(() => indexStatsByDay(dailyStats), [dailyStats]);
+  const recordYears = useMemo(() => {
+    if (dailyStats.length === 0) return null;
+    return {
+      begin: Math.min(...dailyStats.map(s => s.beginYear)),
+      end: Math.max(...dailyStats.map(s => s.endYear)),
+    };
+  }, [dailyStats]);
+
+  // Simulated values have no business being compared against the record
+  const showBands = statsByDay.size > 0 && provenance?.kind !== 'simulated';
+
+  const todayVsNormal = useMemo(() => {
+    if (!showBands || data.length === 0) return null;
+    const latest = data[data.length - 1];
+    const stat = statsByDay.get(monthDayKey(latest.date));
+    if (!stat || stat.p50 === null) return null;
+    const percentile = percentileRank(latest.value, stat);
+    return {
+      value: latest.value,
+      date: latest.date,
+      median: stat.p50,
+      departure: latest.value - stat.p50,
+      percentile,
+      years: stat.count,
+    };
+  }, [showBands, data, statsByDay]);
+
+  // A simulated chart exports what it shows rather than fetching real records
+  const simulation = useMemo(() => {
+    if (provenance?.kind !== 'simulated') return null;
+    const records: LevelRecord[] = data.map(d => ({
+      dateTime: d.date,
+      elevation: d.value,
+      gageHeight: null,
+      qualifiers: [],
+      resolution: 'simulated',
+    }));
+    return { records, provenance };
+  }, [data, provenance]);
+
   // SVG Chart rendering
   const renderChart = () => {
     if (data.length === 0) return null;
 
     const width = 400;
-    const height = 120;
+    const height = 150;
     const padding = { top: 10, right: 10, bottom: 20, left: 40 };
     const chartWidth = width - padding.left - padding.right;
     const chartHeight = height - padding.top - padding.bottom;
 
+    // Historical distribution for each plotted day, when available
+    const dayStats = showBands ? data.map(d => statsByDay.get(monthDayKey(d.date))) : [];
+    const bandValues = dayStats.flatMap(stat => (stat ? [stat.min, stat.max] : []))
+      .filter((v): v is number => v !== null);
+
     const values = data.map(d => d.value);
-    const minVal = Math.min(...values, normalPoolElevation - 5);
-    const maxVal = Math.max(...values, floodStageElevation);
+    const minVal = Math.min(...values, ...bandValues, normalPoolElevation - 5);
+    const maxVal = Math.max(...values, ...bandValues, floodStageElevation);
     const range = maxVal - minVal || 1;
 
-    // Scale functions
-    const xScale = (idx: number) => padding.left + (idx / (data.length - 1)) * chartWidth;
+    // Scale by time so gaps in the daily record stay gaps
+    const startTime = new Date(data[0].date).getTime();
+    const endTime = new Date(data[data.length - 1].date).getTime();
+    const timeSpan = endTime - startTime || 1;
+    const xScale = (idx: number) => padding.left + ((new Date(data[idx].date).getTime() - startTime) / timeSpan) * chartWidth;
     const yScale = (val: number) => padding.top + chartHeight - ((val - minVal) / range) * chartHeight;
 
     // Generate path for the line
@@ -168,6 +284,35 @@ export default function WaterLevelChart({
       ` L ${xScale(data.length - 1)} ${padding.top + chartHeight}` +
       ` L ${padding.left} ${padding.top + chartHeight} Z`;
 
+    // Closed polygons between two percentiles, split wherever a day lacks statistics
+    const bandPath = (lower: keyof NwisDailyStat, upper: keyof NwisDailyStat) => {
+      const runs: { x: number; lo: number; hi: number }[][] = [];
+      let run: { x: number; lo: number; hi: number }[] = [];
+      dayStats.forEach((stat, i) => {
+        const lo = stat?.[lower];
+        const hi = stat?.[upper];
+        if (lo == null || hi == null) {
+          if (run.length) runs.push(run);
+          run = [];
+          return;
+        }
+        run.push({ x: xScale(i), lo: yScale(lo), hi: yScale(hi) });
+      });
+      if (run.length) runs.push(run);
+
+      return runs
+        .filter(r => r.length > 1)
+        .map(r =>
+          r.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.hi}`).join(' ') +
+          ' ' + [...r].reverse().map(p => `L ${p.x} ${p.lo}`).join(' ') + ' Z'
+        )
+        .join(' ');
+    };
+
+    const medianPath = showBands
+      ? dayStats.map((stat, i) => (stat?.p50 != null ? `${i === 0 || dayStats[i - 1]?.p50 == null ? 'M' : 'L'} ${xScale(i)} ${yScale(stat.p50)}` : '')).join(' ')
+      : '';
+
     // Reference lines
     const normalPoolY = yScale(normalPoolElevation);
     const floodStageY = yScale(floodStageElevation);
@@ -175,6 +320,9 @@ export default function WaterLevelChart({
     // Y-axis labels
     const yTicks = [minVal, (minVal + maxVal) / 2, maxVal];
 
+    // Multi-year views need the year on the start label
+    const longRange = endTime - startTime > 366 * 24 * 60 * 60 * 1000;
+
     return (
       <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-full">
         {/* Grid lines */}
@@ -191,6 +339,16 @@ export default function WaterLevelChart({
           />
         ))}
 
+        {/* Historical percentile bands for each day of year */}
+        {showBands && (
+          <g>
+            <path d={bandPath('min', 'max')} fill="#64748b" opacity="0.15" />
+            <path d={bandPath('p10', 'p90')} fill="#64748b" opacity="0.2" />
+            <path d={bandPath('p25', 'p75')} fill="#64748b" opacity="0.3" />
+            <path d={medianPath} fill="none" stroke="#94a3b8" strokeWidth="0.75" strokeDasharray="3 2" />
+          </g>
+        )}
+
         {/* Normal pool reference line */}
         <line
           x1={padding.left}
@@ -227,7 +385,7 @@ export default function WaterLevelChart({
         <path
           d={areaPath}
           fill="url(#areaGradient)"
-          opacity="0.3"
+          opacity={showBands ? 0.15 : 0.3}
         />
 
         {/* Line */}
@@ -235,7 +393,7 @@ export default function WaterLevelChart({
           d={linePath}
           fill="none"
           stroke="#06b6d4"
-          strokeWidth="2"
+          strokeWidth={data.length > 1000 ? 1 : 2}
           strokeLinecap="round"
           strokeLinejoin="round"
         />
@@ -266,7 +424,9 @@ export default function WaterLevelChart({
 
         {/* X-axis labels */}
         <text x={padding.left} y={height - 4} fill="#64748b" fontSize="8">
-          {new Date(data[0].date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          {new Date(data[0].date).toLocaleDateString('en-US', longRange
+            ? { month: 'short', year: 'numeric' }
+            : { month: 'short', day: 'numeric' })}
         </text>
         <text x={width - padding.right} y={height - 4} fill="#64748b" fontSize="8" textAnchor="end">
           Now
@@ -295,18 +455,19 @@ export default function WaterLevelChart({
           <Calendar className="w-4 h-4" /> Historical Levels
         </h4>
         <div className="flex items-center gap-2">
+          {provenance && !loading && <ProvenanceBadge provenance={provenance} />}
           {/* Time Range Dropdown */}
           <div className="relative">
             <button
               onClick={() => setShowDropdown(!showDropdown)}
               className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-slate-300 transition-colors"
             >
-              {timeRangeOptions.find(t => t.value === timeRange)?.label}
+              {TIME_RANGE_OPTIONS.find(t => t.value === timeRange)?.label}
               <ChevronDown className="w-3 h-3" />
             </button>
             {showDropdown && (
               <div className="absolute right-0 top-full mt-1 bg-slate-800 border border-slate-700 rounded shadow-lg z-10">
-                {timeRangeOptions.map(option => (
+                {TIME_RANGE_OPTIONS.map(option => (
                   <button
                     key={option.value}
                     onClick={() => {
@@ -334,7 +495,7 @@ export default function WaterLevelChart({
       </div>
 
       {/* Chart */}
-      <div className="h-32 bg-slate-900 rounded overflow-hidden">
+      <div className="h-40 bg-slate-900 rounded overflow-hidden">
         {loading ? (
           <div className="h-full flex items-center justify-center text-slate-400 text-sm">
             Loading chart...
@@ -348,6 +509,52 @@ export default function WaterLevelChart({
         )}
       </div>
 
+      {/* Band legend */}
+      {showBands && !loading && recordYears && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-[10px] text-slate-500">
+          <span className="flex items-center gap-1"><span className="w-3 h-2 bg-slate-500/30 rounded-sm" /> Min-Max</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-2 bg-slate-500/50 rounded-sm" /> 10th-90th</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-2 bg-slate-500/70 rounded-sm" /> 25th-75th</span>
+          <span className="flex items-center gap-1"><span className="w-3 border-t border-dashed border-slate-400" /> Median</span>
+          <span>USGS daily statistics {recordYears.begin}-{recordYears.end}</span>
+        </div>
+      )}
+
+      {/* Today vs. normal for this date */}
+      {todayVsNormal && !loading && (
+        <div className="mt-3 p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+          <div className="flex items-center justify-between text-xs mb-1">
+            <span className="text-slate-400">
+              Latest vs. normal for {new Date(todayVsNormal.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </span>
+            {todayVsNormal.percentile !== null && (
+              <span className={`font-medium ${classifyPercentile(todayVsNormal.percentile).color}`}>
+                {classifyPercentile(todayVsNormal.percentile).label}
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className="text-slate-500 text-xs">Median</div>
+              <div className="text-slate-200 text-sm font-mono">{todayVsNormal.median.toFixed(2)}</div>
+            </div>
+            <div>
+              <div className="text-slate-500 text-xs">Departure</div>
+              <div className="text-slate-200 text-sm font-mono">
+                {todayVsNormal.departure >= 0 ? '+' : ''}{todayVsNormal.departure.toFixed(2)} ft
+              </div>
+            </div>
+            <div>
+              <div className="text-slate-500 text-xs">Percentile</div>
+              <div className="text-slate-200 text-sm font-mono">
+                {todayVsNormal.percentile !== null ? Math.round(todayVsNormal.percentile) : '—'}
+              </div>
+            </div>
+          </div>
+          <div className="text-[10px] text-slate-500 mt-1">Based on {todayVsNormal.years} years of record for this date</div>
+        </div>
+      )}
+
       {/* Statistics */}
       {stats && (
         <div className="grid grid-cols-4 gap-2 mt-3">
@@ -372,6 +579,18 @@ export default function WaterLevelChart({
           </div>
         </div>
       )}
+
+      {/* Time-series export */}
+      {chartRange && !loading && !error && (
+        <LevelSeriesExport
+          key={`${chartRange.start}-${chartRange.end}`}
+          siteId={siteId}
+          normalPoolElevation={normalPoolElevation}
+          chartStart={chartRange.start}
+          chartEnd={chartRange.end}
+          simulation={simulation}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,299 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { Activity, Wind, Eye, Sun, Droplets, Upload, Trash2 } from 'lucide-react';
+import type { WaterQualitySnapshot } from '../lib/lakes';
+import { Provenance } from '../lib/provenance';
+import { TrophicClass, assessWaterQuality } from '../lib/trophicState';
+import {
+  WATER_QUALITY_PARAMETERS,
+  WaterQualityParameter,
+  WaterQualitySeries,
+  formatReading,
+  formatSampleDate,
+  latestSeriesByParameter,
+  listStations,
+  parseWqxCsv,
+} from '../lib/waterQuality';
+import { useWaterQualitySamples } from '../lib/waterQualityStore';
+import ProvenanceBadge from './ProvenanceBadge';
+import Sparkline from './Sparkline';
+
+interface WaterQualityPanelProps {
+  lakeSlug: string;
+  snapshot: WaterQualitySnapshot;
+}
+
+const CARD_PARAMETERS: { parameter: WaterQualityParameter; icon: React.ComponentType<{ className?: string }> }[] = [
+  { parameter: 'ph', icon: Activity },
+  { parameter: 'dissolvedOxygen', icon: Wind },
+  { parameter: 'turbidity', icon: Eye },
+  { parameter: 'temperature', icon: Sun },
+];
+
+const BAR_PARAMETERS: WaterQualityParameter[] = ['secchiDepth', 'chlorophyll', 'totalPhosphorus', 'conductivity'];
+
+const TROPHIC_CLASS_COLORS: Record<TrophicClass, string> = {
+  Oligotrophic: 'text-cyan-400',
+  Mesotrophic: 'text-emerald-400',
+  Eutrophic: 'text-yellow-400',
+  Hypereutrophic: 'text-red-400',
+};
+
+// Catalog snapshot value for parameters that have one
+function snapshotValue(snapshot: WaterQualitySnapshot, parameter: WaterQualityParameter): number | null {
+  return parameter === 'totalPhosphorus' ? null : snapshot[parameter];
+}
+
+function describeSeries(series: WaterQualitySeries): string {
+  const latest = series.samples[series.samples.length - 1];
+  const depth = series.depthFt !== null ? ` · ${series.depthFt} ft` : '';
+  return `${formatSampleDate(latest.sampledAt)}${depth}`;
+}
+
+export default function WaterQualityPanel({ lakeSlug, snapshot }: WaterQualityPanelProps) {
+  const { samples, addSamples, clearSamples } = useWaterQualitySamples(lakeSlug);
+  const [stationId, setStationId] = useState<string>('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const stations = useMemo(() => listStations(samples), [samples]);
+  const activeStation = stations.some(s => s.id === stationId) ? stationId : '';
+  const latest = useMemo(() => latestSeriesByParameter(samples, activeStation || undefined), [samples, activeStation]);
+
+  const provenance: Provenance = samples.length > 0
+    ? { kind: 'manual', source: `WQX import, ${stations.length} station${stations.length === 1 ? '' : 's'}` }
+    : { kind: 'manual', source: snapshot.source, enteredAt: snapshot.enteredAt };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    let imported = 0;
+    let skipped = 0;
+    const warnings: string[] = [];
+    for (const file of files) {
+      const result = parseWqxCsv(await file.text());
+      addSamples(result.samples);
+      imported += result.samples.length;
+      skipped += result.skipped;
+      warnings.push(...result.warnings);
+    }
+
+    setImportMessage(
+      `Imported ${imported} sample${imported === 1 ? '' : 's'}` +
+      (skipped ? `, skipped ${skipped} row${skipped === 1 ? '' : 's'}` : '') +
+      (warnings.length ? ` (${[...new Set(warnings)].join('; ')})` : '')
+    );
+  };
+
+  // Latest imported reading for a parameter, falling back to the catalog snapshot
+  const reading = (parameter: WaterQualityParameter) => {
+    const series = latest[parameter];
+    if (series) {
+      return {
+        value: series.samples[series.samples.length - 1].value,
+        sub: describeSeries(series),
+        history: series.samples.map(s => s.value),
+      };
+    }
+    const value = snapshotValue(snapshot, parameter);
+    return value === null ? null : { value, sub: 'catalog snapshot', history: [] };
+  };
+
+  // The latest readings across stations may each come from a different one,
+  // so the trophic state and composite index need a single station
+  const assessable = stations.length <= 1 || activeStation !== '';
+  const assessment = assessWaterQuality({
+    secchiDepthFt: reading('secchiDepth')?.value,
+    chlorophyll: reading('chlorophyll')?.value,
+    totalPhosphorus: reading('totalPhosphorus')?.value,
+    dissolvedOxygen: reading('dissolvedOxygen')?.value,
+    ph: reading('ph')?.value,
+    turbidity: reading('turbidity')?.value,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-slate-800/50 rounded-lg p-3 border border-slate-700">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-slate-400">Water quality samples</span>
+          <div className="flex items-center gap-2">
+            <ProvenanceBadge provenance={provenance} />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-slate-300 transition-colors"
+              title="Import WQX result CSV"
+            >
+              <Upload className="w-3 h-3" /> Import
+            </button>
+            {samples.length > 0 && (
+              <button
+                onClick={() => {
+                  clearSamples();
+                  setImportMessage(null);
+                }}
+                className="text-slate-500 hover:text-red-400 transition-colors"
+                title="Remove imported samples"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              multiple
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+        </div>
+
+        {stations.length > 1 && (
+          <select
+            value={activeStation}
+            onChange={(e) => setStationId(e.target.value)}
+            className="mt-2 w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-500"
+          >
+            <option value="">All stations (most recent sample)</option>
+            {stations.map(station => (
+              <option key={station.id} value={station.id}>{station.name}</option>
+            ))}
+          </select>
+        )}
+
+        {importMessage && <div className="mt-2 text-xs text-slate-500">{importMessage}</div>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {CARD_PARAMETERS.map(({ parameter, icon: Icon }) => {
+          const current = reading(parameter);
+          return (
+            <div key={parameter} className="p-3 rounded-lg border transition-all bg-slate-800/50 border-slate-700">
+              <div className="flex items-center gap-2 mb-1">
+                <Icon className="w-4 h-4 text-slate-500" />
+                <span className="text-slate-400 text-xs">{WATER_QUALITY_PARAMETERS[parameter].label}</span>
+              </div>
+              <div className="flex items-end justify-between gap-2">
+                <div className="text-lg font-semibold text-slate-200">
+                  {current ? formatReading(parameter, current.value) : '—'}
+                </div>
+                {current && <Sparkline values={current.history} width={56} height={18} />}
+              </div>
+              <div className="text-slate-500 text-xs">{current?.sub ?? 'no samples'}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-emerald-400 font-semibold flex items-center gap-2">
+            <Droplets className="w-4 h-4" /> Water Quality Index
+          </h4>
+          {assessable && assessment.rating && (
+            <span
+              className={`px-2 py-1 rounded text-xs font-medium ${
+                assessment.rating === 'Good' ? 'bg-emerald-500/20 text-emerald-400' :
+                assessment.rating === 'Fair' ? 'bg-yellow-500/20 text-yellow-400' :
+                'bg-red-500/20 text-red-400'
+              }`}
+              title={`Composite score ${assessment.compositeScore}/100`}
+            >
+              {assessment.rating} · {assessment.compositeScore}
+            </span>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {BAR_PARAMETERS.map((parameter) => {
+            const current = reading(parameter);
+            if (!current) return null;
+            const { label, scaleMax } = WATER_QUALITY_PARAMETERS[parameter];
+            return (
+              <div key={parameter}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-slate-300">{label}</span>
+                  <span className="flex items-center gap-2">
+                    <Sparkline values={current.history} width={48} height={14} />
+                    <span className="text-slate-400 font-mono">{formatReading(parameter, current.value)}</span>
+                  </span>
+                </div>
+                <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-cyan-500 rounded-full"
+                    style={{ width: `${Math.min(100, (current.value / scaleMax) * 100)}%` }}
+                  />
+                </div>
+                <div className="text-[10px] text-slate-500 mt-0.5">{current.sub}</div>
+              </div>
+            );
+          })}
+        </div>
+
+        {!assessable && (
+          <div className="mt-4 pt-3 border-t border-slate-700 text-xs text-slate-400">
+            Choose a station to see its trophic state and composite index.
+          </div>
+        )}
+
+        {/* Carlson Trophic State Index */}
+        {assessable && (
+          <div className="mt-4 pt-3 border-t border-slate-700">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-slate-300">Trophic State (Carlson TSI)</span>
+              {assessment.trophicClass && assessment.meanTsi !== null && (
+                <span className={`text-sm font-medium ${TROPHIC_CLASS_COLORS[assessment.trophicClass]}`}>
+                  {assessment.trophicClass} · {assessment.meanTsi.toFixed(0)}
+                </span>
+              )}
+            </div>
+            {assessment.components.length > 0 && (
+              <div className="space-y-1 mb-2">
+                {assessment.components.map(component => (
+                  <div key={component.key} className="flex justify-between text-xs">
+                    <span className="text-slate-400">TSI({component.key.toUpperCase()}) · {component.input}</span>
+                    <span className={`font-mono ${TROPHIC_CLASS_COLORS[component.trophicClass]}`}>
+                      {component.tsi.toFixed(1)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <ul className="space-y-1">
+              {assessment.explanation.map(line => (
+                <li key={line} className="text-xs text-slate-400 flex items-start gap-2">
+                  <span className="text-emerald-500 mt-0.5">•</span>
+                  {line}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Composite index sub-scores */}
+        {assessable && assessment.subScores.length > 0 && (
+          <div className="mt-4 pt-3 border-t border-slate-700 space-y-2">
+            <span className="text-sm text-slate-300">Composite Index Sub-scores</span>
+            {assessment.subScores.map(sub => (
+              <div key={sub.label} className="flex items-center gap-2">
+                <div className="w-24 text-xs text-slate-400">{sub.label}</div>
+                <div className="flex-1 h-2 bg-slate-900 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${
+                      sub.score >= 80 ? 'bg-emerald-500' : sub.score >= 60 ? 'bg-yellow-500' : 'bg-orange-500'
+                    }`}
+                    style={{ width: `${sub.score}%` }}
+                  />
+                </div>
+                <div className="w-8 text-xs text-slate-500 text-right" title={sub.detail}>{sub.score}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
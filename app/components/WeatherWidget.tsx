@@ -1,11 +1,14 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useMemo } from 'react';
 import {
   Cloud, Sun, CloudRain, CloudSnow, Wind, Droplets,
   Thermometer, Eye, RefreshCw, Gauge, Sunrise, Sunset,
   CloudFog, CloudLightning, CloudDrizzle
 } from 'lucide-react';
+import { responseProvenance } from '../lib/provenance';
+import { useForecast } from '../lib/useForecast';
+import ProvenanceBadge from './ProvenanceBadge';
 
 interface WeatherData {
   temperature: number;
@@ -35,6 +38,7 @@ interface HourlyForecast {
 interface WeatherWidgetProps {
   lat: number;
   lng: number;
+  timezone: string;
   locationName: string;
 }
 
@@ -73,79 +77,47 @@ const getWindDirection = (degrees: number): string => {
   return directions[index];
 };
 
-export default function WeatherWidget({ lat, lng, locationName }: WeatherWidgetProps) {
-  const [weather, setWeather] = useState<WeatherData | null>(null);
-  const [hourlyForecast, setHourlyForecast] = useState<HourlyForecast[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+export default function WeatherWidget({ lat, lng, timezone, locationName }: WeatherWidgetProps) {
+  const { forecast, loading, error, refresh: fetchWeather } = useForecast(lat, lng, timezone);
 
-  const fetchWeather = useCallback(async () => {
-    setLoading(true);
-    setError(null);
+  const weather = useMemo<WeatherData | null>(() => {
+    if (!forecast) return null;
+    const { current, daily } = forecast;
+    return {
+      temperature: current.temperature_2m,
+      feelsLike: current.apparent_temperature,
+      humidity: current.relative_humidity_2m,
+      windSpeed: current.wind_speed_10m,
+      windDirection: current.wind_direction_10m,
+      windGusts: current.wind_gusts_10m,
+      precipitation: current.precipitation,
+      cloudCover: current.cloud_cover,
+      visibility: current.visibility / 1609.34, // Convert meters to miles
+      pressure: current.pressure_msl * 0.02953, // Convert hPa to inHg
+      uvIndex: current.uv_index,
+      weatherCode: current.weather_code,
+      isDay: current.is_day === 1,
+      sunrise: daily.sunrise[0],
+      sunset: daily.sunset[0],
+    };
+  }, [forecast]);
 
-    try {
-      // Open-Meteo API - Free, no API key required
-      const response = await fetch(
-        `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lng}` +
-        `&current=temperature_2m,relative_humidity_2m,apparent_temperature,precipitation,weather_code,cloud_cover,pressure_msl,wind_speed_10m,wind_direction_10m,wind_gusts_10m,visibility,uv_index,is_day` +
-        `&hourly=temperature_2m,weather_code,precipitation_probability` +
-        `&daily=sunrise,sunset` +
-        `&temperature_unit=fahrenheit&wind_speed_unit=mph&precipitation_unit=inch` +
-        `&timezone=America/Chicago&forecast_days=1`
-      );
+  // Next 12 hours, starting from the hour containing the current observation
+  const hourlyForecast = useMemo<HourlyForecast[]>(() => {
+    if (!forecast) return [];
+    const { hourly, current } = forecast;
+    const currentHour = current.time.slice(0, 13);
+    const start = Math.max(0, hourly.time.findIndex(time => time.slice(0, 13) === currentHour));
+    return hourly.time.slice(start, start + 12).map((time, i) => ({
+      time,
+      temperature: hourly.temperature_2m[start + i],
+      weatherCode: hourly.weather_code[start + i],
+      precipitationProbability: hourly.precipitation_probability[start + i],
+    }));
+  }, [forecast]);
 
-      if (!response.ok) {
-        throw new Error('Weather data unavailable');
-      }
-
-      const data = await response.json();
-
-      setWeather({
-        temperature: data.current.temperature_2m,
-        feelsLike: data.current.apparent_temperature,
-        humidity: data.current.relative_humidity_2m,
-        windSpeed: data.current.wind_speed_10m,
-        windDirection: data.current.wind_direction_10m,
-        windGusts: data.current.wind_gusts_10m,
-        precipitation: data.current.precipitation,
-        cloudCover: data.current.cloud_cover,
-        visibility: data.current.visibility / 1609.34, // Convert meters to miles
-        pressure: data.current.pressure_msl * 0.02953, // Convert hPa to inHg
-        uvIndex: data.current.uv_index,
-        weatherCode: data.current.weather_code,
-        isDay: data.current.is_day === 1,
-        sunrise: data.daily.sunrise[0],
-        sunset: data.daily.sunset[0],
-      });
-
-      // Get next 12 hours of forecast
-      const currentHour = new Date().getHours();
-      const hourlyData: HourlyForecast[] = [];
-      for (let i = currentHour; i < currentHour + 12 && i < 24; i++) {
-        hourlyData.push({
-          time: data.hourly.time[i],
-          temperature: data.hourly.temperature_2m[i],
-          weatherCode: data.hourly.weather_code[i],
-          precipitationProbability: data.hourly.precipitation_probability[i],
-        });
-      }
-      setHourlyForecast(hourlyData);
-
-      setLastUpdated(new Date());
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch weather');
-    } finally {
-      setLoading(false);
-    }
-  }, [lat, lng]);
-
-  useEffect(() => {
-    fetchWeather();
-    // Refresh every 30 minutes
-    const interval = setInterval(fetchWeather, 30 * 60 * 1000);
-    return () => clearInterval(interval);
-  }, [fetchWeather]);
+  const lastUpdated = forecast ? new Date(forecast.fetchedAt) : null;
+  const provenance = forecast ? responseProvenance('Open-Meteo', forecast.fetchedAt, forecast.cached) : null;
 
   if (loading && !weather) {
     return (
@@ -190,13 +162,16 @@ export default function WeatherWidget({ lat, lng, locationName }: WeatherWidgetP
           <h4 className="text-emerald-400 font-semibold flex items-center gap-2">
             <Cloud className="w-4 h-4" /> Lake Weather
           </h4>
-          <button
-            onClick={fetchWeather}
-            className="text-slate-400 hover:text-emerald-400 transition-colors"
-            title="Refresh weather"
-          >
-            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
-          </button>
+          <div className="flex items-center gap-2">
+            {provenance && <ProvenanceBadge provenance={provenance} />}
+            <button
+              onClick={fetchWeather}
+              className="text-slate-400 hover:text-emerald-400 transition-colors"
+              title="Refresh weather"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
         </div>
 
         {/* Current Conditions */}
@@ -0,0 +1,35 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { Suspense } from 'react';
+import LakeAnalysisPlatform from '../../components/LakeAnalysisPlatform';
+import { LAKES, getLake } from '../../lib/lakes';
+
+interface LakePageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export function generateStaticParams() {
+  return LAKES.map(lake => ({ slug: lake.slug }));
+}
+
+export async function generateMetadata({ params }: LakePageProps): Promise<Metadata> {
+  const lake = getLake((await params).slug);
+  if (!lake) return {};
+  return {
+    title: `${lake.info.name} - LakeScope`,
+    description: `Water levels, flood simulation, land use and economic analysis for ${lake.info.name}, ${lake.info.state}`,
+  };
+}
+
+export default async function LakePage({ params }: LakePageProps) {
+  const lake = getLake((await params).slug);
+  if (!lake) notFound();
+
+  // The platform reads share-link state from the query string, which is only
+  // known in the browser for this statically generated page
+  return (
+    <Suspense>
+      <LakeAnalysisPlatform lake={lake} />
+    </Suspense>
+  );
+}
@@ -0,0 +1,95 @@
+import { BathymetrySurface, sampleSurface } from './bathymetry';
+import { DemGrid, sampleDem } from './dem';
+import { cumulativeDistances, geodesicArea, pointInPolygon } from './geodesy';
+import type { LandUseZone, LngLat } from './lakes';
+
+// Area tool: geodesic area and perimeter of a drawn polygon, broken down by
+// the lake, the land-use zones and ground below the simulated water level.
+// The breakdown samples the polygon on a grid and scales the geodesic area
+// by the share of samples in each category.
+
+export interface ZoneOverlap {
+  zone: LandUseZone;
+  squareMeters: number;
+}
+
+export interface PolygonMeasurement {
+  squareMeters: number;
+  perimeterMeters: number;
+  withinLake: number; // square meters
+  zones: ZoneOverlap[]; // mapped zones the polygon touches
+  belowWaterLevel: number | null; // square meters; null without elevation data
+  elevationCoverage: number; // share of the polygon with a ground elevation
+}
+
+export interface AreaSources {
+  lakeBoundary: LngLat[];
+  zones: LandUseZone[];
+  dem: DemGrid | null;
+  bathymetry: BathymetrySurface | null;
+  waterLevel: number;
+}
+
+export const SQ_METERS_PER_ACRE = 4046.8564224;
+export const SQ_METERS_PER_SQ_MILE = 2589988.110336;
+export const SQ_METERS_PER_HECTARE = 10000;
+
+// Sample grid size along the longer side of the polygon
+const SAMPLE_DIMENSION = 200;
+
+export function measurePolygon(ring: LngLat[], sources: AreaSources): PolygonMeasurement | null {
+  if (ring.length < 3) return null;
+
+  const squareMeters = geodesicArea(ring);
+  const perimeterMeters = cumulativeDistances([...ring, ring[0]])[ring.length];
+  const zones = sources.zones.filter(zone => zone.polygon && zone.polygon.length > 2);
+
+  const lngs = ring.map(p => p[0]);
+  const lats = ring.map(p => p[1]);
+  const west = Math.min(...lngs);
+  const east = Math.max(...lngs);
+  const south = Math.min(...lats);
+  const north = Math.max(...lats);
+  const cosMid = Math.cos(((north + south) / 2) * Math.PI / 180);
+  const cellLat = Math.max((east - west) * cosMid, north - south) / SAMPLE_DIMENSION;
+  const cellLng = cellLat / cosMid;
+  if (!(cellLat > 0)) return null;
+
+  // Sample weights follow cos(latitude) so tall polygons are not skewed
+  let inside = 0;
+  let lake = 0;
+  let below = 0;
+  let known = 0;
+  const zoneWeights = zones.map(() => 0);
+
+  for (let lat = south + cellLat / 2; lat < north; lat += cellLat) {
+    const weight = Math.cos(lat * Math.PI / 180);
+    for (let lng = west + cellLng / 2; lng < east; lng += cellLng) {
+      const position: LngLat = [lng, lat];
+      if (!pointInPolygon(position, ring)) continue;
+      inside += weight;
+      if (pointInPolygon(position, sources.lakeBoundary)) lake += weight;
+      zones.forEach((zone, i) => {
+        if (pointInPolygon(position, zone.polygon as LngLat[])) zoneWeights[i] += weight;
+      });
+
+      const ground = (sources.dem ? sampleDem(sources.dem, position) : null)
+        ?? (sources.bathymetry ? sampleSurface(sources.bathymetry, position) : null);
+      if (ground === null) continue;
+      known += weight;
+      if (ground < sources.waterLevel) below += weight;
+    }
+  }
+
+  const share = (weight: number) => inside > 0 ? squareMeters * weight / inside : 0;
+  return {
+    squareMeters,
+    perimeterMeters,
+    withinLake: share(lake),
+    zones: zones
+      .map((zone, i) => ({ zone, squareMeters: share(zoneWeights[i]) }))
+      .filter(overlap => overlap.squareMeters > 0),
+    belowWaterLevel: known > 0 ? share(below) : null,
+    elevationCoverage: inside > 0 ? known / inside : 0,
+  };
+}
@@ -0,0 +1,275 @@
+import { contours } from 'd3-contour';
+import { pointInPolygon } from './geodesy';
+import type { LngLat } from './lakes';
+import { crsFromEpsg, unprojectToLngLat } from './projection';
+
+// Bathymetric surveys: sonar or survey XYZ points interpolated to a lake-bed
+// surface by inverse distance weighting, then contoured at a chosen interval.
+
+export type SurveyPoint = [number, number, number]; // longitude, latitude, bed elevation in feet
+
+export interface BathymetrySurvey {
+  name: string;
+  importedAt: string;
+  points: SurveyPoint[];
+}
+
+export interface XyzImportOptions {
+  epsg: number; // coordinate system of x/y
+  zUnit: 'ft' | 'm';
+  zIsDepth: boolean; // z is depth below the reference elevation rather than elevation
+  referenceElevation: number; // feet; the water surface during the survey
+}
+
+export interface XyzImportResult {
+  points: SurveyPoint[];
+  skipped: number;
+  warnings: string[];
+}
+
+// Lake-bed elevation on a regular lon/lat grid; NaN outside the shoreline
+export interface BathymetrySurface {
+  width: number;
+  height: number;
+  west: number;
+  north: number;
+  cellLng: number;
+  cellLat: number;
+  elevations: Float32Array;
+  minElevation: number;
+}
+
+export interface DepthContour {
+  elevation: number;
+  depth: number; // feet below normal pool
+  color: string;
+  geometry: GeoJSON.MultiLineString;
+}
+
+const FEET_PER_METER = 3.28084;
+
+// Interpolation grid size along the longer side of the lake
+const SURFACE_DIMENSION = 220;
+const IDW_NEIGHBORS = 12;
+const IDW_POWER = 2;
+
+// Parse whitespace, comma or tab separated x y z rows. Header and comment
+// lines are skipped.
+export function parseXyz(text: string, options: XyzImportOptions): XyzImportResult {
+  const crs = crsFromEpsg(options.epsg);
+  if (!crs) {
+    return { points: [], skipped: 0, warnings: [`Unsupported coordinate system EPSG:${options.epsg}`] };
+  }
+
+  const toFeet = options.zUnit === 'm' ? FEET_PER_METER : 1;
+  const points: SurveyPoint[] = [];
+  let skipped = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const [x, y, z] = trimmed.split(/[\s,;]+/).map(Number);
+    if (![x, y, z].every(Number.isFinite)) {
+      skipped++;
+      continue;
+    }
+    const [lng, lat] = unprojectToLngLat(crs, [x, y]);
+    const elevation = options.zIsDepth
+      ? options.referenceElevation - Math.abs(z) * toFeet
+      : z * toFeet;
+    points.push([
+      Math.round(lng * 1e6) / 1e6,
+      Math.round(lat * 1e6) / 1e6,
+      Math.round(elevation * 100) / 100,
+    ]);
+  }
+
+  const warnings: string[] = [];
+  if (points.some(([lng, lat]) => Math.abs(lng) > 180 || Math.abs(lat) > 90)) {
+    warnings.push('Coordinates fall outside lon/lat range; check the coordinate system');
+  }
+  return { points, skipped, warnings };
+}
+
+// Shoreline vertices every ~50 m pinned to the normal pool elevation, so the
+// surface meets the water line at the lake edge
+function shorelineControlPoints(boundary: LngLat[], elevation: number): SurveyPoint[] {
+  const points: SurveyPoint[] = [];
+  const metersPerDegree = 111320;
+  for (let i = 0; i < boundary.length - 1; i++) {
+    const [lng1, lat1] = boundary[i];
+    const [lng2, lat2] = boundary[i + 1];
+    const length = Math.hypot((lng2 - lng1) * Math.cos(lat1 * Math.PI / 180), lat2 - lat1) * metersPerDegree;
+    const steps = Math.max(1, Math.ceil(length / 50));
+    for (let s = 0; s < steps; s++) {
+      const t = s / steps;
+      points.push([lng1 + (lng2 - lng1) * t, lat1 + (lat2 - lat1) * t, elevation]);
+    }
+  }
+  return points;
+}
+
+export function interpolateSurface(
+  survey: SurveyPoint[],
+  boundary: LngLat[],
+  normalPoolElevation: number,
+): BathymetrySurface {
+  const lngs = boundary.map(p => p[0]);
+  const lats = boundary.map(p => p[1]);
+  const west = Math.min(...lngs);
+  const east = Math.max(...lngs);
+  const south = Math.min(...lats);
+  const north = Math.max(...lats);
+  const cosLat = Math.cos(((north + south) / 2) * Math.PI / 180);
+
+  // Square cells on the ground
+  const groundWidth = (east - west) * cosLat;
+  const groundHeight = north - south;
+  const cellLat = Math.max(groundWidth, groundHeight) / SURFACE_DIMENSION;
+  const cellLng = cellLat / cosLat;
+  const width = Math.max(2, Math.ceil((east - west) / cellLng));
+  const height = Math.max(2, Math.ceil((north - south) / cellLat));
+
+  const points = [...survey, ...shorelineControlPoints(boundary, normalPoolElevation)];
+
+  // Bucket points for the nearest-neighbor search
+  const bucketSize = 4;
+  const bucketsX = Math.ceil(width / bucketSize);
+  const bucketsY = Math.ceil(height / bucketSize);
+  const buckets: number[][] = Array.from({ length: bucketsX * bucketsY }, () => []);
+  points.forEach(([lng, lat], index) => {
+    const bx = Math.floor((lng - west) / cellLng / bucketSize);
+    const by = Math.floor((north - lat) / cellLat / bucketSize);
+    if (bx < 0 || by < 0 || bx > bucketsX || by > bucketsY) return;
+    // Shoreline points on the east and south edges belong to the last bucket
+    buckets[Math.min(by, bucketsY - 1) * bucketsX + Math.min(bx, bucketsX - 1)].push(index);
+  });
+
+  const elevations = new Float32Array(width * height).fill(NaN);
+  let minElevation = Infinity;
+
+  for (let row = 0; row < height; row++) {
+    const lat = north - (row + 0.5) * cellLat;
+    for (let col = 0; col < width; col++) {
+      const lng = west + (col + 0.5) * cellLng;
+      if (!pointInPolygon([lng, lat], boundary)) continue;
+
+      // Widen the search ring until it holds enough points, plus one more
+      // ring so nearer points just outside the first hit are not missed
+      const bx = Math.floor(col / bucketSize);
+      const by = Math.floor(row / bucketSize);
+      const candidates: number[] = [];
+      let extraRings = -1;
+      for (let ring = 0; ring < Math.max(bucketsX, bucketsY) && extraRings < 1; ring++) {
+        for (let y = by - ring; y <= by + ring; y++) {
+          for (let x = bx - ring; x <= bx + ring; x++) {
+            if (x < 0 || y < 0 || x >= bucketsX || y >= bucketsY) continue;
+            if (Math.max(Math.abs(x - bx), Math.abs(y - by)) !== ring) continue;
+            candidates.push(...buckets[y * bucketsX + x]);
+          }
+        }
+        if (candidates.length >= IDW_NEIGHBORS || extraRings >= 0) extraRings++;
+      }
+
+      const nearest = candidates
+        .map(index => {
+          const [plng, plat, z] = points[index];
+          return { z, distance: Math.hypot((plng - lng) * cosLat, plat - lat) };
+        })
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, IDW_NEIGHBORS);
+
+      let weightSum = 0;
+      let valueSum = 0;
+      let exact: number | null = null;
+      for (const { z, distance } of nearest) {
+        if (distance === 0) {
+          exact = z;
+          break;
+        }
+        const weight = 1 / distance ** IDW_POWER;
+        weightSum += weight;
+        valueSum += weight * z;
+      }
+      const value = exact ?? (weightSum > 0 ? valueSum / weightSum : NaN);
+      elevations[row * width + col] = value;
+      if (value < minElevation) minElevation = value;
+    }
+  }
+
+  return { width, height, west, north, cellLng, cellLat, elevations, minElevation };
+}
+
+// Bilinear bed elevation at a location, or null outside the lake
+export function sampleSurface(surface: BathymetrySurface, [lng, lat]: LngLat): number | null {
+  const x = (lng - surface.west) / surface.cellLng - 0.5;
+  const y = (surface.north - lat) / surface.cellLat - 0.5;
+  if (x < -0.5 || y < -0.5 || x > surface.width - 0.5 || y > surface.height - 0.5) return null;
+
+  const x0 = Math.max(0, Math.min(surface.width - 1, Math.floor(x)));
+  const y0 = Math.max(0, Math.min(surface.height - 1, Math.floor(y)));
+  const x1 = Math.min(x0 + 1, surface.width - 1);
+  const y1 = Math.min(y0 + 1, surface.height - 1);
+  const fx = Math.max(0, Math.min(1, x - x0));
+  const fy = Math.max(0, Math.min(1, y - y0));
+  const at = (cx: number, cy: number) => surface.elevations[cy * surface.width + cx];
+
+  const value = (at(x0, y0) * (1 - fx) + at(x1, y0) * fx) * (1 - fy)
+    + (at(x0, y1) * (1 - fx) + at(x1, y1) * fx) * fy;
+  return Number.isNaN(value) ? null : value;
+}
+
+// Light blue at the surface to navy at the deepest contour
+function depthColor(fraction: number): string {
+  const shallow = [144, 205, 244];
+  const deep = [26, 54, 93];
+  const mix = shallow.map((c, i) => Math.round(c + (deep[i] - c) * fraction));
+  return `#${mix.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+// Contour lines every `interval` feet below normal pool, deepest first
+export function generateDepthContours(
+  surface: BathymetrySurface,
+  interval: number,
+  normalPoolElevation: number,
+): DepthContour[] {
+  const thresholds: number[] = [];
+  for (let depth = interval; normalPoolElevation - depth > surface.minElevation; depth += interval) {
+    thresholds.push(Math.round(depth * 100) / 100);
+  }
+  if (thresholds.length === 0) return [];
+
+  // Contour depth rather than elevation, with land and no-data cells at zero
+  // depth and a one-cell dry margin around the grid. Each band is then the
+  // water at least that deep, so its rings follow the isoline and close at the
+  // shore; contouring elevations with land filled in would put every band's
+  // edge along the grid border as well.
+  const paddedWidth = surface.width + 2;
+  const paddedHeight = surface.height + 2;
+  const depths = new Array<number>(paddedWidth * paddedHeight).fill(0);
+  for (let row = 0; row < surface.height; row++) {
+    for (let col = 0; col < surface.width; col++) {
+      const elevation = surface.elevations[row * surface.width + col];
+      if (!Number.isNaN(elevation)) depths[(row + 1) * paddedWidth + col + 1] = Math.max(0, normalPoolElevation - elevation);
+    }
+  }
+  const maxDepth = normalPoolElevation - surface.minElevation;
+
+  return contours()
+    .size([paddedWidth, paddedHeight])
+    .thresholds(thresholds)(depths)
+    .map(band => {
+      const lines = band.coordinates.flatMap(polygon => polygon.map(ring =>
+        ring.map(([x, y]) => [surface.west + (x - 1) * surface.cellLng, surface.north - (y - 1) * surface.cellLat])
+      ));
+      const depth = Math.round(band.value * 10) / 10;
+      return {
+        elevation: Math.round((normalPoolElevation - band.value) * 100) / 100,
+        depth,
+        color: depthColor(maxDepth > 0 ? depth / maxDepth : 0),
+        geometry: { type: 'MultiLineString' as const, coordinates: lines },
+      };
+    })
+    .reverse()
+    .filter(contour => contour.geometry.coordinates.length > 0);
+}
@@ -0,0 +1,20 @@
+import { useCallback } from 'react';
+import type { BathymetrySurvey, SurveyPoint } from './bathymetry';
+import { createPersistentStore } from './localStore';
+
+// Imported bathymetric survey, persisted in local storage per lake. Very large
+// surveys that exceed the storage quota stay available for the session only.
+
+const store = createPersistentStore<BathymetrySurvey | null>('lakescope:bathymetry:', null);
+
+export function useBathymetrySurvey(lakeSlug: string) {
+  const survey = store.useValue(lakeSlug);
+
+  const importSurvey = useCallback((points: SurveyPoint[], name: string) => {
+    store.set(lakeSlug, { name, importedAt: new Date().toISOString(), points });
+  }, [lakeSlug]);
+
+  const clearSurvey = useCallback(() => store.set(lakeSlug, null), [lakeSlug]);
+
+  return { survey, importSurvey, clearSurvey };
+}
@@ -0,0 +1,39 @@
+import type { BoatRamp } from './lakes';
+
+// Launch conditions at a boat ramp for a given lake level
+
+export type RampStatus = 'open' | 'limited' | 'closed';
+
+export function getRampStatus(ramp: BoatRamp, currentElevation: number): {
+  status: RampStatus;
+  message: string;
+  launchable: string[];
+} {
+  const diff = currentElevation - ramp.minElevation;
+
+  if (currentElevation >= ramp.optimalElevation) {
+    return {
+      status: 'open',
+      message: 'Fully operational - optimal conditions',
+      launchable: ['All vessels', 'Large boats', 'Pontoons', 'PWC'],
+    };
+  } else if (currentElevation >= ramp.minElevation + 3) {
+    return {
+      status: 'open',
+      message: 'Accessible - good conditions',
+      launchable: ['Most boats', 'Medium vessels', 'PWC'],
+    };
+  } else if (currentElevation >= ramp.minElevation) {
+    return {
+      status: 'limited',
+      message: `Limited access - ${diff.toFixed(1)} ft above minimum`,
+      launchable: ['Small boats', 'Kayaks', 'Canoes', 'PWC'],
+    };
+  } else {
+    return {
+      status: 'closed',
+      message: `Closed - water ${Math.abs(diff).toFixed(1)} ft below minimum`,
+      launchable: [],
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Bookmark, createBookmarkId, mergeBookmarks, parseBookmarks } from './bookmarks';
+import { createPersistentStore } from './localStore';
+
+// Bookmarks persisted in local storage per lake. When
+// NEXT_PUBLIC_BOOKMARKS_URL is set they are also synced with that endpoint:
+// GET `${url}?lake=<slug>` returns the user's bookmarks for the lake and PUT
+// to the same URL replaces them. Requests carry the browser's credentials so
+// the server can tell users apart with its own sign-in.
+
+const EMPTY: Bookmark[] = [];
+const store = createPersistentStore<Bookmark[]>('lakescope:bookmarks:', EMPTY);
+// Ids the server last held per lake; a local bookmark that is not among them
+// has never been synced, while a synced one missing from the server was deleted
+const NO_IDS: string[] = [];
+const syncedIds = createPersistentStore<string[]>('lakescope:bookmarks-synced:', NO_IDS);
+const SERVER_URL = process.env.NEXT_PUBLIC_BOOKMARKS_URL;
+
+function serverUrl(lakeSlug: string): string {
+  return `${SERVER_URL}?lake=${encodeURIComponent(lakeSlug)}`;
+}
+
+export function useBookmarks(lakeSlug: string) {
+  const bookmarks = store.useValue(lakeSlug);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  const save = useCallback((next: Bookmark[]) => {
+    store.set(lakeSlug, next.length ? next : EMPTY);
+    if (!SERVER_URL) return;
+    fetch(serverUrl(lakeSlug), {
+      method: 'PUT',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(next),
+    })
+      .then(response => {
+        if (!response.ok) throw new Error(`Bookmark server returned ${response.status}`);
+        syncedIds.set(lakeSlug, next.length ? next.map(b => b.id) : NO_IDS);
+        setSyncError(null);
+      })
+      .catch(err => setSyncError(err instanceof Error ? err.message : 'Unknown error'));
+  }, [lakeSlug]);
+
+  // Take the server copy once per lake, adding only local bookmarks it has
+  // never held, and write that back to the server if it gained any
+  useEffect(() => {
+    if (!SERVER_URL) return;
+    let cancelled = false;
+    fetch(serverUrl(lakeSlug), { credentials: 'include' })
+      .then(response => {
+        if (!response.ok) throw new Error(`Bookmark server returned ${response.status}`);
+        return response.json();
+      })
+      .then(remote => {
+        if (cancelled) return;
+        const { bookmarks: serverBookmarks } = parseBookmarks(remote, lakeSlug);
+        const synced = new Set(syncedIds.get(lakeSlug));
+        const merged = mergeBookmarks(serverBookmarks, store.get(lakeSlug).filter(b => !synced.has(b.id)));
+        if (merged.length > serverBookmarks.length) {
+          save(merged);
+          return;
+        }
+        store.set(lakeSlug, merged.length ? merged : EMPTY);
+        syncedIds.set(lakeSlug, merged.length ? merged.map(b => b.id) : NO_IDS);
+        setSyncError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setSyncError(err instanceof Error ? err.message : 'Unknown error');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [lakeSlug, save]);
+
+  const addBookmark = useCallback((name: string, view: string) => {
+    save([...store.get(lakeSlug), { id: createBookmarkId(), name, createdAt: new Date().toISOString(), view }]);
+  }, [lakeSlug, save]);
+
+  const renameBookmark = useCallback((id: string, name: string) => {
+    save(store.get(lakeSlug).map(b => b.id === id ? { ...b, name } : b));
+  }, [lakeSlug, save]);
+
+  // Moves a bookmark up (-1) or down (+1) the list
+  const moveBookmark = useCallback((id: string, offset: number) => {
+    const current = [...store.get(lakeSlug)];
+    const from = current.findIndex(b => b.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= current.length) return;
+    const [bookmark] = current.splice(from, 1);
+    current.splice(to, 0, bookmark);
+    save(current);
+  }, [lakeSlug, save]);
+
+  const deleteBookmark = useCallback((id: string) => {
+    save(store.get(lakeSlug).filter(b => b.id !== id));
+  }, [lakeSlug, save]);
+
+  const importBookmarks = useCallback((incoming: Bookmark[]) => {
+    save(mergeBookmarks(store.get(lakeSlug), incoming));
+  }, [lakeSlug, save]);
+
+  return { bookmarks, syncError, addBookmark, renameBookmark, moveBookmark, deleteBookmark, importBookmarks };
+}
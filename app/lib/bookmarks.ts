@@ -0,0 +1,75 @@
+// Saved views. A bookmark stores its view in the share-link query format, so
+// loading one goes through the same validation as opening a shared URL.
+
+export interface Bookmark {
+  id: string;
+  name: string;
+  createdAt: string; // ISO date-time
+  view: string; // share-link query string
+}
+
+export interface BookmarkFile {
+  lake: string; // slug of the lake the views belong to
+  exportedAt: string;
+  bookmarks: Bookmark[];
+}
+
+export interface BookmarkImportResult {
+  bookmarks: Bookmark[];
+  skipped: number;
+  warnings: string[];
+}
+
+export function createBookmarkId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function toBookmark(value: unknown): Bookmark | null {
+  if (!value || typeof value !== 'object') return null;
+  const { id, name, createdAt, view } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim() || typeof view !== 'string') return null;
+  return {
+    id: typeof id === 'string' && id ? id : createBookmarkId(),
+    name: name.trim(),
+    createdAt: typeof createdAt === 'string' && !Number.isNaN(Date.parse(createdAt)) ? createdAt : new Date().toISOString(),
+    view,
+  };
+}
+
+// Bookmarks from an exported file, or from a bare array of bookmarks
+export function parseBookmarks(value: unknown, lakeSlug: string): BookmarkImportResult {
+  const warnings: string[] = [];
+  let items: unknown[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else if (value && typeof value === 'object' && Array.isArray((value as BookmarkFile).bookmarks)) {
+    const file = value as BookmarkFile;
+    if (file.lake && file.lake !== lakeSlug) warnings.push(`bookmarks were exported from ${file.lake}`);
+    items = file.bookmarks;
+  } else {
+    return { bookmarks: [], skipped: 0, warnings: ['not a bookmarks file'] };
+  }
+
+  const bookmarks = items.map(toBookmark).filter((b): b is Bookmark => b !== null);
+  return { bookmarks, skipped: items.length - bookmarks.length, warnings };
+}
+
+export function parseBookmarksJson(text: string, lakeSlug: string): BookmarkImportResult {
+  try {
+    return parseBookmarks(JSON.parse(text), lakeSlug);
+  } catch {
+    return { bookmarks: [], skipped: 0, warnings: ['the file is not valid JSON'] };
+  }
+}
+
+// Adds incoming bookmarks after the existing ones; an id already present is
+// kept as it is locally
+export function mergeBookmarks(existing: Bookmark[], incoming: Bookmark[]): Bookmark[] {
+  const ids = new Set(existing.map(b => b.id));
+  return [...existing, ...incoming.filter(b => !ids.has(b.id))];
+}
+
+export function formatBookmarksJson(lakeSlug: string, bookmarks: Bookmark[]): string {
+  const file: BookmarkFile = { lake: lakeSlug, exportedAt: new Date().toISOString(), bookmarks };
+  return JSON.stringify(file, null, 2);
+}
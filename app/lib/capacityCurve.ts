@@ -0,0 +1,147 @@
+import { parseCsv } from './csv';
+import type { CapacityCurvePoint, LakeInfo } from './lakes';
+
+// Elevation-area-capacity curves: surface area and storage at any pool
+// elevation, interpolated from the Corps table for the reservoir.
+
+export interface CapacityImportResult {
+  points: CapacityCurvePoint[];
+  skipped: number;
+  warnings: string[];
+}
+
+// Header keywords for each column; Corps tables label storage as capacity
+const COLUMN_PATTERNS: Record<keyof CapacityCurvePoint, RegExp> = {
+  elevation: /elev|stage/i,
+  areaAcres: /area|acres$/i,
+  storageAcreFt: /capacity|storage|volume|ac[-\s]?ft|acre[-\s]?f/i,
+};
+
+const COLUMN_LABELS: Record<keyof CapacityCurvePoint, string> = {
+  elevation: 'elevation',
+  areaAcres: 'area',
+  storageAcreFt: 'capacity',
+};
+
+function parseNumber(cell: string | undefined): number {
+  return parseFloat((cell ?? '').replace(/[,\s]/g, ''));
+}
+
+// Accepts a CSV or tab-delimited table with elevation, area and capacity
+// columns. Without a recognizable header the first three columns are used
+// in that order.
+export function parseCapacityCsv(text: string): CapacityImportResult {
+  const delimiter = text.split(/\r?\n/, 1)[0].includes('\t') ? '\t' : ',';
+  const rows = parseCsv(text, delimiter);
+  const warnings: string[] = [];
+  let skipped = 0;
+
+  const hasHeader = rows.length > 0 && !Number.isFinite(parseNumber(rows[0][0]));
+  const header = hasHeader ? rows[0] : [];
+  const columns = { elevation: 0, areaAcres: 1, storageAcreFt: 2 };
+  if (hasHeader) {
+    // Assign storage first so "Area (ac)" does not claim an "ac-ft" column
+    const taken = new Set<number>();
+    for (const key of ['elevation', 'storageAcreFt', 'areaAcres'] as const) {
+      const index = header.findIndex((h, i) => !taken.has(i) && COLUMN_PATTERNS[key].test(h.trim()));
+      if (index === -1) {
+        return { points: [], skipped: rows.length - 1, warnings: [`Missing ${COLUMN_LABELS[key]} column`] };
+      }
+      columns[key] = index;
+      taken.add(index);
+    }
+  }
+
+  const byElevation = new Map<number, CapacityCurvePoint>();
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const point = {
+      elevation: parseNumber(row[columns.elevation]),
+      areaAcres: parseNumber(row[columns.areaAcres]),
+      storageAcreFt: parseNumber(row[columns.storageAcreFt]),
+    };
+    if (!Object.values(point).every(Number.isFinite) || point.areaAcres < 0 || point.storageAcreFt < 0) {
+      skipped++;
+      continue;
+    }
+    if (byElevation.has(point.elevation)) warnings.push(`Duplicate elevation ${point.elevation} ft; kept the last row`);
+    byElevation.set(point.elevation, point);
+  }
+
+  const points = [...byElevation.values()].sort((a, b) => a.elevation - b.elevation);
+  if (points.length < 2) {
+    return { points: [], skipped, warnings: [...warnings, 'At least two rows are needed to interpolate'] };
+  }
+  if (points.some((p, i) => i > 0 && (p.areaAcres < points[i - 1].areaAcres || p.storageAcreFt < points[i - 1].storageAcreFt))) {
+    warnings.push('Area or capacity decreases with elevation; check the column order');
+  }
+
+  return { points, skipped, warnings };
+}
+
+// Index of the table row at or below the elevation, clamped to the table
+function bracket(points: CapacityCurvePoint[], elevation: number): number {
+  let lo = 0;
+  let hi = points.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].elevation <= elevation) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+export function curveRange(points: CapacityCurvePoint[]): { min: number; max: number } {
+  return { min: points[0].elevation, max: points[points.length - 1].elevation };
+}
+
+// Surface area in acres, linear between table rows and held at the end rows
+// outside the table
+export function surfaceAreaAt(points: CapacityCurvePoint[], elevation: number): number {
+  const { min, max } = curveRange(points);
+  if (elevation <= min) return points[0].areaAcres;
+  if (elevation >= max) return points[points.length - 1].areaAcres;
+  const i = bracket(points, elevation);
+  const a = points[i];
+  const b = points[i + 1];
+  return a.areaAcres + (b.areaAcres - a.areaAcres) * (elevation - a.elevation) / (b.elevation - a.elevation);
+}
+
+// Storage in acre-feet. Between rows the tabulated storage increment is
+// spread in proportion to the integrated (trapezoid) area, so the curve
+// follows surfaceAreaAt's shape yet meets every row's surveyed storage
+// exactly; above the table the top area is extended as a vertical wall.
+export function storageAt(points: CapacityCurvePoint[], elevation: number): number {
+  const { min, max } = curveRange(points);
+  if (elevation <= min) return points[0].storageAcreFt;
+  const top = points[points.length - 1];
+  if (elevation >= max) return top.storageAcreFt + (elevation - top.elevation) * top.areaAcres;
+
+  const i = bracket(points, elevation);
+  const a = points[i];
+  const b = points[i + 1];
+  const fraction = (elevation - a.elevation) / (b.elevation - a.elevation);
+  const partial = (elevation - a.elevation) * (a.areaAcres + surfaceAreaAt(points, elevation)) / 2;
+  const full = (b.elevation - a.elevation) * (a.areaAcres + b.areaAcres) / 2;
+  const share = full > 0 ? partial / full : fraction;
+  return a.storageAcreFt + (b.storageAcreFt - a.storageAcreFt) * share;
+}
+
+// Power-law curve anchored to the catalog's normal-pool area and volume, used
+// until a surveyed table is imported. With A(h) = A₀·x^k over x = depth / max
+// depth, matching the catalog volume requires k = A₀·D / V − 1.
+export function estimateCapacityCurve(info: LakeInfo): CapacityCurvePoint[] {
+  const maxDepth = info.normalPoolElevation - info.streamBedElevation;
+  const exponent = Math.max(0, info.surfaceArea * maxDepth / info.volume - 1);
+  const points: CapacityCurvePoint[] = [];
+
+  for (let elevation = info.streamBedElevation; elevation <= info.topOfDamElevation; elevation++) {
+    const x = (elevation - info.streamBedElevation) / maxDepth;
+    points.push({
+      elevation,
+      areaAcres: Math.round(info.surfaceArea * Math.pow(x, exponent)),
+      storageAcreFt: Math.round(info.surfaceArea * maxDepth * Math.pow(x, exponent + 1) / (exponent + 1)),
+    });
+  }
+
+  return points;
+}
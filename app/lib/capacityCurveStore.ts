@@ -0,0 +1,60 @@
+import { useCallback, useMemo } from 'react';
+import { estimateCapacityCurve } from './capacityCurve';
+import type { CapacityCurvePoint, LakeRecord } from './lakes';
+import { createPersistentStore } from './localStore';
+import { Provenance, simulatedProvenance } from './provenance';
+import { useSettings } from './settings';
+
+// Imported area-capacity tables, persisted in local storage per lake
+
+export interface ImportedCapacityCurve {
+  points: CapacityCurvePoint[];
+  fileName: string;
+  importedAt: string;
+}
+
+export interface CapacityCurve {
+  points: CapacityCurvePoint[];
+  provenance: Provenance;
+  imported: boolean;
+}
+
+const store = createPersistentStore<ImportedCapacityCurve | null>('lakescope:capacity-curve:', null);
+
+// Curve for a lake: an imported table first, then one bundled with the
+// catalog, then an estimate from catalog facts when simulated data is allowed
+export function useCapacityCurve(lake: LakeRecord) {
+  const imported = store.useValue(lake.slug);
+  const [{ allowSimulatedData }] = useSettings();
+
+  const curve = useMemo<CapacityCurve | null>(() => {
+    if (imported) {
+      return {
+        points: imported.points,
+        provenance: { kind: 'manual', source: `Imported table (${imported.fileName})`, enteredAt: imported.importedAt },
+        imported: true,
+      };
+    }
+    if (lake.capacityCurve && lake.capacityCurve.length >= 2) {
+      return {
+        points: lake.capacityCurve,
+        provenance: { kind: 'manual', source: 'Corps area-capacity table' },
+        imported: false,
+      };
+    }
+    if (!allowSimulatedData) return null;
+    return {
+      points: estimateCapacityCurve(lake.info),
+      provenance: simulatedProvenance('Estimated from catalog area and volume; import the Corps area-capacity table'),
+      imported: false,
+    };
+  }, [imported, lake, allowSimulatedData]);
+
+  const importCurve = useCallback((points: CapacityCurvePoint[], fileName: string) => {
+    store.set(lake.slug, { points, fileName, importedAt: new Date().toISOString() });
+  }, [lake.slug]);
+
+  const clearCurve = useCallback(() => store.set(lake.slug, null), [lake.slug]);
+
+  return { curve, importCurve, clearCurve };
+}
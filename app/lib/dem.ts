@@ -0,0 +1,127 @@
+import type { LngLat } from './lakes';
+import { Crs, crsFromEpsg, projectLngLat, unprojectToLngLat } from './projection';
+
+// Digital elevation models loaded from GeoTIFF. Grids are north-up with the
+// origin at the top-left corner; pixel (col, row) covers [col, col + 1) by
+// [row, row + 1) in fractional pixel coordinates.
+
+export type VerticalUnit = 'm' | 'ft';
+
+export interface DemGrid {
+  name: string;
+  width: number;
+  height: number;
+  origin: [number, number]; // top-left corner in CRS units
+  resolution: [number, number]; // CRS units per pixel; y is negative for north-up
+  crs: Crs;
+  elevations: Float32Array; // feet, NaN where the source has no data
+}
+
+const FEET_PER_METER = 3.28084;
+
+// Larger rasters are resampled on read to keep analysis interactive
+export const MAX_DEM_DIMENSION = 1500;
+
+// GeoTIFF VerticalUnitsGeoKey values (EPSG linear units)
+const VERTICAL_UNIT_CODES: Record<number, VerticalUnit> = {
+  9001: 'm',
+  9002: 'ft',
+  9003: 'ft', // US survey foot
+};
+
+export async function readDemGeoTiff(
+  buffer: ArrayBuffer,
+  name: string,
+  fallbackUnit: VerticalUnit,
+): Promise<{ dem: DemGrid; verticalUnit: VerticalUnit; resampled: boolean }> {
+  const { fromArrayBuffer } = await import('geotiff');
+  const tiff = await fromArrayBuffer(buffer);
+  const image = await tiff.getImage();
+
+  const geoKeys = image.getGeoKeys() ?? {};
+  const epsg = geoKeys.ProjectedCSTypeGeoKey ?? geoKeys.GeographicTypeGeoKey;
+  const crs = typeof epsg === 'number' ? crsFromEpsg(epsg) : null;
+  if (!crs) {
+    throw new Error(`Unsupported coordinate system${epsg ? ` EPSG:${epsg}` : ''}; reproject the DEM to WGS84, Web Mercator or UTM`);
+  }
+
+  const verticalUnit = VERTICAL_UNIT_CODES[geoKeys.VerticalUnitsGeoKey] ?? fallbackUnit;
+  const toFeet = verticalUnit === 'm' ? FEET_PER_METER : 1;
+
+  const sourceWidth = image.getWidth();
+  const sourceHeight = image.getHeight();
+  const scale = Math.min(1, MAX_DEM_DIMENSION / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  // Nearest-neighbour so no-data sentinels are never blended into neighbouring
+  // cells, where they would pass the checks below as false deep ground
+  const [band] = await image.readRasters({ samples: [0], width, height, resampleMethod: 'nearest' });
+  const noData = image.getGDALNoData();
+  const elevations = new Float32Array(width * height);
+  for (let i = 0; i < elevations.length; i++) {
+    const value = band[i];
+    // Guard against sentinels that were not declared as GDAL no-data
+    elevations[i] = value === noData || !Number.isFinite(value) || value < -1000 ? NaN : value * toFeet;
+  }
+
+  const [x0, y0] = image.getOrigin();
+  const [dx, dy] = image.getResolution();
+  return {
+    dem: {
+      name,
+      width,
+      height,
+      origin: [x0, y0],
+      resolution: [dx * sourceWidth / width, dy * sourceHeight / height],
+      crs,
+      elevations,
+    },
+    verticalUnit,
+    resampled: scale < 1,
+  };
+}
+
+export function demCellToLngLat(dem: DemGrid, col: number, row: number): LngLat {
+  return unprojectToLngLat(dem.crs, [
+    dem.origin[0] + col * dem.resolution[0],
+    dem.origin[1] + row * dem.resolution[1],
+  ]);
+}
+
+export function lngLatToDemCell(dem: DemGrid, position: LngLat): [number, number] {
+  const [x, y] = projectLngLat(dem.crs, position);
+  return [(x - dem.origin[0]) / dem.resolution[0], (y - dem.origin[1]) / dem.resolution[1]];
+}
+
+// Corners in the order Mapbox image sources expect: top-left, top-right,
+// bottom-right, bottom-left
+export function demCorners(dem: DemGrid): [LngLat, LngLat, LngLat, LngLat] {
+  return [
+    demCellToLngLat(dem, 0, 0),
+    demCellToLngLat(dem, dem.width, 0),
+    demCellToLngLat(dem, dem.width, dem.height),
+    demCellToLngLat(dem, 0, dem.height),
+  ];
+}
+
+// Bilinear elevation in feet at a location, or null outside the grid or in no-data
+export function sampleDem(dem: DemGrid, position: LngLat): number | null {
+  const [col, row] = lngLatToDemCell(dem, position);
+  // Shift to cell centers before interpolating
+  const x = Math.min(Math.max(col - 0.5, 0), dem.width - 1);
+  const y = Math.min(Math.max(row - 0.5, 0), dem.height - 1);
+  if (col < 0 || row < 0 || col > dem.width || row > dem.height) return null;
+
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, dem.width - 1);
+  const y1 = Math.min(y0 + 1, dem.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const at = (cx: number, cy: number) => dem.elevations[cy * dem.width + cx];
+
+  const value = (at(x0, y0) * (1 - fx) + at(x1, y0) * fx) * (1 - fy)
+    + (at(x0, y1) * (1 - fx) + at(x1, y1) * fx) * fy;
+  return Number.isNaN(value) ? null : value;
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { DemGrid, VerticalUnit, readDemGeoTiff } from './dem';
+import type { LakeRecord } from './lakes';
+
+// Terrain loaded for each lake during this session. Rasters are too large
+// for local storage, so an imported file has to be loaded again after reload;
+// a DEM bundled with the catalog loads automatically.
+
+interface DemEntry {
+  dem: DemGrid | null;
+  verticalUnit: VerticalUnit | null;
+  resampled: boolean;
+  loading: boolean;
+  error: string | null;
+}
+
+const EMPTY_ENTRY: DemEntry = { dem: null, verticalUnit: null, resampled: false, loading: false, error: null };
+
+const entries = new Map<string, DemEntry>();
+const listeners = new Set<() => void>();
+
+function setEntry(slug: string, entry: DemEntry) {
+  entries.set(slug, entry);
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function loadDem(slug: string, name: string, read: () => Promise<ArrayBuffer>, unit: VerticalUnit) {
+  setEntry(slug, { ...(entries.get(slug) ?? EMPTY_ENTRY), loading: true, error: null });
+  try {
+    const { dem, verticalUnit, resampled } = await readDemGeoTiff(await read(), name, unit);
+    setEntry(slug, { dem, verticalUnit, resampled, loading: false, error: null });
+  } catch (err) {
+    setEntry(slug, {
+      ...(entries.get(slug) ?? EMPTY_ENTRY),
+      loading: false,
+      error: err instanceof Error ? err.message : 'Failed to read DEM',
+    });
+  }
+}
+
+export function useDem(lake: LakeRecord) {
+  const entry = useSyncExternalStore(
+    subscribe,
+    () => entries.get(lake.slug) ?? EMPTY_ENTRY,
+    () => EMPTY_ENTRY,
+  );
+
+  // Load the catalog DEM once per session
+  useEffect(() => {
+    const bundled = lake.dem;
+    if (!bundled || entries.has(lake.slug)) return;
+    loadDem(lake.slug, bundled.url.split('/').pop() ?? bundled.url, async () => {
+      const response = await fetch(bundled.url);
+      if (!response.ok) throw new Error(`DEM request failed (${response.status})`);
+      return response.arrayBuffer();
+    }, bundled.verticalUnit);
+  }, [lake.slug, lake.dem]);
+
+  const loadDemFile = useCallback((file: File, verticalUnit: VerticalUnit) => {
+    return loadDem(lake.slug, file.name, () => file.arrayBuffer(), verticalUnit);
+  }, [lake.slug]);
+
+  const clearDem = useCallback(() => setEntry(lake.slug, EMPTY_ENTRY), [lake.slug]);
+
+  return { ...entry, loadDemFile, clearDem };
+}
@@ -0,0 +1,10 @@
+// Save generated content through a temporary object URL
+export function downloadFile(content: BlobPart, type: string, fileName: string) {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,151 @@
+import type { EconomicModelInputs, RegionalMultipliers, SpendingCategory, VisitorSegment } from './lakes';
+
+// Visitor spending model in the style of the Money Generation Model: visits by
+// segment times spending per visit, less what leaks out of the region, gives
+// direct output; regional multipliers add supplier (indirect) and household
+// (induced) effects, and convert output to jobs and labor income.
+
+export type ImpactEffect = 'direct' | 'indirect' | 'induced';
+
+export interface ImpactTotals {
+  output: number; // dollars
+  jobs: number;
+  laborIncome: number; // dollars
+}
+
+export interface EconomicImpact {
+  visits: number;
+  spending: number; // all visitor spending, dollars
+  spendingBySegment: Record<VisitorSegment, number>;
+  effects: Record<ImpactEffect, ImpactTotals>;
+  total: ImpactTotals;
+}
+
+export interface SensitivityResult {
+  id: string;
+  label: string;
+  low: ImpactTotals; // totals with the input lowered by the step
+  high: ImpactTotals; // ... and raised by it
+}
+
+export const VISITOR_SEGMENTS: Record<VisitorSegment, string> = {
+  dayUse: 'Day use',
+  camping: 'Camping',
+  boating: 'Boating',
+  fishing: 'Fishing',
+};
+
+export const SPENDING_CATEGORIES: Record<SpendingCategory, string> = {
+  lodging: 'Lodging',
+  food: 'Food',
+  transportation: 'Gas & travel',
+  recreation: 'Rentals & fees',
+  retail: 'Retail',
+};
+
+export const IMPACT_EFFECTS: Record<ImpactEffect, string> = {
+  direct: 'Direct',
+  indirect: 'Indirect',
+  induced: 'Induced',
+};
+
+export const MULTIPLIER_FIELDS: Record<keyof RegionalMultipliers, { label: string; step: number; max?: number }> = {
+  captureRate: { label: 'Local capture rate', step: 0.01, max: 1 },
+  indirectOutput: { label: 'Indirect output per $', step: 0.01 },
+  inducedOutput: { label: 'Induced output per $', step: 0.01 },
+  directJobsPerMillion: { label: 'Direct jobs per $1M', step: 0.1 },
+  secondaryJobsPerMillion: { label: 'Secondary jobs per $1M', step: 0.1 },
+  directLaborIncome: { label: 'Direct labor income per $', step: 0.01 },
+  secondaryLaborIncome: { label: 'Secondary labor income per $', step: 0.01 },
+};
+
+const SEGMENTS = Object.keys(VISITOR_SEGMENTS) as VisitorSegment[];
+const CATEGORIES = Object.keys(SPENDING_CATEGORIES) as SpendingCategory[];
+
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Whether a stored value still has every segment, category and multiplier the
+// model reads, e.g. after the model gains an input
+export function isEconomicModelInputs(value: unknown): value is EconomicModelInputs {
+  if (!value || typeof value !== 'object') return false;
+  const { visits, spending, multipliers, source } = value as Partial<Record<keyof EconomicModelInputs, unknown>>;
+  const record = (v: unknown) => (v && typeof v === 'object' ? v as Record<string, unknown> : null);
+  return typeof source === 'string' &&
+    SEGMENTS.every(segment => isAmount(record(visits)?.[segment])) &&
+    SEGMENTS.every(segment => CATEGORIES.every(category => isAmount(record(record(spending)?.[segment])?.[category]))) &&
+    (Object.keys(MULTIPLIER_FIELDS) as (keyof RegionalMultipliers)[]).every(field => isAmount(record(multipliers)?.[field]));
+}
+
+export function spendingPerVisit(inputs: EconomicModelInputs, segment: VisitorSegment): number {
+  return CATEGORIES.reduce((sum, category) => sum + inputs.spending[segment][category], 0);
+}
+
+function totals(output: number, jobsPerMillion: number, laborIncomeRatio: number): ImpactTotals {
+  return { output, jobs: (output / 1e6) * jobsPerMillion, laborIncome: output * laborIncomeRatio };
+}
+
+export function computeEconomicImpact(inputs: EconomicModelInputs): EconomicImpact {
+  const { visits, multipliers: m } = inputs;
+  const spendingBySegment = Object.fromEntries(
+    SEGMENTS.map(segment => [segment, visits[segment] * spendingPerVisit(inputs, segment)]),
+  ) as Record<VisitorSegment, number>;
+  const spending = SEGMENTS.reduce((sum, segment) => sum + spendingBySegment[segment], 0);
+
+  const directOutput = spending * m.captureRate;
+  const effects: Record<ImpactEffect, ImpactTotals> = {
+    direct: totals(directOutput, m.directJobsPerMillion, m.directLaborIncome),
+    indirect: totals(directOutput * m.indirectOutput, m.secondaryJobsPerMillion, m.secondaryLaborIncome),
+    induced: totals(directOutput * m.inducedOutput, m.secondaryJobsPerMillion, m.secondaryLaborIncome),
+  };
+  const effectList = Object.values(effects);
+
+  return {
+    visits: SEGMENTS.reduce((sum, segment) => sum + visits[segment], 0),
+    spending,
+    spendingBySegment,
+    effects,
+    total: {
+      output: effectList.reduce((sum, e) => sum + e.output, 0),
+      jobs: effectList.reduce((sum, e) => sum + e.jobs, 0),
+      laborIncome: effectList.reduce((sum, e) => sum + e.laborIncome, 0),
+    },
+  };
+}
+
+// Each input scaled by (1 +/- step) with everything else held fixed; a
+// segment's spending profile is scaled as a whole
+export function economicSensitivity(inputs: EconomicModelInputs, step = 0.1): SensitivityResult[] {
+  const scaled: { id: string; label: string; scale: (factor: number) => EconomicModelInputs }[] = [
+    ...SEGMENTS.map(segment => ({
+      id: `visits-${segment}`,
+      label: `${VISITOR_SEGMENTS[segment]} visits`,
+      scale: (factor: number) => ({ ...inputs, visits: { ...inputs.visits, [segment]: inputs.visits[segment] * factor } }),
+    })),
+    ...SEGMENTS.map(segment => ({
+      id: `spending-${segment}`,
+      label: `${VISITOR_SEGMENTS[segment]} spending`,
+      scale: (factor: number) => ({
+        ...inputs,
+        spending: {
+          ...inputs.spending,
+          [segment]: Object.fromEntries(CATEGORIES.map(c => [c, inputs.spending[segment][c] * factor])) as Record<SpendingCategory, number>,
+        },
+      }),
+    })),
+    ...(Object.keys(MULTIPLIER_FIELDS) as (keyof RegionalMultipliers)[]).map(field => ({
+      id: `multiplier-${field}`,
+      label: MULTIPLIER_FIELDS[field].label,
+      scale: (factor: number) => {
+        const max = MULTIPLIER_FIELDS[field].max ?? Infinity;
+        return { ...inputs, multipliers: { ...inputs.multipliers, [field]: Math.min(max, inputs.multipliers[field] * factor) } };
+      },
+    })),
+  ];
+
+  return scaled.map(({ id, label, scale }) => ({
+    id,
+    label,
+    low: computeEconomicImpact(scale(1 - step)).total,
+    high: computeEconomicImpact(scale(1 + step)).total,
+  }));
+}
@@ -0,0 +1,28 @@
+import { useCallback, useMemo } from 'react';
+import { isEconomicModelInputs } from './economicModel';
+import type { EconomicModelInputs, LakeRecord } from './lakes';
+import { createPersistentStore } from './localStore';
+import { Provenance } from './provenance';
+
+// Edited economic model inputs, persisted in local storage per lake; the
+// catalog's inputs apply until the user changes one, and again if the stored
+// copy is missing any input
+
+const store = createPersistentStore<EconomicModelInputs | null>('lakescope:economic-model:', null);
+
+export function useEconomicModel(lake: LakeRecord) {
+  const stored = store.useValue(lake.slug);
+  const edited = isEconomicModelInputs(stored) ? stored : null;
+  const inputs = edited ?? lake.economic.impactModel;
+
+  const provenance = useMemo<Provenance>(() => ({
+    kind: 'manual',
+    source: edited ? `Edited inputs (catalog: ${lake.economic.impactModel.source})` : inputs.source,
+  }), [edited, inputs, lake]);
+
+  const setInputs = useCallback((next: EconomicModelInputs) => store.set(lake.slug, next), [lake.slug]);
+
+  const resetInputs = useCallback(() => store.set(lake.slug, null), [lake.slug]);
+
+  return { inputs, edited: edited !== null, provenance, setInputs, resetInputs };
+}
@@ -0,0 +1,117 @@
+import type { LakeRecord, LngLat } from './lakes';
+
+// Local gazetteer of named places around a lake, used by the header search
+
+export type GazetteerKind = 'poi' | 'ramp' | 'recreation' | 'zone';
+
+export interface GazetteerEntry {
+  id: string; // unique within the gazetteer, prefixed by kind
+  sourceId: string; // id of the underlying record (POI id, ramp id, ...)
+  kind: GazetteerKind;
+  name: string;
+  detail: string;
+  position: LngLat;
+}
+
+export const GAZETTEER_KIND_LABELS: Record<GazetteerKind, string> = {
+  poi: 'Point of Interest',
+  ramp: 'Boat Ramp',
+  recreation: 'Recreation Area',
+  zone: 'Land Use Zone',
+};
+
+// Area-weighted centroid of a closed ring, falling back to the vertex mean for degenerate rings
+export function polygonCentroid(ring: LngLat[]): LngLat {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[i + 1];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+
+  if (Math.abs(area) < 1e-12) {
+    const sum = ring.reduce(([sx, sy], [x, y]) => [sx + x, sy + y], [0, 0]);
+    return [sum[0] / ring.length, sum[1] / ring.length];
+  }
+
+  return [cx / (3 * area), cy / (3 * area)];
+}
+
+export function buildGazetteer(lake: LakeRecord): GazetteerEntry[] {
+  const entries: GazetteerEntry[] = [];
+
+  lake.pointsOfInterest.forEach((poi) => {
+    entries.push({
+      id: `poi:${poi.id}`,
+      sourceId: poi.id,
+      kind: 'poi',
+      name: poi.name,
+      detail: poi.description,
+      position: poi.position,
+    });
+  });
+
+  lake.boatRamps.forEach((ramp) => {
+    entries.push({
+      id: `ramp:${ramp.id}`,
+      sourceId: ramp.id,
+      kind: 'ramp',
+      name: ramp.name,
+      detail: `${ramp.location} - ${ramp.amenities.join(', ')}`,
+      position: [ramp.coordinates.lng, ramp.coordinates.lat],
+    });
+  });
+
+  lake.recreationAreas.forEach((area) => {
+    entries.push({
+      id: `recreation:${area.name}`,
+      sourceId: area.name,
+      kind: 'recreation',
+      name: area.name,
+      detail: `${area.type} (${area.status})`,
+      position: area.position,
+    });
+  });
+
+  lake.landUseZones.forEach((zone) => {
+    // Zones without a mapped boundary have nowhere to fly to
+    if (!zone.polygon || zone.polygon.length < 3) return;
+    entries.push({
+      id: `zone:${zone.id}`,
+      sourceId: zone.id,
+      kind: 'zone',
+      name: zone.name,
+      detail: `${zone.acres.toLocaleString()} acres`,
+      position: polygonCentroid(zone.polygon),
+    });
+  });
+
+  return entries;
+}
+
+// Rank entries by how well they match the query: name prefix, then word
+// prefix, then substring of the name, then substring of the detail text
+export function searchGazetteer(entries: GazetteerEntry[], query: string, limit = 8): GazetteerEntry[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+
+  const scored = entries
+    .map((entry) => {
+      const name = entry.name.toLowerCase();
+      let score = 0;
+      if (name.startsWith(q)) score = 4;
+      else if (name.split(/[\s-]+/).some(word => word.startsWith(q))) score = 3;
+      else if (name.includes(q)) score = 2;
+      else if (entry.detail.toLowerCase().includes(q) || GAZETTEER_KIND_LABELS[entry.kind].toLowerCase().includes(q)) score = 1;
+      return { entry, score };
+    })
+    .filter(result => result.score > 0);
+
+  scored.sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name));
+  return scored.slice(0, limit).map(result => result.entry);
+}
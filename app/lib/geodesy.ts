@@ -0,0 +1,151 @@
+import type { LngLat } from './lakes';
+
+// Distances on the WGS84 ellipsoid for the measurement tools
+
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+const MEAN_RADIUS = 6371008.8;
+const DEG = Math.PI / 180;
+
+function haversineMeters([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number {
+  const dLat = (lat2 - lat1) * DEG;
+  const dLng = (lng2 - lng1) * DEG;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * DEG) * Math.cos(lat2 * DEG) * Math.sin(dLng / 2) ** 2;
+  return 2 * MEAN_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Vincenty's inverse formula, accurate to well under a millimeter. Falls
+// back to the haversine distance for the nearly antipodal points where the
+// iteration does not converge.
+export function geodesicDistance(from: LngLat, to: LngLat): number {
+  const [lng1, lat1] = from;
+  const [lng2, lat2] = to;
+  if (lng1 === lng2 && lat1 === lat2) return 0;
+
+  const L = (lng2 - lng1) * DEG;
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(lat1 * DEG));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(lat2 * DEG));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    const sinSigma = Math.sqrt((cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2);
+    if (sinSigma === 0) return 0;
+    const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    const sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = cosU1 * cosU2 * sinLambda / sinSigma;
+    const cos2Alpha = 1 - sinAlpha * sinAlpha;
+    const cos2SigmaM = cos2Alpha === 0 ? 0 : cosSigma - 2 * sinU1 * sinU2 / cos2Alpha;
+    const C = WGS84_F / 16 * cos2Alpha * (4 + WGS84_F * (4 - 3 * cos2Alpha));
+    const previous = lambda;
+    lambda = L + (1 - C) * WGS84_F * sinAlpha * (
+      sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM))
+    );
+
+    if (Math.abs(lambda - previous) < 1e-12) {
+      const u2 = cos2Alpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B) / (WGS84_B * WGS84_B);
+      const A = 1 + u2 / 16384 * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+      const B = u2 / 1024 * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+      const deltaSigma = B * sinSigma * (
+        cos2SigmaM + B / 4 * (
+          cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)
+          - B / 6 * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+        )
+      );
+      return WGS84_B * A * (sigma - deltaSigma);
+    }
+  }
+
+  return haversineMeters(from, to);
+}
+
+// Area in square meters enclosed by a ring, in either winding order. Latitudes
+// are mapped to authalic latitudes so the ellipsoid's area is preserved on
+// a sphere of equal area, then each edge contributes the spherical excess of
+// its triangle with the pole.
+export function geodesicArea(ring: LngLat[]): number {
+  const e = Math.sqrt(WGS84_F * (2 - WGS84_F));
+  const q = (sinLat: number) => (1 - e * e) * (
+    sinLat / (1 - e * e * sinLat * sinLat)
+    - Math.log((1 - e * sinLat) / (1 + e * sinLat)) / (2 * e)
+  );
+  const qPole = q(1);
+  const authalicRadius = WGS84_A * Math.sqrt(qPole / 2);
+  const authalic = (lat: number) => Math.asin(Math.max(-1, Math.min(1, q(Math.sin(lat * DEG)) / qPole)));
+
+  let excess = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[(i + 1) % ring.length];
+    let dLng = (lng2 - lng1) * DEG;
+    if (dLng > Math.PI) dLng -= 2 * Math.PI;
+    if (dLng < -Math.PI) dLng += 2 * Math.PI;
+    const t1 = Math.tan(authalic(lat1) / 2);
+    const t2 = Math.tan(authalic(lat2) / 2);
+    excess += 2 * Math.atan2(Math.tan(dLng / 2) * (t1 + t2), 1 + t1 * t2);
+  }
+  return Math.abs(excess) * authalicRadius * authalicRadius;
+}
+
+// Ray-casting test in lon/lat; fine for lake-sized polygons
+export function pointInPolygon([lng, lat]: LngLat, polygon: LngLat[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > lat) !== (yj > lat) && lng < xi + (lat - yi) * (xj - xi) / (yj - yi)) inside = !inside;
+  }
+  return inside;
+}
+
+// Cumulative distance in meters at each vertex of a path
+export function cumulativeDistances(path: LngLat[]): number[] {
+  const distances = [0];
+  for (let i = 1; i < path.length; i++) {
+    distances.push(distances[i - 1] + geodesicDistance(path[i - 1], path[i]));
+  }
+  return distances;
+}
+
+// Evenly spaced points along a path with their distance from the start.
+// Positions are interpolated linearly within each segment, which is well
+// within a meter of the geodesic over lake-sized segments.
+export function samplePath(path: LngLat[], count: number): { position: LngLat; distance: number }[] {
+  if (path.length < 2) return path.map(position => ({ position, distance: 0 }));
+  const distances = cumulativeDistances(path);
+  const total = distances[distances.length - 1];
+  const samples: { position: LngLat; distance: number }[] = [];
+
+  let segment = 0;
+  for (let i = 0; i < count; i++) {
+    const distance = total * i / (count - 1);
+    while (segment < path.length - 2 && distances[segment + 1] < distance) segment++;
+    const length = distances[segment + 1] - distances[segment];
+    const t = length > 0 ? (distance - distances[segment]) / length : 0;
+    const [lng1, lat1] = path[segment];
+    const [lng2, lat2] = path[segment + 1];
+    samples.push({ position: [lng1 + (lng2 - lng1) * t, lat1 + (lat2 - lat1) * t], distance });
+  }
+  return samples;
+}
+
+export type DistanceUnit = 'ft' | 'mi' | 'm' | 'nmi';
+
+export const DISTANCE_UNITS: Record<DistanceUnit, { label: string; meters: number }> = {
+  ft: { label: 'Feet', meters: 0.3048 },
+  mi: { label: 'Miles', meters: 1609.344 },
+  m: { label: 'Meters', meters: 1 },
+  nmi: { label: 'Nautical miles', meters: 1852 },
+};
+
+export function formatDistance(meters: number, unit: DistanceUnit): string {
+  const value = meters / DISTANCE_UNITS[unit].meters;
+  const digits = unit === 'ft' || unit === 'm' ? 0 : value < 10 ? 3 : 2;
+  return `${value.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits })} ${unit}`;
+}
@@ -0,0 +1,161 @@
+import { contours } from 'd3-contour';
+import { DemGrid, demCellToLngLat, demCorners, lngLatToDemCell } from './dem';
+import type { LngLat } from './lakes';
+
+// Flood inundation from a DEM: every cell below the water level that is
+// hydraulically connected to the lake, with depth = water level - ground.
+
+export interface Inundation {
+  waterLevel: number;
+  extent: GeoJSON.MultiPolygon; // outline of the connected flooded area
+  depths: Float32Array; // feet per DEM cell, 0 where dry
+  width: number;
+  height: number;
+  corners: [LngLat, LngLat, LngLat, LngLat]; // image placement for the depth grid
+  areaAcres: number;
+  maxDepthFt: number;
+}
+
+const SQ_METERS_PER_ACRE = 4046.8564224;
+const METERS_PER_DEGREE_LAT = 110574;
+const METERS_PER_DEGREE_LNG = 111320;
+
+// Depth classes for the inundation grid, shallow to deep
+export const DEPTH_RAMP: { minDepth: number; color: [number, number, number]; label: string }[] = [
+  { minDepth: 0, color: [191, 219, 254], label: '0-2 ft' },
+  { minDepth: 2, color: [96, 165, 250], label: '2-5 ft' },
+  { minDepth: 5, color: [37, 99, 235], label: '5-10 ft' },
+  { minDepth: 10, color: [30, 64, 175], label: '10-20 ft' },
+  { minDepth: 20, color: [23, 37, 84], label: '> 20 ft' },
+];
+
+// Cells whose centers fall inside a polygon, by scanline fill in pixel space
+export function rasterizePolygon(dem: DemGrid, polygon: LngLat[]): Uint8Array {
+  const mask = new Uint8Array(dem.width * dem.height);
+  const vertices = polygon.map(position => lngLatToDemCell(dem, position));
+
+  for (let row = 0; row < dem.height; row++) {
+    const y = row + 0.5;
+    const crossings: number[] = [];
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+      const [xi, yi] = vertices[i];
+      const [xj, yj] = vertices[j];
+      if ((yi > y) !== (yj > y)) crossings.push(xi + (y - yi) * (xj - xi) / (yj - yi));
+    }
+    crossings.sort((a, b) => a - b);
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const start = Math.max(0, Math.ceil(crossings[k] - 0.5));
+      const end = Math.min(dem.width - 1, Math.floor(crossings[k + 1] - 0.5));
+      for (let col = start; col <= end; col++) mask[row * dem.width + col] = 1;
+    }
+  }
+
+  return mask;
+}
+
+// Ground area of one cell in each row, in acres
+export function cellAreasByRow(dem: DemGrid): Float64Array {
+  const areas = new Float64Array(dem.height);
+  const col = dem.width / 2;
+  const distance = (a: LngLat, b: LngLat) => {
+    const cosLat = Math.cos(((a[1] + b[1]) / 2) * Math.PI / 180);
+    return Math.hypot((b[0] - a[0]) * cosLat * METERS_PER_DEGREE_LNG, (b[1] - a[1]) * METERS_PER_DEGREE_LAT);
+  };
+  for (let row = 0; row < dem.height; row++) {
+    const origin = demCellToLngLat(dem, col, row);
+    areas[row] = distance(origin, demCellToLngLat(dem, col + 1, row))
+      * distance(origin, demCellToLngLat(dem, col, row + 1)) / SQ_METERS_PER_ACRE;
+  }
+  return areas;
+}
+
+export function computeInundation(dem: DemGrid, waterLevel: number, lakeBoundary: LngLat[]): Inundation {
+  const { width, height, elevations } = dem;
+  const lakeMask = rasterizePolygon(dem, lakeBoundary);
+  const wet = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let top = 0;
+
+  // Seed from the lake itself, then spread to neighbors below the water level
+  for (let i = 0; i < lakeMask.length; i++) {
+    if (lakeMask[i] && elevations[i] < waterLevel) {
+      wet[i] = 1;
+      stack[top++] = i;
+    }
+  }
+  while (top > 0) {
+    const i = stack[--top];
+    const col = i % width;
+    const neighbors = [
+      col > 0 ? i - 1 : -1,
+      col < width - 1 ? i + 1 : -1,
+      i - width,
+      i + width,
+    ];
+    for (const n of neighbors) {
+      if (n < 0 || n >= wet.length || wet[n] || !(elevations[n] < waterLevel)) continue;
+      wet[n] = 1;
+      stack[top++] = n;
+    }
+  }
+
+  const depths = new Float32Array(width * height);
+  const rowAreas = cellAreasByRow(dem);
+  let areaAcres = 0;
+  let maxDepthFt = 0;
+  for (let i = 0; i < wet.length; i++) {
+    if (!wet[i]) continue;
+    const depth = waterLevel - elevations[i];
+    depths[i] = depth;
+    areaAcres += rowAreas[Math.floor(i / width)];
+    if (depth > maxDepthFt) maxDepthFt = depth;
+  }
+
+  const [outline] = contours().size([width, height]).thresholds([0.5])(Array.from(wet));
+  const extent: GeoJSON.MultiPolygon = {
+    type: 'MultiPolygon',
+    coordinates: outline.coordinates.map(polygon =>
+      polygon.map(ring => ring.map(([x, y]) => demCellToLngLat(dem, x, y)))
+    ),
+  };
+
+  return {
+    waterLevel,
+    extent,
+    depths,
+    width,
+    height,
+    corners: demCorners(dem),
+    areaAcres,
+    maxDepthFt,
+  };
+}
+
+// Water depth in feet at a location, or null where the DEM cell is dry or
+// outside the grid
+export function inundationDepthAt(dem: DemGrid, inundation: Inundation, position: LngLat): number | null {
+  const [col, row] = lngLatToDemCell(dem, position).map(Math.floor);
+  if (col < 0 || row < 0 || col >= inundation.width || row >= inundation.height) return null;
+  const depth = inundation.depths[row * inundation.width + col];
+  return depth > 0 ? depth : null;
+}
+
+// PNG data URL of the depth grid colored by DEPTH_RAMP, transparent where dry
+export function renderDepthImage(inundation: Inundation): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = inundation.width;
+  canvas.height = inundation.height;
+  const context = canvas.getContext('2d');
+  if (!context) return '';
+
+  const image = context.createImageData(inundation.width, inundation.height);
+  inundation.depths.forEach((depth, i) => {
+    if (depth <= 0) return;
+    let rampIndex = DEPTH_RAMP.length - 1;
+    while (rampIndex > 0 && depth < DEPTH_RAMP[rampIndex].minDepth) rampIndex--;
+    const [r, g, b] = DEPTH_RAMP[rampIndex].color;
+    image.data.set([r, g, b, 200], i * 4);
+  });
+  context.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,137 @@
+import { EXPORT_LAYERS, ExportLayer, MapFeature, MapFeatureProperties } from './mapFeatures';
+
+// KML for Google Earth: a folder per map layer, with shared styles coloured
+// like the map (zone and contour colours come from the features themselves)
+
+const POI_COLORS: Record<string, string> = {
+  dam: '#6b7280',
+  marina: '#0ea5e9',
+  campground: '#22c55e',
+  inlet: '#3b82f6',
+  wildlife: '#84cc16',
+};
+
+const RAMP_COLORS: Record<string, string> = {
+  open: '#10b981',
+  limited: '#eab308',
+  closed: '#ef4444',
+};
+
+const POINT_ICON = 'https://maps.google.com/mapfiles/kml/shapes/placemark_circle.png';
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// KML colours are aabbggrr
+function kmlColor(hex: string, opacity = 1): string {
+  const [r, g, b] = [1, 3, 5].map(i => hex.slice(i, i + 2));
+  const alpha = Math.round(opacity * 255).toString(16).padStart(2, '0');
+  return `${alpha}${b}${g}${r}`.toLowerCase();
+}
+
+function featureColor(properties: MapFeatureProperties): string {
+  switch (properties.layer) {
+    case 'boundary': return '#3182ce';
+    case 'zones':
+    case 'contours': return properties.color;
+    case 'pointsOfInterest': return POI_COLORS[properties.type] ?? '#94a3b8';
+    case 'boatRamps': return properties.status ? RAMP_COLORS[properties.status] : '#94a3b8';
+    case 'floodExtent': return '#ff9800';
+    case 'structures': return properties.flooded ? '#ef4444' : '#94a3b8';
+    case 'userLayers': return properties.color;
+  }
+}
+
+function featureName(properties: MapFeatureProperties): string {
+  switch (properties.layer) {
+    case 'contours': return `${properties.elevationFt} ft (${properties.depthFt} ft deep)`;
+    case 'floodExtent': return `Flood extent at ${properties.waterLevelFt} ft`;
+    case 'userLayers': return String(properties.name ?? properties.userLayer);
+    default: return properties.name;
+  }
+}
+
+function styleXml(id: string, color: string, geometry: GeoJSON.Geometry['type']): string {
+  if (geometry === 'Point' || geometry === 'MultiPoint') {
+    return `<Style id="${id}"><IconStyle><color>${kmlColor(color)}</color><Icon><href>${POINT_ICON}</href></Icon></IconStyle></Style>`;
+  }
+  const fill = geometry === 'Polygon' || geometry === 'MultiPolygon'
+    ? `<PolyStyle><color>${kmlColor(color, 0.35)}</color></PolyStyle>`
+    : '';
+  return `<Style id="${id}"><LineStyle><color>${kmlColor(color)}</color><width>2</width></LineStyle>${fill}</Style>`;
+}
+
+function coordinatesXml(positions: GeoJSON.Position[]): string {
+  return `<coordinates>${positions.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates>`;
+}
+
+function ringXml(ring: GeoJSON.Position[]): string {
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  const closed = first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+  return `<LinearRing>${coordinatesXml(closed)}</LinearRing>`;
+}
+
+function geometryXml(geometry: GeoJSON.Geometry): string {
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point>${coordinatesXml([geometry.coordinates])}</Point>`;
+    case 'LineString':
+      return `<LineString><tessellate>1</tessellate>${coordinatesXml(geometry.coordinates)}</LineString>`;
+    case 'Polygon': {
+      const [outer, ...holes] = geometry.coordinates;
+      return `<Polygon><tessellate>1</tessellate><outerBoundaryIs>${ringXml(outer)}</outerBoundaryIs>` +
+        holes.map(hole => `<innerBoundaryIs>${ringXml(hole)}</innerBoundaryIs>`).join('') +
+        '</Polygon>';
+    }
+    case 'MultiPoint':
+      return `<MultiGeometry>${geometry.coordinates.map(coordinates => geometryXml({ type: 'Point', coordinates })).join('')}</MultiGeometry>`;
+    case 'MultiLineString':
+      return `<MultiGeometry>${geometry.coordinates.map(coordinates => geometryXml({ type: 'LineString', coordinates })).join('')}</MultiGeometry>`;
+    case 'MultiPolygon':
+      return `<MultiGeometry>${geometry.coordinates.map(coordinates => geometryXml({ type: 'Polygon', coordinates })).join('')}</MultiGeometry>`;
+    case 'GeometryCollection':
+      return `<MultiGeometry>${geometry.geometries.map(geometryXml).join('')}</MultiGeometry>`;
+  }
+}
+
+function extendedDataXml(properties: MapFeatureProperties): string {
+  const data = Object.entries(properties)
+    .filter(([key, value]) => key !== 'layer' && value !== null)
+    .map(([key, value]) => {
+      const text = Array.isArray(value) ? value.join(', ') : String(value);
+      return `<Data name="${escapeXml(key)}"><value>${escapeXml(text)}</value></Data>`;
+    });
+  return `<ExtendedData>${data.join('')}</ExtendedData>`;
+}
+
+export function formatKml(
+  title: string,
+  features: Record<ExportLayer, MapFeature[]>,
+  layers: ExportLayer[],
+): string {
+  const styles = new Map<string, string>();
+  const folders = layers.map(layer => {
+    const placemarks = features[layer].map(({ geometry, properties }) => {
+      const color = featureColor(properties);
+      const styleId = `${layer}-${color.slice(1).toLowerCase()}-${geometry.type}`;
+      if (!styles.has(styleId)) styles.set(styleId, styleXml(styleId, color, geometry.type));
+      const description = properties.layer === 'pointsOfInterest' || properties.layer === 'boatRamps'
+        ? `<description>${escapeXml(properties.layer === 'pointsOfInterest' ? properties.description : properties.statusMessage ?? properties.location)}</description>`
+        : '';
+      return `<Placemark><name>${escapeXml(featureName(properties))}</name>${description}` +
+        `<styleUrl>#${styleId}</styleUrl>${extendedDataXml(properties)}${geometryXml(geometry)}</Placemark>`;
+    });
+    return `<Folder><name>${escapeXml(EXPORT_LAYERS[layer])}</name>\n${placemarks.join('\n')}\n</Folder>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(title)}</name>`,
+    ...styles.values(),
+    ...folders,
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+}
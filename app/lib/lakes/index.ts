@@ -0,0 +1,15 @@
+import type { LakeRecord } from './types';
+import { SARDIS_LAKE } from './sardis';
+
+export * from './types';
+
+// Lake catalog - add a record here to serve it at /lakes/[slug]
+export const LAKES: LakeRecord[] = [
+  SARDIS_LAKE,
+];
+
+export const DEFAULT_LAKE_SLUG = SARDIS_LAKE.slug;
+
+export function getLake(slug: string): LakeRecord | undefined {
+  return LAKES.find(lake => lake.slug === slug);
+}
@@ -0,0 +1,290 @@
+import type { LakeRecord } from './types';
+
+// Sardis Lake, Oklahoma
+export const SARDIS_LAKE: LakeRecord = {
+  slug: 'sardis',
+  info: {
+    name: "Sardis Lake",
+    state: "Oklahoma",
+    county: "Pushmataha/Latimer",
+    nearestTown: "Clayton, OK",
+    coordinates: { lat: 34.6619, lng: -95.3890 },
+    timezone: "America/Chicago",
+    normalPoolElevation: 599,
+    floodStageElevation: 607,
+    streamBedElevation: 530,
+    topOfDamElevation: 631,
+    surfaceArea: 14360,
+    shorelineLength: 117,
+    maxDepth: 55.2,
+    volume: 274330,
+    drainageArea: 275,
+    yearCreated: 1982,
+    managedBy: "U.S. Army Corps of Engineers",
+    primaryPurpose: "Water Supply",
+    tributaries: ["Jackfork Creek"],
+    basin: "Kiamichi Basin",
+    usgsSiteId: "07335700",
+  },
+
+  facts: [
+    'Created in 1982 by damming Jackfork Creek',
+    'Part of the Kiamichi Basin water system',
+    'Managed by U.S. Army Corps of Engineers',
+    'Primary purpose: Municipal water supply',
+  ],
+
+  // Approximate boundary polygon (GeoJSON format - lng, lat order)
+  boundary: [
+    [-95.3620, 34.6956],
+    [-95.3502, 34.6912],
+    [-95.3415, 34.6845],
+    [-95.3380, 34.6778],
+    [-95.3395, 34.6695],
+    [-95.3448, 34.6612],
+    [-95.3532, 34.6545],
+    [-95.3648, 34.6495],
+    [-95.3785, 34.6462],
+    [-95.3925, 34.6445],
+    [-95.4068, 34.6462],
+    [-95.4185, 34.6512],
+    [-95.4262, 34.6595],
+    [-95.4295, 34.6695],
+    [-95.4278, 34.6795],
+    [-95.4215, 34.6878],
+    [-95.4112, 34.6945],
+    [-95.3985, 34.6978],
+    [-95.3848, 34.6978],
+    [-95.3720, 34.6956],
+    [-95.3620, 34.6956],
+  ],
+
+  landUseZones: [
+    {
+      id: 'conservation',
+      name: 'Conservation Area',
+      acres: 8435,
+      color: '#2d6a4f',
+      polygon: [
+        [-95.4100, 34.6950],
+        [-95.4200, 34.6900],
+        [-95.4250, 34.6800],
+        [-95.4200, 34.6750],
+        [-95.4100, 34.6800],
+        [-95.4050, 34.6900],
+        [-95.4100, 34.6950],
+      ],
+    },
+    {
+      id: 'recreation',
+      name: 'Recreation Zone',
+      acres: 2100,
+      color: '#40916c',
+      polygon: [
+        [-95.3850, 34.6550],
+        [-95.3950, 34.6500],
+        [-95.4000, 34.6450],
+        [-95.3950, 34.6400],
+        [-95.3850, 34.6450],
+        [-95.3800, 34.6500],
+        [-95.3850, 34.6550],
+      ],
+    },
+    { id: 'campground', name: 'Campgrounds', acres: 450, color: '#52b788' },
+    {
+      id: 'wildlife',
+      name: 'Wildlife Habitat',
+      acres: 3500,
+      color: '#74c69d',
+      polygon: [
+        [-95.3500, 34.6850],
+        [-95.3550, 34.6800],
+        [-95.3500, 34.6750],
+        [-95.3450, 34.6700],
+        [-95.3400, 34.6750],
+        [-95.3450, 34.6800],
+        [-95.3500, 34.6850],
+      ],
+    },
+    { id: 'buffer', name: 'Buffer Zone', acres: 1200, color: '#95d5b2' },
+  ],
+
+  economic: {
+    impactModel: {
+      visits: { dayUse: 210000, camping: 60000, boating: 85000, fishing: 70000 },
+      spending: {
+        dayUse: { lodging: 0, food: 12, transportation: 14, recreation: 4, retail: 6 },
+        camping: { lodging: 22, food: 20, transportation: 18, recreation: 6, retail: 10 },
+        boating: { lodging: 6, food: 18, transportation: 30, recreation: 14, retail: 12 },
+        fishing: { lodging: 8, food: 16, transportation: 20, recreation: 8, retail: 14 },
+      },
+      multipliers: {
+        captureRate: 0.75,
+        indirectOutput: 0.28,
+        inducedOutput: 0.33,
+        directJobsPerMillion: 8.2,
+        secondaryJobsPerMillion: 6.5,
+        directLaborIncome: 0.32,
+        secondaryLaborIncome: 0.36,
+      },
+      source: 'Corps visitation estimate with regional spending profiles',
+    },
+    propertyTaxRevenue: 2.4,
+    waterContractValue: 12.8,
+    recreationRevenue: 4.2,
+    averagePropertyValue: 185000,
+    propertyValueGrowth: 4.2,
+    revenueBreakdown: [
+      { label: 'Water Sales', value: 12.8, color: 'bg-cyan-500' },
+      { label: 'Recreation', value: 4.2, color: 'bg-emerald-500' },
+      { label: 'Property Tax', value: 2.4, color: 'bg-yellow-500' },
+      { label: 'Permits & Fees', value: 1.8, color: 'bg-purple-500' },
+    ],
+    projections: [
+      { year: 2025, value: 28.5 },
+      { year: 2026, value: 30.2 },
+      { year: 2027, value: 33.0 },
+      { year: 2028, value: 36.6 },
+      { year: 2030, value: 40.0 },
+    ],
+  },
+
+  waterQuality: {
+    ph: 7.4,
+    dissolvedOxygen: 8.2,
+    turbidity: 12,
+    temperature: 68,
+    conductivity: 245,
+    chlorophyll: 4.8,
+    secchiDepth: 8.5,
+    source: 'Lake catalog snapshot',
+  },
+
+  pointsOfInterest: [
+    { id: 'sardis-dam', name: 'Sardis Dam', position: [-95.3380, 34.6619], type: 'dam', description: 'Main dam structure, built 1982' },
+    { id: 'potato-hills-marina', name: 'Potato Hills Marina', position: [-95.4100, 34.6850], type: 'marina', description: 'Full-service marina with boat rentals' },
+    { id: 'pine-creek-cove', name: 'Pine Creek Cove', position: [-95.3950, 34.6450], type: 'campground', description: 'Camping and day-use area' },
+    { id: 'jackfork-inlet', name: 'Jackfork Creek Inlet', position: [-95.3600, 34.6970], type: 'inlet', description: 'Primary water source inlet' },
+    { id: 'wildlife-area', name: 'Wildlife Area', position: [-95.4200, 34.6750], type: 'wildlife', description: 'Protected wildlife observation zone' },
+  ],
+
+  boatRamps: [
+    {
+      id: 'potato-hills',
+      name: 'Potato Hills North',
+      location: 'North Shore',
+      minElevation: 590,
+      optimalElevation: 595,
+      coordinates: { lat: 34.6850, lng: -95.3750 },
+      amenities: ['Parking', 'Restrooms', 'Fish Cleaning Station', 'Camping'],
+      parkingSpaces: 75,
+      phone: '(918) 567-2523',
+    },
+    {
+      id: 'potato-hills-south',
+      name: 'Potato Hills South',
+      location: 'South Shore',
+      minElevation: 588,
+      optimalElevation: 594,
+      coordinates: { lat: 34.6720, lng: -95.3680 },
+      amenities: ['Parking', 'Restrooms', 'Picnic Area'],
+      parkingSpaces: 50,
+    },
+    {
+      id: 'sardis-cove',
+      name: 'Sardis Cove Marina',
+      location: 'East Shore',
+      minElevation: 585,
+      optimalElevation: 592,
+      coordinates: { lat: 34.6550, lng: -95.3550 },
+      amenities: ['Full Service Marina', 'Fuel Dock', 'Boat Rental', 'Store', 'Restaurant'],
+      parkingSpaces: 120,
+      phone: '(918) 567-2323',
+    },
+    {
+      id: 'billy-creek',
+      name: 'Billy Creek',
+      location: 'West Shore',
+      minElevation: 592,
+      optimalElevation: 597,
+      coordinates: { lat: 34.6480, lng: -95.4100 },
+      amenities: ['Parking', 'Restrooms', 'Primitive Camping'],
+      parkingSpaces: 35,
+    },
+    {
+      id: 'jackfork',
+      name: 'Jackfork Creek',
+      location: 'Northwest Arm',
+      minElevation: 594,
+      optimalElevation: 598,
+      coordinates: { lat: 34.6900, lng: -95.4200 },
+      amenities: ['Parking', 'Hiking Trails'],
+      parkingSpaces: 25,
+    },
+  ],
+
+  recreationAreas: [
+    { name: 'Potato Hills North', type: 'Camping, Boat Ramp', status: 'Open', position: [-95.3750, 34.6850] },
+    { name: 'Potato Hills South', type: 'Day Use, Picnic', status: 'Open', position: [-95.3680, 34.6720] },
+    { name: 'Sardis Cove Marina', type: 'Full Service Marina', status: 'Open', position: [-95.3550, 34.6550] },
+    { name: 'Billy Creek', type: 'Primitive Camping', status: 'Open', position: [-95.4100, 34.6480] },
+  ],
+
+  fishSpecies: [
+    { name: 'Largemouth Bass', season: 'Year-round' },
+    { name: 'Channel Catfish', season: 'Apr-Oct' },
+    { name: 'Blue Catfish', season: 'Year-round' },
+    { name: 'Crappie', season: 'Mar-May' },
+    { name: 'Bluegill', season: 'May-Sep' },
+    { name: 'Striped Bass', season: 'Oct-Mar' },
+  ],
+
+  planning: {
+    regulations: [
+      { title: 'Buffer Zone Requirements', detail: 'Minimum 100ft setback from normal pool elevation (599ft)', color: 'text-yellow-400' },
+      { title: 'Flood Plain Restrictions', detail: 'No permanent structures below 610ft elevation', color: 'text-cyan-400' },
+      { title: 'Conservation Easements', detail: '8,435 acres designated wildlife habitat', color: 'text-emerald-400' },
+    ],
+    developmentPotential: [
+      { label: 'Developable Shoreline', value: 32, unit: 'miles', status: 'Available' },
+      { label: 'Commercial Zones', value: 4, unit: 'sites', status: 'Permitted' },
+      { label: 'Marina Locations', value: 2, unit: 'approved', status: 'Active' },
+      { label: 'Recreation Expansion', value: 850, unit: 'acres', status: 'Planned' },
+    ],
+    environmentalConstraints: [
+      { label: 'Protected wetlands: 1,200 acres', color: 'bg-red-500' },
+      { label: 'Critical habitat zones: 3 designated', color: 'bg-orange-500' },
+      { label: 'Archaeological sites: 12 registered', color: 'bg-yellow-500' },
+      { label: 'Tribal lands buffer: Active agreement', color: 'bg-green-500' },
+    ],
+  },
+
+  reportTemplates: [
+    {
+      id: 'sardis-project-office',
+      name: 'Sardis Lake Project Office',
+      title: 'Sardis Lake Conditions Report',
+      branding: {
+        organization: 'Sardis Lake Project Office',
+        subtitle: 'U.S. Army Corps of Engineers, Tulsa District',
+        accentColor: '#1e40af',
+        footer: 'Sardis Lake Project Office - Clayton, OK',
+      },
+      sections: [
+        { kind: 'waterLevel' },
+        { kind: 'flood' },
+        { kind: 'map' },
+        { kind: 'waterQuality' },
+        { kind: 'overview' },
+        {
+          kind: 'custom',
+          title: 'About This Report',
+          paragraphs: [
+            'Pool elevations are provisional USGS data and subject to revision.',
+            'Flood simulation figures describe a hypothetical water level and are not a forecast. Inundation extents depend on the terrain model loaded at the time the report was generated.',
+          ],
+        },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,150 @@
+import type { ReportTemplate } from '../report/types';
+
+// Types describing one lake in the catalog. Every dataset a tab or map layer
+// renders lives on the lake's record so adding a reservoir is a data change only.
+
+export type LngLat = [number, number]; // GeoJSON order: longitude, latitude
+
+export interface LakeInfo {
+  name: string;
+  state: string;
+  county: string;
+  nearestTown: string;
+  coordinates: { lat: number; lng: number };
+  timezone: string; // IANA zone used for forecasts
+  normalPoolElevation: number; // feet above sea level
+  floodStageElevation: number;
+  streamBedElevation: number;
+  topOfDamElevation: number;
+  surfaceArea: number; // acres
+  shorelineLength: number; // miles
+  maxDepth: number; // feet
+  volume: number; // acre-feet
+  drainageArea: number; // square miles
+  yearCreated: number;
+  managedBy: string;
+  primaryPurpose: string;
+  tributaries: string[];
+  basin: string;
+  usgsSiteId: string; // USGS monitoring site for the lake
+}
+
+// One row of the Corps elevation-area-capacity table
+export interface CapacityCurvePoint {
+  elevation: number; // feet above sea level
+  areaAcres: number; // surface area at this elevation
+  storageAcreFt: number; // total storage below this elevation
+}
+
+export interface LandUseZone {
+  id: string;
+  name: string;
+  acres: number;
+  color: string;
+  polygon?: LngLat[]; // only zones with a mapped boundary are drawn
+}
+
+export type VisitorSegment = 'dayUse' | 'camping' | 'boating' | 'fishing';
+
+export type SpendingCategory = 'lodging' | 'food' | 'transportation' | 'recreation' | 'retail';
+
+// Regional input-output ratios, e.g. from an IMPLAN or RIMS II model of the
+// counties around the lake
+export interface RegionalMultipliers {
+  captureRate: number; // share of visitor spending made inside the region, 0-1
+  indirectOutput: number; // supplier output per dollar of direct output
+  inducedOutput: number; // household-spending output per dollar of direct output
+  directJobsPerMillion: number; // jobs per $1M of direct output
+  secondaryJobsPerMillion: number; // jobs per $1M of indirect and induced output
+  directLaborIncome: number; // labor income per dollar of direct output
+  secondaryLaborIncome: number; // labor income per dollar of indirect and induced output
+}
+
+// Inputs to the visitor spending model behind the Economic tab
+export interface EconomicModelInputs {
+  visits: Record<VisitorSegment, number>; // annual visits
+  spending: Record<VisitorSegment, Record<SpendingCategory, number>>; // dollars per visit
+  multipliers: RegionalMultipliers;
+  source: string; // where the catalog values come from; shown as manual provenance
+}
+
+export interface EconomicData {
+  impactModel: EconomicModelInputs;
+  propertyTaxRevenue: number; // millions
+  waterContractValue: number; // millions per year
+  recreationRevenue: number; // millions
+  averagePropertyValue: number;
+  propertyValueGrowth: number; // percent annually
+  revenueBreakdown: { label: string; value: number; color: string }[]; // millions
+  projections: { year: number; value: number }[]; // millions
+}
+
+export interface WaterQualitySnapshot {
+  ph: number;
+  dissolvedOxygen: number; // mg/L
+  turbidity: number; // NTU
+  temperature: number; // °F
+  conductivity: number; // µS/cm
+  chlorophyll: number; // µg/L
+  secchiDepth: number; // feet
+  source: string; // who entered the snapshot; shown as manual provenance
+  enteredAt?: string; // ISO date the values were recorded
+}
+
+export type PointOfInterestType = 'dam' | 'marina' | 'campground' | 'inlet' | 'wildlife';
+
+export interface PointOfInterest {
+  id: string;
+  name: string;
+  position: LngLat;
+  type: PointOfInterestType;
+  description: string;
+}
+
+export interface BoatRamp {
+  id: string;
+  name: string;
+  location: string;
+  minElevation: number; // Minimum water elevation for ramp access
+  optimalElevation: number; // Optimal water elevation
+  coordinates: { lat: number; lng: number };
+  amenities: string[];
+  parkingSpaces: number;
+  phone?: string;
+}
+
+export interface RecreationArea {
+  name: string;
+  type: string;
+  status: 'Open' | 'Closed';
+  position: LngLat;
+}
+
+export interface FishSpecies {
+  name: string;
+  season: string;
+}
+
+export interface PlanningData {
+  regulations: { title: string; detail: string; color: string }[];
+  developmentPotential: { label: string; value: number; unit: string; status: string }[];
+  environmentalConstraints: { label: string; color: string }[];
+}
+
+export interface LakeRecord {
+  slug: string;
+  info: LakeInfo;
+  facts: string[];
+  boundary: LngLat[]; // approximate shoreline polygon at normal pool
+  capacityCurve?: CapacityCurvePoint[]; // published area-capacity table, when bundled with the catalog
+  dem?: { url: string; verticalUnit: 'm' | 'ft' }; // GeoTIFF terrain served from /public, loaded on demand
+  landUseZones: LandUseZone[];
+  economic: EconomicData;
+  waterQuality: WaterQualitySnapshot;
+  pointsOfInterest: PointOfInterest[];
+  boatRamps: BoatRamp[];
+  recreationAreas: RecreationArea[];
+  fishSpecies: FishSpecies[];
+  planning: PlanningData;
+  reportTemplates?: ReportTemplate[]; // the lake office's branded PDF report layouts
+}
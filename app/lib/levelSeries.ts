@@ -0,0 +1,184 @@
+import { formatCsv } from './csv';
+import { Provenance, responseProvenance } from './provenance';
+import {
+  NwisResponse,
+  NwisValue,
+  PARAM_GAGE_HEIGHT,
+  PARAM_LAKE_ELEVATION,
+  fetchDailyValues,
+  fetchInstantaneousValues,
+  findSeries,
+} from './usgs';
+
+// Lake level records for CSV export at the resolution USGS publishes them:
+// 15-minute instantaneous values where they exist (NWIS keeps them from
+// October 2007) and daily means before that.
+
+export type LevelResolution = 'instantaneous' | 'daily mean' | 'simulated';
+
+export interface LevelRecord {
+  dateTime: string; // as published, with the site's UTC offset
+  elevation: number;
+  gageHeight: number | null;
+  qualifiers: string[]; // NWIS codes, e.g. P (provisional), A (approved), e (estimated)
+  resolution: LevelResolution;
+}
+
+export interface DailyLevel {
+  date: string; // YYYY-MM-DD, site local
+  mean: number;
+  min: number;
+  max: number;
+  gageHeightMean: number | null;
+  count: number;
+  qualifiers: string[];
+  resolution: LevelResolution;
+}
+
+export type LevelAggregation = 'none' | 'daily';
+
+// Earliest instantaneous values NWIS serves
+export const IV_RECORD_START = '2007-10-01';
+
+// Longest span fetched in one instantaneous-values request
+const IV_CHUNK_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Elevation values with the gage height reported at the same time, if any
+function joinSeries(response: NwisResponse, resolution: LevelResolution): LevelRecord[] {
+  const elevation = findSeries(response, PARAM_LAKE_ELEVATION);
+  if (!elevation) return [];
+  const gage = new Map((findSeries(response, PARAM_GAGE_HEIGHT)?.values ?? []).map((v: NwisValue) => [v.dateTime, v.value]));
+  return elevation.values.map(v => ({
+    dateTime: v.dateTime,
+    elevation: v.value,
+    gageHeight: gage.get(v.dateTime) ?? null,
+    qualifiers: v.qualifiers,
+    resolution,
+  }));
+}
+
+// Every record between two dates (inclusive), requested a year at a time so
+// long ranges stay within what the proxy and NWIS handle comfortably
+export async function fetchLevelRecords(
+  siteId: string,
+  startDate: string,
+  endDate: string,
+  onProgress?: (done: number, total: number) => void,
+): Promise<{ records: LevelRecord[]; provenance: Provenance }> {
+  const parameterCodes = [PARAM_LAKE_ELEVATION, PARAM_GAGE_HEIGHT];
+  const requests: (() => Promise<LevelRecord[]>)[] = [];
+  const responses: NwisResponse[] = [];
+
+  if (startDate < IV_RECORD_START) {
+    const dailyEnd = endDate < IV_RECORD_START ? endDate : addDays(IV_RECORD_START, -1);
+    requests.push(async () => {
+      const response = await fetchDailyValues({ siteId, parameterCodes, startDate, endDate: dailyEnd });
+      responses.push(response);
+      return joinSeries(response, 'daily mean');
+    });
+  }
+  for (let start = startDate < IV_RECORD_START ? IV_RECORD_START : startDate; start <= endDate; start = addDays(start, IV_CHUNK_DAYS)) {
+    const chunkStart = start;
+    const chunkEnd = addDays(start, IV_CHUNK_DAYS - 1) < endDate ? addDays(start, IV_CHUNK_DAYS - 1) : endDate;
+    requests.push(async () => {
+      const response = await fetchInstantaneousValues({ siteId, parameterCodes, startDate: chunkStart, endDate: chunkEnd });
+      responses.push(response);
+      return joinSeries(response, 'instantaneous');
+    });
+  }
+
+  let records: LevelRecord[] = [];
+  for (let i = 0; i < requests.length; i++) {
+    onProgress?.(i, requests.length);
+    records = records.concat(await requests[i]());
+  }
+  if (records.length === 0) throw new Error('No lake elevation records for this range');
+
+  // The oldest fetch decides whether the export counts as cached
+  const oldest = responses.reduce((a, b) => (a.fetchedAt < b.fetchedAt ? a : b));
+  return {
+    records,
+    provenance: responseProvenance(`USGS NWIS site ${siteId}`, oldest.fetchedAt, responses.some(r => r.cached)),
+  };
+}
+
+// Daily mean, minimum and maximum; days keep the site's local date
+export function aggregateDaily(records: LevelRecord[]): DailyLevel[] {
+  const days = new Map<string, LevelRecord[]>();
+  records.forEach(record => {
+    const date = record.dateTime.slice(0, 10);
+    const day = days.get(date);
+    if (day) day.push(record);
+    else days.set(date, [record]);
+  });
+
+  return [...days].map(([date, dayRecords]) => {
+    const elevations = dayRecords.map(r => r.elevation);
+    const gageHeights = dayRecords.map(r => r.gageHeight).filter((v): v is number => v !== null);
+    return {
+      date,
+      mean: elevations.reduce((sum, v) => sum + v, 0) / elevations.length,
+      min: Math.min(...elevations),
+      max: Math.max(...elevations),
+      gageHeightMean: gageHeights.length ? gageHeights.reduce((sum, v) => sum + v, 0) / gageHeights.length : null,
+      count: dayRecords.length,
+      qualifiers: [...new Set(dayRecords.flatMap(r => r.qualifiers))],
+      resolution: dayRecords[0].resolution,
+    };
+  });
+}
+
+const round = (value: number | null, digits: number) =>
+  value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Provisional data outranks approved: a day or value is only as final as its
+// least reviewed part
+function provenanceFlag(qualifiers: string[], provenance: Provenance): string {
+  if (provenance.kind === 'simulated') return 'simulated';
+  if (qualifiers.includes('e')) return 'estimated';
+  if (qualifiers.includes('P')) return 'provisional';
+  if (qualifiers.includes('A')) return 'approved';
+  return provenance.kind;
+}
+
+export function levelRecordsToCsv(records: LevelRecord[], normalPoolElevation: number, provenance: Provenance): string {
+  return formatCsv([
+    ['timestamp', 'elevation_ft', 'gage_height_ft', 'provenance', 'qualifiers', 'resolution', 'departure_from_normal_pool_ft'],
+    ...records.map(record => [
+      record.dateTime,
+      record.elevation,
+      record.gageHeight,
+      provenanceFlag(record.qualifiers, provenance),
+      record.qualifiers.join(' '),
+      record.resolution,
+      round(record.elevation - normalPoolElevation, 2),
+    ]),
+  ]);
+}
+
+export function dailyLevelsToCsv(days: DailyLevel[], normalPoolElevation: number, provenance: Provenance): string {
+  return formatCsv([
+    [
+      'date', 'mean_elevation_ft', 'min_elevation_ft', 'max_elevation_ft', 'mean_gage_height_ft',
+      'values', 'provenance', 'qualifiers', 'resolution', 'mean_departure_from_normal_pool_ft',
+    ],
+    ...days.map(day => [
+      day.date,
+      round(day.mean, 3),
+      day.min,
+      day.max,
+      round(day.gageHeightMean, 3),
+      day.count,
+      provenanceFlag(day.qualifiers, provenance),
+      day.qualifiers.join(' '),
+      day.resolution,
+      round(day.mean - normalPoolElevation, 2),
+    ]),
+  ]);
+}
@@ -0,0 +1,61 @@
+import { useSyncExternalStore } from 'react';
+
+// JSON values persisted in local storage under `${prefix}${id}`, shared by every
+// component that reads the same id and kept in sync across tabs
+
+export function createPersistentStore<T>(prefix: string, fallback: T) {
+  const loaded = new Map<string, T>();
+  const listeners = new Set<() => void>();
+
+  function read(id: string): T {
+    try {
+      const stored = window.localStorage.getItem(`${prefix}${id}`);
+      return stored ? JSON.parse(stored) : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  function get(id: string): T {
+    if (typeof window === 'undefined') return fallback;
+    if (!loaded.has(id)) loaded.set(id, read(id));
+    return loaded.get(id) as T;
+  }
+
+  // Passing the fallback removes the stored value
+  function set(id: string, value: T) {
+    loaded.set(id, value);
+    try {
+      if (value === fallback) {
+        window.localStorage.removeItem(`${prefix}${id}`);
+      } else {
+        window.localStorage.setItem(`${prefix}${id}`, JSON.stringify(value));
+      }
+    } catch {
+      // Quota exceeded or storage unavailable; keep the in-memory copy for this session
+    }
+    listeners.forEach(listener => listener());
+  }
+
+  function subscribe(listener: () => void) {
+    listeners.add(listener);
+
+    const onStorage = (e: StorageEvent) => {
+      if (!e.key?.startsWith(prefix)) return;
+      loaded.delete(e.key.slice(prefix.length));
+      listener();
+    };
+    window.addEventListener('storage', onStorage);
+
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener('storage', onStorage);
+    };
+  }
+
+  function useValue(id: string): T {
+    return useSyncExternalStore(subscribe, () => get(id), () => fallback);
+  }
+
+  return { get, set, useValue };
+}
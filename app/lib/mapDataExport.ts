@@ -0,0 +1,46 @@
+import { formatKml } from './kml';
+import { ExportLayer, MapFeature, toFeatureCollection } from './mapFeatures';
+import { buildShapefiles } from './shapefile';
+import { createZip } from './zip';
+
+// Map layers as GIS files: GeoJSON, KML for Google Earth, KMZ (zipped KML)
+// and zipped Shapefiles for desktop GIS
+
+export type MapDataFormat = 'geojson' | 'kml' | 'kmz' | 'shapefile';
+
+export const MAP_DATA_FORMATS: Record<MapDataFormat, string> = {
+  geojson: 'GeoJSON',
+  kml: 'KML',
+  kmz: 'KMZ',
+  shapefile: 'Shapefile (zip)',
+};
+
+export async function renderMapData(
+  format: MapDataFormat,
+  title: string,
+  baseName: string,
+  features: Record<ExportLayer, MapFeature[]>,
+  layers: ExportLayer[],
+): Promise<{ content: Blob; fileName: string }> {
+  switch (format) {
+    case 'geojson':
+      return {
+        content: new Blob([JSON.stringify(toFeatureCollection(features, layers), null, 2)], { type: 'application/geo+json' }),
+        fileName: `${baseName}.geojson`,
+      };
+    case 'kml':
+      return {
+        content: new Blob([formatKml(title, features, layers)], { type: 'application/vnd.google-earth.kml+xml' }),
+        fileName: `${baseName}.kml`,
+      };
+    case 'kmz': {
+      const zip = await createZip([{ name: 'doc.kml', data: formatKml(title, features, layers) }]);
+      return { content: new Blob([zip], { type: 'application/vnd.google-earth.kmz' }), fileName: `${baseName}.kmz` };
+    }
+    case 'shapefile':
+      return {
+        content: await createZip(buildShapefiles(baseName, features, layers)),
+        fileName: `${baseName}-shapefile.zip`,
+      };
+  }
+}
@@ -0,0 +1,346 @@
+import type mapboxgl from 'mapbox-gl';
+import { DistanceUnit, geodesicDistance } from './geodesy';
+import type { LngLat } from './lakes';
+import { captureMapCanvas } from './mapSnapshot';
+import { crc32 } from './zip';
+
+// Print-quality images of the map for briefings. The view is re-rendered on
+// an offscreen map at the requested size and pixel density, then a title,
+// north arrow, scale bar, legend and timestamps are drawn over it.
+
+export type MapExportSize = 'view' | 'slide' | 'letter' | 'square';
+export type MapExportFormat = 'png' | 'jpeg';
+
+// Physical size in inches; null keeps the on-screen shape at 96 CSS px per inch
+export const MAP_EXPORT_SIZES: Record<MapExportSize, { label: string; inches: [number, number] | null }> = {
+  view: { label: 'Current view', inches: null },
+  slide: { label: 'Slide 16:9 (13.33 x 7.5 in)', inches: [13.333, 7.5] },
+  letter: { label: 'Letter landscape (11 x 8.5 in)', inches: [11, 8.5] },
+  square: { label: 'Square (8 x 8 in)', inches: [8, 8] },
+};
+
+export const MAP_EXPORT_DPIS = [96, 150, 300];
+
+export interface MapExportOptions {
+  title: string;
+  size: MapExportSize;
+  dpi: number;
+  format: MapExportFormat;
+}
+
+export interface MapLegendEntry {
+  label: string;
+  symbol: 'fill' | 'line' | 'dashed' | 'point';
+  colors: string[]; // one swatch, or a ramp drawn side by side
+}
+
+export interface MapExportOverlay {
+  subtitle: string;
+  legend: MapLegendEntry[];
+  dataTimestamp: string | null; // when the data shown was observed
+  distanceUnit: DistanceUnit;
+}
+
+const CSS_PX_PER_INCH = 96;
+const MAX_PIXELS = 8192; // per side, within WebGL limits on most GPUs
+const RENDER_TIMEOUT_MS = 30000;
+const FONT = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+const PANEL = 'rgba(15, 23, 42, 0.85)';
+
+function exportCssSize(map: mapboxgl.Map, size: MapExportSize): [number, number] {
+  const { inches } = MAP_EXPORT_SIZES[size];
+  const container = map.getContainer();
+  return inches
+    ? [Math.round(inches[0] * CSS_PX_PER_INCH), Math.round(inches[1] * CSS_PX_PER_INCH)]
+    : [container.clientWidth, container.clientHeight];
+}
+
+// Pixel size of the image an export will produce
+export function exportPixelSize(map: mapboxgl.Map, size: MapExportSize, dpi: number): [number, number] {
+  const [width, height] = exportCssSize(map, size);
+  return [Math.round(width * dpi / CSS_PX_PER_INCH), Math.round(height * dpi / CSS_PX_PER_INCH)];
+}
+
+// Active layers in the order the map draws them
+export function buildMapLegend(layers: {
+  floodLevel: number;
+  normalPoolElevation: number;
+  contourColors: string[] | null;
+  contourRange: string | null;
+  zones: { name: string; color: string }[];
+  floodExtentLevel: number | null;
+  depthRamp: string[] | null;
+  floodedStructures: number | null;
+  viewshedColors: [string, string] | null;
+  userLayers: { name: string; color: string }[];
+}): MapLegendEntry[] {
+  const flooding = layers.floodLevel > layers.normalPoolElevation;
+  const legend: MapLegendEntry[] = [
+    { label: flooding ? `Lake surface @ ${layers.floodLevel.toFixed(1)} ft` : 'Lake surface', symbol: 'fill', colors: [flooding ? '#ffc107' : '#3182ce'] },
+  ];
+  if (layers.contourColors?.length) {
+    legend.push({ label: `Depth contours ${layers.contourRange ?? ''}`.trim(), symbol: 'line', colors: layers.contourColors });
+  }
+  layers.zones.forEach(zone => legend.push({ label: zone.name, symbol: 'fill', colors: [zone.color] }));
+  if (layers.floodExtentLevel !== null) {
+    legend.push({ label: `Flood extent @ ${layers.floodExtentLevel.toFixed(1)} ft`, symbol: 'dashed', colors: ['#ff9800'] });
+  }
+  if (layers.depthRamp) legend.push({ label: 'Flood depth, shallow to deep', symbol: 'fill', colors: layers.depthRamp });
+  if (layers.floodedStructures !== null) {
+    legend.push({ label: `Flooded structures (${layers.floodedStructures})`, symbol: 'point', colors: ['#ef4444'] });
+  }
+  if (layers.viewshedColors) {
+    legend.push({ label: 'Visible', symbol: 'fill', colors: [layers.viewshedColors[0]] });
+    legend.push({ label: 'Hidden', symbol: 'fill', colors: [layers.viewshedColors[1]] });
+  }
+  layers.userLayers.forEach(layer => legend.push({ label: layer.name, symbol: 'fill', colors: [layer.color] }));
+  return legend;
+}
+
+// Round scale bar length: 1, 2 or 5 times a power of ten that fits maxMeters
+function scaleBarLength(maxMeters: number, unit: DistanceUnit): { meters: number; label: string } {
+  const units: Record<DistanceUnit, { small: [string, number]; large: [string, number] }> = {
+    ft: { small: ['ft', 0.3048], large: ['mi', 1609.344] },
+    mi: { small: ['ft', 0.3048], large: ['mi', 1609.344] },
+    m: { small: ['m', 1], large: ['km', 1000] },
+    nmi: { small: ['nmi', 1852], large: ['nmi', 1852] },
+  };
+  const { small, large } = units[unit];
+  const [name, unitMeters] = maxMeters >= large[1] ? large : small;
+  const value = maxMeters / unitMeters;
+  const power = Math.pow(10, Math.floor(Math.log10(value)));
+  const nice = [5, 2, 1].map(m => m * power).find(v => v <= value) ?? power;
+  return { meters: nice * unitMeters, label: `${nice.toLocaleString(undefined, { maximumFractionDigits: 3 })} ${name}` };
+}
+
+// Stand-in for window.devicePixelRatio while the offscreen map renders
+function overridePixelRatio(ratio: number): () => void {
+  const original = Object.getOwnPropertyDescriptor(window, 'devicePixelRatio');
+  Object.defineProperty(window, 'devicePixelRatio', { get: () => ratio, configurable: true });
+  return () => {
+    if (original) Object.defineProperty(window, 'devicePixelRatio', original);
+    else delete (window as { devicePixelRatio?: number }).devicePixelRatio;
+  };
+}
+
+// Offscreen copy of the map at the requested size and density
+async function renderOffscreen(
+  map: mapboxgl.Map,
+  cssSize: [number, number],
+  ratio: number,
+): Promise<{ canvas: HTMLCanvasElement; metersPerPixel: number }> {
+  const { default: mapbox } = await import('mapbox-gl');
+  const container = document.createElement('div');
+  container.style.cssText = `position: fixed; left: -100000px; top: 0; width: ${cssSize[0]}px; height: ${cssSize[1]}px;`;
+  document.body.appendChild(container);
+  const restorePixelRatio = overridePixelRatio(ratio);
+
+  const offscreen = new mapbox.Map({
+    container,
+    style: map.getStyle(),
+    center: map.getCenter(),
+    zoom: map.getZoom(),
+    bearing: map.getBearing(),
+    pitch: map.getPitch(),
+    interactive: false,
+    attributionControl: false,
+    fadeDuration: 0,
+    preserveDrawingBuffer: true,
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for map tiles')), RENDER_TIMEOUT_MS);
+      offscreen.once('idle', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+    // Ground distance across 100 CSS px at the center of the view
+    const y = cssSize[1] / 2;
+    const left = offscreen.unproject([cssSize[0] / 2 - 50, y]);
+    const right = offscreen.unproject([cssSize[0] / 2 + 50, y]);
+    const meters = geodesicDistance([left.lng, left.lat] as LngLat, [right.lng, right.lat] as LngLat);
+    return { canvas: await captureMapCanvas(offscreen), metersPerPixel: meters / 100 };
+  } finally {
+    offscreen.remove();
+    container.remove();
+    restorePixelRatio();
+  }
+}
+
+function drawNorthArrow(context: CanvasRenderingContext2D, x: number, y: number, bearing: number) {
+  context.fillStyle = PANEL;
+  context.beginPath();
+  context.arc(x, y, 22, 0, 2 * Math.PI);
+  context.fill();
+
+  context.save();
+  context.translate(x, y);
+  context.rotate(-bearing * Math.PI / 180);
+  context.fillStyle = '#ffffff';
+  context.beginPath();
+  context.moveTo(0, -15);
+  context.lineTo(7, 6);
+  context.lineTo(0, 2);
+  context.lineTo(-7, 6);
+  context.closePath();
+  context.fill();
+  context.font = `bold 9px ${FONT}`;
+  context.textAlign = 'center';
+  context.fillText('N', 0, 16);
+  context.restore();
+}
+
+function drawScaleBar(context: CanvasRenderingContext2D, x: number, bottom: number, metersPerPixel: number, unit: DistanceUnit, pitched: boolean) {
+  const { meters, label } = scaleBarLength(metersPerPixel * 150, unit);
+  const length = meters / metersPerPixel;
+  const height = pitched ? 48 : 36;
+  const top = bottom - height;
+
+  context.fillStyle = PANEL;
+  context.fillRect(x, top, length + 24, height);
+  context.fillStyle = '#ffffff';
+  context.fillRect(x + 12, top + 24, length, 2);
+  context.fillRect(x + 12, top + 18, 2, 8);
+  context.fillRect(x + 10 + length, top + 18, 2, 8);
+  context.font = `12px ${FONT}`;
+  context.textAlign = 'left';
+  context.fillText(label, x + 12, top + 14);
+  if (pitched) {
+    context.font = `10px ${FONT}`;
+    context.fillStyle = '#cbd5e1';
+    context.fillText('at center of tilted view', x + 12, top + 40);
+  }
+}
+
+function drawLegend(context: CanvasRenderingContext2D, right: number, bottom: number, legend: MapLegendEntry[]) {
+  if (legend.length === 0) return;
+  const rowHeight = 18;
+  context.font = `12px ${FONT}`;
+  const swatchWidth = (entry: MapLegendEntry) => Math.max(16, entry.colors.length * 8);
+  const width = 24 + Math.max(
+    context.measureText('Legend').width,
+    ...legend.map(entry => swatchWidth(entry) + 8 + context.measureText(entry.label).width),
+  );
+  const height = 30 + legend.length * rowHeight;
+  const left = right - width;
+  const top = bottom - height;
+
+  context.fillStyle = PANEL;
+  context.fillRect(left, top, width, height);
+  context.fillStyle = '#94a3b8';
+  context.font = `bold 11px ${FONT}`;
+  context.textAlign = 'left';
+  context.fillText('Legend', left + 12, top + 18);
+
+  context.font = `12px ${FONT}`;
+  legend.forEach((entry, i) => {
+    const y = top + 28 + i * rowHeight;
+    const swatch = swatchWidth(entry);
+    const step = swatch / entry.colors.length;
+    entry.colors.forEach((color, c) => {
+      context.fillStyle = color;
+      context.strokeStyle = color;
+      const x = left + 12 + c * step;
+      if (entry.symbol === 'fill') {
+        context.fillRect(x, y + 2, step, 10);
+      } else if (entry.symbol === 'point') {
+        context.beginPath();
+        context.arc(x + step / 2, y + 7, 5, 0, 2 * Math.PI);
+        context.fill();
+      } else {
+        context.lineWidth = 2;
+        context.setLineDash(entry.symbol === 'dashed' ? [4, 2] : []);
+        context.beginPath();
+        context.moveTo(x, y + 7);
+        context.lineTo(x + step, y + 7);
+        context.stroke();
+        context.setLineDash([]);
+      }
+    });
+    context.fillStyle = '#e2e8f0';
+    context.fillText(entry.label, left + 20 + swatch, y + 11);
+  });
+}
+
+// Records the DPI in the file so slide and print software size it correctly:
+// a pHYs chunk after the PNG header, or the JFIF density fields
+async function withDpi(blob: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (blob.type === 'image/png') {
+    const chunk = new Uint8Array(21);
+    const view = new DataView(chunk.buffer);
+    const pixelsPerMeter = Math.round(dpi / 0.0254);
+    view.setUint32(0, 9);
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4); // pHYs
+    view.setUint32(8, pixelsPerMeter);
+    view.setUint32(12, pixelsPerMeter);
+    chunk[16] = 1; // units: meters
+    view.setUint32(17, crc32(chunk.subarray(4, 17)));
+    const headerEnd = 8 + 25; // signature and IHDR chunk
+    return new Blob([bytes.subarray(0, headerEnd), chunk, bytes.subarray(headerEnd)], { type: blob.type });
+  }
+  const isJfif = bytes[2] === 0xff && bytes[3] === 0xe0 && String.fromCharCode(...bytes.subarray(6, 10)) === 'JFIF';
+  if (isJfif) {
+    const view = new DataView(bytes.buffer);
+    bytes[13] = 1; // units: dots per inch
+    view.setUint16(14, dpi);
+    view.setUint16(16, dpi);
+  }
+  return new Blob([bytes], { type: blob.type });
+}
+
+export async function renderMapExport(
+  map: mapboxgl.Map,
+  options: MapExportOptions,
+  overlay: MapExportOverlay,
+): Promise<Blob> {
+  const cssSize = exportCssSize(map, options.size);
+  const ratio = options.dpi / CSS_PX_PER_INCH;
+  if (Math.max(...cssSize) * ratio > MAX_PIXELS) {
+    throw new Error(`Image would exceed ${MAX_PIXELS} pixels on a side; choose a lower DPI or smaller size`);
+  }
+
+  const { canvas: mapCanvas, metersPerPixel } = await renderOffscreen(map, cssSize, ratio);
+  const canvas = document.createElement('canvas');
+  canvas.width = mapCanvas.width;
+  canvas.height = mapCanvas.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+
+  // Overlays are laid out in CSS pixels and scaled with the map
+  context.scale(canvas.width / cssSize[0], canvas.height / cssSize[1]);
+  const [width, height] = cssSize;
+  context.drawImage(mapCanvas, 0, 0, width, height);
+
+  context.fillStyle = PANEL;
+  context.fillRect(0, 0, width, 64);
+  context.fillStyle = '#ffffff';
+  context.font = `bold 24px ${FONT}`;
+  context.textAlign = 'left';
+  context.fillText(options.title, 20, 32);
+  context.fillStyle = '#cbd5e1';
+  context.font = `13px ${FONT}`;
+  context.fillText(overlay.subtitle, 20, 52);
+
+  drawNorthArrow(context, width - 40, 100, map.getBearing());
+
+  const footerTop = height - 24;
+  context.fillStyle = PANEL;
+  context.fillRect(0, footerTop, width, 24);
+  context.fillStyle = '#cbd5e1';
+  context.font = `11px ${FONT}`;
+  const stamps = [overlay.dataTimestamp, `Exported ${new Date().toLocaleString()}`].filter(Boolean).join('  |  ');
+  context.fillText(stamps, 12, footerTop + 16);
+  context.textAlign = 'right';
+  context.fillText('© Mapbox © OpenStreetMap', width - 12, footerTop + 16);
+
+  drawScaleBar(context, 12, footerTop - 12, metersPerPixel, overlay.distanceUnit, map.getPitch() > 0);
+  drawLegend(context, width - 12, footerTop - 12, overlay.legend);
+
+  const type = options.format === 'png' ? 'image/png' : 'image/jpeg';
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.92));
+  if (!blob) throw new Error('Could not encode the image');
+  return withDpi(blob, options.dpi);
+}
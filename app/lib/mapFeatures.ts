@@ -0,0 +1,232 @@
+import type { DepthContour } from './bathymetry';
+import { RampStatus, getRampStatus } from './boatRamps';
+import { geodesicArea } from './geodesy';
+import type { Inundation } from './inundation';
+import type { LakeRecord, LngLat, PointOfInterestType } from './lakes';
+import type { Structure, StructureExposure } from './structures';
+import type { UserLayer } from './userLayers';
+
+// The map's layers as GeoJSON features with typed properties, for exports.
+// Every feature carries its layer name so mixed collections can be split.
+
+export type ExportLayer =
+  | 'boundary'
+  | 'zones'
+  | 'pointsOfInterest'
+  | 'boatRamps'
+  | 'contours'
+  | 'floodExtent'
+  | 'structures'
+  | 'userLayers';
+
+export const EXPORT_LAYERS: Record<ExportLayer, string> = {
+  boundary: 'Lake boundary',
+  zones: 'Land use zones',
+  pointsOfInterest: 'Points of interest',
+  boatRamps: 'Boat ramps',
+  contours: 'Depth contours',
+  floodExtent: 'Flood extent',
+  structures: 'Structures',
+  userLayers: 'Imported layers',
+};
+
+export interface BoundaryProperties {
+  layer: 'boundary';
+  name: string;
+  normalPoolElevationFt: number;
+  surfaceAreaAcres: number; // catalog value at normal pool
+}
+
+export interface ZoneProperties {
+  layer: 'zones';
+  id: string;
+  name: string;
+  acres: number; // catalog value
+  mappedAcres: number; // geodesic area of the mapped polygon
+  color: string;
+}
+
+export interface PointOfInterestProperties {
+  layer: 'pointsOfInterest';
+  id: string;
+  name: string;
+  type: PointOfInterestType;
+  description: string;
+}
+
+export interface BoatRampProperties {
+  layer: 'boatRamps';
+  id: string;
+  name: string;
+  location: string;
+  minElevationFt: number;
+  optimalElevationFt: number;
+  parkingSpaces: number;
+  amenities: string[];
+  status: RampStatus | null; // null without a current lake level
+  statusMessage: string | null;
+  lakeLevelFt: number | null;
+}
+
+export interface ContourProperties {
+  layer: 'contours';
+  elevationFt: number;
+  depthFt: number;
+  color: string;
+}
+
+export interface FloodExtentProperties {
+  layer: 'floodExtent';
+  waterLevelFt: number;
+  areaAcres: number;
+  maxDepthFt: number;
+}
+
+export interface StructureProperties {
+  layer: 'structures';
+  id: string;
+  name: string;
+  firstFloorElevationFt: number | null;
+  groundElevationFt: number | null;
+  flooded: boolean | null; // null when the flood level has not been assessed
+  depthAboveFloorFt: number | null;
+}
+
+// Imported attributes are kept as they were, beside the layer fields
+export interface UserLayerProperties {
+  layer: 'userLayers';
+  userLayer: string; // name of the imported layer
+  color: string;
+  [attribute: string]: string | number | boolean | null;
+}
+
+export type MapFeatureProperties =
+  | BoundaryProperties
+  | ZoneProperties
+  | PointOfInterestProperties
+  | BoatRampProperties
+  | ContourProperties
+  | FloodExtentProperties
+  | StructureProperties
+  | UserLayerProperties;
+
+export type MapFeature = GeoJSON.Feature<GeoJSON.Geometry, MapFeatureProperties>;
+
+export interface MapFeatureSources {
+  lake: LakeRecord;
+  lakeLevel: number | null; // current elevation, for ramp status
+  depthContours: DepthContour[];
+  inundation: Inundation | null;
+  structures: Structure[];
+  floodedStructures: StructureExposure[] | null;
+  userLayers: UserLayer[];
+}
+
+const SQ_METERS_PER_ACRE = 4046.8564224;
+
+function closedRing(ring: LngLat[]): LngLat[] {
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+function point(position: LngLat): GeoJSON.Point {
+  return { type: 'Point', coordinates: position };
+}
+
+// Features for every layer, whether or not it is switched on in the map
+export function collectMapFeatures(sources: MapFeatureSources): Record<ExportLayer, MapFeature[]> {
+  const { lake, lakeLevel, inundation } = sources;
+  const { info } = lake;
+  const feature = (geometry: GeoJSON.Geometry, properties: MapFeatureProperties): MapFeature => ({
+    type: 'Feature',
+    geometry,
+    properties,
+  });
+  const exposures = sources.floodedStructures && new Map(sources.floodedStructures.map(e => [e.structure.id, e]));
+
+  return {
+    boundary: lake.boundary.length > 2
+      ? [feature({ type: 'Polygon', coordinates: [closedRing(lake.boundary)] }, {
+          layer: 'boundary',
+          name: info.name,
+          normalPoolElevationFt: info.normalPoolElevation,
+          surfaceAreaAcres: info.surfaceArea,
+        })]
+      : [],
+    zones: lake.landUseZones
+      .filter(zone => zone.polygon && zone.polygon.length > 2)
+      .map(zone => feature({ type: 'Polygon', coordinates: [closedRing(zone.polygon!)] }, {
+        layer: 'zones',
+        id: zone.id,
+        name: zone.name,
+        acres: zone.acres,
+        mappedAcres: Math.round(geodesicArea(zone.polygon!) / SQ_METERS_PER_ACRE * 10) / 10,
+        color: zone.color,
+      })),
+    pointsOfInterest: lake.pointsOfInterest.map(poi => feature(point(poi.position), {
+      layer: 'pointsOfInterest',
+      id: poi.id,
+      name: poi.name,
+      type: poi.type,
+      description: poi.description,
+    })),
+    boatRamps: lake.boatRamps.map(ramp => {
+      const status = lakeLevel === null ? null : getRampStatus(ramp, lakeLevel);
+      return feature(point([ramp.coordinates.lng, ramp.coordinates.lat]), {
+        layer: 'boatRamps',
+        id: ramp.id,
+        name: ramp.name,
+        location: ramp.location,
+        minElevationFt: ramp.minElevation,
+        optimalElevationFt: ramp.optimalElevation,
+        parkingSpaces: ramp.parkingSpaces,
+        amenities: ramp.amenities,
+        status: status?.status ?? null,
+        statusMessage: status?.message ?? null,
+        lakeLevelFt: lakeLevel,
+      });
+    }),
+    contours: sources.depthContours.map(contour => feature(contour.geometry, {
+      layer: 'contours',
+      elevationFt: contour.elevation,
+      depthFt: contour.depth,
+      color: contour.color,
+    })),
+    floodExtent: inundation && inundation.extent.coordinates.length > 0
+      ? [feature(inundation.extent, {
+          layer: 'floodExtent',
+          waterLevelFt: inundation.waterLevel,
+          areaAcres: Math.round(inundation.areaAcres * 10) / 10,
+          maxDepthFt: Math.round(inundation.maxDepthFt * 10) / 10,
+        })]
+      : [],
+    structures: sources.structures.map(structure => {
+      const exposure = exposures?.get(structure.id);
+      return feature(point(structure.position), {
+        layer: 'structures',
+        id: structure.id,
+        name: structure.name,
+        firstFloorElevationFt: structure.firstFloorElevation,
+        groundElevationFt: structure.groundElevation,
+        flooded: exposures ? exposure !== undefined : null,
+        depthAboveFloorFt: exposure ? Math.round(exposure.depthAboveFloor * 100) / 100 : null,
+      });
+    }),
+    userLayers: sources.userLayers.flatMap(userLayer => userLayer.features.map(({ geometry, properties }) => feature(geometry, {
+      ...properties,
+      layer: 'userLayers',
+      userLayer: userLayer.name,
+      color: userLayer.color,
+    }))),
+  };
+}
+
+export function toFeatureCollection(
+  features: Record<ExportLayer, MapFeature[]>,
+  layers: ExportLayer[],
+): GeoJSON.FeatureCollection<GeoJSON.Geometry, MapFeatureProperties> {
+  return {
+    type: 'FeatureCollection',
+    features: layers.flatMap(layer => features[layer]),
+  };
+}
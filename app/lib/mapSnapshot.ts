@@ -0,0 +1,31 @@
+import type mapboxgl from 'mapbox-gl';
+
+// Still images of the Mapbox map. The WebGL drawing buffer is cleared after
+// each frame, so the canvas is copied from inside a render event.
+
+export interface MapImage {
+  dataUrl: string;
+  width: number; // pixels
+  height: number;
+}
+
+// Copy of the map canvas as of the next frame
+export function captureMapCanvas(map: mapboxgl.Map): Promise<HTMLCanvasElement> {
+  return new Promise((resolve) => {
+    map.once('render', () => {
+      const source = map.getCanvas();
+      const canvas = document.createElement('canvas');
+      canvas.width = source.width;
+      canvas.height = source.height;
+      canvas.getContext('2d')?.drawImage(source, 0, 0);
+      resolve(canvas);
+    });
+    map.triggerRepaint();
+  });
+}
+
+// JPEG of the current view, for embedding in reports
+export async function captureMapImage(map: mapboxgl.Map, quality = 0.9): Promise<MapImage> {
+  const canvas = await captureMapCanvas(map);
+  return { dataUrl: canvas.toDataURL('image/jpeg', quality), width: canvas.width, height: canvas.height };
+}
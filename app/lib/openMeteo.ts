@@ -0,0 +1,152 @@
+// Open-Meteo forecast helpers shared by the `/api/forecast` route handler and
+// the `useForecast` hook. Every weather panel reads from the same response, so
+// the variable lists below are the union of what they need.
+
+export const OPEN_METEO_FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+
+export const CURRENT_VARIABLES = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'apparent_temperature',
+  'precipitation',
+  'weather_code',
+  'cloud_cover',
+  'pressure_msl',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'wind_gusts_10m',
+  'visibility',
+  'uv_index',
+  'is_day',
+] as const;
+
+export const HOURLY_VARIABLES = [
+  'temperature_2m',
+  'weather_code',
+  'precipitation_probability',
+] as const;
+
+export const DAILY_VARIABLES = [
+  'sunrise',
+  'sunset',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'precipitation_probability_max',
+  'weather_code',
+  'wind_speed_10m_max',
+  'uv_index_max',
+] as const;
+
+export const FORECAST_DAYS = 7;
+
+// Units are fixed so every consumer can assume °F, mph and inches
+export interface ForecastCurrent {
+  time: string;
+  temperature_2m: number;
+  relative_humidity_2m: number;
+  apparent_temperature: number;
+  precipitation: number;
+  weather_code: number;
+  cloud_cover: number;
+  pressure_msl: number; // hPa
+  wind_speed_10m: number;
+  wind_direction_10m: number;
+  wind_gusts_10m: number;
+  visibility: number; // meters
+  uv_index: number;
+  is_day: number;
+}
+
+export interface ForecastHourly {
+  time: string[];
+  temperature_2m: number[];
+  weather_code: number[];
+  precipitation_probability: number[];
+}
+
+export interface ForecastDaily {
+  time: string[];
+  sunrise: string[];
+  sunset: string[];
+  temperature_2m_max: number[];
+  temperature_2m_min: number[];
+  precipitation_probability_max: number[];
+  weather_code: number[];
+  wind_speed_10m_max: number[];
+  uv_index_max: number[];
+}
+
+// Payload returned by `/api/forecast`
+export interface ForecastResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  current: ForecastCurrent;
+  hourly: ForecastHourly;
+  daily: ForecastDaily;
+  fetchedAt: string;
+  cached: boolean;
+}
+
+export interface ForecastQuery {
+  lat: number;
+  lng: number;
+  timezone: string;
+}
+
+const TIMEZONE_PATTERN = /^(auto|[A-Za-z_]+(\/[A-Za-z0-9_+-]+)*)$/;
+
+// Coordinates are rounded to ~100 m so nearby requests share a cache entry
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Validate raw query string values, returning an error message or the parsed query
+export function parseForecastQuery(params: URLSearchParams): ForecastQuery | { error: string } {
+  const lat = parseFloat(params.get('lat') ?? '');
+  const lng = parseFloat(params.get('lng') ?? '');
+  const timezone = params.get('timezone') ?? 'auto';
+
+  if (!Number.isFinite(lat) || lat < -90 || lat > 90) {
+    return { error: 'lat must be a latitude between -90 and 90' };
+  }
+  if (!Number.isFinite(lng) || lng < -180 || lng > 180) {
+    return { error: 'lng must be a longitude between -180 and 180' };
+  }
+  if (!TIMEZONE_PATTERN.test(timezone)) {
+    return { error: 'timezone must be an IANA zone name such as America/Chicago' };
+  }
+
+  return { lat: roundCoordinate(lat), lng: roundCoordinate(lng), timezone };
+}
+
+// Build the upstream Open-Meteo URL for a validated query
+export function buildForecastUrl(query: ForecastQuery): string {
+  const params = new URLSearchParams({
+    latitude: String(query.lat),
+    longitude: String(query.lng),
+    current: CURRENT_VARIABLES.join(','),
+    hourly: HOURLY_VARIABLES.join(','),
+    daily: DAILY_VARIABLES.join(','),
+    temperature_unit: 'fahrenheit',
+    wind_speed_unit: 'mph',
+    precipitation_unit: 'inch',
+    timezone: query.timezone,
+    forecast_days: String(FORECAST_DAYS),
+  });
+  return `${OPEN_METEO_FORECAST_URL}?${params.toString()}`;
+}
+
+// Open-Meteo model runs update hourly, so responses are cached per UTC hour
+export function forecastHourKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 13);
+}
+
+// Location part of the cache key, under which the last good forecast is kept
+export function forecastLocationKey(query: ForecastQuery): string {
+  return `${query.lat},${query.lng},${query.timezone}`;
+}
+
+export function forecastCacheKey(query: ForecastQuery, date: Date = new Date()): string {
+  return `${forecastLocationKey(query)},${forecastHourKey(date)}`;
+}
@@ -0,0 +1,90 @@
+import { BathymetrySurface, sampleSurface } from './bathymetry';
+import { formatCsv } from './csv';
+import { DemGrid, sampleDem } from './dem';
+import { samplePath } from './geodesy';
+import type { LngLat } from './lakes';
+
+// Cross-section profiles sampled along a line drawn on the map. The ground
+// comes from the best source at each station: the surveyed lake bed, then a
+// loaded DEM, then the basemap terrain (which reads the water surface, not
+// the bed, over the lake).
+
+export type ProfileSource = 'bathymetry' | 'dem' | 'terrain';
+
+// Basemap terrain lookup in feet; null where no tile is loaded
+export interface TerrainSampler {
+  elevationAt: (position: LngLat) => number | null;
+}
+
+export interface ProfileStation {
+  distanceFt: number;
+  position: LngLat;
+  bedElevation: number | null;
+  demElevation: number | null;
+  terrainElevation: number | null;
+  ground: number | null;
+  source: ProfileSource | null;
+}
+
+export interface ProfileSources {
+  bathymetry: BathymetrySurface | null;
+  dem: DemGrid | null;
+  terrain: TerrainSampler | null;
+}
+
+const FEET_PER_METER = 3.28084;
+const PROFILE_STATIONS = 200;
+
+export function sampleProfile(line: LngLat[], { bathymetry, dem, terrain }: ProfileSources): ProfileStation[] {
+  if (line.length < 2) return [];
+
+  return samplePath(line, PROFILE_STATIONS).map(({ position, distance }) => {
+    const bedElevation = bathymetry ? sampleSurface(bathymetry, position) : null;
+    const demElevation = dem ? sampleDem(dem, position) : null;
+    const terrainElevation = terrain ? terrain.elevationAt(position) : null;
+    const [ground, source]: [number | null, ProfileSource | null] =
+      bedElevation !== null ? [bedElevation, 'bathymetry']
+        : demElevation !== null ? [demElevation, 'dem']
+          : terrainElevation !== null ? [terrainElevation, 'terrain']
+            : [null, null];
+    return {
+      distanceFt: distance * FEET_PER_METER,
+      position,
+      bedElevation,
+      demElevation,
+      terrainElevation,
+      ground,
+      source,
+    };
+  });
+}
+
+const round = (value: number | null, digits: number) =>
+  value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+// One row per station, with water depth at the current and simulated levels
+export function profileToCsv(stations: ProfileStation[], currentLevel: number | null, floodLevel: number): string {
+  const depth = (level: number | null, ground: number | null) =>
+    level === null || ground === null ? null : round(Math.max(0, level - ground), 2);
+
+  return formatCsv([
+    [
+      'station', 'distance_ft', 'longitude', 'latitude',
+      'bathymetry_ft', 'dem_ft', 'terrain_ft', 'ground_ft', 'ground_source',
+      'depth_at_current_ft', 'depth_at_flood_level_ft',
+    ],
+    ...stations.map((station, index) => [
+      index,
+      round(station.distanceFt, 1),
+      round(station.position[0], 6),
+      round(station.position[1], 6),
+      round(station.bedElevation, 2),
+      round(station.demElevation, 2),
+      round(station.terrainElevation, 2),
+      round(station.ground, 2),
+      station.source,
+      depth(currentLevel, station.ground),
+      depth(floodLevel, station.ground),
+    ]),
+  ]);
+}
@@ -0,0 +1,113 @@
+import type { LngLat } from './lakes';
+
+// Coordinate reference systems that imported rasters may use. Geographic
+// covers WGS84 and NAD83 lat/long, which differ by about a meter here.
+
+export type Crs =
+  | { kind: 'geographic' }
+  | { kind: 'webMercator' }
+  | { kind: 'utm'; zone: number; south: boolean };
+
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const E2 = WGS84_F * (2 - WGS84_F);
+const EP2 = E2 / (1 - E2);
+const UTM_K0 = 0.9996;
+const DEG = Math.PI / 180;
+
+// EPSG codes for lat/long, Web Mercator, WGS84 UTM (326xx/327xx) and NAD83 UTM (269xx)
+export function crsFromEpsg(code: number): Crs | null {
+  if (code === 4326 || code === 4269 || code === 4152) return { kind: 'geographic' };
+  if (code === 3857 || code === 900913) return { kind: 'webMercator' };
+  if (code >= 32601 && code <= 32660) return { kind: 'utm', zone: code - 32600, south: false };
+  if (code >= 32701 && code <= 32760) return { kind: 'utm', zone: code - 32700, south: true };
+  if (code >= 26901 && code <= 26923) return { kind: 'utm', zone: code - 26900, south: false };
+  return null;
+}
+
+export function describeCrs(crs: Crs): string {
+  if (crs.kind === 'geographic') return 'Geographic (lat/long)';
+  if (crs.kind === 'webMercator') return 'Web Mercator';
+  return `UTM zone ${crs.zone}${crs.south ? 'S' : 'N'}`;
+}
+
+// Meridian arc length from the equator to a latitude in radians
+function meridianArc(phi: number): number {
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  return WGS84_A * (
+    (1 - E2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * phi
+    - (3 * E2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * phi)
+    + (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * phi)
+    - (35 * e6 / 3072) * Math.sin(6 * phi)
+  );
+}
+
+// Transverse Mercator series from Snyder, "Map Projections: A Working Manual" (1987)
+function utmForward(zone: number, south: boolean, [lng, lat]: LngLat): [number, number] {
+  const phi = lat * DEG;
+  const lambda0 = ((zone - 1) * 6 - 180 + 3) * DEG;
+  const n = WGS84_A / Math.sqrt(1 - E2 * Math.sin(phi) ** 2);
+  const t = Math.tan(phi) ** 2;
+  const c = EP2 * Math.cos(phi) ** 2;
+  const a = Math.cos(phi) * (lng * DEG - lambda0);
+
+  const x = UTM_K0 * n * (a + (1 - t + c) * a ** 3 / 6 + (5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5 / 120) + 500000;
+  const y = UTM_K0 * (meridianArc(phi) + n * Math.tan(phi) * (
+    a * a / 2
+    + (5 - t + 9 * c + 4 * c * c) * a ** 4 / 24
+    + (61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6 / 720
+  ));
+  return [x, south ? y + 10000000 : y];
+}
+
+function utmInverse(zone: number, south: boolean, [x, y]: [number, number]): LngLat {
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const m = (south ? y - 10000000 : y) / UTM_K0;
+  const mu = m / (WGS84_A * (1 - E2 / 4 - 3 * e4 / 64 - 5 * e6 / 256));
+  const phi1 = mu
+    + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu)
+    + (21 * e1 * e1 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu)
+    + (151 * e1 ** 3 / 96) * Math.sin(6 * mu)
+    + (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+
+  const sin1 = Math.sin(phi1);
+  const n1 = WGS84_A / Math.sqrt(1 - E2 * sin1 * sin1);
+  const t1 = Math.tan(phi1) ** 2;
+  const c1 = EP2 * Math.cos(phi1) ** 2;
+  const r1 = WGS84_A * (1 - E2) / (1 - E2 * sin1 * sin1) ** 1.5;
+  const d = (x - 500000) / (n1 * UTM_K0);
+
+  const phi = phi1 - (n1 * Math.tan(phi1) / r1) * (
+    d * d / 2
+    - (5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4 / 24
+    + (61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6 / 720
+  );
+  const lambda = (
+    d
+    - (1 + 2 * t1 + c1) * d ** 3 / 6
+    + (5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5 / 120
+  ) / Math.cos(phi1);
+
+  return [((zone - 1) * 6 - 180 + 3) + lambda / DEG, phi / DEG];
+}
+
+export function projectLngLat(crs: Crs, position: LngLat): [number, number] {
+  const [lng, lat] = position;
+  if (crs.kind === 'geographic') return [lng, lat];
+  if (crs.kind === 'webMercator') {
+    return [WGS84_A * lng * DEG, WGS84_A * Math.log(Math.tan(Math.PI / 4 + lat * DEG / 2))];
+  }
+  return utmForward(crs.zone, crs.south, position);
+}
+
+export function unprojectToLngLat(crs: Crs, point: [number, number]): LngLat {
+  const [x, y] = point;
+  if (crs.kind === 'geographic') return [x, y];
+  if (crs.kind === 'webMercator') {
+    return [x / WGS84_A / DEG, (2 * Math.atan(Math.exp(y / WGS84_A)) - Math.PI / 2) / DEG];
+  }
+  return utmInverse(crs.zone, crs.south, point);
+}
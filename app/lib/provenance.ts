@@ -0,0 +1,64 @@
+// Where a displayed number came from. Every data-bearing component carries one
+// of these so users can tell measured values from stand-ins.
+
+export type Provenance =
+  | { kind: 'live'; source: string; fetchedAt: string }
+  | { kind: 'cached'; source: string; fetchedAt: string } // age is derived from fetchedAt
+  | { kind: 'simulated'; reason: string }
+  | { kind: 'manual'; source: string; enteredAt?: string };
+
+export type ProvenanceKind = Provenance['kind'];
+
+// Build a live/cached provenance from an API response's cache metadata
+export function responseProvenance(source: string, fetchedAt: string, cached: boolean): Provenance {
+  return cached
+    ? { kind: 'cached', source, fetchedAt }
+    : { kind: 'live', source, fetchedAt };
+}
+
+export function simulatedProvenance(reason: string): Provenance {
+  return { kind: 'simulated', reason };
+}
+
+// "just now", "12 min", "3 h", "2 d"
+export function formatAge(fromIso: string, now: number = Date.now()): string {
+  const seconds = Math.max(0, Math.round((now - new Date(fromIso).getTime()) / 1000));
+  if (seconds < 60) return 'just now';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h`;
+  return `${Math.round(hours / 24)} d`;
+}
+
+// Short label used by badges and exports
+export function describeProvenance(provenance: Provenance, now: number = Date.now()): string {
+  switch (provenance.kind) {
+    case 'live':
+      return 'Live';
+    case 'cached': {
+      const age = formatAge(provenance.fetchedAt, now);
+      return age === 'just now' ? 'Cached' : `Cached ${age} ago`;
+    }
+    case 'simulated':
+      return 'Simulated';
+    case 'manual':
+      return 'Manual entry';
+  }
+}
+
+// Longer explanation for tooltips
+export function explainProvenance(provenance: Provenance): string {
+  switch (provenance.kind) {
+    case 'live':
+      return `Fetched from ${provenance.source} at ${new Date(provenance.fetchedAt).toLocaleString()}`;
+    case 'cached':
+      return `Cached copy of ${provenance.source} fetched at ${new Date(provenance.fetchedAt).toLocaleString()}`;
+    case 'simulated':
+      return `Simulated values - not measured. ${provenance.reason}`;
+    case 'manual':
+      return provenance.enteredAt
+        ? `Manually entered (${provenance.source}) on ${new Date(provenance.enteredAt).toLocaleDateString()}`
+        : `Manually entered (${provenance.source})`;
+  }
+}
@@ -0,0 +1,215 @@
+import { storageAt } from '../capacityCurve';
+import type { CapacityCurve } from '../capacityCurveStore';
+import type { EconomicImpact } from '../economicModel';
+import type { Inundation } from '../inundation';
+import type { LakeRecord } from '../lakes';
+import type { MapImage } from '../mapSnapshot';
+import { describeProvenance, explainProvenance } from '../provenance';
+import type { StructureAssessment } from '../structures';
+import { assessWaterQuality } from '../trophicState';
+import type { LakeLevel } from '../useLakeLevel';
+import {
+  WATER_QUALITY_PARAMETERS,
+  WaterQualityParameter,
+  WaterQualitySample,
+  WaterQualitySeries,
+  formatReading,
+  formatSampleDate,
+  latestSeriesByParameter,
+  listStations,
+} from '../waterQuality';
+import type { ReportData, ReportMetric } from './types';
+
+// Collects what the dashboard currently shows into the shape the report renders
+
+export interface ReportInputs {
+  lake: LakeRecord;
+  lakeLevel: LakeLevel | null;
+  capacityCurve: CapacityCurve | null;
+  liveStats: { surfaceArea: number; volume: number; sub: string };
+  waterQualitySamples: WaterQualitySample[];
+  floodLevel: number;
+  floodImpact: {
+    baseline: number;
+    rise: number;
+    additionalAcres: number | null;
+    additionalStorage: number | null;
+    evacuationZone: number;
+  };
+  inundation: Inundation | null;
+  structureAssessment: StructureAssessment | null;
+  economicImpact: EconomicImpact;
+  mapImage: MapImage | null;
+  generatedAt?: Date;
+}
+
+const MAX_REPORTED_STRUCTURES = 15;
+
+function millions(dollars: number): string {
+  return (dollars / 1e6).toFixed(1);
+}
+
+function signed(value: number, digits: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+export function buildReportData(inputs: ReportInputs): ReportData {
+  const { lake, lakeLevel, capacityCurve, liveStats, floodImpact, inundation, structureAssessment, economicImpact } = inputs;
+  const { info, economic, waterQuality: snapshot } = lake;
+
+  const overview: ReportMetric[] = [
+    { label: 'Surface area', value: `${liveStats.surfaceArea.toLocaleString()} acres`, note: liveStats.sub },
+    { label: 'Volume', value: `${liveStats.volume.toLocaleString()} acre-feet`, note: liveStats.sub },
+    { label: 'Shoreline', value: `${info.shorelineLength} miles` },
+    { label: 'Maximum depth', value: `${info.maxDepth} ft` },
+    { label: 'Drainage area', value: `${info.drainageArea.toLocaleString()} sq mi` },
+    { label: 'Normal pool', value: `${info.normalPoolElevation} ft` },
+    { label: 'Flood stage', value: `${info.floodStageElevation} ft` },
+    { label: 'Top of dam', value: `${info.topOfDamElevation} ft` },
+    { label: 'Managed by', value: info.managedBy },
+    { label: 'Primary purpose', value: info.primaryPurpose },
+  ];
+
+  let waterLevel: ReportData['waterLevel'] = null;
+  if (lakeLevel) {
+    const metrics: ReportMetric[] = [
+      { label: 'Elevation', value: `${lakeLevel.elevation.toFixed(2)} ft`, note: describeProvenance(lakeLevel.provenance) },
+      { label: 'Observed', value: new Date(lakeLevel.observedAt).toLocaleString() },
+      { label: '24-hour change', value: lakeLevel.change24h === null ? 'n/a' : `${signed(lakeLevel.change24h, 2)} ft` },
+      { label: 'Relative to normal pool', value: `${signed(lakeLevel.elevation - info.normalPoolElevation, 2)} ft` },
+    ];
+    if (capacityCurve) {
+      const normalStorage = storageAt(capacityCurve.points, info.normalPoolElevation);
+      const storage = storageAt(capacityCurve.points, lakeLevel.elevation);
+      metrics.push({
+        label: 'Storage',
+        value: `${Math.round(storage).toLocaleString()} acre-feet`,
+        note: normalStorage > 0 ? `${Math.round(storage / normalStorage * 100)}% of normal pool` : undefined,
+      });
+    }
+    waterLevel = {
+      elevation: lakeLevel.elevation,
+      observedAt: lakeLevel.observedAt,
+      change24h: lakeLevel.change24h,
+      source: explainProvenance(lakeLevel.provenance),
+      metrics,
+    };
+  }
+
+  // Latest imported reading per parameter, falling back to the catalog snapshot
+  const latest = latestSeriesByParameter(inputs.waterQualitySamples);
+  const readings = (Object.keys(WATER_QUALITY_PARAMETERS) as WaterQualityParameter[]).flatMap((parameter) => {
+    const series = latest[parameter];
+    if (series) {
+      const sample = series.samples[series.samples.length - 1];
+      return [{ parameter, value: sample.value, sampled: formatSampleDate(sample.sampledAt), source: `WQX import, ${series.stationName}` }];
+    }
+    if (parameter === 'totalPhosphorus') return [];
+    return [{
+      parameter,
+      value: snapshot[parameter],
+      sampled: snapshot.enteredAt ? formatSampleDate(snapshot.enteredAt) : 'n/a',
+      source: snapshot.source,
+    }];
+  });
+
+  // Trophic state and composite index from one station's readings, as the
+  // dashboard shows them; with several stations each is assessed on its own
+  const describeAssessment = (series: Partial<Record<WaterQualityParameter, WaterQualitySeries>>) => {
+    const valueOf = (parameter: WaterQualityParameter) => {
+      const samples = series[parameter]?.samples;
+      if (samples) return samples[samples.length - 1].value;
+      return parameter === 'totalPhosphorus' ? undefined : snapshot[parameter];
+    };
+    const assessment = assessWaterQuality({
+      secchiDepthFt: valueOf('secchiDepth'),
+      chlorophyll: valueOf('chlorophyll'),
+      totalPhosphorus: valueOf('totalPhosphorus'),
+      dissolvedOxygen: valueOf('dissolvedOxygen'),
+      ph: valueOf('ph'),
+      turbidity: valueOf('turbidity'),
+    });
+    return [
+      assessment.rating && `Overall rating ${assessment.rating} (composite score ${Math.round(assessment.compositeScore ?? 0)}/100).`,
+      assessment.trophicClass && `${assessment.trophicClass}, mean Carlson TSI ${assessment.meanTsi?.toFixed(0)}.`,
+    ].filter(Boolean).join(' ');
+  };
+  const stations = listStations(inputs.waterQualitySamples);
+  const summary = stations.length > 1
+    ? stations
+        .map(station => {
+          const text = describeAssessment(latestSeriesByParameter(inputs.waterQualitySamples, station.id));
+          return text && `${station.name}: ${text}`;
+        })
+        .filter(Boolean)
+        .join(' ')
+    : describeAssessment(latest);
+
+  const floodMetrics: ReportMetric[] = [
+    { label: 'Simulated water level', value: `${inputs.floodLevel.toFixed(1)} ft` },
+    { label: 'Rise', value: `${signed(floodImpact.rise, 2)} ft`, note: `from ${floodImpact.baseline.toFixed(2)} ft` },
+    {
+      label: 'Additional surface area',
+      value: floodImpact.additionalAcres === null ? 'n/a' : `${floodImpact.additionalAcres.toLocaleString()} acres`,
+      note: floodImpact.additionalStorage === null ? undefined : `+${floodImpact.additionalStorage.toLocaleString()} acre-feet stored`,
+    },
+    {
+      label: 'Inundated area (DEM)',
+      value: inundation ? `${Math.round(inundation.areaAcres).toLocaleString()} acres` : 'no DEM loaded',
+      note: inundation ? `maximum depth ${inundation.maxDepthFt.toFixed(1)} ft` : undefined,
+    },
+    {
+      label: 'Structures flooded',
+      value: structureAssessment ? String(structureAssessment.inundated.length) : 'no inventory',
+      note: structureAssessment ? `of ${structureAssessment.assessed} assessed` : undefined,
+    },
+    { label: 'Evacuation zone', value: `${floodImpact.evacuationZone} sq mi` },
+  ];
+
+  return {
+    lakeName: info.name,
+    location: `${info.nearestTown}, ${info.county} County, ${info.state}`,
+    generatedAt: inputs.generatedAt ?? new Date(),
+    overview,
+    waterLevel,
+    waterQuality: {
+      rows: readings.map(r => ({
+        parameter: WATER_QUALITY_PARAMETERS[r.parameter].label,
+        value: formatReading(r.parameter, r.value),
+        sampled: r.sampled,
+        source: r.source,
+      })),
+      summary: summary || null,
+    },
+    flood: {
+      waterLevel: inputs.floodLevel,
+      metrics: floodMetrics,
+      structures: (structureAssessment?.inundated ?? []).slice(0, MAX_REPORTED_STRUCTURES).map(exposure => ({
+        name: exposure.structure.name,
+        depthAboveFloor: exposure.depthAboveFloor,
+      })),
+    },
+    economic: {
+      metrics: [
+        {
+          label: 'Annual economic impact',
+          value: `$${millions(economicImpact.total.output)}M`,
+          note: `$${millions(economicImpact.effects.direct.output)}M direct`,
+        },
+        {
+          label: 'Jobs supported',
+          value: Math.round(economicImpact.total.jobs).toLocaleString(),
+          note: `${Math.round(economicImpact.effects.direct.jobs).toLocaleString()} direct`,
+        },
+        { label: 'Labor income', value: `$${millions(economicImpact.total.laborIncome)}M` },
+        { label: 'Water contract value', value: `$${economic.waterContractValue}M per year` },
+        { label: 'Annual visitors', value: economicImpact.visits.toLocaleString() },
+        { label: 'Average lakefront property', value: `$${economic.averagePropertyValue.toLocaleString()}` },
+        { label: 'Property value growth', value: `+${economic.propertyValueGrowth}% per year` },
+      ],
+      revenueBreakdown: economic.revenueBreakdown.map(item => ({ label: item.label, value: `$${item.value}M` })),
+      projections: economic.projections.map(p => ({ label: String(p.year), value: `$${p.value}M` })),
+    },
+    mapImage: inputs.mapImage,
+  };
+}
@@ -0,0 +1,313 @@
+import { jsPDF } from 'jspdf';
+import type { ReportData, ReportMetric, ReportSection, ReportSectionKind, ReportTemplate } from './types';
+
+// Letter-size PDF rendering of a lake report. Loaded on demand so jsPDF stays
+// out of the main bundle.
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BODY_TOP = MARGIN + 30; // below the running header
+const BODY_BOTTOM = PAGE_HEIGHT - MARGIN - 20; // above the footer
+const MUTED = '#64748b';
+const TEXT = '#1e293b';
+
+const SECTION_TITLES: Record<ReportSectionKind, string> = {
+  overview: 'Lake Overview',
+  waterLevel: 'Current Water Level',
+  waterQuality: 'Water Quality',
+  flood: 'Flood Simulation',
+  economic: 'Economic Impact',
+  map: 'Map',
+};
+
+function sectionTitle(section: ReportSection): string {
+  return section.kind === 'custom' ? section.title : SECTION_TITLES[section.kind];
+}
+
+// The standard PDF fonts only cover Latin-1
+function pdfText(text: string): string {
+  return text
+    .replace(/₂/g, '2')
+    .replace(/[–—]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\n\x20-\xff]/g, '');
+}
+
+async function loadLogo(url: string): Promise<{ dataUrl: string; format: 'PNG' | 'JPEG' } | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const format = blob.type === 'image/png' ? 'PNG' : blob.type === 'image/jpeg' ? 'JPEG' : null;
+    if (!format) return null;
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    return { dataUrl, format };
+  } catch {
+    return null;
+  }
+}
+
+export async function renderReportPdf(template: ReportTemplate, data: ReportData): Promise<Blob> {
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const { branding } = template;
+  const accent = branding.accentColor;
+  const logo = branding.logoUrl ? await loadLogo(branding.logoUrl) : null;
+  let y = BODY_TOP;
+
+  const newPage = () => {
+    doc.addPage();
+    y = BODY_TOP;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > BODY_BOTTOM) newPage();
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(60);
+    if (y > BODY_TOP) y += 14;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(15);
+    doc.setTextColor(accent);
+    doc.text(pdfText(text), MARGIN, y + 12);
+    doc.setDrawColor(accent);
+    doc.setLineWidth(1);
+    doc.line(MARGIN, y + 18, PAGE_WIDTH - MARGIN, y + 18);
+    y += 32;
+  };
+
+  const subheading = (text: string) => {
+    ensureSpace(40);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(TEXT);
+    doc.text(pdfText(text), MARGIN, y + 10);
+    y += 18;
+  };
+
+  const paragraph = (text: string, color = TEXT) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(color);
+    const lines: string[] = doc.splitTextToSize(pdfText(text), CONTENT_WIDTH);
+    lines.forEach(line => {
+      ensureSpace(14);
+      doc.text(line, MARGIN, y + 10);
+      y += 14;
+    });
+    y += 4;
+  };
+
+  // Label/value rows with an optional muted note under the value
+  const metrics = (rows: ReportMetric[]) => {
+    rows.forEach(({ label, value, note }) => {
+      ensureSpace(note ? 30 : 18);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(10);
+      doc.setTextColor(MUTED);
+      doc.text(pdfText(label), MARGIN, y + 10);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(TEXT);
+      doc.text(pdfText(value), MARGIN + 220, y + 10);
+      y += 16;
+      if (note) {
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8);
+        doc.setTextColor(MUTED);
+        doc.text(pdfText(note), MARGIN + 220, y + 6);
+        y += 12;
+      }
+      doc.setDrawColor('#e2e8f0');
+      doc.setLineWidth(0.5);
+      doc.line(MARGIN, y + 1, PAGE_WIDTH - MARGIN, y + 1);
+      y += 3;
+    });
+    y += 6;
+  };
+
+  const table = (headers: string[], rows: string[][], widths: number[]) => {
+    const drawHeader = () => {
+      doc.setFillColor('#f1f5f9');
+      doc.rect(MARGIN, y, CONTENT_WIDTH, 18, 'F');
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(9);
+      doc.setTextColor(TEXT);
+      let x = MARGIN + 4;
+      headers.forEach((header, i) => {
+        doc.text(pdfText(header), x, y + 12);
+        x += widths[i] * CONTENT_WIDTH;
+      });
+      y += 20;
+    };
+    ensureSpace(40);
+    drawHeader();
+    doc.setFont('helvetica', 'normal');
+    rows.forEach(row => {
+      if (y + 16 > BODY_BOTTOM) {
+        newPage();
+        drawHeader();
+        doc.setFont('helvetica', 'normal');
+      }
+      doc.setFontSize(9);
+      doc.setTextColor(TEXT);
+      let x = MARGIN + 4;
+      row.forEach((cell, i) => {
+        const width = widths[i] * CONTENT_WIDTH - 8;
+        const [text] = doc.splitTextToSize(pdfText(cell), width) as string[];
+        doc.text(text ?? '', x, y + 10);
+        x += widths[i] * CONTENT_WIDTH;
+      });
+      doc.setDrawColor('#e2e8f0');
+      doc.setLineWidth(0.5);
+      doc.line(MARGIN, y + 14, PAGE_WIDTH - MARGIN, y + 14);
+      y += 16;
+    });
+    y += 8;
+  };
+
+  const renderSection = (section: ReportSection) => {
+    heading(sectionTitle(section));
+    switch (section.kind) {
+      case 'overview':
+        metrics(data.overview);
+        break;
+
+      case 'waterLevel':
+        if (!data.waterLevel) {
+          paragraph('No current lake level was available when this report was generated.', MUTED);
+          break;
+        }
+        metrics(data.waterLevel.metrics);
+        paragraph(`Source: ${data.waterLevel.source}`, MUTED);
+        break;
+
+      case 'waterQuality':
+        if (data.waterQuality.rows.length === 0) {
+          paragraph('No water quality measurements are on record.', MUTED);
+          break;
+        }
+        if (data.waterQuality.summary) paragraph(data.waterQuality.summary);
+        table(
+          ['Parameter', 'Value', 'Sampled', 'Source'],
+          data.waterQuality.rows.map(row => [row.parameter, row.value, row.sampled, row.source]),
+          [0.3, 0.18, 0.2, 0.32],
+        );
+        break;
+
+      case 'flood':
+        metrics(data.flood.metrics);
+        if (data.flood.structures.length > 0) {
+          subheading('Structures flooded above the first floor');
+          table(
+            ['Structure', 'Water over first floor'],
+            data.flood.structures.map(s => [s.name, `${s.depthAboveFloor.toFixed(1)} ft`]),
+            [0.7, 0.3],
+          );
+        }
+        break;
+
+      case 'economic':
+        metrics(data.economic.metrics);
+        if (data.economic.revenueBreakdown.length) {
+          subheading('Revenue breakdown');
+          metrics(data.economic.revenueBreakdown);
+        }
+        if (data.economic.projections.length) {
+          subheading('Projected economic impact');
+          metrics(data.economic.projections);
+        }
+        break;
+
+      case 'map': {
+        if (!data.mapImage) {
+          paragraph('The map view could not be captured.', MUTED);
+          break;
+        }
+        const { dataUrl, width, height } = data.mapImage;
+        const scale = Math.min(CONTENT_WIDTH / width, (BODY_BOTTOM - BODY_TOP - 40) / height);
+        const imageWidth = width * scale;
+        const imageHeight = height * scale;
+        ensureSpace(imageHeight + 24);
+        doc.addImage(dataUrl, 'JPEG', MARGIN + (CONTENT_WIDTH - imageWidth) / 2, y, imageWidth, imageHeight);
+        y += imageHeight + 6;
+        paragraph(`Map view at ${data.generatedAt.toLocaleString()}`, MUTED);
+        break;
+      }
+
+      case 'custom':
+        section.paragraphs.forEach(text => paragraph(text));
+        break;
+    }
+  };
+
+  // Cover page
+  doc.setFillColor(accent);
+  doc.rect(0, 0, PAGE_WIDTH, 150, 'F');
+  if (logo) {
+    // Fit within 160 x 70 pt at the right of the band
+    const { width, height } = doc.getImageProperties(logo.dataUrl);
+    const scale = Math.min(160 / width, 70 / height);
+    doc.addImage(logo.dataUrl, logo.format, PAGE_WIDTH - MARGIN - width * scale, 40, width * scale, height * scale);
+  }
+  doc.setTextColor('#ffffff');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(pdfText(branding.organization), MARGIN, 70);
+  if (branding.subtitle) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.text(pdfText(branding.subtitle), MARGIN, 92);
+  }
+
+  doc.setTextColor(TEXT);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  doc.text(pdfText(template.title), MARGIN, 250);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(16);
+  doc.text(pdfText(data.lakeName), MARGIN, 282);
+  doc.setFontSize(11);
+  doc.setTextColor(MUTED);
+  doc.text(pdfText(data.location), MARGIN, 302);
+  doc.text(`Generated ${data.generatedAt.toLocaleString()}`, MARGIN, 320);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(TEXT);
+  doc.text('Contents', MARGIN, 390);
+  doc.setFont('helvetica', 'normal');
+  template.sections.forEach((section, i) => {
+    doc.text(pdfText(`${i + 1}. ${sectionTitle(section)}`), MARGIN + 10, 410 + i * 18);
+  });
+
+  newPage();
+  template.sections.forEach(renderSection);
+
+  // Running header and footer on every page after the cover
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(MUTED);
+    if (page > 1) {
+      doc.text(pdfText(branding.organization), MARGIN, MARGIN);
+      doc.text(pdfText(data.lakeName), PAGE_WIDTH - MARGIN, MARGIN, { align: 'right' });
+      doc.setDrawColor(accent);
+      doc.setLineWidth(0.5);
+      doc.line(MARGIN, MARGIN + 6, PAGE_WIDTH - MARGIN, MARGIN + 6);
+    }
+    doc.text(pdfText(branding.footer ?? `Generated by LakeScope ${data.generatedAt.toLocaleDateString()}`), MARGIN, PAGE_HEIGHT - MARGIN + 10);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN + 10, { align: 'right' });
+  }
+
+  return doc.output('blob');
+}
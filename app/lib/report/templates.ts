@@ -0,0 +1,26 @@
+import type { LakeRecord } from '../lakes';
+import type { ReportTemplate } from './types';
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  id: 'lakescope',
+  name: 'LakeScope standard',
+  title: 'Lake Conditions Report',
+  branding: {
+    organization: 'LakeScope',
+    subtitle: 'Environmental Analysis Platform',
+    accentColor: '#059669',
+  },
+  sections: [
+    { kind: 'overview' },
+    { kind: 'waterLevel' },
+    { kind: 'waterQuality' },
+    { kind: 'flood' },
+    { kind: 'economic' },
+    { kind: 'map' },
+  ],
+};
+
+// The lake office's own templates first, then the standard one
+export function reportTemplatesFor(lake: LakeRecord): ReportTemplate[] {
+  return [...(lake.reportTemplates ?? []), DEFAULT_REPORT_TEMPLATE];
+}
@@ -0,0 +1,70 @@
+// Lake report templates and the app state a report is generated from. Each
+// lake office can ship templates in the catalog with its own branding and
+// section order, including free-text sections of its own.
+
+export type ReportSectionKind = 'overview' | 'waterLevel' | 'waterQuality' | 'flood' | 'economic' | 'map';
+
+export interface CustomReportSection {
+  kind: 'custom';
+  title: string;
+  paragraphs: string[];
+}
+
+export type ReportSection = { kind: ReportSectionKind } | CustomReportSection;
+
+export interface ReportBranding {
+  organization: string; // shown on the title page and page headers
+  subtitle?: string;
+  accentColor: string; // hex, used for headings and rules
+  logoUrl?: string; // PNG or JPEG served from /public
+  footer?: string;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  title: string; // report title on the cover page
+  branding: ReportBranding;
+  sections: ReportSection[];
+}
+
+export interface ReportMetric {
+  label: string;
+  value: string;
+  note?: string;
+}
+
+export interface ReportStructure {
+  name: string;
+  depthAboveFloor: number;
+}
+
+// Everything the report shows, captured from the app when it is generated
+export interface ReportData {
+  lakeName: string;
+  location: string;
+  generatedAt: Date;
+  overview: ReportMetric[];
+  waterLevel: {
+    elevation: number;
+    observedAt: string;
+    change24h: number | null;
+    source: string;
+    metrics: ReportMetric[];
+  } | null;
+  waterQuality: {
+    rows: { parameter: string; value: string; sampled: string; source: string }[];
+    summary: string | null;
+  };
+  flood: {
+    waterLevel: number;
+    metrics: ReportMetric[];
+    structures: ReportStructure[]; // deepest first
+  };
+  economic: {
+    metrics: ReportMetric[];
+    revenueBreakdown: ReportMetric[];
+    projections: ReportMetric[];
+  };
+  mapImage: { dataUrl: string; width: number; height: number } | null;
+}
@@ -0,0 +1,66 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { DistanceUnit } from './geodesy';
+
+// User preferences persisted in local storage and shared across components
+
+export interface AppSettings {
+  allowSimulatedData: boolean; // fall back to simulated values when a live source fails
+  distanceUnit: DistanceUnit; // measurement tool readout
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  allowSimulatedData: true,
+  distanceUnit: 'ft',
+};
+
+const STORAGE_KEY = 'lakescope:settings';
+const listeners = new Set<() => void>();
+let current: AppSettings | null = null;
+
+function readSettings(): AppSettings {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function getSettings(): AppSettings {
+  if (typeof window === 'undefined') return DEFAULT_SETTINGS;
+  if (!current) current = readSettings();
+  return current;
+}
+
+export function updateSettings(patch: Partial<AppSettings>) {
+  current = { ...getSettings(), ...patch };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch {
+    // Storage may be unavailable (private mode); keep the in-memory value
+  }
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+
+  // Pick up changes made in other tabs
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    current = readSettings();
+    listener();
+  };
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+export function useSettings(): [AppSettings, (patch: Partial<AppSettings>) => void] {
+  const settings = useSyncExternalStore(subscribe, getSettings, () => DEFAULT_SETTINGS);
+  const update = useCallback((patch: Partial<AppSettings>) => updateSettings(patch), []);
+  return [settings, update];
+}
@@ -0,0 +1,320 @@
+import { ExportLayer, MapFeature, MapFeatureProperties } from './mapFeatures';
+import type { ZipEntry } from './zip';
+
+// ESRI Shapefiles written in the browser. A shapefile holds one geometry
+// type, so each map layer becomes its own .shp/.shx/.dbf set, with a .prj
+// for WGS 84 longitude/latitude and a .cpg declaring UTF-8 attributes.
+
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const SHAPE_NULL = 0;
+const SHAPE_POINT = 1;
+const SHAPE_POLYLINE = 3;
+const SHAPE_POLYGON = 5;
+
+// dBASE field names are limited to ten characters
+const FIELD_NAMES: Record<string, string> = {
+  id: 'ID',
+  name: 'NAME',
+  normalPoolElevationFt: 'POOL_FT',
+  surfaceAreaAcres: 'AREA_AC',
+  acres: 'ACRES',
+  mappedAcres: 'MAP_ACRES',
+  color: 'COLOR',
+  type: 'TYPE',
+  description: 'DESCR',
+  location: 'LOCATION',
+  minElevationFt: 'MIN_ELEV',
+  optimalElevationFt: 'OPT_ELEV',
+  parkingSpaces: 'PARKING',
+  amenities: 'AMENITIES',
+  status: 'STATUS',
+  statusMessage: 'STATUS_MSG',
+  lakeLevelFt: 'LAKE_FT',
+  elevationFt: 'ELEV_FT',
+  depthFt: 'DEPTH_FT',
+  waterLevelFt: 'WATER_FT',
+  areaAcres: 'AREA_AC',
+  maxDepthFt: 'MAX_DEPTH',
+  firstFloorElevationFt: 'FLOOR_FT',
+  groundElevationFt: 'GROUND_FT',
+  flooded: 'FLOODED',
+  depthAboveFloorFt: 'FLOOD_DPTH',
+};
+
+type FieldValue = string | number | boolean | null;
+
+interface DbfField {
+  key: string;
+  name: string;
+  type: 'C' | 'N' | 'L';
+  length: number;
+  decimals: number;
+}
+
+function shapeType(geometry: GeoJSON.Geometry): number {
+  switch (geometry.type) {
+    case 'Point': return SHAPE_POINT;
+    case 'LineString':
+    case 'MultiLineString': return SHAPE_POLYLINE;
+    case 'Polygon':
+    case 'MultiPolygon': return SHAPE_POLYGON;
+    default: return SHAPE_NULL;
+  }
+}
+
+function ringArea(ring: GeoJSON.Position[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[i][0] - ring[j][0]) * (ring[i][1] + ring[j][1]);
+  }
+  return area / 2; // positive when clockwise
+}
+
+function closed(ring: GeoJSON.Position[]): GeoJSON.Position[] {
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+// Parts of a polyline or polygon record; shapefiles want outer rings
+// clockwise and holes counter-clockwise, the reverse of GeoJSON
+function shapeParts(geometry: GeoJSON.Geometry): GeoJSON.Position[][] {
+  switch (geometry.type) {
+    case 'LineString': return [geometry.coordinates];
+    case 'MultiLineString': return geometry.coordinates;
+    case 'Polygon':
+    case 'MultiPolygon': {
+      const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+      return polygons.flatMap(rings => rings.map((ring, i) => {
+        const ringClosed = closed(ring);
+        const clockwise = ringArea(ringClosed) > 0;
+        return clockwise === (i === 0) ? ringClosed : [...ringClosed].reverse();
+      }));
+    }
+    default: return [];
+  }
+}
+
+function recordContent(type: number, geometry: GeoJSON.Geometry): Uint8Array {
+  if (shapeType(geometry) !== type) type = SHAPE_NULL;
+  if (type === SHAPE_POINT && geometry.type === 'Point') {
+    const content = new DataView(new ArrayBuffer(20));
+    content.setInt32(0, SHAPE_POINT, true);
+    content.setFloat64(4, geometry.coordinates[0], true);
+    content.setFloat64(12, geometry.coordinates[1], true);
+    return new Uint8Array(content.buffer);
+  }
+
+  const parts = shapeParts(geometry).filter(part => part.length > 0);
+  if (type === SHAPE_NULL || parts.length === 0) {
+    const content = new DataView(new ArrayBuffer(4));
+    content.setInt32(0, SHAPE_NULL, true);
+    return new Uint8Array(content.buffer);
+  }
+
+  const points = parts.flat();
+  const content = new DataView(new ArrayBuffer(44 + 4 * parts.length + 16 * points.length));
+  const [xMin, yMin, xMax, yMax] = bounds(points);
+  content.setInt32(0, type, true);
+  [xMin, yMin, xMax, yMax].forEach((value, i) => content.setFloat64(4 + i * 8, value, true));
+  content.setInt32(36, parts.length, true);
+  content.setInt32(40, points.length, true);
+  let index = 0;
+  parts.forEach((part, i) => {
+    content.setInt32(44 + i * 4, index, true);
+    index += part.length;
+  });
+  const pointsAt = 44 + 4 * parts.length;
+  points.forEach(([x, y], i) => {
+    content.setFloat64(pointsAt + i * 16, x, true);
+    content.setFloat64(pointsAt + i * 16 + 8, y, true);
+  });
+  return new Uint8Array(content.buffer);
+}
+
+function bounds(points: GeoJSON.Position[]): [number, number, number, number] {
+  if (points.length === 0) return [0, 0, 0, 0];
+  return points.reduce<[number, number, number, number]>(
+    ([xMin, yMin, xMax, yMax], [x, y]) => [Math.min(xMin, x), Math.min(yMin, y), Math.max(xMax, x), Math.max(yMax, y)],
+    [Infinity, Infinity, -Infinity, -Infinity],
+  );
+}
+
+function fileHeader(type: number, lengthBytes: number, box: [number, number, number, number]): Uint8Array {
+  const header = new DataView(new ArrayBuffer(100));
+  header.setInt32(0, 9994); // file code, big-endian
+  header.setInt32(24, lengthBytes / 2); // file length in 16-bit words, big-endian
+  header.setInt32(28, 1000, true);
+  header.setInt32(32, type, true);
+  box.forEach((value, i) => header.setFloat64(36 + i * 8, value, true));
+  return new Uint8Array(header.buffer);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
+
+// The .shp and its .shx index
+function writeShapes(type: number, geometries: GeoJSON.Geometry[]): { shp: Uint8Array; shx: Uint8Array } {
+  const records: Uint8Array[] = [];
+  const index = new DataView(new ArrayBuffer(8 * geometries.length));
+  let offset = 100;
+  geometries.forEach((geometry, i) => {
+    const content = recordContent(type, geometry);
+    const header = new DataView(new ArrayBuffer(8));
+    header.setInt32(0, i + 1); // record numbers start at 1
+    header.setInt32(4, content.length / 2);
+    records.push(new Uint8Array(header.buffer), content);
+    index.setInt32(i * 8, offset / 2);
+    index.setInt32(i * 8 + 4, content.length / 2);
+    offset += 8 + content.length;
+  });
+
+  const box = bounds(geometries.flatMap(geometry =>
+    geometry.type === 'Point' ? [geometry.coordinates] : shapeParts(geometry).flat()
+  ));
+  return {
+    shp: concat([fileHeader(type, offset, box), ...records]),
+    shx: concat([fileHeader(type, 100 + index.byteLength, box), new Uint8Array(index.buffer)]),
+  };
+}
+
+function fieldValue(value: unknown): FieldValue {
+  if (Array.isArray(value)) return value.join(', ');
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : null;
+}
+
+function decimalsOf(value: number): number {
+  const [, fraction = ''] = String(value).split('.');
+  return Math.min(fraction.length, 6);
+}
+
+function dbfFields(rows: Record<string, FieldValue>[], encoder: TextEncoder): DbfField[] {
+  const keys = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const names = new Set<string>();
+  return keys.map(key => {
+    const values = rows.map(row => row[key] ?? null).filter(value => value !== null);
+
+    // Truncated names can collide; number the later ones
+    let name = FIELD_NAMES[key] ?? key.replace(/[^A-Za-z0-9_]/g, '_').slice(0, 10).toUpperCase();
+    for (let n = 1; names.has(name); n++) name = `${name.slice(0, 10 - String(n).length)}${n}`;
+    names.add(name);
+
+    if (values.length > 0 && values.every(value => typeof value === 'boolean')) {
+      return { key, name, type: 'L', length: 1, decimals: 0 };
+    }
+    if (values.length > 0 && values.every(value => typeof value === 'number')) {
+      const decimals = Math.max(0, ...values.map(value => decimalsOf(value as number)));
+      return { key, name, type: 'N', length: 19, decimals };
+    }
+    const length = Math.max(1, ...values.map(value => encoder.encode(String(value)).length));
+    return { key, name, type: 'C', length: Math.min(length, 254), decimals: 0 };
+  });
+}
+
+function fieldBytes(field: DbfField, value: FieldValue, encoder: TextEncoder): Uint8Array {
+  const bytes = new Uint8Array(field.length).fill(0x20);
+  if (value === null) {
+    if (field.type === 'L') bytes[0] = 0x3f; // '?'
+    return bytes;
+  }
+  if (field.type === 'L') {
+    bytes[0] = value ? 0x54 : 0x46; // 'T' / 'F'
+  } else if (field.type === 'N') {
+    const text = (value as number).toFixed(field.decimals).padStart(field.length).slice(-field.length);
+    bytes.set(encoder.encode(text));
+  } else {
+    // Cut on a character boundary so multi-byte UTF-8 stays valid
+    let encoded = encoder.encode(String(value));
+    let chars = [...String(value)];
+    while (encoded.length > field.length) {
+      chars = chars.slice(0, -1);
+      encoded = encoder.encode(chars.join(''));
+    }
+    bytes.set(encoded);
+  }
+  return bytes;
+}
+
+function writeDbf(rows: Record<string, FieldValue>[], date: Date): Uint8Array {
+  const encoder = new TextEncoder();
+  const fields = dbfFields(rows, encoder);
+  const headerLength = 32 + 32 * fields.length + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+
+  const header = new Uint8Array(headerLength);
+  const view = new DataView(header.buffer);
+  header[0] = 0x03; // dBASE III without memo
+  header[1] = date.getFullYear() - 1900;
+  header[2] = date.getMonth() + 1;
+  header[3] = date.getDate();
+  view.setUint32(4, rows.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  fields.forEach((field, i) => {
+    const at = 32 + i * 32;
+    header.set(encoder.encode(field.name), at);
+    header[at + 11] = field.type.charCodeAt(0);
+    header[at + 16] = field.length;
+    header[at + 17] = field.decimals;
+  });
+  header[headerLength - 1] = 0x0d;
+
+  const records = rows.map(row => concat([
+    new Uint8Array([0x20]), // not deleted
+    ...fields.map(field => fieldBytes(field, row[field.key] ?? null, encoder)),
+  ]));
+  return concat([header, ...records, new Uint8Array([0x1a])]);
+}
+
+function attributes(properties: MapFeatureProperties): Record<string, FieldValue> {
+  return Object.fromEntries(
+    Object.entries(properties)
+      .filter(([key]) => key !== 'layer')
+      .map(([key, value]) => [key, fieldValue(value)])
+  );
+}
+
+const SHAPE_SUFFIXES: Record<number, string> = {
+  [SHAPE_POINT]: 'points',
+  [SHAPE_POLYLINE]: 'lines',
+  [SHAPE_POLYGON]: 'polygons',
+};
+
+// Zip entries for one shapefile per layer, named `${baseName}_${layer}`.
+// A layer mixing geometry types (imported layers can) is split into one
+// shapefile per type with a `_points`, `_lines` or `_polygons` suffix.
+export function buildShapefiles(
+  baseName: string,
+  features: Record<ExportLayer, MapFeature[]>,
+  layers: ExportLayer[],
+  date = new Date(),
+): ZipEntry[] {
+  return layers.flatMap(layer => {
+    const byType = new Map<number, MapFeature[]>();
+    features[layer].forEach(feature => {
+      const type = shapeType(feature.geometry);
+      if (type !== SHAPE_NULL) byType.set(type, [...(byType.get(type) ?? []), feature]);
+    });
+
+    return [...byType].flatMap(([type, typeFeatures]) => {
+      const { shp, shx } = writeShapes(type, typeFeatures.map(feature => feature.geometry));
+      const name = byType.size > 1 ? `${baseName}_${layer}_${SHAPE_SUFFIXES[type]}` : `${baseName}_${layer}`;
+      return [
+        { name: `${name}.shp`, data: shp },
+        { name: `${name}.shx`, data: shx },
+        { name: `${name}.dbf`, data: writeDbf(typeFeatures.map(feature => attributes(feature.properties)), date) },
+        { name: `${name}.prj`, data: WGS84_PRJ },
+        { name: `${name}.cpg`, data: 'UTF-8' },
+      ];
+    });
+  });
+}
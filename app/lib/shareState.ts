@@ -0,0 +1,145 @@
+import type { LakeRecord, LngLat } from './lakes';
+
+// View state carried in share links. Parsing is defensive: a link may be
+// hand-edited or come from an older version, so each parameter is checked on
+// its own and anything missing or invalid is left at the app's default.
+
+export const SHARE_TABS = ['overview', 'water', 'recreation', 'elevation', 'economic', 'planning', 'analysis'] as const;
+export type ShareTab = typeof SHARE_TABS[number];
+
+export const MAP_STYLE_NAMES = ['satellite', 'terrain', 'streets'] as const;
+export type MapStyleName = typeof MAP_STYLE_NAMES[number];
+
+export const MEASUREMENT_TOOLS = ['distance', 'area', 'elevation', 'viewshed'] as const;
+export type MeasurementTool = typeof MEASUREMENT_TOOLS[number];
+
+export interface MapCamera {
+  center: LngLat;
+  zoom: number;
+  pitch: number;
+  bearing: number;
+}
+
+export interface ShareMeasurement {
+  tool: MeasurementTool;
+  points: LngLat[];
+  observerHeight?: number; // feet, viewshed only
+  radiusMiles?: number; // viewshed only
+}
+
+export interface ShareState {
+  tab: ShareTab;
+  elevation: number;
+  floodLevel: number;
+  contours: boolean;
+  zones: boolean;
+  selectedZone: string | null; // land use zone id
+  camera: MapCamera | null; // null until the map has loaded
+  style: MapStyleName;
+  measurement: ShareMeasurement | null;
+}
+
+const MAX_POINTS = 100;
+
+function oneOf<T extends string>(values: readonly T[], value: string | null): T | undefined {
+  return values.find(v => v === value);
+}
+
+function finite(value: string | null, min: number, max: number): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min && number <= max ? number : undefined;
+}
+
+function flag(value: string | null): boolean | undefined {
+  return value === 'true' ? true : value === 'false' ? false : undefined;
+}
+
+function round(value: number, digits: number): string {
+  return String(Number(value.toFixed(digits)));
+}
+
+function formatPoints(points: LngLat[]): string {
+  return points.map(([lng, lat]) => `${round(lng, 6)},${round(lat, 6)}`).join(';');
+}
+
+function parsePoints(value: string | null): LngLat[] | undefined {
+  if (!value) return undefined;
+  const pairs = value.split(';');
+  if (pairs.length > MAX_POINTS) return undefined;
+  const points: LngLat[] = [];
+  for (const pair of pairs) {
+    const [lng, lat] = pair.split(',').map(part => finite(part, -180, 180));
+    if (lng === undefined || lat === undefined || Math.abs(lat) > 90) return undefined;
+    points.push([lng, lat]);
+  }
+  return points;
+}
+
+export function encodeShareState(state: ShareState): URLSearchParams {
+  const { camera, measurement } = state;
+  const params = new URLSearchParams({
+    tab: state.tab,
+    elevation: String(state.elevation),
+    floodLevel: String(state.floodLevel),
+    contours: String(state.contours),
+    zones: String(state.zones),
+    style: state.style,
+  });
+  if (state.selectedZone) params.set('zone', state.selectedZone);
+  if (camera) {
+    params.set('center', formatPoints([camera.center]));
+    params.set('zoom', round(camera.zoom, 2));
+    params.set('pitch', round(camera.pitch, 1));
+    params.set('bearing', round(camera.bearing, 1));
+  }
+  if (measurement && measurement.points.length > 0) {
+    params.set('measure', measurement.tool);
+    params.set('points', formatPoints(measurement.points.slice(0, MAX_POINTS)));
+    if (measurement.tool === 'viewshed') {
+      if (measurement.observerHeight !== undefined) params.set('observerHeight', String(measurement.observerHeight));
+      if (measurement.radiusMiles !== undefined) params.set('radius', String(measurement.radiusMiles));
+    }
+  }
+  return params;
+}
+
+// The valid parts of a share link; elevations must lie between the lake's
+// stream bed and top of dam, like the sliders that set them
+export function parseShareState(params: URLSearchParams, lake: LakeRecord): Partial<ShareState> {
+  const { streamBedElevation, topOfDamElevation } = lake.info;
+  const state: Partial<ShareState> = {
+    tab: oneOf(SHARE_TABS, params.get('tab')),
+    elevation: finite(params.get('elevation'), streamBedElevation, topOfDamElevation),
+    floodLevel: finite(params.get('floodLevel'), streamBedElevation, topOfDamElevation),
+    contours: flag(params.get('contours')),
+    zones: flag(params.get('zones')),
+    style: oneOf(MAP_STYLE_NAMES, params.get('style')),
+    selectedZone: lake.landUseZones.find(zone => zone.id === params.get('zone'))?.id,
+  };
+
+  const center = parsePoints(params.get('center'));
+  const zoom = finite(params.get('zoom'), 0, 22);
+  if (center?.length === 1 && zoom !== undefined) {
+    state.camera = {
+      center: center[0],
+      zoom,
+      pitch: finite(params.get('pitch'), 0, 85) ?? 0,
+      bearing: finite(params.get('bearing'), -360, 360) ?? 0,
+    };
+  }
+
+  const tool = oneOf(MEASUREMENT_TOOLS, params.get('measure'));
+  const points = parsePoints(params.get('points'));
+  if (tool && points) {
+    state.measurement = {
+      tool,
+      points: tool === 'viewshed' ? points.slice(0, 1) : points,
+      observerHeight: finite(params.get('observerHeight'), 0, 10000),
+      radiusMiles: finite(params.get('radius'), 0.5, 10),
+    };
+  }
+
+  // Drop the keys that failed validation
+  return Object.fromEntries(Object.entries(state).filter(([, value]) => value !== undefined)) as Partial<ShareState>;
+}
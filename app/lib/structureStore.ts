@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { createPersistentStore } from './localStore';
+import type { Structure } from './structures';
+
+// Imported structure inventory, persisted in local storage per lake. An
+// import replaces the previous inventory rather than merging with it.
+
+const EMPTY: Structure[] = [];
+const store = createPersistentStore<Structure[]>('lakescope:structures:', EMPTY);
+
+export function useStructures(lakeSlug: string) {
+  const structures = store.useValue(lakeSlug);
+
+  const replaceStructures = useCallback((incoming: Structure[]) => {
+    store.set(lakeSlug, incoming.length ? incoming : EMPTY);
+  }, [lakeSlug]);
+
+  const clearStructures = useCallback(() => store.set(lakeSlug, EMPTY), [lakeSlug]);
+
+  return { structures, replaceStructures, clearStructures };
+}
@@ -0,0 +1,231 @@
+import { parseCsvRecords } from './csv';
+import { DemGrid, sampleDem } from './dem';
+import { Inundation, inundationDepthAt } from './inundation';
+import type { LngLat } from './lakes';
+
+// Building and address-point inventories with first-floor elevations, used
+// to count the structures a simulated water level actually reaches.
+
+export interface Structure {
+  id: string;
+  name: string;
+  position: LngLat; // address point or footprint centroid
+  firstFloorElevation: number | null; // feet, from the survey or elevation certificate
+  groundElevation: number | null; // feet, lowest adjacent grade when provided
+}
+
+export interface StructureImportResult {
+  structures: Structure[];
+  skipped: number;
+  warnings: string[];
+}
+
+export type FloorElevationSource = 'surveyed' | 'ground' | 'dem';
+
+export interface StructureExposure {
+  structure: Structure;
+  floorElevation: number;
+  floorSource: FloorElevationSource;
+  depthAboveFloor: number; // feet of water over the first floor
+}
+
+export interface StructureAssessment {
+  inundated: StructureExposure[]; // deepest first
+  assessed: number;
+  unknownElevation: number; // no surveyed floor, ground or DEM elevation
+}
+
+// Floor height over grade assumed when only ground elevation is known
+// (FEMA Hazus default for slab-on-grade construction)
+export const DEFAULT_FOUNDATION_HEIGHT_FT = 1;
+
+const FLOOR_KEYS = /^(ffe|first_?fl(oo)?r(_?elev(ation)?)?|ff_?elev(ation)?|floor_?elev(ation)?)$/i;
+const GROUND_KEYS = /^(ground(_?elev(ation)?)?|grade|lag|lowest_?adj(acent)?_?grade|ground_?ft)$/i;
+const NAME_KEYS = /^(name|address|addr|full_?address|site_?address|bldg_?name)$/i;
+const ID_KEYS = /^(id|objectid|fid|bldg_?id|structure_?id|parcel_?id)$/i;
+const LAT_KEYS = /^(lat|latitude|y)$/i;
+const LNG_KEYS = /^(lng|lon|long|longitude|x)$/i;
+
+function findValue(properties: Record<string, unknown>, pattern: RegExp): unknown {
+  const key = Object.keys(properties).find(k => pattern.test(k.trim()));
+  return key === undefined ? undefined : properties[key];
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+// Area-weighted centroid of a ring, falling back to the vertex mean for
+// degenerate rings. Coordinates are taken relative to the first vertex to
+// avoid cancellation on footprint-sized rings.
+function ringCentroid(ring: number[][]): LngLat {
+  const [x0, y0] = ring[0];
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const xi = ring[i][0] - x0;
+    const yi = ring[i][1] - y0;
+    const xj = ring[j][0] - x0;
+    const yj = ring[j][1] - y0;
+    const cross = xj * yi - xi * yj;
+    area += cross;
+    cx += (xj + xi) * cross;
+    cy += (yj + yi) * cross;
+  }
+  if (area === 0) {
+    return [
+      ring.reduce((sum, p) => sum + p[0], 0) / ring.length,
+      ring.reduce((sum, p) => sum + p[1], 0) / ring.length,
+    ];
+  }
+  return [x0 + cx / (3 * area), y0 + cy / (3 * area)];
+}
+
+function geometryPosition(geometry: GeoJSON.Geometry | null): LngLat | null {
+  if (!geometry) return null;
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates[0], geometry.coordinates[1]];
+    case 'MultiPoint':
+      return geometry.coordinates.length ? [geometry.coordinates[0][0], geometry.coordinates[0][1]] : null;
+    case 'Polygon':
+      return geometry.coordinates.length ? ringCentroid(geometry.coordinates[0]) : null;
+    case 'MultiPolygon':
+      return geometry.coordinates.length && geometry.coordinates[0].length ? ringCentroid(geometry.coordinates[0][0]) : null;
+    default:
+      return null;
+  }
+}
+
+function buildStructure(
+  properties: Record<string, unknown>,
+  position: LngLat | null,
+  index: number,
+): Structure | null {
+  if (!position || !position.every(Number.isFinite)) return null;
+  const id = findValue(properties, ID_KEYS);
+  const name = findValue(properties, NAME_KEYS);
+  return {
+    id: id !== undefined && id !== '' ? String(id) : `structure-${index + 1}`,
+    name: name ? String(name) : `Structure ${index + 1}`,
+    position,
+    firstFloorElevation: toNumber(findValue(properties, FLOOR_KEYS)),
+    groundElevation: toNumber(findValue(properties, GROUND_KEYS)),
+  };
+}
+
+// GeoJSON building footprints or address points, in WGS84 longitude/latitude
+export function parseStructuresGeoJson(text: string): StructureImportResult {
+  const notGeoJson: StructureImportResult = { structures: [], skipped: 0, warnings: ['File is not valid JSON'] };
+  let parsed: GeoJSON.FeatureCollection | GeoJSON.Feature;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return notGeoJson;
+  }
+  // Valid JSON that is null, a number or a string is no more GeoJSON than a syntax error
+  if (!parsed || typeof parsed !== 'object') return notGeoJson;
+  const features = parsed.type === 'FeatureCollection' && Array.isArray(parsed.features) ? parsed.features
+    : parsed.type === 'Feature' ? [parsed]
+    : [];
+  const structures: Structure[] = [];
+  let skipped = 0;
+
+  features.forEach((feature, index) => {
+    const structure = feature && typeof feature === 'object'
+      ? buildStructure(feature.properties ?? {}, geometryPosition(feature.geometry), index)
+      : null;
+    if (structure) structures.push(structure);
+    else skipped++;
+  });
+
+  return { structures, skipped, warnings: features.length ? [] : ['No features found'] };
+}
+
+// CSV address points with latitude/longitude columns
+export function parseStructuresCsv(text: string): StructureImportResult {
+  const records = parseCsvRecords(text);
+  if (records.length > 0 && (findValue(records[0], LAT_KEYS) === undefined || findValue(records[0], LNG_KEYS) === undefined)) {
+    return { structures: [], skipped: records.length, warnings: ['Missing latitude/longitude columns'] };
+  }
+
+  const structures: Structure[] = [];
+  let skipped = 0;
+  records.forEach((record, index) => {
+    const lat = toNumber(findValue(record, LAT_KEYS));
+    const lng = toNumber(findValue(record, LNG_KEYS));
+    const structure = buildStructure(record, lat !== null && lng !== null ? [lng, lat] : null, index);
+    if (structure) structures.push(structure);
+    else skipped++;
+  });
+
+  return { structures, skipped, warnings: [] };
+}
+
+export function parseStructureFile(fileName: string, text: string): StructureImportResult {
+  const result = /\.csv$/i.test(fileName) ? parseStructuresCsv(text) : parseStructuresGeoJson(text);
+
+  // Inventories often reuse IDs across footprints of one parcel; keep them unique
+  const seen = new Map<string, number>();
+  result.structures.forEach(structure => {
+    const count = seen.get(structure.id) ?? 0;
+    seen.set(structure.id, count + 1);
+    if (count > 0) structure.id = `${structure.id}-${count + 1}`;
+  });
+
+  const missingFloors = result.structures.filter(s => s.firstFloorElevation === null).length;
+  if (missingFloors > 0) {
+    result.warnings.push(`${missingFloors} without a first-floor elevation; ground or DEM elevation will be used`);
+  }
+  return result;
+}
+
+// First-floor elevation from the best available source
+export function floorElevation(
+  structure: Structure,
+  dem: DemGrid | null,
+): { elevation: number; source: FloorElevationSource } | null {
+  if (structure.firstFloorElevation !== null) {
+    return { elevation: structure.firstFloorElevation, source: 'surveyed' };
+  }
+  if (structure.groundElevation !== null) {
+    return { elevation: structure.groundElevation + DEFAULT_FOUNDATION_HEIGHT_FT, source: 'ground' };
+  }
+  const ground = dem ? sampleDem(dem, structure.position) : null;
+  return ground === null ? null : { elevation: ground + DEFAULT_FOUNDATION_HEIGHT_FT, source: 'dem' };
+}
+
+// Structures whose first floor is below the water level. With a DEM
+// inundation, a structure also has to sit in the area connected to the lake,
+// so homes in separate low spots behind higher ground are not counted.
+export function assessStructures(
+  structures: Structure[],
+  waterLevel: number,
+  dem: DemGrid | null,
+  inundation: Inundation | null,
+): StructureAssessment {
+  const inundated: StructureExposure[] = [];
+  let unknownElevation = 0;
+
+  for (const structure of structures) {
+    const floor = floorElevation(structure, dem);
+    if (!floor) {
+      unknownElevation++;
+      continue;
+    }
+    if (floor.elevation >= waterLevel) continue;
+    if (dem && inundation && inundationDepthAt(dem, inundation, structure.position) === null) continue;
+    inundated.push({
+      structure,
+      floorElevation: floor.elevation,
+      floorSource: floor.source,
+      depthAboveFloor: waterLevel - floor.elevation,
+    });
+  }
+
+  inundated.sort((a, b) => b.depthAboveFloor - a.depthAboveFloor);
+  return { inundated, assessed: structures.length - unknownElevation, unknownElevation };
+}
@@ -0,0 +1,189 @@
+// Carlson (1977) Trophic State Index and a composite water quality rating
+// computed from measured values rather than a hand-entered label.
+
+export type TrophicClass = 'Oligotrophic' | 'Mesotrophic' | 'Eutrophic' | 'Hypereutrophic';
+export type WaterQualityRating = 'Good' | 'Fair' | 'Poor';
+
+export interface TrophicInputs {
+  secchiDepthFt?: number | null;
+  chlorophyll?: number | null; // µg/L
+  totalPhosphorus?: number | null; // µg/L
+  dissolvedOxygen?: number | null; // mg/L
+  ph?: number | null;
+  turbidity?: number | null; // NTU
+}
+
+export interface TsiComponent {
+  key: 'sd' | 'chl' | 'tp';
+  label: string;
+  input: string; // measured value with units, as used in the formula
+  tsi: number;
+  trophicClass: TrophicClass;
+}
+
+export interface SubScore {
+  label: string;
+  score: number; // 0-100
+  detail: string;
+}
+
+export interface WaterQualityAssessment {
+  components: TsiComponent[];
+  meanTsi: number | null;
+  trophicClass: TrophicClass | null;
+  subScores: SubScore[];
+  compositeScore: number | null;
+  rating: WaterQualityRating | null;
+  explanation: string[];
+}
+
+const FEET_PER_METER = 3.28084;
+
+// Carlson's class boundaries on the TSI scale
+export const TROPHIC_CLASS_RANGES: { trophicClass: TrophicClass; min: number; max: number }[] = [
+  { trophicClass: 'Oligotrophic', min: -Infinity, max: 40 },
+  { trophicClass: 'Mesotrophic', min: 40, max: 50 },
+  { trophicClass: 'Eutrophic', min: 50, max: 70 },
+  { trophicClass: 'Hypereutrophic', min: 70, max: Infinity },
+];
+
+export function classifyTsi(tsi: number): TrophicClass {
+  return TROPHIC_CLASS_RANGES.find(range => tsi < range.max)?.trophicClass ?? 'Hypereutrophic';
+}
+
+export function tsiFromSecchi(secchiMeters: number): number {
+  return 60 - 14.41 * Math.log(secchiMeters);
+}
+
+export function tsiFromChlorophyll(chlorophyll: number): number {
+  return 9.81 * Math.log(chlorophyll) + 30.6;
+}
+
+export function tsiFromPhosphorus(totalPhosphorus: number): number {
+  return 14.42 * Math.log(totalPhosphorus) + 4.15;
+}
+
+function clampScore(score: number): number {
+  return Math.round(Math.max(0, Math.min(100, score)));
+}
+
+function isPositive(value: number | null | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isNumber(value: number | null | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Sub-score thresholds follow Oklahoma warm-water lake criteria: DO of at
+// least 5 mg/L, pH 6.5-9.0 and turbidity under 25 NTU
+export function assessWaterQuality(inputs: TrophicInputs): WaterQualityAssessment {
+  const components: TsiComponent[] = [];
+
+  if (isPositive(inputs.secchiDepthFt)) {
+    const meters = inputs.secchiDepthFt / FEET_PER_METER;
+    const tsi = tsiFromSecchi(meters);
+    components.push({ key: 'sd', label: 'Secchi depth', input: `${meters.toFixed(2)} m`, tsi, trophicClass: classifyTsi(tsi) });
+  }
+  if (isPositive(inputs.chlorophyll)) {
+    const tsi = tsiFromChlorophyll(inputs.chlorophyll);
+    components.push({ key: 'chl', label: 'Chlorophyll-a', input: `${inputs.chlorophyll} µg/L`, tsi, trophicClass: classifyTsi(tsi) });
+  }
+  if (isPositive(inputs.totalPhosphorus)) {
+    const tsi = tsiFromPhosphorus(inputs.totalPhosphorus);
+    components.push({ key: 'tp', label: 'Total phosphorus', input: `${inputs.totalPhosphorus} µg/L`, tsi, trophicClass: classifyTsi(tsi) });
+  }
+
+  const meanTsi = components.length
+    ? components.reduce((sum, c) => sum + c.tsi, 0) / components.length
+    : null;
+  const trophicClass = meanTsi === null ? null : classifyTsi(meanTsi);
+
+  const subScores: SubScore[] = [];
+  if (meanTsi !== null) {
+    // Full marks through mesotrophic-oligotrophic boundary, zero by TSI 80
+    subScores.push({
+      label: 'Trophic state',
+      score: clampScore(100 - (meanTsi - 40) * 2.5),
+      detail: `Mean TSI ${meanTsi.toFixed(0)}`,
+    });
+  }
+  if (isNumber(inputs.dissolvedOxygen)) {
+    subScores.push({
+      label: 'Dissolved O₂',
+      score: clampScore((inputs.dissolvedOxygen - 2) * 25),
+      detail: `${inputs.dissolvedOxygen} mg/L (criterion ≥ 5)`,
+    });
+  }
+  if (isNumber(inputs.ph)) {
+    const outside = inputs.ph < 6.5 ? 6.5 - inputs.ph : inputs.ph > 9 ? inputs.ph - 9 : 0;
+    subScores.push({
+      label: 'pH',
+      score: clampScore(100 - outside * 50),
+      detail: `${inputs.ph} (criterion 6.5-9.0)`,
+    });
+  }
+  if (isNumber(inputs.turbidity)) {
+    subScores.push({
+      label: 'Turbidity',
+      score: clampScore(inputs.turbidity <= 25 ? 100 : 100 - (inputs.turbidity - 25) * (100 / 75)),
+      detail: `${inputs.turbidity} NTU (criterion ≤ 25)`,
+    });
+  }
+
+  const compositeScore = subScores.length
+    ? Math.round(subScores.reduce((sum, s) => sum + s.score, 0) / subScores.length)
+    : null;
+  const rating: WaterQualityRating | null = compositeScore === null ? null
+    : compositeScore >= 80 ? 'Good'
+    : compositeScore >= 60 ? 'Fair'
+    : 'Poor';
+
+  return {
+    components,
+    meanTsi,
+    trophicClass,
+    subScores,
+    compositeScore,
+    rating,
+    explanation: explainTrophicState(components, meanTsi, trophicClass),
+  };
+}
+
+// Plain-language reasons for the trophic class, including Carlson's
+// deviation analysis when more than one index is available
+function explainTrophicState(
+  components: TsiComponent[],
+  meanTsi: number | null,
+  trophicClass: TrophicClass | null,
+): string[] {
+  if (meanTsi === null || !trophicClass) {
+    return ['Import Secchi depth, chlorophyll-a or total phosphorus samples to compute the trophic state.'];
+  }
+
+  const range = TROPHIC_CLASS_RANGES.find(r => r.trophicClass === trophicClass)!;
+  const bounds = range.min === -Infinity ? `below ${range.max}`
+    : range.max === Infinity ? `${range.min} or above`
+    : `${range.min}-${range.max}`;
+  const lines = [
+    `Mean TSI of ${meanTsi.toFixed(1)} from ${components.map(c => c.label.toLowerCase()).join(', ')} falls in the ${trophicClass.toLowerCase()} range (${bounds}).`,
+  ];
+
+  const byKey = Object.fromEntries(components.map(c => [c.key, c.tsi])) as Partial<Record<TsiComponent['key'], number>>;
+
+  if (byKey.chl !== undefined && byKey.tp !== undefined) {
+    const diff = byKey.chl - byKey.tp;
+    if (diff < -5) lines.push('Chlorophyll is lower than phosphorus would support, so algal growth is likely limited by light or nitrogen rather than phosphorus.');
+    else if (diff > 5) lines.push('Chlorophyll is higher than phosphorus predicts, suggesting phosphorus is the limiting nutrient.');
+  }
+  if (byKey.chl !== undefined && byKey.sd !== undefined) {
+    const diff = byKey.chl - byKey.sd;
+    if (diff < -5) lines.push('Water is less clear than algae alone would explain; suspended sediment or color is reducing transparency.');
+    else if (diff > 5) lines.push('Water is clearer than the algae level predicts, which can indicate large algal cells or zooplankton grazing.');
+  }
+  if (components.length === 1) {
+    lines.push(`Only ${components[0].label.toLowerCase()} is available; add the other indicators for a more reliable classification.`);
+  }
+
+  return lines;
+}
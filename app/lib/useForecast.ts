@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { ForecastResponse, forecastHourKey } from './openMeteo';
+
+// Client-side store in front of `/api/forecast`. Every component asking for
+// the same location shares one entry, so mounting several weather panels at
+// once issues a single request, and the entry is reused until the forecast
+// hour changes.
+
+interface ForecastEntry {
+  hour: string; // forecast hour the data belongs to
+  data: ForecastResponse | null;
+  error: string | null;
+  loading: boolean;
+}
+
+const entries = new Map<string, ForecastEntry>();
+const inFlight = new Map<string, Promise<void>>();
+const listeners = new Map<string, Set<() => void>>();
+
+const EMPTY_ENTRY: ForecastEntry = { hour: '', data: null, error: null, loading: true };
+
+function locationKey(lat: number, lng: number, timezone: string): string {
+  return `${lat.toFixed(3)},${lng.toFixed(3)},${timezone}`;
+}
+
+function setEntry(key: string, entry: ForecastEntry) {
+  entries.set(key, entry);
+  listeners.get(key)?.forEach(listener => listener());
+}
+
+function loadForecast(key: string, lat: number, lng: number, timezone: string, force = false): Promise<void> {
+  const hour = forecastHourKey();
+  const existing = entries.get(key);
+  if (!force && existing?.data && existing.hour === hour) return Promise.resolve();
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  setEntry(key, { ...(existing ?? EMPTY_ENTRY), loading: true, error: null });
+
+  const params = new URLSearchParams({ lat: String(lat), lng: String(lng), timezone });
+  const request = fetch(`/api/forecast?${params.toString()}`, { headers: { 'Accept': 'application/json' } })
+    .then(async (response) => {
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? `Forecast request failed (${response.status})`);
+      }
+      const data: ForecastResponse = await response.json();
+      setEntry(key, { hour, data, error: null, loading: false });
+    })
+    .catch((err) => {
+      // Keep showing the previous forecast if there is one
+      setEntry(key, {
+        ...(entries.get(key) ?? EMPTY_ENTRY),
+        error: err instanceof Error ? err.message : 'Failed to fetch forecast',
+        loading: false,
+      });
+    })
+    .finally(() => inFlight.delete(key));
+
+  inFlight.set(key, request);
+  return request;
+}
+
+// How often mounted hooks check whether the forecast hour has rolled over
+const HOUR_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+export function useForecast(lat: number, lng: number, timezone: string) {
+  const key = locationKey(lat, lng, timezone);
+
+  const subscribe = useCallback((listener: () => void) => {
+    const keyListeners = listeners.get(key) ?? new Set<() => void>();
+    listeners.set(key, keyListeners);
+    keyListeners.add(listener);
+    return () => {
+      keyListeners.delete(listener);
+    };
+  }, [key]);
+
+  const entry = useSyncExternalStore(
+    subscribe,
+    () => entries.get(key) ?? EMPTY_ENTRY,
+    () => EMPTY_ENTRY,
+  );
+
+  useEffect(() => {
+    loadForecast(key, lat, lng, timezone);
+    const interval = setInterval(() => loadForecast(key, lat, lng, timezone), HOUR_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [key, lat, lng, timezone]);
+
+  const refresh = useCallback(() => loadForecast(key, lat, lng, timezone, true), [key, lat, lng, timezone]);
+
+  return { forecast: entry.data, loading: entry.loading, error: entry.error, refresh };
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PARAM_LAKE_ELEVATION, fetchInstantaneousValues, findSeries } from './usgs';
+import { Provenance, responseProvenance, simulatedProvenance } from './provenance';
+import { useSettings } from './settings';
+
+export interface LakeLevel {
+  elevation: number; // ft
+  observedAt: string;
+  change24h: number | null; // ft since the first reading of the last day
+  provenance: Provenance;
+}
+
+// Latest lake surface elevation for a USGS site, refreshed every 15 minutes.
+// When a refresh fails the last reading is kept, marked cached, alongside
+// `error`; with no reading yet it falls back to the normal pool elevation
+// (marked simulated) only when the user allows simulated data, otherwise
+// `level` stays null.
+export function useLakeLevel(siteId: string, normalPoolElevation: number) {
+  const [level, setLevel] = useState<LakeLevel | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [{ allowSimulatedData }] = useSettings();
+  // Another site's reading is no stand-in for this one's
+  const [levelSiteId, setLevelSiteId] = useState(siteId);
+  if (siteId !== levelSiteId) {
+    setLevelSiteId(siteId);
+    setLevel(null);
+    setError(null);
+  }
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetchInstantaneousValues({ siteId, period: 'P1D' });
+      const series = findSeries(response, PARAM_LAKE_ELEVATION);
+      if (!series) throw new Error('No lake elevation series returned for this site');
+
+      const latest = series.values[series.values.length - 1];
+      setLevel({
+        elevation: latest.value,
+        observedAt: latest.dateTime,
+        change24h: latest.value - series.values[0].value,
+        provenance: responseProvenance(`USGS NWIS site ${siteId}`, response.fetchedAt, response.cached),
+      });
+      setError(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      setError(message);
+      setLevel(previous => {
+        if (previous && (previous.provenance.kind === 'live' || previous.provenance.kind === 'cached')) {
+          const { source, fetchedAt } = previous.provenance;
+          return { ...previous, provenance: { kind: 'cached', source, fetchedAt } };
+        }
+        return allowSimulatedData ? {
+          elevation: normalPoolElevation,
+          observedAt: new Date().toISOString(),
+          change24h: null,
+          provenance: simulatedProvenance(`Assuming normal pool - USGS request failed: ${message}`),
+        } : null;
+      });
+    }
+  }, [siteId, normalPoolElevation, allowSimulatedData]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, 15 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return { level, error, refresh };
+}
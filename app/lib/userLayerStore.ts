@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { createPersistentStore } from './localStore';
+import { UserLayer, UserLayerImportResult, createUserLayer, nextUserLayerColor } from './userLayers';
+
+// Layers imported onto the map, persisted in local storage per lake. Large
+// files may not fit in storage; they then last until the page is closed.
+
+const EMPTY: UserLayer[] = [];
+const store = createPersistentStore<UserLayer[]>('lakescope:user-layers:', EMPTY);
+
+export function useUserLayers(lakeSlug: string) {
+  const userLayers = store.useValue(lakeSlug);
+
+  const addUserLayer = useCallback((result: UserLayerImportResult) => {
+    const current = store.get(lakeSlug);
+    store.set(lakeSlug, [...current, createUserLayer(result, nextUserLayerColor(current))]);
+  }, [lakeSlug]);
+
+  const removeUserLayer = useCallback((id: string) => {
+    const remaining = store.get(lakeSlug).filter(layer => layer.id !== id);
+    store.set(lakeSlug, remaining.length ? remaining : EMPTY);
+  }, [lakeSlug]);
+
+  return { userLayers, addUserLayer, removeUserLayer };
+}
@@ -0,0 +1,264 @@
+// Layers the user drops onto the map: GeoJSON, KML or GPX files converted to
+// GeoJSON features with flat attributes, styled with a colour from a palette.
+
+export type UserAttributes = Record<string, string | number | boolean | null>;
+
+export type UserFeature = GeoJSON.Feature<GeoJSON.Geometry, UserAttributes>;
+
+export interface UserLayer {
+  id: string;
+  name: string;
+  color: string;
+  importedAt: string; // ISO date-time
+  features: UserFeature[];
+  bounds: [number, number, number, number]; // west, south, east, north
+}
+
+export interface UserLayerImportResult {
+  name: string;
+  features: UserFeature[];
+  skipped: number;
+  warnings: string[];
+}
+
+export const USER_LAYER_COLORS = ['#f472b6', '#a78bfa', '#facc15', '#2dd4bf', '#fb923c', '#f87171', '#60a5fa', '#a3e635'];
+
+export const USER_LAYER_ACCEPT = '.geojson,.json,.kml,.gpx';
+
+export function isUserLayerFile(fileName: string): boolean {
+  return /\.(geo)?json$|\.kml$|\.gpx$/i.test(fileName);
+}
+
+// The first palette colour no other layer uses, cycling when all are taken
+export function nextUserLayerColor(layers: UserLayer[]): string {
+  const used = new Set(layers.map(layer => layer.color));
+  return USER_LAYER_COLORS.find(color => !used.has(color)) ?? USER_LAYER_COLORS[layers.length % USER_LAYER_COLORS.length];
+}
+
+export function createUserLayer(result: UserLayerImportResult, color: string): UserLayer {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: result.name,
+    color,
+    importedAt: new Date().toISOString(),
+    features: result.features,
+    bounds: featureBounds(result.features),
+  };
+}
+
+function positionsOf(geometry: GeoJSON.Geometry): GeoJSON.Position[] {
+  switch (geometry.type) {
+    case 'Point': return [geometry.coordinates];
+    case 'MultiPoint':
+    case 'LineString': return geometry.coordinates;
+    case 'MultiLineString':
+    case 'Polygon': return geometry.coordinates.flat();
+    case 'MultiPolygon': return geometry.coordinates.flat(2);
+    case 'GeometryCollection': return geometry.geometries.flatMap(positionsOf);
+    default: return []; // types GeoJSON doesn't define, e.g. "Circle"
+  }
+}
+
+function featureBounds(features: UserFeature[]): [number, number, number, number] {
+  return features.flatMap(feature => positionsOf(feature.geometry)).reduce<[number, number, number, number]>(
+    ([west, south, east, north], [lng, lat]) => [Math.min(west, lng), Math.min(south, lat), Math.max(east, lng), Math.max(north, lat)],
+    [Infinity, Infinity, -Infinity, -Infinity],
+  );
+}
+
+function validPosition(position: unknown): boolean {
+  return Array.isArray(position) && position.length >= 2 &&
+    Number.isFinite(position[0]) && Number.isFinite(position[1]) &&
+    Math.abs(position[0]) <= 180 && Math.abs(position[1]) <= 90;
+}
+
+function validGeometry(geometry: GeoJSON.Geometry | null | undefined): geometry is GeoJSON.Geometry {
+  if (!geometry || typeof geometry !== 'object') return false;
+  // Empty collections have no extent to draw or zoom to
+  if (geometry.type === 'GeometryCollection') {
+    return Array.isArray(geometry.geometries) && geometry.geometries.length > 0 && geometry.geometries.every(validGeometry);
+  }
+  const positions = Array.isArray(geometry.coordinates) ? positionsOf(geometry) : [];
+  return positions.length > 0 && positions.every(validPosition);
+}
+
+// Attributes as scalars; nested values are kept as JSON text
+function flatten(properties: Record<string, unknown> | null | undefined): UserAttributes {
+  return Object.fromEntries(Object.entries(properties ?? {}).map(([key, value]) => [
+    key,
+    value === null || value === undefined ? null
+      : typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value
+      : JSON.stringify(value),
+  ]));
+}
+
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '') || fileName;
+}
+
+export function parseUserGeoJson(fileName: string, text: string): UserLayerImportResult {
+  const empty = { name: baseName(fileName), features: [], skipped: 0 };
+  let parsed: GeoJSON.GeoJSON;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ...empty, warnings: ['File is not valid JSON'] };
+  }
+  const items: GeoJSON.Feature[] =
+    parsed?.type === 'FeatureCollection' && Array.isArray(parsed.features) ? parsed.features
+    : parsed?.type === 'Feature' ? [parsed]
+    : parsed && typeof parsed === 'object' && 'type' in parsed ? [{ type: 'Feature', properties: {}, geometry: parsed as GeoJSON.Geometry }]
+    : [];
+
+  const features = items
+    .filter(item => validGeometry(item?.geometry))
+    .map(item => ({ type: 'Feature' as const, geometry: item.geometry, properties: flatten(item.properties) }));
+  const name = parsed && typeof parsed === 'object' && 'name' in parsed && typeof parsed.name === 'string' ? parsed.name : empty.name;
+  return {
+    name,
+    features,
+    skipped: items.length - features.length,
+    warnings: items.length ? [] : ['No features found'],
+  };
+}
+
+// Child elements by local name, so namespaced and prefixed documents both work
+function children(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter(child => child.localName === name);
+}
+
+function descendants(element: Element | Document, name: string): Element[] {
+  return Array.from(element.getElementsByTagNameNS('*', name));
+}
+
+function childText(element: Element, name: string): string | null {
+  const text = children(element, name)[0]?.textContent?.trim();
+  return text ? text : null;
+}
+
+function parseXml(text: string): Document | null {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  return document.getElementsByTagName('parsererror').length ? null : document;
+}
+
+function kmlCoordinates(element: Element): GeoJSON.Position[] {
+  const text = childText(element, 'coordinates') ?? '';
+  return text.split(/\s+/).filter(Boolean).map(tuple => tuple.split(',').slice(0, 2).map(Number));
+}
+
+function kmlGeometries(element: Element): GeoJSON.Geometry[] {
+  return Array.from(element.children).flatMap((child): GeoJSON.Geometry[] => {
+    switch (child.localName) {
+      case 'Point':
+        return [{ type: 'Point', coordinates: kmlCoordinates(child)[0] }];
+      case 'LineString':
+        return [{ type: 'LineString', coordinates: kmlCoordinates(child) }];
+      case 'Polygon': {
+        const ring = (boundary: Element) => children(boundary, 'LinearRing').flatMap(kmlCoordinates);
+        return [{
+          type: 'Polygon',
+          coordinates: [
+            ...children(child, 'outerBoundaryIs').map(ring),
+            ...children(child, 'innerBoundaryIs').map(ring),
+          ],
+        }];
+      }
+      case 'MultiGeometry':
+        return kmlGeometries(child);
+      default:
+        return [];
+    }
+  });
+}
+
+export function parseUserKml(fileName: string, text: string): UserLayerImportResult {
+  const document = parseXml(text);
+  if (!document) return { name: baseName(fileName), features: [], skipped: 0, warnings: ['File is not valid KML'] };
+
+  const placemarks = descendants(document, 'Placemark');
+  const features: UserFeature[] = [];
+  placemarks.forEach(placemark => {
+    const geometries = kmlGeometries(placemark).filter(validGeometry);
+    if (geometries.length === 0) return;
+    const properties: UserAttributes = { name: childText(placemark, 'name'), description: childText(placemark, 'description') };
+    descendants(placemark, 'Data').forEach(data => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = childText(data, 'value');
+    });
+    descendants(placemark, 'SimpleData').forEach(data => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = data.textContent?.trim() ?? null;
+    });
+    features.push({
+      type: 'Feature',
+      geometry: geometries.length === 1 ? geometries[0] : { type: 'GeometryCollection', geometries },
+      properties,
+    });
+  });
+
+  const documentName = descendants(document, 'Document')[0];
+  return {
+    name: (documentName && childText(documentName, 'name')) ?? baseName(fileName),
+    features,
+    skipped: placemarks.length - features.length,
+    warnings: placemarks.length ? [] : ['No placemarks found'],
+  };
+}
+
+function gpxPoint(point: Element): GeoJSON.Position {
+  return [Number(point.getAttribute('lon')), Number(point.getAttribute('lat'))];
+}
+
+function gpxProperties(element: Element, kind: string): UserAttributes {
+  const elevation = childText(element, 'ele');
+  return {
+    name: childText(element, 'name'),
+    description: childText(element, 'desc'),
+    type: childText(element, 'type') ?? kind,
+    ...(elevation !== null ? { elevationM: Number(elevation) } : {}),
+    ...(childText(element, 'time') ? { time: childText(element, 'time') } : {}),
+  };
+}
+
+// Waypoints as points, routes as lines and tracks as multi-lines (one per segment)
+export function parseUserGpx(fileName: string, text: string): UserLayerImportResult {
+  const document = parseXml(text);
+  if (!document) return { name: baseName(fileName), features: [], skipped: 0, warnings: ['File is not valid GPX'] };
+  const root = document.documentElement;
+
+  const candidates: UserFeature[] = [
+    ...children(root, 'wpt').map(waypoint => ({
+      type: 'Feature' as const,
+      geometry: { type: 'Point' as const, coordinates: gpxPoint(waypoint) },
+      properties: gpxProperties(waypoint, 'waypoint'),
+    })),
+    ...children(root, 'rte').map(route => ({
+      type: 'Feature' as const,
+      geometry: { type: 'LineString' as const, coordinates: children(route, 'rtept').map(gpxPoint) },
+      properties: gpxProperties(route, 'route'),
+    })),
+    ...children(root, 'trk').map(track => ({
+      type: 'Feature' as const,
+      geometry: {
+        type: 'MultiLineString' as const,
+        coordinates: children(track, 'trkseg').map(segment => children(segment, 'trkpt').map(gpxPoint)).filter(line => line.length > 1),
+      },
+      properties: gpxProperties(track, 'track'),
+    })),
+  ];
+  const features = candidates.filter(feature => validGeometry(feature.geometry));
+  const metadata = children(root, 'metadata')[0];
+
+  return {
+    name: (metadata && childText(metadata, 'name')) ?? baseName(fileName),
+    features,
+    skipped: candidates.length - features.length,
+    warnings: candidates.length ? [] : ['No waypoints, routes or tracks found'],
+  };
+}
+
+export function parseUserLayerFile(fileName: string, text: string): UserLayerImportResult {
+  if (/\.kml$/i.test(fileName)) return parseUserKml(fileName, text);
+  if (/\.gpx$/i.test(fileName)) return parseUserGpx(fileName, text);
+  return parseUserGeoJson(fileName, text);
+}
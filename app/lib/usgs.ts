@@ -0,0 +1,326 @@
+// USGS National Water Information System (NWIS) helpers shared by the
+// `/api/usgs/*` route handlers and the client components that consume them.
+
+// Parameter code 62614 = Lake or reservoir water surface elevation above NGVD 1929
+// Parameter code 00065 = Gage height, feet
+export const PARAM_LAKE_ELEVATION = '62614';
+export const PARAM_GAGE_HEIGHT = '00065';
+
+// Statistic code 00003 = daily mean
+export const STAT_DAILY_MEAN = '00003';
+
+export const NWIS_IV_URL = 'https://waterservices.usgs.gov/nwis/iv/';
+export const NWIS_DV_URL = 'https://waterservices.usgs.gov/nwis/dv/';
+export const NWIS_STAT_URL = 'https://waterservices.usgs.gov/nwis/stat/';
+
+export interface NwisValue {
+  dateTime: string;
+  value: number;
+  qualifiers: string[];
+}
+
+export interface NwisSeries {
+  parameterCode: string;
+  variableName: string;
+  unit: string;
+  values: NwisValue[];
+}
+
+// Normalized payload returned by `/api/usgs/iv` and `/api/usgs/dv`
+export interface NwisResponse {
+  siteId: string;
+  siteName: string;
+  series: NwisSeries[];
+  fetchedAt: string; // when the upstream NWIS request was made
+  cached: boolean; // true when served from the route's cache
+}
+
+export interface NwisQuery {
+  siteId: string;
+  parameterCodes: string[];
+  period?: string; // ISO-8601 duration, e.g. P7D
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  statisticCode?: string; // daily values only, e.g. 00003
+}
+
+// Day-of-year statistics for one parameter, computed by NWIS over the period of record
+export interface NwisDailyStat {
+  month: number; // 1-12
+  day: number; // 1-31
+  count: number; // years of record for this day
+  beginYear: number;
+  endYear: number;
+  min: number | null;
+  p10: number | null;
+  p25: number | null;
+  p50: number | null;
+  p75: number | null;
+  p90: number | null;
+  max: number | null;
+  mean: number | null;
+}
+
+// Normalized payload returned by `/api/usgs/stat`
+export interface NwisStatsResponse {
+  siteId: string;
+  parameterCode: string;
+  stats: NwisDailyStat[];
+  fetchedAt: string;
+  cached: boolean;
+}
+
+const SITE_ID_PATTERN = /^\d{8,15}$/;
+const PARAMETER_CODE_PATTERN = /^\d{5}$/;
+const PERIOD_PATTERN = /^P\d{1,4}D$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validate raw query string values, returning an error message or the parsed query
+export function parseNwisQuery(params: URLSearchParams): NwisQuery | { error: string } {
+  const siteId = params.get('siteId') ?? '';
+  if (!SITE_ID_PATTERN.test(siteId)) {
+    return { error: 'siteId must be an 8-15 digit USGS site number' };
+  }
+
+  const parameterCodes = (params.get('parameterCd') ?? PARAM_LAKE_ELEVATION)
+    .split(',')
+    .map(code => code.trim())
+    .filter(Boolean);
+  if (parameterCodes.length === 0 || !parameterCodes.every(code => PARAMETER_CODE_PATTERN.test(code))) {
+    return { error: 'parameterCd must be a comma-separated list of 5 digit parameter codes' };
+  }
+
+  const period = params.get('period') ?? undefined;
+  const startDate = params.get('startDT') ?? undefined;
+  const endDate = params.get('endDT') ?? undefined;
+
+  if (period && !PERIOD_PATTERN.test(period)) {
+    return { error: 'period must be an ISO-8601 day duration such as P7D' };
+  }
+  if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+    return { error: 'startDT and endDT must be formatted YYYY-MM-DD' };
+  }
+  if (period && startDate) {
+    return { error: 'Specify either period or startDT/endDT, not both' };
+  }
+
+  return { siteId, parameterCodes, period: period ?? (startDate ? undefined : 'P1D'), startDate, endDate };
+}
+
+// Build the upstream NWIS URL for a validated query
+export function buildNwisUrl(baseUrl: string, query: NwisQuery): string {
+  const params = new URLSearchParams({
+    format: 'json',
+    sites: query.siteId,
+    parameterCd: query.parameterCodes.join(','),
+  });
+  if (query.period) params.set('period', query.period);
+  if (query.startDate) params.set('startDT', query.startDate);
+  if (query.endDate) params.set('endDT', query.endDate);
+  if (query.statisticCode) params.set('statCd', query.statisticCode);
+  return `${baseUrl}?${params.toString()}`;
+}
+
+// Daily statistics are only published as tab-delimited RDB
+export function buildNwisStatUrl(siteId: string, parameterCode: string): string {
+  const params = new URLSearchParams({
+    format: 'rdb',
+    sites: siteId,
+    parameterCd: parameterCode,
+    statReportType: 'daily',
+    statTypeCd: 'all',
+  });
+  return `${NWIS_STAT_URL}?${params.toString()}`;
+}
+
+// Parse an RDB document: `#` comment lines, a header row, a column-format
+// row (e.g. `5s 15s 12n`), then tab-separated data rows
+export function parseRdb(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).filter(line => line && !line.startsWith('#'));
+  if (lines.length < 2) return [];
+
+  const headers = lines[0].split('\t');
+  return lines.slice(2).map((line) => {
+    const cells = line.split('\t');
+    return Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']));
+  });
+}
+
+function parseStatValue(raw: string | undefined): number | null {
+  if (!raw) return null;
+  const value = parseFloat(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Convert the NWIS daily statistics RDB into one entry per calendar day. A
+// site can report several time series for a parameter; the one with the
+// longest record wins.
+export function normalizeNwisDailyStats(
+  rdb: string,
+  siteId: string,
+  parameterCode: string,
+): Omit<NwisStatsResponse, 'fetchedAt' | 'cached'> {
+  const rows = parseRdb(rdb).filter(row => row.parameter_cd === parameterCode);
+  const recordLength = new Map<string, number>();
+  rows.forEach(row => recordLength.set(row.ts_id, (recordLength.get(row.ts_id) ?? 0) + (parseInt(row.count_nu, 10) || 0)));
+  const bestSeries = [...recordLength.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  const stats: NwisDailyStat[] = rows
+    .filter(row => row.ts_id === bestSeries)
+    .map(row => ({
+      month: parseInt(row.month_nu, 10),
+      day: parseInt(row.day_nu, 10),
+      count: parseInt(row.count_nu, 10) || 0,
+      beginYear: parseInt(row.begin_yr, 10),
+      endYear: parseInt(row.end_yr, 10),
+      min: parseStatValue(row.min_va),
+      p10: parseStatValue(row.p10_va),
+      p25: parseStatValue(row.p25_va),
+      p50: parseStatValue(row.p50_va),
+      p75: parseStatValue(row.p75_va),
+      p90: parseStatValue(row.p90_va),
+      max: parseStatValue(row.max_va),
+      mean: parseStatValue(row.mean_va),
+    }))
+    .filter(stat => stat.month >= 1 && stat.month <= 12 && stat.day >= 1 && stat.day <= 31);
+
+  return { siteId, parameterCode, stats };
+}
+
+// "MM-DD" key for a NWIS dateTime, read from the string so the site's local
+// date is kept regardless of the browser's timezone
+export function monthDayKey(dateTime: string): string {
+  return dateTime.slice(5, 10);
+}
+
+export function indexStatsByDay(stats: NwisDailyStat[]): Map<string, NwisDailyStat> {
+  return new Map(stats.map(stat => [
+    `${String(stat.month).padStart(2, '0')}-${String(stat.day).padStart(2, '0')}`,
+    stat,
+  ]));
+}
+
+// Estimate where a value falls within a day's historical distribution
+// (0 = record low, 100 = record high) by interpolating between published
+// percentiles. Returns null when the day has too few statistics.
+export function percentileRank(value: number, stat: NwisDailyStat): number | null {
+  const candidates: [number, number | null][] = [
+    [0, stat.min],
+    [10, stat.p10],
+    [25, stat.p25],
+    [50, stat.p50],
+    [75, stat.p75],
+    [90, stat.p90],
+    [100, stat.max],
+  ];
+  const points = candidates.filter((point): point is [number, number] => point[1] !== null);
+
+  if (points.length < 2) return null;
+  if (value <= points[0][1]) return points[0][0];
+  if (value >= points[points.length - 1][1]) return points[points.length - 1][0];
+
+  for (let i = 1; i < points.length; i++) {
+    const [p0, v0] = points[i - 1];
+    const [p1, v1] = points[i];
+    if (value <= v1) {
+      return v1 === v0 ? p1 : p0 + ((value - v0) / (v1 - v0)) * (p1 - p0);
+    }
+  }
+  return null;
+}
+
+// Subset of the WaterML-JSON structure returned by NWIS that we read
+interface RawTimeSeries {
+  sourceInfo?: { siteName?: string };
+  variable?: {
+    variableCode?: { value?: string }[];
+    variableName?: string;
+    unit?: { unitCode?: string };
+    noDataValue?: number | null;
+  };
+  values?: { value?: { value: string; dateTime: string; qualifiers?: string[] }[] }[];
+}
+
+// Flatten a WaterML-JSON response into one series per parameter code,
+// dropping no-data sentinels and unparseable values
+export function normalizeNwisResponse(
+  json: { value?: { timeSeries?: RawTimeSeries[] } },
+  siteId: string,
+): Omit<NwisResponse, 'fetchedAt' | 'cached'> {
+  const timeSeries = json.value?.timeSeries ?? [];
+  let siteName = '';
+
+  const series: NwisSeries[] = timeSeries.map((ts) => {
+    siteName = siteName || ts.sourceInfo?.siteName || '';
+    const noDataValue = ts.variable?.noDataValue ?? null;
+    const rawValues = ts.values?.[0]?.value ?? [];
+
+    const values: NwisValue[] = rawValues
+      .map(v => ({
+        dateTime: v.dateTime,
+        value: parseFloat(v.value),
+        qualifiers: v.qualifiers ?? [],
+      }))
+      .filter(v => Number.isFinite(v.value) && v.value !== noDataValue);
+
+    return {
+      parameterCode: ts.variable?.variableCode?.[0]?.value ?? '',
+      variableName: ts.variable?.variableName ?? '',
+      unit: ts.variable?.unit?.unitCode ?? '',
+      values,
+    };
+  });
+
+  return { siteId, siteName, series };
+}
+
+// Find a parameter's series in a normalized response, ignoring empty ones
+export function findSeries(response: NwisResponse, parameterCode: string): NwisSeries | undefined {
+  return response.series.find(s => s.parameterCode === parameterCode && s.values.length > 0);
+}
+
+async function fetchFromProxy<T>(path: string, params: URLSearchParams): Promise<T> {
+  const response = await fetch(`${path}?${params.toString()}`, {
+    headers: { 'Accept': 'application/json' },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `USGS request failed (${response.status})`);
+  }
+
+  return response.json();
+}
+
+function buildProxyParams(query: Omit<NwisQuery, 'parameterCodes'> & { parameterCodes?: string[] }): URLSearchParams {
+  const params = new URLSearchParams({
+    siteId: query.siteId,
+    parameterCd: (query.parameterCodes ?? [PARAM_LAKE_ELEVATION]).join(','),
+  });
+  if (query.period) params.set('period', query.period);
+  if (query.startDate) params.set('startDT', query.startDate);
+  if (query.endDate) params.set('endDT', query.endDate);
+  return params;
+}
+
+// Client-side helper for the `/api/usgs/iv` proxy route
+export async function fetchInstantaneousValues(
+  query: Omit<NwisQuery, 'parameterCodes'> & { parameterCodes?: string[] },
+): Promise<NwisResponse> {
+  return fetchFromProxy('/api/usgs/iv', buildProxyParams(query));
+}
+
+// Client-side helper for the `/api/usgs/dv` proxy route (daily means)
+export async function fetchDailyValues(
+  query: Omit<NwisQuery, 'parameterCodes' | 'statisticCode'> & { parameterCodes?: string[] },
+): Promise<NwisResponse> {
+  return fetchFromProxy('/api/usgs/dv', buildProxyParams(query));
+}
+
+// Client-side helper for the `/api/usgs/stat` proxy route
+export async function fetchDailyStatistics(
+  siteId: string,
+  parameterCode: string = PARAM_LAKE_ELEVATION,
+): Promise<NwisStatsResponse> {
+  return fetchFromProxy('/api/usgs/stat', new URLSearchParams({ siteId, parameterCd: parameterCode }));
+}
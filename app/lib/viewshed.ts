@@ -0,0 +1,144 @@
+import type { LngLat } from './lakes';
+
+// Viewshed: which ground around an observer is in direct line of sight,
+// computed on a square grid sampled from the loaded DEM or basemap terrain.
+// Lines of sight account for earth curvature and standard refraction.
+
+export interface Viewshed {
+  observer: LngLat;
+  observerHeight: number; // feet above ground
+  groundElevation: number; // feet at the observer
+  radiusMeters: number;
+  cells: Uint8Array; // 0 no data or outside the radius, 1 hidden, 2 visible; row-major from the north-west
+  width: number;
+  height: number;
+  corners: [LngLat, LngLat, LngLat, LngLat]; // image placement: TL, TR, BR, BL
+  visibleAcres: number;
+  hiddenAcres: number;
+  coverage: number; // share of cells inside the radius with an elevation
+}
+
+const GRID_SIZE = 201; // odd, so the observer sits at the center cell
+const FEET_PER_METER = 3.28084;
+const SQ_METERS_PER_ACRE = 4046.8564224;
+const METERS_PER_DEGREE_LAT = 110574;
+const METERS_PER_DEGREE_LNG = 111320;
+const EARTH_RADIUS_M = 6371008.8;
+const REFRACTION_COEFFICIENT = 0.13;
+
+// Elevation lookup in feet; null where the source has no data
+export type ElevationSource = (position: LngLat) => number | null;
+
+export function computeViewshed(
+  observer: LngLat,
+  observerHeight: number,
+  radiusMeters: number,
+  elevationAt: ElevationSource,
+): Viewshed | null {
+  const center = (GRID_SIZE - 1) / 2;
+  const cellMeters = 2 * radiusMeters / GRID_SIZE;
+  const metersPerDegreeLng = METERS_PER_DEGREE_LNG * Math.cos(observer[1] * Math.PI / 180);
+  const cellToLngLat = (col: number, row: number): LngLat => [
+    observer[0] + (col - center) * cellMeters / metersPerDegreeLng,
+    observer[1] - (row - center) * cellMeters / METERS_PER_DEGREE_LAT,
+  ];
+
+  // Sample the grid, dropping curvature and refraction into the elevations
+  const elevations = new Float32Array(GRID_SIZE * GRID_SIZE).fill(NaN);
+  let inRadius = 0;
+  let known = 0;
+  for (let row = 0; row < GRID_SIZE; row++) {
+    for (let col = 0; col < GRID_SIZE; col++) {
+      const distance = Math.hypot(col - center, row - center) * cellMeters;
+      if (distance > radiusMeters) continue;
+      inRadius++;
+      const elevation = elevationAt(cellToLngLat(col, row));
+      if (elevation === null || !Number.isFinite(elevation)) continue;
+      known++;
+      const drop = distance * distance / (2 * EARTH_RADIUS_M) * (1 - REFRACTION_COEFFICIENT) * FEET_PER_METER;
+      elevations[row * GRID_SIZE + col] = elevation - drop;
+    }
+  }
+
+  const groundElevation = elevations[center * GRID_SIZE + center];
+  if (Number.isNaN(groundElevation)) return null;
+  const eye = groundElevation + observerHeight;
+
+  // March from the observer to each cell; it is visible when nothing in
+  // between rises above the sight line
+  const cells = new Uint8Array(GRID_SIZE * GRID_SIZE);
+  let visibleCount = 0;
+  let hiddenCount = 0;
+  for (let row = 0; row < GRID_SIZE; row++) {
+    for (let col = 0; col < GRID_SIZE; col++) {
+      const target = elevations[row * GRID_SIZE + col];
+      if (Number.isNaN(target)) continue;
+      const dx = col - center;
+      const dy = row - center;
+      const steps = Math.max(Math.abs(dx), Math.abs(dy));
+      if (steps === 0) {
+        cells[row * GRID_SIZE + col] = 2;
+        visibleCount++;
+        continue;
+      }
+
+      const targetSlope = (target - eye) / steps;
+      let visible = true;
+      for (let step = 1; step < steps; step++) {
+        const sample = elevations[
+          Math.round(center + dy * step / steps) * GRID_SIZE + Math.round(center + dx * step / steps)
+        ];
+        if (!Number.isNaN(sample) && (sample - eye) / step > targetSlope) {
+          visible = false;
+          break;
+        }
+      }
+      cells[row * GRID_SIZE + col] = visible ? 2 : 1;
+      if (visible) visibleCount++;
+      else hiddenCount++;
+    }
+  }
+
+  const cellAcres = cellMeters * cellMeters / SQ_METERS_PER_ACRE;
+  return {
+    observer,
+    observerHeight,
+    groundElevation,
+    radiusMeters,
+    cells,
+    width: GRID_SIZE,
+    height: GRID_SIZE,
+    corners: [
+      cellToLngLat(-0.5, -0.5),
+      cellToLngLat(GRID_SIZE - 0.5, -0.5),
+      cellToLngLat(GRID_SIZE - 0.5, GRID_SIZE - 0.5),
+      cellToLngLat(-0.5, GRID_SIZE - 0.5),
+    ],
+    visibleAcres: visibleCount * cellAcres,
+    hiddenAcres: hiddenCount * cellAcres,
+    coverage: inRadius > 0 ? known / inRadius : 0,
+  };
+}
+
+export const VIEWSHED_COLORS = {
+  visible: [34, 197, 94] as [number, number, number],
+  hidden: [239, 68, 68] as [number, number, number],
+};
+
+// PNG data URL shading visible and hidden ground, transparent elsewhere
+export function renderViewshedImage(viewshed: Viewshed): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = viewshed.width;
+  canvas.height = viewshed.height;
+  const context = canvas.getContext('2d');
+  if (!context) return '';
+
+  const image = context.createImageData(viewshed.width, viewshed.height);
+  viewshed.cells.forEach((cell, i) => {
+    if (cell === 0) return;
+    const [r, g, b] = cell === 2 ? VIEWSHED_COLORS.visible : VIEWSHED_COLORS.hidden;
+    image.data.set([r, g, b, 140], i * 4);
+  });
+  context.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+}
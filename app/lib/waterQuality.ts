@@ -0,0 +1,260 @@
+import { parseCsvRecords } from './csv';
+
+// Water quality grab samples imported from Water Quality Exchange (WQX) style
+// CSV files, e.g. result downloads from the Water Quality Portal. Values are
+// converted to the units the dashboard displays on import.
+
+export type WaterQualityParameter =
+  | 'ph'
+  | 'dissolvedOxygen'
+  | 'turbidity'
+  | 'temperature'
+  | 'conductivity'
+  | 'chlorophyll'
+  | 'secchiDepth'
+  | 'totalPhosphorus';
+
+export interface WaterQualityParameterInfo {
+  label: string;
+  unit: string; // canonical unit values are stored in
+  scaleMax: number; // full width of the dashboard progress bar
+}
+
+export const WATER_QUALITY_PARAMETERS: Record<WaterQualityParameter, WaterQualityParameterInfo> = {
+  ph: { label: 'pH Level', unit: '', scaleMax: 14 },
+  dissolvedOxygen: { label: 'Dissolved O₂', unit: 'mg/L', scaleMax: 15 },
+  turbidity: { label: 'Turbidity', unit: 'NTU', scaleMax: 100 },
+  temperature: { label: 'Temperature', unit: '°F', scaleMax: 100 },
+  conductivity: { label: 'Conductivity', unit: 'µS/cm', scaleMax: 500 },
+  chlorophyll: { label: 'Chlorophyll-a', unit: 'µg/L', scaleMax: 20 },
+  secchiDepth: { label: 'Secchi Depth (Clarity)', unit: 'ft', scaleMax: 15 },
+  totalPhosphorus: { label: 'Total Phosphorus', unit: 'µg/L', scaleMax: 100 },
+};
+
+// A reading with its unit: pH to one decimal, everything else to at most one
+export function formatReading(parameter: WaterQualityParameter, value: number): string {
+  const { unit } = WATER_QUALITY_PARAMETERS[parameter];
+  const rounded = parameter === 'ph' ? value.toFixed(1) : String(Math.round(value * 10) / 10);
+  return unit ? `${rounded} ${unit}` : rounded;
+}
+
+// Date-only values are local calendar days, not UTC midnight
+export function formatSampleDate(sampledAt: string): string {
+  return new Date(sampledAt.length === 10 ? `${sampledAt}T00:00:00` : sampledAt)
+    .toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export interface WaterQualitySample {
+  stationId: string;
+  stationName: string;
+  parameter: WaterQualityParameter;
+  value: number; // in the parameter's canonical unit
+  depthFt: number | null; // sample depth below surface; null for profile-less measures like Secchi
+  sampledAt: string; // local ISO date or date-time as recorded, e.g. 2024-06-12T09:30:00
+}
+
+// All samples for one station, parameter and depth, oldest first
+export interface WaterQualitySeries {
+  key: string;
+  stationId: string;
+  stationName: string;
+  parameter: WaterQualityParameter;
+  depthFt: number | null;
+  samples: WaterQualitySample[];
+}
+
+export interface WqxImportResult {
+  samples: WaterQualitySample[];
+  skipped: number;
+  warnings: string[];
+}
+
+// WQX CharacteristicName values (lowercased) mapped to dashboard parameters
+const CHARACTERISTIC_NAMES: Record<string, WaterQualityParameter> = {
+  'ph': 'ph',
+  'dissolved oxygen (do)': 'dissolvedOxygen',
+  'dissolved oxygen': 'dissolvedOxygen',
+  'turbidity': 'turbidity',
+  'temperature, water': 'temperature',
+  'specific conductance': 'conductivity',
+  'conductivity': 'conductivity',
+  'chlorophyll a': 'chlorophyll',
+  'chlorophyll a, corrected for pheophytin': 'chlorophyll',
+  'chlorophyll a, uncorrected for pheophytin': 'chlorophyll',
+  'depth, secchi disk depth': 'secchiDepth',
+  'secchi depth': 'secchiDepth',
+  'phosphorus': 'totalPhosphorus',
+  'total phosphorus, mixed forms': 'totalPhosphorus',
+};
+
+// Multipliers from a reported unit (lowercased, spaces removed) to the canonical unit
+const UNIT_FACTORS: Record<WaterQualityParameter, Record<string, number>> = {
+  ph: { '': 1, 'none': 1, 'stdunits': 1, 'su': 1 },
+  dissolvedOxygen: { 'mg/l': 1, 'ppm': 1 },
+  turbidity: { 'ntu': 1, 'fnu': 1, 'ntru': 1 },
+  temperature: {}, // handled separately, Celsius needs an offset
+  conductivity: { 'us/cm': 1, 'umho/cm': 1, 'us/cm@25c': 1, 'ms/cm': 1000 },
+  chlorophyll: { 'ug/l': 1, 'µg/l': 1, 'mg/m3': 1, 'mg/l': 1000 },
+  secchiDepth: { 'ft': 1, 'm': 3.28084, 'cm': 1 / 30.48, 'in': 1 / 12 },
+  totalPhosphorus: { 'ug/l': 1, 'µg/l': 1, 'mg/l': 1000, 'mg/lasp': 1000, 'ug/lasp': 1 },
+};
+
+const DEPTH_FACTORS: Record<string, number> = { 'ft': 1, 'm': 3.28084, 'cm': 1 / 30.48, 'in': 1 / 12 };
+
+function normalizeUnit(unit: string): string {
+  return unit.toLowerCase().replace(/\s+/g, '');
+}
+
+function convertValue(parameter: WaterQualityParameter, value: number, unit: string): number | null {
+  const u = normalizeUnit(unit);
+  if (parameter === 'temperature') {
+    if (u === 'degc' || u === 'c') return value * 9 / 5 + 32;
+    if (u === 'degf' || u === 'f') return value;
+    return null;
+  }
+  const factor = UNIT_FACTORS[parameter][u];
+  return factor === undefined ? null : value * factor;
+}
+
+// First non-empty column among WQX naming variants
+function column(record: Record<string, string>, ...names: string[]): string {
+  for (const name of names) {
+    if (record[name]) return record[name];
+  }
+  return '';
+}
+
+export function parseWqxCsv(text: string): WqxImportResult {
+  const records = parseCsvRecords(text);
+  const samples: WaterQualitySample[] = [];
+  const warnings = new Set<string>();
+  let skipped = 0;
+
+  if (records.length > 0 && !('CharacteristicName' in records[0])) {
+    return { samples, skipped: records.length, warnings: ['Missing CharacteristicName column - is this a WQX result file?'] };
+  }
+
+  records.forEach((record) => {
+    const characteristic = record.CharacteristicName.toLowerCase();
+    const parameter = CHARACTERISTIC_NAMES[characteristic];
+    if (!parameter) {
+      skipped++;
+      return;
+    }
+
+    // Only total phosphorus is meaningful for trophic state
+    const fraction = record.ResultSampleFractionText?.toLowerCase() ?? '';
+    if (parameter === 'totalPhosphorus' && fraction && fraction !== 'total') {
+      skipped++;
+      return;
+    }
+
+    const rawValue = parseFloat(column(record, 'ResultMeasureValue', 'Result'));
+    const stationId = column(record, 'MonitoringLocationIdentifier', 'StationId');
+    const date = column(record, 'ActivityStartDate', 'SampleDate');
+    if (!Number.isFinite(rawValue) || !stationId || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      skipped++;
+      return;
+    }
+
+    const unit = column(record, 'ResultMeasure/MeasureUnitCode', 'Unit');
+    const value = convertValue(parameter, rawValue, unit);
+    if (value === null) {
+      warnings.add(`Unsupported unit "${unit}" for ${record.CharacteristicName}`);
+      skipped++;
+      return;
+    }
+
+    let depthFt: number | null = null;
+    const rawDepth = parseFloat(column(record, 'ActivityDepthHeightMeasure/MeasureValue', 'ResultDepthHeightMeasure/MeasureValue'));
+    if (Number.isFinite(rawDepth) && parameter !== 'secchiDepth') {
+      const depthUnit = normalizeUnit(column(record, 'ActivityDepthHeightMeasure/MeasureUnitCode', 'ResultDepthHeightMeasure/MeasureUnitCode') || 'ft');
+      const factor = DEPTH_FACTORS[depthUnit];
+      if (factor === undefined) {
+        warnings.add(`Unsupported depth unit "${depthUnit}"`);
+      } else {
+        depthFt = Math.round(rawDepth * factor * 10) / 10;
+      }
+    }
+
+    const time = column(record, 'ActivityStartTime/Time', 'SampleTime');
+    samples.push({
+      stationId,
+      stationName: column(record, 'MonitoringLocationName') || stationId,
+      parameter,
+      value: Math.round(value * 1000) / 1000,
+      depthFt,
+      sampledAt: /^\d{2}:\d{2}(:\d{2})?$/.test(time) ? `${date}T${time}` : date,
+    });
+  });
+
+  return { samples, skipped, warnings: [...warnings] };
+}
+
+function seriesKey(sample: Pick<WaterQualitySample, 'stationId' | 'parameter' | 'depthFt'>): string {
+  return `${sample.stationId}|${sample.parameter}|${sample.depthFt ?? 'na'}`;
+}
+
+// Combine previously stored samples with a new import; a re-imported sample
+// (same station, parameter, depth and time) replaces the stored one
+export function mergeSamples(existing: WaterQualitySample[], incoming: WaterQualitySample[]): WaterQualitySample[] {
+  const byKey = new Map<string, WaterQualitySample>();
+  [...existing, ...incoming].forEach(sample => byKey.set(`${seriesKey(sample)}|${sample.sampledAt}`, sample));
+  return [...byKey.values()];
+}
+
+export function buildSeries(samples: WaterQualitySample[]): WaterQualitySeries[] {
+  const groups = new Map<string, WaterQualitySeries>();
+  samples.forEach((sample) => {
+    const key = seriesKey(sample);
+    let series = groups.get(key);
+    if (!series) {
+      series = {
+        key,
+        stationId: sample.stationId,
+        stationName: sample.stationName,
+        parameter: sample.parameter,
+        depthFt: sample.depthFt,
+        samples: [],
+      };
+      groups.set(key, series);
+    }
+    series.samples.push(sample);
+  });
+
+  groups.forEach(series => series.samples.sort((a, b) => a.sampledAt.localeCompare(b.sampledAt)));
+  return [...groups.values()];
+}
+
+export function listStations(samples: WaterQualitySample[]): { id: string; name: string }[] {
+  const stations = new Map<string, string>();
+  samples.forEach(sample => stations.set(sample.stationId, sample.stationName));
+  return [...stations.entries()]
+    .map(([id, name]) => ({ id, name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// For each parameter, the series with the most recent sample (shallowest
+// depth on ties), optionally limited to one station
+export function latestSeriesByParameter(
+  samples: WaterQualitySample[],
+  stationId?: string,
+): Partial<Record<WaterQualityParameter, WaterQualitySeries>> {
+  const result: Partial<Record<WaterQualityParameter, WaterQualitySeries>> = {};
+
+  buildSeries(stationId ? samples.filter(s => s.stationId === stationId) : samples).forEach((series) => {
+    const current = result[series.parameter];
+    if (!current) {
+      result[series.parameter] = series;
+      return;
+    }
+    const latest = series.samples[series.samples.length - 1].sampledAt;
+    const currentLatest = current.samples[current.samples.length - 1].sampledAt;
+    const shallower = (series.depthFt ?? 0) < (current.depthFt ?? 0);
+    if (latest > currentLatest || (latest === currentLatest && shallower)) {
+      result[series.parameter] = series;
+    }
+  });
+
+  return result;
+}
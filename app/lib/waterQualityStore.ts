@@ -0,0 +1,20 @@
+import { useCallback } from 'react';
+import { createPersistentStore } from './localStore';
+import { WaterQualitySample, mergeSamples } from './waterQuality';
+
+// Imported water quality samples, persisted in local storage per lake
+
+const EMPTY: WaterQualitySample[] = [];
+const store = createPersistentStore<WaterQualitySample[]>('lakescope:water-quality:', EMPTY);
+
+export function useWaterQualitySamples(lakeSlug: string) {
+  const samples = store.useValue(lakeSlug);
+
+  const addSamples = useCallback((incoming: WaterQualitySample[]) => {
+    store.set(lakeSlug, mergeSamples(store.get(lakeSlug), incoming));
+  }, [lakeSlug]);
+
+  const clearSamples = useCallback(() => store.set(lakeSlug, EMPTY), [lakeSlug]);
+
+  return { samples, addSamples, clearSamples };
+}
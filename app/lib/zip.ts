@@ -0,0 +1,94 @@
+// Minimal ZIP writer for KMZ and zipped Shapefile exports. Entries are
+// deflated with the browser's CompressionStream where it is available and
+// stored otherwise; every GIS tool and unzip utility reads both.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  bytes.forEach(byte => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// MS-DOS date and time fields, local time with two-second resolution
+function dosDateTime(date: Date): [number, number] {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return [time, day];
+}
+
+export async function createZip(entries: ZipEntry[], modified = new Date()): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const [time, day] = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const deflated = await deflate(data);
+    const compressed = deflated && deflated.length < data.length ? deflated : null;
+    const body = compressed ?? data;
+    const crc = crc32(data);
+
+    // Fields shared by the local header (from offset 4) and the central
+    // directory record (from offset 6)
+    const common = new Uint8Array(26);
+    const view = new DataView(common.buffer);
+    view.setUint16(0, 20, true); // version needed: 2.0
+    view.setUint16(2, 0x0800, true); // UTF-8 file names
+    view.setUint16(4, compressed ? 8 : 0, true);
+    view.setUint16(6, time, true);
+    view.setUint16(8, day, true);
+    view.setUint32(10, crc, true);
+    view.setUint32(14, body.length, true);
+    view.setUint32(18, data.length, true);
+    view.setUint16(22, name.length, true);
+
+    const local = new Uint8Array(30 + name.length);
+    new DataView(local.buffer).setUint32(0, 0x04034b50, true);
+    local.set(common, 4);
+    local.set(name, 30);
+    parts.push(local, body);
+
+    const record = new Uint8Array(46 + name.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, 0x02014b50, true);
+    recordView.setUint16(4, 20, true); // version made by
+    record.set(common, 6);
+    recordView.setUint32(42, offset, true);
+    record.set(name, 46);
+    directory.push(record);
+
+    offset += local.length + body.length;
+  }
+
+  const directorySize = directory.reduce((sum, record) => sum + record.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end] as BlobPart[], { type: 'application/zip' });
+}
@@ -1,1236 +1,16 @@
-'use client';
-
-import React, { useState, useEffect, useCallback } from 'react';
-import dynamic from 'next/dynamic';
-import { MapPin, Layers, TrendingUp, Building2, Droplets, Fish, TreePine, Mountain, Info, Download, Settings, BarChart3, Map, Navigation, Ruler, AlertTriangle, Sun, Wind, Activity, Database, FileText, Camera, Share2, Bookmark, Search, Eye, Globe, LayoutGrid, Anchor, Tent } from 'lucide-react';
-
-// Dynamically import the map component to avoid SSR issues with Mapbox
-const LakeMap = dynamic(() => import('./components/LakeMapMapbox'), {
-  ssr: false,
-  loading: () => (
-    <div className="w-full h-full flex items-center justify-center bg-slate-900">
-      <div className="text-emerald-400 flex items-center gap-2">
-        <div className="w-6 h-6 border-2 border-emerald-400 border-t-transparent rounded-full animate-spin" />
-        Loading interactive map...
-      </div>
-    </div>
-  ),
-});
-
-// Dynamically import USGS data component
-const USGSWaterData = dynamic(() => import('./components/USGSWaterData'), {
-  ssr: false,
-  loading: () => (
-    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-      <div className="text-slate-400 text-sm animate-pulse">Loading water data...</div>
-    </div>
-  ),
-});
-
-// Dynamically import Weather widget
-const WeatherWidget = dynamic(() => import('./components/WeatherWidget'), {
-  ssr: false,
-  loading: () => (
-    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-      <div className="text-slate-400 text-sm animate-pulse">Loading weather...</div>
-    </div>
-  ),
-});
-
-// Dynamically import Historical Water Level Chart
-const WaterLevelChart = dynamic(() => import('./components/WaterLevelChart'), {
-  ssr: false,
-  loading: () => (
-    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-      <div className="text-slate-400 text-sm animate-pulse">Loading chart...</div>
-    </div>
-  ),
-});
-
-// Dynamically import Fish Activity Index
-const FishActivityIndex = dynamic(() => import('./components/FishActivityIndex'), {
-  ssr: false,
-  loading: () => (
-    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-      <div className="text-slate-400 text-sm animate-pulse">Loading fishing data...</div>
-    </div>
-  ),
-});
-
-// Dynamically import Boat Ramp Status
-const BoatRampStatus = dynamic(() => import('./components/BoatRampStatus'), {
-  ssr: false,
-  loading: () => (
-    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-      <div className="text-slate-400 text-sm animate-pulse">Loading boat ramps...</div>
-    </div>
-  ),
-});
-
-// Dynamically import Recreation Planner
-const RecreationPlanner = dynamic(() => import('./components/RecreationPlanner'), {
-  ssr: false,
-  loading: () => (
-    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-      <div className="text-slate-400 text-sm animate-pulse">Loading planner...</div>
-    </div>
-  ),
-});
-
-// Sardis Lake Data
-const SARDIS_LAKE_DATA = {
-  name: "Sardis Lake",
-  state: "Oklahoma",
-  county: "Pushmataha/Latimer",
-  coordinates: { lat: 34.6619, lng: -95.3890 },
-  normalPoolElevation: 599, // feet above sea level
-  floodStageElevation: 607,
-  streamBedElevation: 530,
-  topOfDamElevation: 631,
-  surfaceArea: 14360, // acres
-  shorelineLength: 117, // miles
-  maxDepth: 55.2, // feet
-  volume: 274330, // acre-feet
-  drainageArea: 275, // square miles
-  yearCreated: 1982,
-  managedBy: "U.S. Army Corps of Engineers",
-  primaryPurpose: "Water Supply",
-  tributaries: ["Jackfork Creek"],
-  basin: "Kiamichi Basin",
-  usgsSiteId: "07335700", // USGS monitoring site for Sardis Lake
-};
-
-// Elevation contour data (simulated)
-const ELEVATION_CONTOURS = [
-  { elevation: 530, color: '#1a365d', label: 'Streambed', depth: 69 },
-  { elevation: 545, color: '#2c5282', label: 'Deep', depth: 54 },
-  { elevation: 560, color: '#2b6cb0', label: 'Mid-Deep', depth: 39 },
-  { elevation: 575, color: '#3182ce', label: 'Mid', depth: 24 },
-  { elevation: 585, color: '#4299e1', label: 'Shallow', depth: 14 },
-  { elevation: 595, color: '#63b3ed', label: 'Very Shallow', depth: 4 },
-  { elevation: 599, color: '#90cdf4', label: 'Normal Pool', depth: 0 },
-  { elevation: 607, color: '#ffc107', label: 'Flood Stage', depth: -8 },
-  { elevation: 620, color: '#ff9800', label: 'High Flood', depth: -21 },
-  { elevation: 631, color: '#f44336', label: 'Dam Crest', depth: -32 },
-];
-
-// Land use zones
-const LAND_USE_ZONES = [
-  { id: 'conservation', name: 'Conservation Area', acres: 8435, color: '#2d6a4f' },
-  { id: 'recreation', name: 'Recreation Zone', acres: 2100, color: '#40916c' },
-  { id: 'campground', name: 'Campgrounds', acres: 450, color: '#52b788' },
-  { id: 'wildlife', name: 'Wildlife Habitat', acres: 3500, color: '#74c69d' },
-  { id: 'buffer', name: 'Buffer Zone', acres: 1200, color: '#95d5b2' },
-];
-
-// Economic indicators
-const ECONOMIC_DATA = {
-  annualVisitors: 425000,
-  economicImpact: 28.5, // millions
-  directJobs: 145,
-  indirectJobs: 380,
-  propertyTaxRevenue: 2.4, // millions
-  waterContractValue: 12.8, // millions per year
-  recreationRevenue: 4.2, // millions
-  averagePropertyValue: 185000,
-  propertyValueGrowth: 4.2, // percent annually
-};
-
-// Water quality data
-const WATER_QUALITY = {
-  ph: 7.4,
-  dissolvedOxygen: 8.2,
-  turbidity: 12,
-  temperature: 68,
-  conductivity: 245,
-  chlorophyll: 4.8,
-  secchiDepth: 8.5,
-  rating: 'Good'
-};
-
-export default function LakeAnalysisPlatform() {
-  const [activeTab, setActiveTab] = useState('overview');
-  const [selectedElevation, setSelectedElevation] = useState(599);
-  const [showContours, setShowContours] = useState(true);
-  const [showZones, setShowZones] = useState(false);
-  const [analysisMode, setAnalysisMode] = useState<string | null>(null);
-  const [selectedZone, setSelectedZone] = useState<string | null>(null);
-  const [floodLevel, setFloodLevel] = useState(599);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [bookmarks, setBookmarks] = useState<Array<{id: string, name: string, tab: string, elevation: number}>>([]);
-  const [showHelp, setShowHelp] = useState(false);
-
-  // Export functions
-  const exportToPDF = () => {
-    alert('PDF Export: This would generate a comprehensive report with all lake data, visualizations, and analysis. In a production app, this would use a library like jsPDF or react-pdf.');
-  };
-
-  const exportToCSV = () => {
-    const csvData = [
-      ['Metric', 'Value', 'Unit'],
-      ['Surface Area', SARDIS_LAKE_DATA.surfaceArea, 'acres'],
-      ['Shoreline', SARDIS_LAKE_DATA.shorelineLength, 'miles'],
-      ['Max Depth', SARDIS_LAKE_DATA.maxDepth, 'feet'],
-      ['Volume', SARDIS_LAKE_DATA.volume, 'acre-feet'],
-      ['Normal Pool Elevation', SARDIS_LAKE_DATA.normalPoolElevation, 'feet'],
-      ['Annual Visitors', ECONOMIC_DATA.annualVisitors, 'visitors'],
-      ['Economic Impact', ECONOMIC_DATA.economicImpact, 'millions USD'],
-    ];
-    
-    const csv = csvData.map(row => row.join(',')).join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `sardis-lake-data-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
-  };
-
-  const exportToGeoJSON = () => {
-    const geoJSON = {
-      type: 'FeatureCollection',
-      features: [
-        {
-          type: 'Feature',
-          properties: {
-            name: SARDIS_LAKE_DATA.name,
-            state: SARDIS_LAKE_DATA.state,
-            surfaceArea: SARDIS_LAKE_DATA.surfaceArea,
-            elevation: SARDIS_LAKE_DATA.normalPoolElevation,
-          },
-          geometry: {
-            type: 'Point',
-            coordinates: [SARDIS_LAKE_DATA.coordinates.lng, SARDIS_LAKE_DATA.coordinates.lat]
-          }
-        }
-      ]
-    };
-    
-    const blob = new Blob([JSON.stringify(geoJSON, null, 2)], { type: 'application/json' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'sardis-lake.geojson';
-    a.click();
-    window.URL.revokeObjectURL(url);
-  };
-
-  const screenshotMap = () => {
-    // For Mapbox GL JS, we need to use the map's getCanvas method
-    // This is a simplified version that alerts the user about using the built-in fullscreen + screenshot
-    alert('To capture the map:\n\n1. Click the fullscreen button on the map\n2. Use your browser\'s screenshot feature (Print Screen or Cmd+Shift+4)\n\nAlternatively, right-click on the map and select "Save image as..." if available.');
-  };
-
-  const generateShareLink = () => {
-    const params = new URLSearchParams({
-      tab: activeTab,
-      elevation: selectedElevation.toString(),
-      floodLevel: floodLevel.toString(),
-      contours: showContours.toString(),
-      zones: showZones.toString(),
-    });
-    const shareUrl = `${window.location.origin}?${params.toString()}`;
-    navigator.clipboard.writeText(shareUrl);
-    alert(`Share link copied to clipboard!\n\n${shareUrl}`);
-  };
-
-  const saveCurrentView = () => {
-    const viewName = prompt('Enter a name for this bookmark:');
-    if (!viewName) return;
-    
-    const newBookmark = {
-      id: Date.now().toString(),
-      name: viewName,
-      tab: activeTab,
-      elevation: selectedElevation,
-    };
-    
-    setBookmarks([...bookmarks, newBookmark]);
-    alert(`Bookmark "${viewName}" saved! Total bookmarks: ${bookmarks.length + 1}`);
-  };
-
-  // Keyboard shortcuts
-  useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      // Don't trigger if user is typing in an input
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
-        return;
-      }
-
-      switch(e.key.toLowerCase()) {
-        case '?':
-          e.preventDefault();
-          setShowHelp(!showHelp);
-          break;
-        case '1':
-          e.preventDefault();
-          setActiveTab('overview');
-          break;
-        case '2':
-          e.preventDefault();
-          setActiveTab('elevation');
-          break;
-        case '3':
-          e.preventDefault();
-          setActiveTab('economic');
-          break;
-        case '4':
-          e.preventDefault();
-          setActiveTab('planning');
-          break;
-        case '5':
-          e.preventDefault();
-          setActiveTab('water');
-          break;
-        case '6':
-          e.preventDefault();
-          setActiveTab('analysis');
-          break;
-        case 'e':
-          if (e.ctrlKey || e.metaKey) {
-            e.preventDefault();
-            exportToCSV();
-          }
-          break;
-        case 's':
-          if (e.ctrlKey || e.metaKey) {
-            e.preventDefault();
-            saveCurrentView();
-          }
-          break;
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [showHelp]);
-
-  // Calculate flood impact
-  const calculateFloodImpact = useCallback((elevation: number) => {
-    const normalPool = SARDIS_LAKE_DATA.normalPoolElevation;
-    const difference = elevation - normalPool;
-    const additionalAcres = difference > 0 ? Math.round(difference * 180) : 0;
-    const impactedStructures = difference > 5 ? Math.round((difference - 5) * 12) : 0;
-    const evacuationZone = difference > 8 ? Math.round((difference - 8) * 0.5) : 0;
-    return { additionalAcres, impactedStructures, evacuationZone, difference };
-  }, []);
-
-  const floodImpact = calculateFloodImpact(floodLevel);
-
-  const tabs = [
-    { id: 'overview', label: 'Overview', icon: Globe },
-    { id: 'water', label: 'Water Data', icon: Droplets },
-    { id: 'recreation', label: 'Recreation', icon: Tent },
-    { id: 'elevation', label: 'Elevation', icon: Mountain },
-    { id: 'economic', label: 'Economic', icon: TrendingUp },
-    { id: 'planning', label: 'Land Planning', icon: Building2 },
-    { id: 'analysis', label: 'Analysis Tools', icon: BarChart3 },
-  ];
-
-  const renderOverview = () => (
-    <div className="space-y-4">
-      <div className="grid grid-cols-2 gap-3">
-        <StatCard icon={MapPin} label="Location" value="Clayton, OK" sub="Pushmataha County" />
-        <StatCard icon={Droplets} label="Surface Area" value="14,360" sub="acres" />
-        <StatCard icon={Ruler} label="Shoreline" value="117" sub="miles" />
-        <StatCard icon={Mountain} label="Max Depth" value="55.2" sub="feet" />
-        <StatCard icon={Activity} label="Volume" value="274,330" sub="acre-feet" />
-        <StatCard icon={Navigation} label="Drainage" value="275" sub="sq miles" />
-      </div>
-      
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <Database className="w-4 h-4" /> Key Elevations
-        </h4>
-        <div className="space-y-2 text-sm">
-          <div className="flex justify-between">
-            <span className="text-slate-400">Top of Dam</span>
-            <span className="text-slate-200 font-mono">{SARDIS_LAKE_DATA.topOfDamElevation} ft</span>
-          </div>
-          <div className="flex justify-between">
-            <span className="text-slate-400">Flood Stage</span>
-            <span className="text-yellow-400 font-mono">{SARDIS_LAKE_DATA.floodStageElevation} ft</span>
-          </div>
-          <div className="flex justify-between">
-            <span className="text-slate-400">Normal Pool</span>
-            <span className="text-cyan-400 font-mono">{SARDIS_LAKE_DATA.normalPoolElevation} ft</span>
-          </div>
-          <div className="flex justify-between">
-            <span className="text-slate-400">Streambed</span>
-            <span className="text-blue-400 font-mono">{SARDIS_LAKE_DATA.streamBedElevation} ft</span>
-          </div>
-        </div>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <Info className="w-4 h-4" /> Quick Facts
-        </h4>
-        <ul className="space-y-2 text-sm text-slate-300">
-          <li className="flex items-start gap-2">
-            <span className="text-emerald-500 mt-1">•</span>
-            Created in {SARDIS_LAKE_DATA.yearCreated} by damming Jackfork Creek
-          </li>
-          <li className="flex items-start gap-2">
-            <span className="text-emerald-500 mt-1">•</span>
-            Part of the Kiamichi Basin water system
-          </li>
-          <li className="flex items-start gap-2">
-            <span className="text-emerald-500 mt-1">•</span>
-            Managed by {SARDIS_LAKE_DATA.managedBy}
-          </li>
-          <li className="flex items-start gap-2">
-            <span className="text-emerald-500 mt-1">•</span>
-            Primary purpose: Municipal water supply
-          </li>
-        </ul>
-      </div>
-    </div>
-  );
-
-  const renderElevation = () => (
-    <div className="space-y-4">
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <Layers className="w-4 h-4" /> Elevation Contours
-        </h4>
-        <div className="space-y-2">
-          {ELEVATION_CONTOURS.map((contour) => (
-            <div 
-              key={contour.elevation}
-              className={`flex items-center gap-3 p-2 rounded cursor-pointer transition-all ${
-                selectedElevation === contour.elevation 
-                  ? 'bg-slate-700 ring-1 ring-emerald-500' 
-                  : 'hover:bg-slate-700/50'
-              }`}
-              onClick={() => setSelectedElevation(contour.elevation)}
-            >
-              <div 
-                className="w-4 h-4 rounded"
-                style={{ backgroundColor: contour.color }}
-              />
-              <div className="flex-1">
-                <div className="text-slate-200 text-sm font-medium">{contour.label}</div>
-                <div className="text-slate-500 text-xs">{contour.elevation} ft elevation</div>
-              </div>
-              <div className="text-right">
-                <div className="text-slate-400 text-sm font-mono">
-                  {contour.depth > 0 ? `${contour.depth}ft deep` : contour.depth === 0 ? 'Surface' : `+${Math.abs(contour.depth)}ft`}
-                </div>
-              </div>
-            </div>
-          ))}
-        </div>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <AlertTriangle className="w-4 h-4" /> Flood Simulation
-        </h4>
-        <div className="space-y-3">
-          <div>
-            <label className="text-slate-400 text-sm block mb-2">
-              Water Level: <span className="text-cyan-400 font-mono">{floodLevel} ft</span>
-            </label>
-            <input
-              type="range"
-              min="530"
-              max="631"
-              value={floodLevel}
-              onChange={(e) => setFloodLevel(Number(e.target.value))}
-              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
-            />
-            <div className="flex justify-between text-xs text-slate-500 mt-1">
-              <span>530 ft (bed)</span>
-              <span>599 ft (normal)</span>
-              <span>631 ft (dam)</span>
-            </div>
-          </div>
-          
-          {floodLevel > 599 && (
-            <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3 mt-3">
-              <div className="text-yellow-400 text-sm font-semibold mb-2">Flood Impact Analysis</div>
-              <div className="grid grid-cols-2 gap-2 text-sm">
-                <div>
-                  <div className="text-slate-400">Elevation Above Normal</div>
-                  <div className="text-yellow-400 font-mono">+{floodImpact.difference} ft</div>
-                </div>
-                <div>
-                  <div className="text-slate-400">Additional Flooded Area</div>
-                  <div className="text-yellow-400 font-mono">~{floodImpact.additionalAcres} acres</div>
-                </div>
-                <div>
-                  <div className="text-slate-400">Structures at Risk</div>
-                  <div className="text-orange-400 font-mono">{floodImpact.impactedStructures}</div>
-                </div>
-                <div>
-                  <div className="text-slate-400">Evacuation Zone</div>
-                  <div className="text-red-400 font-mono">{floodImpact.evacuationZone} sq mi</div>
-                </div>
-              </div>
-            </div>
-          )}
-        </div>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3">Cross-Section Profile</h4>
-        <div className="h-32 bg-slate-900 rounded relative overflow-hidden">
-          <svg viewBox="0 0 400 100" className="w-full h-full">
-            {/* Dam */}
-            <polygon points="380,20 390,80 370,80" fill="#6b7280" />
-            
-            {/* Lake bed profile */}
-            <path 
-              d="M 20,80 Q 100,85 150,70 T 250,75 T 350,80 L 370,80 L 370,90 L 20,90 Z" 
-              fill="#1a365d"
-            />
-            
-            {/* Water level */}
-            <rect 
-              x="20" y={80 - ((floodLevel - 530) / 101 * 60)} 
-              width="350" height={(floodLevel - 530) / 101 * 60} 
-              fill="#3182ce" opacity="0.6"
-            />
-            
-            {/* Normal pool line */}
-            <line x1="20" y1={80 - ((599 - 530) / 101 * 60)} x2="370" y2={80 - ((599 - 530) / 101 * 60)} 
-              stroke="#90cdf4" strokeWidth="1" strokeDasharray="4 2" />
-            
-            {/* Labels */}
-            <text x="10" y="15" fill="#64c896" fontSize="8">Dam: 631ft</text>
-            <text x="10" y={80 - ((599 - 530) / 101 * 60) - 3} fill="#90cdf4" fontSize="7">Normal: 599ft</text>
-            <text x="10" y="88" fill="#1a365d" fontSize="7">Bed: 530ft</text>
-          </svg>
-        </div>
-      </div>
-    </div>
-  );
-
-  const renderEconomic = () => (
-    <div className="space-y-4">
-      <div className="grid grid-cols-2 gap-3">
-        <StatCard 
-          icon={TrendingUp} 
-          label="Annual Economic Impact" 
-          value={`$${ECONOMIC_DATA.economicImpact}M`} 
-          sub="regional contribution" 
-          highlight
-        />
-        <StatCard 
-          icon={Building2} 
-          label="Direct Jobs" 
-          value={ECONOMIC_DATA.directJobs} 
-          sub={`+${ECONOMIC_DATA.indirectJobs} indirect`}
-        />
-        <StatCard 
-          icon={Droplets} 
-          label="Water Contract Value" 
-          value={`$${ECONOMIC_DATA.waterContractValue}M`} 
-          sub="per year"
-        />
-        <StatCard 
-          icon={Fish} 
-          label="Annual Visitors" 
-          value={ECONOMIC_DATA.annualVisitors.toLocaleString()} 
-          sub="recreational"
-        />
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <BarChart3 className="w-4 h-4" /> Revenue Breakdown
-        </h4>
-        <div className="space-y-3">
-          {[
-            { label: 'Water Sales', value: 12.8, max: 15, color: 'bg-cyan-500' },
-            { label: 'Recreation', value: 4.2, max: 15, color: 'bg-emerald-500' },
-            { label: 'Property Tax', value: 2.4, max: 15, color: 'bg-yellow-500' },
-            { label: 'Permits & Fees', value: 1.8, max: 15, color: 'bg-purple-500' },
-          ].map((item) => (
-            <div key={item.label}>
-              <div className="flex justify-between text-sm mb-1">
-                <span className="text-slate-300">{item.label}</span>
-                <span className="text-slate-400 font-mono">${item.value}M</span>
-              </div>
-              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
-                <div 
-                  className={`h-full ${item.color} rounded-full transition-all duration-500`}
-                  style={{ width: `${(item.value / item.max) * 100}%` }}
-                />
-              </div>
-            </div>
-          ))}
-        </div>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <Building2 className="w-4 h-4" /> Property Analysis
-        </h4>
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <div className="text-slate-400 text-sm">Avg. Lakefront Property</div>
-            <div className="text-xl text-slate-200 font-semibold">${ECONOMIC_DATA.averagePropertyValue.toLocaleString()}</div>
-          </div>
-          <div>
-            <div className="text-slate-400 text-sm">Annual Growth Rate</div>
-            <div className="text-xl text-emerald-400 font-semibold">+{ECONOMIC_DATA.propertyValueGrowth}%</div>
-          </div>
-        </div>
-        
-        <div className="mt-4 p-3 bg-emerald-500/10 border border-emerald-500/30 rounded-lg">
-          <div className="text-emerald-400 text-sm font-medium">Investment Outlook</div>
-          <div className="text-slate-300 text-sm mt-1">
-            Lakefront properties within 1 mile show consistent appreciation above state average
-          </div>
-        </div>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3">Economic Projections (5-Year)</h4>
-        <div className="h-32 bg-slate-900 rounded p-2">
-          <svg viewBox="0 0 300 100" className="w-full h-full">
-            {/* Grid lines */}
-            {[0, 25, 50, 75, 100].map((y) => (
-              <line key={y} x1="30" y1={y} x2="290" y2={y} stroke="#334155" strokeWidth="0.5" />
-            ))}
-            
-            {/* Projection line */}
-            <path 
-              d="M 30,70 L 90,65 L 150,55 L 210,42 L 270,30" 
-              fill="none" 
-              stroke="#10b981" 
-              strokeWidth="2"
-            />
-            
-            {/* Data points */}
-            {[[30,70], [90,65], [150,55], [210,42], [270,30]].map(([x, y], i) => (
-              <circle key={i} cx={x} cy={y} r="4" fill="#10b981" />
-            ))}
-            
-            {/* Labels */}
-            <text x="30" y="95" fill="#94a3b8" fontSize="8">2025</text>
-            <text x="150" y="95" fill="#94a3b8" fontSize="8">2027</text>
-            <text x="270" y="95" fill="#94a3b8" fontSize="8">2030</text>
-            <text x="5" y="75" fill="#94a3b8" fontSize="7">$28M</text>
-            <text x="5" y="35" fill="#94a3b8" fontSize="7">$40M</text>
-          </svg>
-        </div>
-      </div>
-    </div>
-  );
-
-  const renderPlanning = () => (
-    <div className="space-y-4">
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <LayoutGrid className="w-4 h-4" /> Land Use Zones
-        </h4>
-        <div className="space-y-2">
-          {LAND_USE_ZONES.map((zone) => (
-            <div 
-              key={zone.id}
-              className={`flex items-center gap-3 p-2 rounded cursor-pointer transition-all ${
-                selectedZone === zone.id 
-                  ? 'bg-slate-700 ring-1 ring-emerald-500' 
-                  : 'hover:bg-slate-700/50'
-              }`}
-              onClick={() => setSelectedZone(selectedZone === zone.id ? null : zone.id)}
-            >
-              <div 
-                className="w-4 h-4 rounded"
-                style={{ backgroundColor: zone.color }}
-              />
-              <div className="flex-1">
-                <div className="text-slate-200 text-sm">{zone.name}</div>
-              </div>
-              <div className="text-slate-400 text-sm font-mono">
-                {zone.acres.toLocaleString()} ac
-              </div>
-            </div>
-          ))}
-        </div>
-        
-        <button
-          onClick={() => setShowZones(!showZones)}
-          className={`w-full mt-3 py-2 rounded text-sm font-medium transition-all ${
-            showZones 
-              ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500' 
-              : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
-          }`}
-        >
-          {showZones ? 'Hide' : 'Show'} Zones on Map
-        </button>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <FileText className="w-4 h-4" /> Zoning Regulations
-        </h4>
-        <div className="space-y-3 text-sm">
-          <div className="p-3 bg-slate-900 rounded">
-            <div className="text-yellow-400 font-medium">Buffer Zone Requirements</div>
-            <div className="text-slate-400 mt-1">Minimum 100ft setback from normal pool elevation (599ft)</div>
-          </div>
-          <div className="p-3 bg-slate-900 rounded">
-            <div className="text-cyan-400 font-medium">Flood Plain Restrictions</div>
-            <div className="text-slate-400 mt-1">No permanent structures below 610ft elevation</div>
-          </div>
-          <div className="p-3 bg-slate-900 rounded">
-            <div className="text-emerald-400 font-medium">Conservation Easements</div>
-            <div className="text-slate-400 mt-1">8,435 acres designated wildlife habitat</div>
-          </div>
-        </div>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3">Development Potential</h4>
-        <div className="space-y-3">
-          {[
-            { label: 'Developable Shoreline', value: 32, unit: 'miles', status: 'Available' },
-            { label: 'Commercial Zones', value: 4, unit: 'sites', status: 'Permitted' },
-            { label: 'Marina Locations', value: 2, unit: 'approved', status: 'Active' },
-            { label: 'Recreation Expansion', value: 850, unit: 'acres', status: 'Planned' },
-          ].map((item) => (
-            <div key={item.label} className="flex items-center justify-between p-2 bg-slate-900 rounded">
-              <div>
-                <div className="text-slate-200 text-sm">{item.label}</div>
-                <div className="text-slate-500 text-xs">{item.status}</div>
-              </div>
-              <div className="text-emerald-400 font-mono text-sm">
-                {item.value} {item.unit}
-              </div>
-            </div>
-          ))}
-        </div>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <TreePine className="w-4 h-4" /> Environmental Constraints
-        </h4>
-        <div className="space-y-2 text-sm">
-          <div className="flex items-center gap-2 text-slate-300">
-            <div className="w-2 h-2 rounded-full bg-red-500" />
-            Protected wetlands: 1,200 acres
-          </div>
-          <div className="flex items-center gap-2 text-slate-300">
-            <div className="w-2 h-2 rounded-full bg-orange-500" />
-            Critical habitat zones: 3 designated
-          </div>
-          <div className="flex items-center gap-2 text-slate-300">
-            <div className="w-2 h-2 rounded-full bg-yellow-500" />
-            Archaeological sites: 12 registered
-          </div>
-          <div className="flex items-center gap-2 text-slate-300">
-            <div className="w-2 h-2 rounded-full bg-green-500" />
-            Tribal lands buffer: Active agreement
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-
-  const renderWater = () => (
-    <div className="space-y-4">
-      {/* Real-time Weather */}
-      <WeatherWidget
-        lat={SARDIS_LAKE_DATA.coordinates.lat}
-        lng={SARDIS_LAKE_DATA.coordinates.lng}
-        locationName={SARDIS_LAKE_DATA.name}
-      />
-
-      {/* Real-time USGS Water Level Data */}
-      <USGSWaterData
-        siteId={SARDIS_LAKE_DATA.usgsSiteId}
-        siteName={SARDIS_LAKE_DATA.name}
-        normalPoolElevation={SARDIS_LAKE_DATA.normalPoolElevation}
-      />
-
-      {/* Historical Water Levels Chart */}
-      <WaterLevelChart
-        siteId={SARDIS_LAKE_DATA.usgsSiteId}
-        normalPoolElevation={SARDIS_LAKE_DATA.normalPoolElevation}
-        floodStageElevation={SARDIS_LAKE_DATA.floodStageElevation}
-      />
-
-      <div className="grid grid-cols-2 gap-3">
-        <StatCard icon={Activity} label="pH Level" value={WATER_QUALITY.ph} sub="neutral range" />
-        <StatCard icon={Wind} label="Dissolved O₂" value={`${WATER_QUALITY.dissolvedOxygen} mg/L`} sub="healthy" />
-        <StatCard icon={Eye} label="Turbidity" value={`${WATER_QUALITY.turbidity} NTU`} sub="clear" />
-        <StatCard icon={Sun} label="Temperature" value={`${WATER_QUALITY.temperature}°F`} sub="seasonal avg" />
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <div className="flex items-center justify-between mb-3">
-          <h4 className="text-emerald-400 font-semibold flex items-center gap-2">
-            <Droplets className="w-4 h-4" /> Water Quality Index
-          </h4>
-          <span className={`px-2 py-1 rounded text-xs font-medium ${
-            WATER_QUALITY.rating === 'Good' ? 'bg-emerald-500/20 text-emerald-400' :
-            WATER_QUALITY.rating === 'Fair' ? 'bg-yellow-500/20 text-yellow-400' :
-            'bg-red-500/20 text-red-400'
-          }`}>
-            {WATER_QUALITY.rating}
-          </span>
-        </div>
-
-        <div className="space-y-3">
-          {[
-            { label: 'Secchi Depth (Clarity)', value: WATER_QUALITY.secchiDepth, max: 15, unit: 'ft' },
-            { label: 'Chlorophyll-a', value: WATER_QUALITY.chlorophyll, max: 20, unit: 'µg/L' },
-            { label: 'Conductivity', value: WATER_QUALITY.conductivity, max: 500, unit: 'µS/cm' },
-          ].map((item) => (
-            <div key={item.label}>
-              <div className="flex justify-between text-sm mb-1">
-                <span className="text-slate-300">{item.label}</span>
-                <span className="text-slate-400 font-mono">{item.value} {item.unit}</span>
-              </div>
-              <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-cyan-500 rounded-full"
-                  style={{ width: `${(item.value / item.max) * 100}%` }}
-                />
-              </div>
-            </div>
-          ))}
-        </div>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <Database className="w-4 h-4" /> Storage Status
-        </h4>
-        <div className="relative">
-          <div className="h-24 bg-slate-900 rounded-lg overflow-hidden relative">
-            <div
-              className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-cyan-600 to-cyan-400 transition-all duration-500"
-              style={{ height: '97%' }}
-            />
-            <div className="absolute inset-0 flex items-center justify-center">
-              <span className="text-2xl font-bold text-white drop-shadow-lg">96.98%</span>
-            </div>
-          </div>
-          <div className="flex justify-between mt-2 text-xs text-slate-400">
-            <span>Conservation Pool</span>
-            <span className="font-mono">260,840 / 268,875 ac-ft</span>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-
-  const renderRecreation = () => (
-    <div className="space-y-4">
-      {/* Recreation Planner with Sun/Moon Data */}
-      <RecreationPlanner
-        lat={SARDIS_LAKE_DATA.coordinates.lat}
-        lng={SARDIS_LAKE_DATA.coordinates.lng}
-      />
-
-      {/* Fishing Activity Index */}
-      <FishActivityIndex
-        lat={SARDIS_LAKE_DATA.coordinates.lat}
-        lng={SARDIS_LAKE_DATA.coordinates.lng}
-        waterTemp={WATER_QUALITY.temperature}
-      />
-
-      {/* Boat Ramp Status */}
-      <BoatRampStatus
-        currentElevation={598.42}
-        normalPoolElevation={SARDIS_LAKE_DATA.normalPoolElevation}
-      />
-
-      {/* Fish Species */}
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <Fish className="w-4 h-4" /> Fish Species
-        </h4>
-        <div className="grid grid-cols-2 gap-2 text-sm">
-          {[
-            { name: 'Largemouth Bass', season: 'Year-round' },
-            { name: 'Channel Catfish', season: 'Apr-Oct' },
-            { name: 'Blue Catfish', season: 'Year-round' },
-            { name: 'Crappie', season: 'Mar-May' },
-            { name: 'Bluegill', season: 'May-Sep' },
-            { name: 'Striped Bass', season: 'Oct-Mar' },
-          ].map((fish) => (
-            <div key={fish.name} className="flex items-center justify-between p-2 bg-slate-900/50 rounded">
-              <span className="flex items-center gap-2 text-slate-300">
-                <Fish className="w-3 h-3 text-cyan-400" />
-                {fish.name}
-              </span>
-              <span className="text-xs text-slate-500">{fish.season}</span>
-            </div>
-          ))}
-        </div>
-      </div>
-
-      {/* Recreation Areas */}
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <Tent className="w-4 h-4" /> Recreation Areas
-        </h4>
-        <div className="space-y-2">
-          {[
-            { name: 'Potato Hills North', type: 'Camping, Boat Ramp', status: 'Open' },
-            { name: 'Potato Hills South', type: 'Day Use, Picnic', status: 'Open' },
-            { name: 'Sardis Cove Marina', type: 'Full Service Marina', status: 'Open' },
-            { name: 'Billy Creek', type: 'Primitive Camping', status: 'Open' },
-          ].map((area) => (
-            <div key={area.name} className="flex items-center justify-between p-2 bg-slate-900/50 rounded">
-              <div>
-                <div className="text-slate-200 text-sm">{area.name}</div>
-                <div className="text-slate-500 text-xs">{area.type}</div>
-              </div>
-              <span className="px-2 py-0.5 bg-emerald-500/20 text-emerald-400 text-xs rounded">
-                {area.status}
-              </span>
-            </div>
-          ))}
-        </div>
-      </div>
-    </div>
-  );
-
-  const renderAnalysis = () => (
-    <div className="space-y-4">
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <Ruler className="w-4 h-4" /> Measurement Tools
-        </h4>
-        <div className="grid grid-cols-2 gap-2">
-          <button 
-            onClick={() => setAnalysisMode(analysisMode === 'distance' ? null : 'distance')}
-            className={`p-3 rounded text-sm font-medium transition-all flex items-center gap-2 justify-center ${
-              analysisMode === 'distance' 
-                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500' 
-                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
-            }`}
-          >
-            <Ruler className="w-4 h-4" /> Distance
-          </button>
-          <button 
-            onClick={() => setAnalysisMode(analysisMode === 'area' ? null : 'area')}
-            className={`p-3 rounded text-sm font-medium transition-all flex items-center gap-2 justify-center ${
-              analysisMode === 'area' 
-                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500' 
-                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
-            }`}
-          >
-            <LayoutGrid className="w-4 h-4" /> Area
-          </button>
-          <button 
-            onClick={() => setAnalysisMode(analysisMode === 'elevation' ? null : 'elevation')}
-            className={`p-3 rounded text-sm font-medium transition-all flex items-center gap-2 justify-center ${
-              analysisMode === 'elevation' 
-                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500' 
-                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
-            }`}
-          >
-            <Mountain className="w-4 h-4" /> Profile
-          </button>
-          <button 
-            onClick={() => setAnalysisMode(analysisMode === 'viewshed' ? null : 'viewshed')}
-            className={`p-3 rounded text-sm font-medium transition-all flex items-center gap-2 justify-center ${
-              analysisMode === 'viewshed' 
-                ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500' 
-                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
-            }`}
-          >
-            <Eye className="w-4 h-4" /> Viewshed
-          </button>
-        </div>
-        {analysisMode && (
-          <div className="mt-3 p-3 bg-emerald-500/10 border border-emerald-500/30 rounded text-sm text-emerald-400">
-            Click on map to begin {analysisMode} analysis
-          </div>
-        )}
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <BarChart3 className="w-4 h-4" /> Quick Calculations
-        </h4>
-        <div className="space-y-3">
-          <div className="p-3 bg-slate-900 rounded">
-            <div className="text-slate-400 text-xs mb-1">Shoreline per Acre</div>
-            <div className="text-xl text-slate-200 font-mono">
-              {(SARDIS_LAKE_DATA.shorelineLength * 5280 / SARDIS_LAKE_DATA.surfaceArea).toFixed(1)} ft/ac
-            </div>
-          </div>
-          <div className="p-3 bg-slate-900 rounded">
-            <div className="text-slate-400 text-xs mb-1">Average Depth</div>
-            <div className="text-xl text-slate-200 font-mono">
-              {(SARDIS_LAKE_DATA.volume / SARDIS_LAKE_DATA.surfaceArea).toFixed(1)} ft
-            </div>
-          </div>
-          <div className="p-3 bg-slate-900 rounded">
-            <div className="text-slate-400 text-xs mb-1">Runoff to Storage Ratio</div>
-            <div className="text-xl text-slate-200 font-mono">
-              {(SARDIS_LAKE_DATA.drainageArea / (SARDIS_LAKE_DATA.volume / 1000)).toFixed(2)}
-            </div>
-          </div>
-        </div>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <Download className="w-4 h-4" /> Export Options
-        </h4>
-        <div className="space-y-2">
-          <button onClick={exportToPDF} className="w-full p-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors">
-            <FileText className="w-4 h-4" /> Export Report (PDF)
-          </button>
-          <button onClick={exportToCSV} className="w-full p-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors">
-            <Database className="w-4 h-4" /> Export Data (CSV)
-          </button>
-          <button onClick={exportToGeoJSON} className="w-full p-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors">
-            <Map className="w-4 h-4" /> Export Map (GeoJSON)
-          </button>
-          <button onClick={screenshotMap} className="w-full p-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors">
-            <Camera className="w-4 h-4" /> Screenshot Map
-          </button>
-        </div>
-      </div>
-
-      <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
-        <h4 className="text-emerald-400 font-semibold mb-3 flex items-center gap-2">
-          <Share2 className="w-4 h-4" /> Share & Collaborate
-        </h4>
-        <div className="space-y-2">
-          <button onClick={generateShareLink} className="w-full p-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors">
-            <Share2 className="w-4 h-4" /> Generate Share Link
-          </button>
-          <button onClick={saveCurrentView} className="w-full p-2 bg-slate-700 hover:bg-slate-600 rounded text-sm text-slate-300 flex items-center gap-2 justify-center transition-colors">
-            <Bookmark className="w-4 h-4" /> Save Current View
-          </button>
-        </div>
-        {bookmarks.length > 0 && (
-          <div className="mt-3 pt-3 border-t border-slate-700">
-            <div className="text-xs text-slate-400 mb-2">Saved Bookmarks ({bookmarks.length})</div>
-            <div className="space-y-1 max-h-32 overflow-y-auto">
-              {bookmarks.map((bookmark) => (
-                <div key={bookmark.id} className="text-xs text-slate-300 p-1 bg-slate-900 rounded flex justify-between items-center">
-                  <span className="truncate flex-1">{bookmark.name}</span>
-                  <button 
-                    onClick={() => {
-                      setActiveTab(bookmark.tab);
-                      setSelectedElevation(bookmark.elevation);
-                    }}
-                    className="text-emerald-400 hover:text-emerald-300 ml-2"
-                  >
-                    Load
-                  </button>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
-      </div>
-    </div>
-  );
-
-  return (
-    <div className="min-h-screen bg-[#0a0f14] text-slate-200 font-['JetBrains_Mono',_'SF_Mono',_monospace]">
-      {/* Header */}
-      <header className="bg-gradient-to-r from-slate-900/90 via-slate-800/90 to-slate-900/90 backdrop-blur-md border-b border-emerald-500/20 px-4 py-3 sticky top-0 z-50">
-        <div className="flex items-center justify-between max-w-[1800px] mx-auto">
-          <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-emerald-500 to-cyan-600 flex items-center justify-center shadow-lg shadow-emerald-500/20">
-              <Droplets className="w-6 h-6 text-white" />
-            </div>
-            <div>
-              <h1 className="text-lg font-bold text-emerald-400 tracking-tight">LakeScope</h1>
-              <p className="text-xs text-slate-500">Environmental Analysis Platform</p>
-            </div>
-          </div>
-          
-          <div className="flex items-center gap-2">
-            <div className="relative hidden md:block">
-              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
-              <input 
-                type="text"
-                placeholder="Search locations..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="bg-slate-800/50 border border-slate-700 rounded-lg pl-10 pr-4 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:border-emerald-500 w-64"
-              />
-            </div>
-            <button 
-              onClick={() => setShowHelp(!showHelp)}
-              className="p-2 rounded-lg bg-slate-800/50 border border-slate-700 hover:border-emerald-500/50 transition-colors"
-              title="Keyboard Shortcuts (Press ? to toggle)"
-            >
-              <Settings className="w-5 h-5 text-slate-400" />
-            </button>
-          </div>
-        </div>
-      </header>
-
-      {/* Help Modal */}
-      {showHelp && (
-        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[100] flex items-center justify-center p-4" onClick={() => setShowHelp(false)}>
-          <div className="bg-slate-900 border border-slate-700 rounded-lg max-w-2xl w-full p-6 max-h-[80vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-xl font-bold text-emerald-400">Keyboard Shortcuts</h2>
-              <button onClick={() => setShowHelp(false)} className="text-slate-400 hover:text-slate-200">✕</button>
-            </div>
-            <div className="space-y-4">
-              <div>
-                <h3 className="text-sm font-semibold text-emerald-400 mb-2">Map Controls</h3>
-                <div className="space-y-1 text-sm">
-                  <div className="flex justify-between"><span className="text-slate-300">Mouse wheel</span><span className="text-slate-400">Zoom In/Out</span></div>
-                  <div className="flex justify-between"><span className="text-slate-300">Click + Drag</span><span className="text-slate-400">Pan Map</span></div>
-                  <div className="flex justify-between"><span className="text-slate-300">Double-click</span><span className="text-slate-400">Zoom to Point</span></div>
-                </div>
-              </div>
-              <div>
-                <h3 className="text-sm font-semibold text-emerald-400 mb-2">Navigation</h3>
-                <div className="space-y-1 text-sm">
-                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">1</kbd><span className="text-slate-400">Overview Tab</span></div>
-                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">2</kbd><span className="text-slate-400">Elevation Tab</span></div>
-                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">3</kbd><span className="text-slate-400">Economic Tab</span></div>
-                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">4</kbd><span className="text-slate-400">Land Planning Tab</span></div>
-                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">5</kbd><span className="text-slate-400">Water Data Tab</span></div>
-                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">6</kbd><span className="text-slate-400">Analysis Tools Tab</span></div>
-                </div>
-              </div>
-              <div>
-                <h3 className="text-sm font-semibold text-emerald-400 mb-2">Actions</h3>
-                <div className="space-y-1 text-sm">
-                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">Ctrl+E</kbd><span className="text-slate-400">Export CSV</span></div>
-                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">Ctrl+S</kbd><span className="text-slate-400">Save Bookmark</span></div>
-                  <div className="flex justify-between"><kbd className="px-2 py-1 bg-slate-800 rounded">?</kbd><span className="text-slate-400">Toggle Help</span></div>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
-
-      <div className="flex h-[calc(100vh-64px)]">
-        {/* Left Panel - Controls */}
-        <aside className="w-80 bg-slate-900/50 border-r border-slate-800 overflow-y-auto">
-          <div className="p-4">
-            {/* Lake Selector */}
-            <div className="mb-4 p-3 bg-gradient-to-r from-emerald-500/10 to-cyan-500/10 border border-emerald-500/30 rounded-lg">
-              <div className="flex items-center gap-2 mb-1">
-                <MapPin className="w-4 h-4 text-emerald-400" />
-                <span className="text-emerald-400 font-semibold">{SARDIS_LAKE_DATA.name}</span>
-              </div>
-              <div className="text-xs text-slate-400">
-                {SARDIS_LAKE_DATA.county} County, {SARDIS_LAKE_DATA.state}
-              </div>
-            </div>
-
-            {/* Tabs */}
-            <div className="flex flex-wrap gap-1 mb-4">
-              {tabs.map((tab) => (
-                <button
-                  key={tab.id}
-                  onClick={() => setActiveTab(tab.id)}
-                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-all ${
-                    activeTab === tab.id
-                      ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/50'
-                      : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
-                  }`}
-                >
-                  <tab.icon className="w-3.5 h-3.5" />
-                  {tab.label}
-                </button>
-              ))}
-            </div>
-
-            {/* Tab Content */}
-            <div className="space-y-4">
-              {activeTab === 'overview' && renderOverview()}
-              {activeTab === 'water' && renderWater()}
-              {activeTab === 'recreation' && renderRecreation()}
-              {activeTab === 'elevation' && renderElevation()}
-              {activeTab === 'economic' && renderEconomic()}
-              {activeTab === 'planning' && renderPlanning()}
-              {activeTab === 'analysis' && renderAnalysis()}
-            </div>
-          </div>
-        </aside>
-
-        {/* Main Map Area */}
-        <main className="flex-1 relative bg-[#0f1419]">
-          {/* Interactive Leaflet Map */}
-          <LakeMap
-            coordinates={SARDIS_LAKE_DATA.coordinates}
-            lakeName={SARDIS_LAKE_DATA.name}
-            showContours={showContours}
-            showZones={showZones}
-            floodLevel={floodLevel}
-            normalPoolElevation={SARDIS_LAKE_DATA.normalPoolElevation}
-          />
-
-          {/* Layer Toggle */}
-          <div className="absolute top-4 left-4 z-[1001] bg-slate-900/90 backdrop-blur border border-slate-700 rounded-lg p-3">
-            <div className="text-xs text-slate-400 mb-2 font-medium">Map Layers</div>
-            <div className="space-y-2">
-              <label className="flex items-center gap-2 cursor-pointer">
-                <input 
-                  type="checkbox" 
-                  checked={showContours} 
-                  onChange={() => setShowContours(!showContours)}
-                  className="rounded border-slate-600 text-emerald-500 focus:ring-emerald-500 bg-slate-800"
-                />
-                <span className="text-sm text-slate-300">Depth Contours</span>
-              </label>
-              <label className="flex items-center gap-2 cursor-pointer">
-                <input 
-                  type="checkbox" 
-                  checked={showZones} 
-                  onChange={() => setShowZones(!showZones)}
-                  className="rounded border-slate-600 text-emerald-500 focus:ring-emerald-500 bg-slate-800"
-                />
-                <span className="text-sm text-slate-300">Land Use Zones</span>
-              </label>
-            </div>
-          </div>
-
-          {/* Analysis Mode Indicator */}
-          {analysisMode && (
-            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none z-[1001]">
-              <div className="bg-emerald-500/20 border border-emerald-500 rounded-lg px-4 py-2 text-emerald-400 text-sm animate-pulse">
-                {analysisMode.charAt(0).toUpperCase() + analysisMode.slice(1)} Mode Active
-              </div>
-            </div>
-          )}
-        </main>
-      </div>
-    </div>
-  );
-}
-
-// Stat Card Component
-function StatCard({ icon: Icon, label, value, sub, highlight }: {
-  icon: React.ComponentType<{ className?: string }>;
-  label: string;
-  value: string | number;
-  sub?: string;
-  highlight?: boolean;
+import { redirect } from 'next/navigation';
+import { DEFAULT_LAKE_SLUG } from './lib/lakes';
+
+// The platform lives at /lakes/[slug]; keep any query string (e.g. share links)
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }) {
-  return (
-    <div className={`p-3 rounded-lg border transition-all ${
-      highlight 
-        ? 'bg-gradient-to-br from-emerald-500/10 to-cyan-500/10 border-emerald-500/30' 
-        : 'bg-slate-800/50 border-slate-700'
-    }`}>
-      <div className="flex items-center gap-2 mb-1">
-        <Icon className={`w-4 h-4 ${highlight ? 'text-emerald-400' : 'text-slate-500'}`} />
-        <span className="text-slate-400 text-xs">{label}</span>
-      </div>
-      <div className={`text-lg font-semibold ${highlight ? 'text-emerald-400' : 'text-slate-200'}`}>
-        {value}
-      </div>
-      {sub && <div className="text-slate-500 text-xs">{sub}</div>}
-    </div>
-  );
+  const params = new URLSearchParams();
+  Object.entries(await searchParams).forEach(([key, value]) => {
+    [value ?? []].flat().forEach(v => params.append(key, v));
+  });
+  const query = params.toString();
+  redirect(`/lakes/${DEFAULT_LAKE_SLUG}${query ? `?${query}` : ''}`);
 }